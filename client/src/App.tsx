@@ -19,6 +19,12 @@ import Analytics from "./pages/Analytics";
 import TemplateBuilder from "./pages/templates/TemplateBuilder";
 import TemplateList from "./pages/templates/TemplateList";
 import ExcelTemplates from "./pages/ExcelTemplates";
+import Delegations from "./pages/Delegations";
+import NotificationSettings from "./pages/NotificationSettings";
+import Inbox from "./pages/Inbox";
+import RecurringWorkflows from "./pages/admin/RecurringWorkflows";
+import EmailOutbox from "./pages/admin/EmailOutbox";
+import EmailTemplates from "./pages/admin/EmailTemplates";
 import { Loader2 } from "lucide-react";
 
 function ProtectedRoute({ component: Component, ...rest }: { component: React.ComponentType<any>; path: string }) {
@@ -87,6 +93,24 @@ function Router() {
       <Route path="/admin/excel-templates">
         <ProtectedRoute component={ExcelTemplates} path="/admin/excel-templates" />
       </Route>
+      <Route path="/admin/recurring-workflows">
+        <ProtectedRoute component={RecurringWorkflows} path="/admin/recurring-workflows" />
+      </Route>
+      <Route path="/admin/email-outbox">
+        <ProtectedRoute component={EmailOutbox} path="/admin/email-outbox" />
+      </Route>
+      <Route path="/admin/email-templates">
+        <ProtectedRoute component={EmailTemplates} path="/admin/email-templates" />
+      </Route>
+      <Route path="/inbox">
+        <ProtectedRoute component={Inbox} path="/inbox" />
+      </Route>
+      <Route path="/delegations">
+        <ProtectedRoute component={Delegations} path="/delegations" />
+      </Route>
+      <Route path="/settings/notifications">
+        <ProtectedRoute component={NotificationSettings} path="/settings/notifications" />
+      </Route>
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
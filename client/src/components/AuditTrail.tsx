@@ -12,7 +12,9 @@ import {
   User, 
   Settings,
   Clock,
-  AlertCircle
+  AlertCircle,
+  RotateCcw,
+  Eye
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -20,6 +22,11 @@ interface AuditTrailProps {
   workflowId: string;
 }
 
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
 export function AuditTrail({ workflowId }: AuditTrailProps) {
   const { data: auditLogs, isLoading } = trpc.auditLogs.getByEntity.useQuery({
     entityType: "workflow",
@@ -46,7 +53,17 @@ export function AuditTrail({ workflowId }: AuditTrailProps) {
       case "status_changed":
         return <Settings className="h-4 w-4 text-orange-500" />;
       case "role_changed":
+      case "reassigned":
         return <User className="h-4 w-4 text-indigo-500" />;
+      case "amended":
+        return <Settings className="h-4 w-4 text-orange-500" />;
+      case "returned":
+        return <RotateCcw className="h-4 w-4 text-yellow-600" />;
+      case "escalated":
+        return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case "watcher_added":
+      case "watcher_removed":
+        return <Eye className="h-4 w-4 text-indigo-500" />;
       case "discontinued":
       case "archived":
         return <AlertCircle className="h-4 w-4 text-yellow-500" />;
@@ -73,9 +90,14 @@ export function AuditTrail({ workflowId }: AuditTrailProps) {
         return "bg-blue-100 text-blue-800 border-blue-300";
       case "updated":
       case "status_changed":
+      case "amended":
         return "bg-orange-100 text-orange-800 border-orange-300";
       case "role_changed":
+      case "reassigned":
         return "bg-indigo-100 text-indigo-800 border-indigo-300";
+      case "escalated":
+        return "bg-red-100 text-red-800 border-red-300";
+      case "returned":
       case "discontinued":
       case "archived":
         return "bg-yellow-100 text-yellow-800 border-yellow-300";
@@ -162,25 +184,19 @@ export function AuditTrail({ workflowId }: AuditTrailProps) {
                     )}
                   </div>
                   
-                  {/* Show old/new values if they exist */}
+                  {/* Show a field-level diff if old/new values exist */}
                   {(log.oldValues || log.newValues) && (
                     <div className="mt-2 p-2 bg-muted rounded-md text-xs space-y-1">
-                      {log.oldValues && Object.keys(log.oldValues).length > 0 && (
-                        <div>
-                          <span className="font-semibold">Previous: </span>
-                          <span className="text-muted-foreground">
-                            {JSON.stringify(log.oldValues)}
-                          </span>
-                        </div>
-                      )}
-                      {log.newValues && Object.keys(log.newValues).length > 0 && (
-                        <div>
-                          <span className="font-semibold">Updated: </span>
-                          <span className="text-muted-foreground">
-                            {JSON.stringify(log.newValues)}
+                      {Array.from(new Set([...Object.keys(log.oldValues || {}), ...Object.keys(log.newValues || {})])).map((field) => (
+                        <div key={field}>
+                          <span className="font-semibold">{field}: </span>
+                          <span className="text-muted-foreground line-through">
+                            {formatAuditValue(log.oldValues?.[field])}
                           </span>
+                          <span className="mx-1">→</span>
+                          <span>{formatAuditValue(log.newValues?.[field])}</span>
                         </div>
-                      )}
+                      ))}
                     </div>
                   )}
                 </div>
@@ -27,6 +27,7 @@ import { useLocation } from "wouter";
 import { DashboardLayoutSkeleton } from './DashboardLayoutSkeleton';
 import { Button } from "./ui/button";
 import { HelpButton } from './HelpButton';
+import { NotificationBell } from './NotificationBell';
 
 const menuItems = [
   { icon: LayoutDashboard, label: "Page 1", path: "/" },
@@ -177,6 +178,11 @@ function DashboardLayoutContent({
                   </span>
                 </div>
               ) : null}
+              {!isCollapsed && !isMobile ? (
+                <div className="ml-auto">
+                  <NotificationBell />
+                </div>
+              ) : null}
             </div>
           </SidebarHeader>
 
@@ -268,6 +274,7 @@ function DashboardLayoutContent({
                 </div>
               </div>
             </div>
+            <NotificationBell />
           </div>
         )}
         <main className="flex-1 p-4">{children}</main>
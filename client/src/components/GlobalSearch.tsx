@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Kbd } from "@/components/ui/kbd";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { FileText, Loader2, MessageSquare, Paperclip, Search, ClipboardList } from "lucide-react";
+import type { SearchSourceType, SnippetSegment } from "@shared/workflowSearch";
+
+const SOURCE_LABELS: Record<SearchSourceType, { label: string; icon: typeof FileText }> = {
+  workflow: { label: "Workflow", icon: FileText },
+  comment: { label: "Comment", icon: MessageSquare },
+  form: { label: "Form data", icon: ClipboardList },
+  file: { label: "Attachment", icon: Paperclip },
+};
+
+function Snippet({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <span className="text-xs text-muted-foreground line-clamp-2">
+      {segments.map((segment, i) =>
+        segment.highlight ? (
+          <mark key={i} className="bg-yellow-200 text-foreground rounded-sm px-0.5 dark:bg-yellow-700">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+/**
+ * Search box over workflows, comments, form data and attachment names.
+ * Opens from its button or with Ctrl/Cmd+K.
+ */
+export function GlobalSearch() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isFetching } = trpc.search.query.useQuery(
+    { query: debouncedQuery },
+    { enabled: open && debouncedQuery.length >= 2, placeholderData: (previous) => previous }
+  );
+
+  const results = debouncedQuery.length >= 2 ? data?.results || [] : [];
+
+  const openResult = (workflowId: string) => {
+    setOpen(false);
+    setLocation(`/workflows/${workflowId}`);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Search className="h-4 w-4 mr-2" />
+        Search
+        <Kbd className="ml-2">Ctrl K</Kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search workflows</DialogTitle>
+          <DialogDescription>Search titles, descriptions, comments, form data and attachment names</DialogDescription>
+        </DialogHeader>
+        <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder='Search workflows, comments, form data, files… (use "quotes" for phrases)'
+            />
+            <CommandList className="max-h-[420px]">
+              {isFetching && results.length === 0 && (
+                <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Searching...
+                </div>
+              )}
+              {!isFetching && debouncedQuery.length >= 2 && (
+                <CommandEmpty>No matches found.</CommandEmpty>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading={`${results.length} match${results.length === 1 ? "" : "es"}`}>
+                  {results.map((result) => {
+                    const source = SOURCE_LABELS[result.sourceType];
+                    const Icon = source.icon;
+                    return (
+                      <CommandItem
+                        key={result.documentId}
+                        value={result.documentId}
+                        onSelect={() => openResult(result.workflowId)}
+                        className="flex items-start gap-3"
+                      >
+                        <Icon className="h-4 w-4 mt-1 shrink-0" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-xs text-muted-foreground">{result.workflowNumber}</span>
+                            <span className="font-medium truncate">{result.title}</span>
+                            <Badge variant="outline" className="ml-auto shrink-0">
+                              {source.label}
+                            </Badge>
+                          </div>
+                          <Snippet segments={result.snippet} />
+                        </div>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { useRef, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { findMentionCandidates, getMentionQuery, insertMention, type MentionCandidate } from "@shared/mentions";
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: MentionCandidate[];
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Textarea that suggests users after "@" and inserts them as mentions
+ */
+export function MentionTextarea({ value, onChange, users, placeholder, rows = 3, disabled }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number; caret: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const candidates = mention ? findMentionCandidates(users, mention.query) : [];
+
+  const updateMention = (text: string, caret: number) => {
+    const found = getMentionQuery(text, caret);
+    setMention(found ? { ...found, caret } : null);
+    setHighlighted(0);
+  };
+
+  const choose = (user: MentionCandidate) => {
+    if (!mention) return;
+    const result = insertMention(value, mention.start, mention.caret, {
+      id: user.id,
+      name: user.fullName || user.email,
+    });
+    onChange(result.text);
+    setMention(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (candidates.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % candidates.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + candidates.length) % candidates.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      choose(candidates[highlighted]);
+    } else if (e.key === "Escape") {
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        disabled={disabled}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+      />
+      {candidates.length > 0 && (
+        <div className="absolute z-50 mt-1 w-72 rounded-md border bg-popover p-1 shadow-md">
+          {candidates.map((user, i) => (
+            <button
+              key={user.id}
+              type="button"
+              className={cn(
+                "flex w-full flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm",
+                i === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(user);
+              }}
+            >
+              <span className="font-medium">{user.fullName || user.email}</span>
+              <span className="text-xs text-muted-foreground">{user.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, AtSign, Bell, CheckCircle, Clock, Loader2, MessageSquare, Settings, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { NOTIFICATION_TYPE_LABELS, formatUnreadCount, type NotificationType } from "@shared/notifications";
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  stage_assigned: Clock,
+  stage_approved: CheckCircle,
+  stage_rejected: XCircle,
+  comment: MessageSquare,
+  mention: AtSign,
+  sla_breach: AlertTriangle,
+};
+
+/**
+ * Bell showing the unread count, with the latest notifications in a dropdown.
+ * Opening a notification marks it read and goes to its workflow.
+ */
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const { data: unreadCount = 0 } = trpc.notifications.unreadCount.useQuery(undefined, {
+    refetchInterval: 1000 * 60, // Pick up new notifications every minute
+  });
+  const { data: notifications, isLoading } = trpc.notifications.list.useQuery();
+
+  const refresh = () => {
+    utils.notifications.unreadCount.invalidate();
+    utils.notifications.list.invalidate();
+  };
+
+  const markRead = trpc.notifications.markRead.useMutation({ onSuccess: refresh });
+  const markAllRead = trpc.notifications.markAllRead.useMutation({ onSuccess: refresh });
+
+  const badge = formatUnreadCount(unreadCount);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && refresh()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {badge && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {badge}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              disabled={markAllRead.isPending}
+              onClick={() => markAllRead.mutate()}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : notifications && notifications.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type];
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={cn("items-start gap-2 cursor-pointer", !notification.readAt && "bg-accent/40")}
+                  onClick={() => {
+                    if (!notification.readAt) markRead.mutate({ ids: [notification.id] });
+                    if (notification.workflowId) setLocation(`/workflows/${notification.workflowId}`);
+                  }}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <p className={cn("text-sm leading-snug", !notification.readAt && "font-medium")}>
+                      {notification.title}
+                    </p>
+                    {notification.message && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {NOTIFICATION_TYPE_LABELS[notification.type]} ·{" "}
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.readAt && <span className="h-2 w-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="py-6 text-center text-sm text-muted-foreground">You're all caught up</div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="cursor-pointer" onClick={() => setLocation("/settings/notifications")}>
+          <Settings className="h-4 w-4 text-muted-foreground" />
+          Email settings
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
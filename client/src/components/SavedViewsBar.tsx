@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Bookmark, Loader2, Save, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getSavedViewColumns,
+  getSavedViewFilters,
+  type SavedViewVisibility,
+  type WorkflowListColumn,
+} from "@shared/savedViews";
+import type { WorkflowListFilters } from "@shared/workflowListFilters";
+
+interface SavedViewsBarProps {
+  filters: WorkflowListFilters;
+  visibleColumns: WorkflowListColumn[];
+  userDepartment: string | null;
+  onApply: (filters: WorkflowListFilters, visibleColumns: WorkflowListColumn[]) => void;
+}
+
+/**
+ * Pick, save, update and delete saved views of the workflow list
+ */
+export function SavedViewsBar({ filters, visibleColumns, userDepartment, onApply }: SavedViewsBarProps) {
+  const [activeViewId, setActiveViewId] = useState<string>("");
+  const [dialogMode, setDialogMode] = useState<"create" | "update" | null>(null);
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<SavedViewVisibility>("private");
+
+  const utils = trpc.useUtils();
+  const { data: views } = trpc.savedViews.list.useQuery();
+  const activeView = views?.find((view) => view.id === activeViewId);
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setDialogMode(null);
+    utils.savedViews.list.invalidate();
+  };
+
+  const createView = trpc.savedViews.create.useMutation({
+    onSuccess: (view) => {
+      setActiveViewId(view.id);
+      onSaved("View saved");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateView = trpc.savedViews.update.useMutation({
+    onSuccess: () => onSaved("View updated"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteView = trpc.savedViews.delete.useMutation({
+    onSuccess: () => {
+      toast.success("View deleted");
+      setActiveViewId("");
+      utils.savedViews.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const selectView = (viewId: string) => {
+    const view = views?.find((v) => v.id === viewId);
+    if (!view) return;
+    setActiveViewId(viewId);
+    onApply({ ...getSavedViewFilters(view), page: 1 }, getSavedViewColumns(view.visibleColumns));
+  };
+
+  const openDialog = (mode: "create" | "update") => {
+    setName(mode === "update" && activeView ? activeView.name : "");
+    setVisibility(mode === "update" && activeView ? activeView.visibility : "private");
+    setDialogMode(mode);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name for the view");
+      return;
+    }
+
+    const { page, sortBy, sortDirection, ...viewFilters } = filters;
+    const fields = {
+      name: name.trim(),
+      filters: viewFilters,
+      sortBy,
+      sortDirection,
+      visibleColumns,
+      visibility,
+      // Admins keep the department a view was shared with; others share with their own
+      department: activeView && dialogMode === "update" ? activeView.department || undefined : undefined,
+    };
+
+    if (dialogMode === "update" && activeView) {
+      updateView.mutate({ id: activeView.id, ...fields });
+    } else {
+      createView.mutate(fields);
+    }
+  };
+
+  const isSaving = createView.isPending || updateView.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Bookmark className="h-4 w-4 text-muted-foreground" />
+      <Select value={activeViewId} onValueChange={selectView}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Saved views" />
+        </SelectTrigger>
+        <SelectContent>
+          {views?.length === 0 && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</div>
+          )}
+          {views?.map((view) => (
+            <SelectItem key={view.id} value={view.id}>
+              {view.name}
+              {view.visibility === "department" && ` · ${view.department}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {activeView && activeView.visibility === "department" && !activeView.canManage && (
+        <Badge variant="outline">
+          <Users className="h-3 w-3 mr-1" />
+          Shared by {activeView.ownerName}
+        </Badge>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => openDialog("create")}>
+        <Save className="h-4 w-4 mr-2" />
+        Save View
+      </Button>
+      {activeView?.canManage && (
+        <>
+          <Button variant="outline" size="sm" onClick={() => openDialog("update")}>
+            Update View
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            disabled={deleteView.isPending}
+            onClick={() => deleteView.mutate({ id: activeView.id })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "update" ? "Update View" : "Save View"}</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sort order and columns
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="viewName">Name</Label>
+              <Input
+                id="viewName"
+                placeholder="e.g., Over 50M, in progress"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="viewVisibility">Visible to</Label>
+              <Select value={visibility} onValueChange={(v) => setVisibility(v as SavedViewVisibility)}>
+                <SelectTrigger id="viewVisibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="private">Only me</SelectItem>
+                  <SelectItem value="department" disabled={!userDepartment && !activeView?.department}>
+                    Everyone in {(dialogMode === "update" && activeView?.department) || userDepartment || "my department"}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogMode(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
+import { trpc } from "@/lib/trpc";
 
 interface TemplateStage {
   id: string;
@@ -27,6 +28,16 @@ interface TemplateStage {
   notificationEmails?: string[];
   visibleToDepartments?: string[];
   approvalThreshold?: number;
+  parallelGroup?: string;
+  minApprovals?: number;
+  rejectionPolicy?: "any" | "quorum_unreachable";
+  slaHours?: number;
+  escalationRole?: string;
+  escalationUserId?: number;
+  escalationAction?: "notify" | "add_approver" | "reassign";
+  assignmentMode?: "role" | "fixed" | "requester" | "round_robin" | "least_loaded";
+  assigneeId?: number;
+  reapprovalRule?: "threshold_crossed" | "amount_increase" | "any_change" | "never";
 }
 
 interface StageEditorProps {
@@ -65,6 +76,7 @@ const ROLES = [
 export function StageEditor({ stage, onSave, onCancel }: StageEditorProps) {
   const [formData, setFormData] = useState<TemplateStage>(stage);
   const [emailInput, setEmailInput] = useState("");
+  const { data: users } = trpc.users.getAll.useQuery();
   const [selectedRoles, setSelectedRoles] = useState<string[]>(stage.requiresOneOf || []);
   const [selectedVisibleDepts, setSelectedVisibleDepts] = useState<string[]>(
     stage.visibleToDepartments || []
@@ -75,6 +87,10 @@ export function StageEditor({ stage, onSave, onCancel }: StageEditorProps) {
       alert("Please enter a stage name");
       return;
     }
+    if (formData.assignmentMode === "fixed" && !formData.assigneeId) {
+      alert("Please select an assignee");
+      return;
+    }
     onSave({
       ...formData,
       requiresOneOf: selectedRoles.length > 0 ? selectedRoles : undefined,
@@ -222,6 +238,45 @@ export function StageEditor({ stage, onSave, onCancel }: StageEditorProps) {
                 ))}
               </div>
             </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="minApprovals">Approvals Needed</Label>
+                <Input
+                  id="minApprovals"
+                  type="number"
+                  min={1}
+                  value={formData.minApprovals || 1}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      minApprovals: Math.max(1, parseInt(e.target.value) || 1),
+                    })
+                  }
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Distinct approvers required, e.g. 2 of 3 directors
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="rejectionPolicy">When Someone Rejects</Label>
+                <Select
+                  value={formData.rejectionPolicy || "any"}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, rejectionPolicy: value as TemplateStage["rejectionPolicy"] })
+                  }
+                >
+                  <SelectTrigger id="rejectionPolicy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Reject the stage immediately</SelectItem>
+                    <SelectItem value="quorum_unreachable">Reject only if quorum can no longer be reached</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </div>
 
           {/* Stage Visibility */}
@@ -288,6 +343,21 @@ export function StageEditor({ stage, onSave, onCancel }: StageEditorProps) {
               </Label>
             </div>
 
+            <div>
+              <Label htmlFor="parallelGroup">Parallel Group</Label>
+              <Input
+                id="parallelGroup"
+                placeholder="e.g., review"
+                value={formData.parallelGroup || ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, parallelGroup: e.target.value.trim() || undefined })
+                }
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Adjacent stages with the same group start together; the next stage starts once all of them are completed
+              </p>
+            </div>
+
             <div>
               <Label htmlFor="approvalThreshold">Approval Threshold (Amount)</Label>
               <Input
@@ -306,6 +376,179 @@ export function StageEditor({ stage, onSave, onCancel }: StageEditorProps) {
                 Only require this stage if workflow amount exceeds this threshold
               </p>
             </div>
+
+            <div>
+              <Label htmlFor="reapprovalRule">Re-approve After Amendment</Label>
+              <Select
+                value={formData.reapprovalRule || "threshold_crossed"}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, reapprovalRule: value as TemplateStage["reapprovalRule"] })
+                }
+              >
+                <SelectTrigger id="reapprovalRule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="threshold_crossed">When the amount rises past the threshold</SelectItem>
+                  <SelectItem value="amount_increase">When the amount increases</SelectItem>
+                  <SelectItem value="any_change">On any change</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Whether an approval already given by this stage must be repeated when the requester amends the workflow
+              </p>
+            </div>
+          </div>
+
+          {/* Assignment */}
+          <div className="space-y-4">
+            <h4 className="font-medium">Assignment</h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="assignmentMode">Assign To</Label>
+                <Select
+                  value={formData.assignmentMode || "role"}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      assignmentMode: value as TemplateStage["assignmentMode"],
+                      assigneeId: value === "fixed" ? formData.assigneeId : undefined,
+                    })
+                  }
+                  disabled={(formData.minApprovals || 1) > 1}
+                >
+                  <SelectTrigger id="assignmentMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="role">Everyone with the role</SelectItem>
+                    <SelectItem value="fixed">A specific user</SelectItem>
+                    <SelectItem value="requester">Chosen by the requester</SelectItem>
+                    <SelectItem value="round_robin">Round-robin within the role</SelectItem>
+                    <SelectItem value="least_loaded">Least-loaded within the role</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Stages needing more than one approval stay with the whole role
+                </p>
+              </div>
+
+              {formData.assignmentMode === "fixed" && (
+                <div>
+                  <Label htmlFor="assignee">Assignee</Label>
+                  <Select
+                    value={formData.assigneeId?.toString() || ""}
+                    onValueChange={(value) => setFormData({ ...formData, assigneeId: parseInt(value) })}
+                  >
+                    <SelectTrigger id="assignee">
+                      <SelectValue placeholder="Select user" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users
+                        ?.filter((u) => u.isActive && (!formData.requiredRole || u.role === formData.requiredRole))
+                        .map((u) => (
+                          <SelectItem key={u.id} value={u.id.toString()}>
+                            {u.fullName || u.email} ({u.role})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* SLA & Escalation */}
+          <div className="space-y-4">
+            <h4 className="font-medium">SLA & Escalation</h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="slaHours">SLA (Hours)</Label>
+                <Input
+                  id="slaHours"
+                  type="number"
+                  min={1}
+                  placeholder="e.g., 48"
+                  value={formData.slaHours || ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      slaHours: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : undefined,
+                    })
+                  }
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave empty for no deadline
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="escalationAction">On Breach</Label>
+                <Select
+                  value={formData.escalationAction || "notify"}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, escalationAction: value as TemplateStage["escalationAction"] })
+                  }
+                  disabled={!formData.slaHours}
+                >
+                  <SelectTrigger id="escalationAction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="notify">Notify escalation target</SelectItem>
+                    <SelectItem value="add_approver">Add target as approver</SelectItem>
+                    <SelectItem value="reassign">Reassign stage to target</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="escalationRole">Escalate to Role</Label>
+                <Select
+                  value={formData.escalationRole || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, escalationRole: value === "none" ? undefined : value })}
+                  disabled={!formData.slaHours}
+                >
+                  <SelectTrigger id="escalationRole">
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="escalationUser">Escalate to User</Label>
+                <Select
+                  value={formData.escalationUserId?.toString() || "none"}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, escalationUserId: value === "none" ? undefined : parseInt(value) })
+                  }
+                  disabled={!formData.slaHours}
+                >
+                  <SelectTrigger id="escalationUser">
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {users?.filter((u) => u.isActive).map((u) => (
+                      <SelectItem key={u.id} value={u.id.toString()}>
+                        {u.fullName || u.email} ({u.role})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </div>
 
           {/* Email Notifications */}
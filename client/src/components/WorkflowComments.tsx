@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, History, Loader2, MessageSquare, Pencil, Reply, Send, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { MentionTextarea } from "@/components/MentionTextarea";
+import { MENTION_ACCESS_DAYS, extractMentionIds, splitMentions, type MentionCandidate } from "@shared/mentions";
+import { buildCommentThreads, type CommentThread } from "@shared/commentThreads";
+
+interface WorkflowCommentsProps {
+  workflowId: string;
+}
+
+function CommentBody({ text }: { text: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {splitMentions(text).map((segment, i) =>
+        segment.type === "mention" ? (
+          <span key={i} className="font-medium text-primary">
+            @{segment.name}
+          </span>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+type CommentItem = inferRouterOutputs<AppRouter>["comments"]["getByWorkflow"][number];
+
+// Deeper replies are still shown, just without further indentation
+const MAX_THREAD_INDENT = 4;
+
+function CommentRevisionsDialog({ commentId, onClose }: { commentId: string | null; onClose: () => void }) {
+  const { data: revisions, isLoading } = trpc.comments.getRevisions.useQuery(
+    { commentId: commentId || "" },
+    { enabled: !!commentId }
+  );
+
+  return (
+    <Dialog open={!!commentId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Comment History</DialogTitle>
+          <DialogDescription>Text of the comment before each change, newest first</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {(revisions || []).map((revision) => (
+              <div key={revision.id} className="rounded-md border p-3 space-y-1">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant={revision.action === "deleted" ? "destructive" : "outline"} className="text-xs">
+                    {revision.action}
+                  </Badge>
+                  <span>by {revision.changedByName}</span>
+                  <span className="ml-auto">{format(new Date(revision.createdAt), "MMM d, yyyy HH:mm")}</span>
+                </div>
+                <CommentBody text={revision.previousText} />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CommentNodeProps {
+  comment: CommentThread<CommentItem>;
+  depth: number;
+  users: MentionCandidate[];
+  workflowId: string;
+  onShowHistory: (commentId: string) => void;
+}
+
+function CommentNode({ comment, depth, users, workflowId, onShowHistory }: CommentNodeProps) {
+  const [mode, setMode] = useState<"reply" | "edit" | null>(null);
+  const [draft, setDraft] = useState("");
+  const utils = trpc.useUtils();
+
+  const onSaved = (message: string) => {
+    setMode(null);
+    setDraft("");
+    utils.comments.getByWorkflow.invalidate({ workflowId });
+    toast.success(message);
+  };
+
+  const createReply = trpc.comments.create.useMutation({
+    onSuccess: () => onSaved("Reply posted"),
+    onError: (error) => toast.error(error.message),
+  });
+  const updateComment = trpc.comments.update.useMutation({
+    onSuccess: () => onSaved("Comment updated"),
+    onError: (error) => toast.error(error.message),
+  });
+  const deleteComment = trpc.comments.delete.useMutation({
+    onSuccess: () => onSaved("Comment deleted"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const isPending = createReply.isPending || updateComment.isPending;
+  const deleted = !!comment.deletedAt;
+
+  const submit = () => {
+    const text = draft.trim();
+    if (mode === "edit") {
+      updateComment.mutate({ id: comment.id, commentText: text });
+    } else {
+      createReply.mutate({ workflowId, parentCommentId: comment.id, commentText: text });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-md border p-3 space-y-1">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{comment.authorName}</span>
+          {comment.commentType && comment.commentType !== "general" && (
+            <Badge variant="outline" className="text-xs">
+              {comment.commentType.replace(/_/g, " ")}
+            </Badge>
+          )}
+          {comment.editedAt && !deleted && <span className="text-xs text-muted-foreground">(edited)</span>}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {format(new Date(comment.createdAt), "MMM d, yyyy HH:mm")}
+          </span>
+        </div>
+        {deleted ? (
+          <p className="text-sm italic text-muted-foreground">This comment was deleted</p>
+        ) : (
+          <CommentBody text={comment.commentText} />
+        )}
+        <div className="flex items-center gap-1 -ml-2">
+          {!deleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => {
+                setMode("reply");
+                setDraft("");
+              }}
+            >
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {comment.canChange && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => {
+                  setMode("edit");
+                  setDraft(comment.commentText);
+                }}
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={deleteComment.isPending}
+                onClick={() => {
+                  if (confirm("Delete this comment? Replies will stay in the thread.")) {
+                    deleteComment.mutate({ id: comment.id });
+                  }
+                }}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete
+              </Button>
+            </>
+          )}
+          {comment.revisionCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onShowHistory(comment.id)}>
+              <History className="h-3 w-3 mr-1" />
+              History ({comment.revisionCount})
+            </Button>
+          )}
+        </div>
+        {mode && (
+          <div className="space-y-2 pt-1">
+            <MentionTextarea
+              value={draft}
+              onChange={setDraft}
+              users={users}
+              rows={2}
+              placeholder={mode === "edit" ? "Edit comment..." : "Write a reply..."}
+              disabled={isPending}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMode(null)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button size="sm" disabled={!draft.trim() || isPending} onClick={submit}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {mode === "edit" ? "Save" : "Reply"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+      {comment.replies.length > 0 && (
+        <div className={depth < MAX_THREAD_INDENT ? "ml-6 border-l pl-3 space-y-2" : "space-y-2"}>
+          {comment.replies.map((reply) => (
+            <CommentNode
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              users={users}
+              workflowId={workflowId}
+              onShowHistory={onShowHistory}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowComments({ workflowId }: WorkflowCommentsProps) {
+  const [commentText, setCommentText] = useState("");
+  const [historyCommentId, setHistoryCommentId] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: comments, isLoading } = trpc.comments.getByWorkflow.useQuery({ workflowId });
+  const { data: users } = trpc.users.getAll.useQuery();
+
+  // Warn about mentioned users who can't see the workflow yet
+  const mentionIds = extractMentionIds(commentText);
+  const { data: mentionChecks } = trpc.comments.checkMentions.useQuery(
+    { workflowId, userIds: mentionIds },
+    { enabled: mentionIds.length > 0 }
+  );
+  const withoutAccess = mentionIds.length > 0
+    ? (mentionChecks || []).filter((m) => mentionIds.includes(m.userId) && m.isActive && !m.hasAccess)
+    : [];
+
+  const createComment = trpc.comments.create.useMutation({
+    onSuccess: (comment) => {
+      setCommentText("");
+      utils.comments.getByWorkflow.invalidate({ workflowId });
+      if (comment.grantedAccess.length > 0) {
+        toast.success(
+          `Comment posted. ${comment.grantedAccess.map((g) => g.name).join(", ")} can view this workflow for ${MENTION_ACCESS_DAYS} days.`
+        );
+      } else {
+        toast.success("Comment posted");
+      }
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const activeUsers = (users || []).filter((u) => u.isActive);
+  const threads = buildCommentThreads(comments || []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Discussion</CardTitle>
+        <CardDescription>Type @ to mention a colleague; they will be notified by email</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <MentionTextarea
+            value={commentText}
+            onChange={setCommentText}
+            users={activeUsers}
+            placeholder="Add a comment..."
+            disabled={createComment.isPending}
+          />
+          {withoutAccess.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-2 text-xs text-yellow-800 dark:bg-yellow-950/20">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              <span>
+                {withoutAccess.map((m) => m.name).join(", ")} can't see this workflow yet. Mentioning them gives read
+                access for {MENTION_ACCESS_DAYS} days.
+              </span>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              disabled={!commentText.trim() || createComment.isPending}
+              onClick={() => createComment.mutate({ workflowId, commentText: commentText.trim() })}
+            >
+              {createComment.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Post Comment
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : threads.length > 0 ? (
+          <div className="space-y-3">
+            {threads.map((thread) => (
+              <CommentNode
+                key={thread.id}
+                comment={thread}
+                depth={0}
+                users={activeUsers}
+                workflowId={workflowId}
+                onShowHistory={setHistoryCommentId}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-sm text-muted-foreground">
+            <MessageSquare className="h-6 w-6 mx-auto mb-2" />
+            No comments yet
+          </div>
+        )}
+      </CardContent>
+      <CommentRevisionsDialog commentId={historyCommentId} onClose={() => setHistoryCommentId(null)} />
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
+import { groupStagesIntoSteps } from "@shared/stageRouting";
 
 interface WorkflowTimelineData {
   id: string;
@@ -17,6 +18,7 @@ interface WorkflowTimelineData {
     endDate: Date | null;
     duration: number;
     stageOrder: number;
+    parallelGroup?: string | null;
   }[];
 }
 
@@ -73,6 +75,15 @@ export function WorkflowGanttChart({ data }: WorkflowGanttChartProps) {
     return (duration / totalDays) * 100;
   };
 
+  // Split stages into lanes so parallel branches render on their own rows
+  const getLanes = (stages: WorkflowTimelineData["stages"]) => {
+    const steps = groupStagesIntoSteps(stages.map((stage, index) => ({ ...stage, id: String(index) })));
+    const laneCount = Math.max(1, ...steps.map(step => step.length));
+    const lanes: WorkflowTimelineData["stages"][] = Array.from({ length: laneCount }, () => []);
+    steps.forEach(step => step.forEach((stage, laneIndex) => lanes[laneIndex].push(stage)));
+    return lanes;
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -100,28 +111,32 @@ export function WorkflowGanttChart({ data }: WorkflowGanttChartProps) {
                   <span className="text-sm font-medium truncate flex-1">{workflow.title}</span>
                 </div>
 
-                {/* Timeline bar */}
-                <div className="relative h-8 bg-muted/30 rounded-md overflow-hidden">
-                  {workflow.stages.map((stage, index) => {
-                    const left = calculatePosition(new Date(stage.startDate));
-                    const width = calculateWidth(new Date(stage.startDate), stage.endDate);
-                    
-                    return (
-                      <div
-                        key={index}
-                        className={`absolute top-1 bottom-1 ${getStatusColor(stage.status)} rounded transition-all hover:opacity-80`}
-                        style={{
-                          left: `${left}%`,
-                          width: `${width}%`,
-                        }}
-                        title={`${stage.stageName} - ${stage.status} (${stage.duration} days)`}
-                      >
-                        <div className="px-2 py-1 text-xs text-white truncate">
-                          {stage.stageName}
-                        </div>
-                      </div>
-                    );
-                  })}
+                {/* Timeline bars - one lane per parallel branch */}
+                <div className="space-y-1">
+                  {getLanes(workflow.stages).map((lane, laneIndex) => (
+                    <div key={laneIndex} className="relative h-8 bg-muted/30 rounded-md overflow-hidden">
+                      {lane.map((stage, index) => {
+                        const left = calculatePosition(new Date(stage.startDate));
+                        const width = calculateWidth(new Date(stage.startDate), stage.endDate);
+                        
+                        return (
+                          <div
+                            key={index}
+                            className={`absolute top-1 bottom-1 ${getStatusColor(stage.status)} rounded transition-all hover:opacity-80`}
+                            style={{
+                              left: `${left}%`,
+                              width: `${width}%`,
+                            }}
+                            title={`${stage.stageName} - ${stage.status} (${stage.duration} days)${stage.parallelGroup ? ` [parallel: ${stage.parallelGroup}]` : ""}`}
+                          >
+                            <div className="px-2 py-1 text-xs text-white truncate">
+                              {stage.stageName}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
                 </div>
 
                 {/* Stage legend */}
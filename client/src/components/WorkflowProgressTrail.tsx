@@ -1,5 +1,6 @@
-import { Check, Circle, Clock } from "lucide-react";
+import { Check, Circle, Clock, GitBranch } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { groupStagesIntoSteps } from "@shared/stageRouting";
 
 interface Stage {
   id: string;
@@ -7,6 +8,7 @@ interface Stage {
   status: string;
   stageOrder: number;
   requiredRole: string;
+  parallelGroup?: string | null;
 }
 
 interface WorkflowProgressTrailProps {
@@ -15,7 +17,7 @@ interface WorkflowProgressTrailProps {
 }
 
 export function WorkflowProgressTrail({ stages, className }: WorkflowProgressTrailProps) {
-  const sortedStages = [...stages].sort((a, b) => a.stageOrder - b.stageOrder);
+  const steps = groupStagesIntoSteps(stages);
 
   const getStageIcon = (status: string, index: number) => {
     if (status === "approved" || status === "completed") {
@@ -48,54 +50,78 @@ export function WorkflowProgressTrail({ stages, className }: WorkflowProgressTra
     return "bg-gray-300";
   };
 
+  const getStepStatus = (step: Stage[]) => {
+    if (step.every(s => s.status === "approved" || s.status === "completed" || s.status === "skipped")) {
+      return "completed";
+    }
+    if (step.some(s => s.status === "rejected")) return "rejected";
+    if (step.some(s => s.status === "in_progress")) return "in_progress";
+    return "pending";
+  };
+
+  const renderStage = (stage: Stage, index: number) => (
+    <div key={stage.id} className="flex flex-col items-center relative z-10">
+      <div
+        className={cn(
+          "w-10 h-10 rounded-full border-2 flex items-center justify-center transition-all",
+          getStageColor(stage.status)
+        )}
+      >
+        {getStageIcon(stage.status, index)}
+      </div>
+      <div className="mt-2 text-center">
+        <div className="text-sm font-medium">{stage.stageName}</div>
+        <div className="text-xs text-muted-foreground">{stage.requiredRole}</div>
+        <div className="text-xs">
+          <span
+            className={cn(
+              "inline-block px-2 py-0.5 rounded-full text-xs font-medium",
+              stage.status === "approved" || stage.status === "completed"
+                ? "bg-green-100 text-green-800"
+                : stage.status === "in_progress"
+                ? "bg-blue-100 text-blue-800"
+                : stage.status === "rejected"
+                ? "bg-red-100 text-red-800"
+                : "bg-gray-100 text-gray-800"
+            )}
+          >
+            {stage.status.replace("_", " ").toUpperCase()}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className={cn("w-full", className)}>
       <div className="flex items-center justify-between relative">
-        {sortedStages.map((stage, index) => {
-          const isLast = index === sortedStages.length - 1;
-          const nextStage = !isLast ? sortedStages[index + 1] : null;
+        {steps.map((step, index) => {
+          const isLast = index === steps.length - 1;
+          const nextStep = !isLast ? steps[index + 1] : null;
+          const isParallel = step.length > 1;
           
           return (
-            <div key={stage.id} className="flex items-center flex-1">
-              {/* Stage indicator */}
-              <div className="flex flex-col items-center relative z-10">
-                <div
-                  className={cn(
-                    "w-10 h-10 rounded-full border-2 flex items-center justify-center transition-all",
-                    getStageColor(stage.status)
-                  )}
-                >
-                  {getStageIcon(stage.status, index)}
-                </div>
-                <div className="mt-2 text-center">
-                  <div className="text-sm font-medium">{stage.stageName}</div>
-                  <div className="text-xs text-muted-foreground">{stage.requiredRole}</div>
-                  <div className="text-xs">
-                    <span
-                      className={cn(
-                        "inline-block px-2 py-0.5 rounded-full text-xs font-medium",
-                        stage.status === "approved" || stage.status === "completed"
-                          ? "bg-green-100 text-green-800"
-                          : stage.status === "in_progress"
-                          ? "bg-blue-100 text-blue-800"
-                          : stage.status === "rejected"
-                          ? "bg-red-100 text-red-800"
-                          : "bg-gray-100 text-gray-800"
-                      )}
-                    >
-                      {stage.status.replace("_", " ").toUpperCase()}
-                    </span>
+            <div key={step[0].id} className="flex items-center flex-1">
+              {/* Stage indicator(s) - parallel branches are stacked */}
+              {isParallel ? (
+                <div className="flex flex-col items-center gap-4 border border-dashed rounded-lg px-3 py-2">
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <GitBranch className="h-3 w-3" />
+                    Parallel
                   </div>
+                  {step.map(stage => renderStage(stage, index))}
                 </div>
-              </div>
+              ) : (
+                renderStage(step[0], index)
+              )}
 
               {/* Connector line */}
-              {!isLast && nextStage && (
+              {!isLast && nextStep && (
                 <div className="flex-1 h-0.5 mx-2 relative top-[-30px]">
                   <div
                     className={cn(
                       "h-full transition-all",
-                      getConnectorColor(stage.status, nextStage.status)
+                      getConnectorColor(getStepStatus(step), getStepStatus(nextStep))
                     )}
                   />
                 </div>
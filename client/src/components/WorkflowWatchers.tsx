@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, EyeOff, Loader2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import type { WatchScope } from "@shared/workflowWatchers";
+
+interface WorkflowWatchersProps {
+  workflowId: string;
+  workflowType: string;
+  department: string;
+  currentUserId?: number;
+  // The requester and admins may add other people as watchers
+  canAddWatchers: boolean;
+}
+
+export function WorkflowWatchers({ workflowId, workflowType, department, currentUserId, canAddWatchers }: WorkflowWatchersProps) {
+  const [newWatcherId, setNewWatcherId] = useState<string>("");
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.watchers.getForWorkflow.useQuery({ workflowId });
+  const { data: users } = trpc.users.getAll.useQuery(undefined, { enabled: canAddWatchers });
+
+  const refresh = () => utils.watchers.getForWorkflow.invalidate({ workflowId });
+
+  const subscribe = trpc.watchers.subscribe.useMutation({
+    onSuccess: () => {
+      setNewWatcherId("");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const unsubscribe = trpc.watchers.unsubscribe.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const mine = (scope: WatchScope) => data?.mySubscriptions.find((s) => s.scope === scope);
+
+  const toggle = (scope: WatchScope) => {
+    const existing = mine(scope);
+    if (existing) {
+      unsubscribe.mutate({ subscriptionId: existing.id, workflowId });
+    } else {
+      subscribe.mutate({ workflowId, scope });
+    }
+  };
+
+  const isBusy = subscribe.isPending || unsubscribe.isPending;
+  const watcherIds = new Set(data?.watchers.filter((w) => w.scope === "workflow").map((w) => w.userId));
+
+  const scopeOptions: { scope: WatchScope; label: string }[] = [
+    { scope: "workflow", label: "This workflow" },
+    { scope: "workflow_type", label: `All ${workflowType} workflows` },
+    { scope: "department", label: `All ${department} workflows` },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Watchers</CardTitle>
+        <CardDescription>Notified of stage changes, comments and completion</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {scopeOptions.map(({ scope, label }) => {
+            const watching = !!mine(scope);
+            return (
+              <Button
+                key={scope}
+                variant={watching ? "secondary" : "outline"}
+                size="sm"
+                className="w-full justify-start"
+                disabled={isBusy}
+                onClick={() => toggle(scope)}
+              >
+                {watching ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                {watching ? `Stop watching ${label.toLowerCase()}` : `Watch ${label.toLowerCase()}`}
+              </Button>
+            );
+          })}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : data && data.watchers.length > 0 ? (
+          <div className="space-y-2">
+            {data.watchers.map((watcher) => (
+              <div key={watcher.subscriptionId} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {watcher.name}
+                  {watcher.userId === currentUserId && " (you)"}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {watcher.scope !== "workflow" && (
+                    <Badge variant="outline" className="text-xs">
+                      {watcher.label}
+                    </Badge>
+                  )}
+                  {watcher.canRemove && watcher.userId !== currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={isBusy}
+                      onClick={() => unsubscribe.mutate({ subscriptionId: watcher.subscriptionId, workflowId })}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No one is watching this workflow yet.</p>
+        )}
+
+        {canAddWatchers && (
+          <div className="flex gap-2">
+            <Select value={newWatcherId} onValueChange={setNewWatcherId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a watcher" />
+              </SelectTrigger>
+              <SelectContent>
+                {users
+                  ?.filter((u) => u.isActive && u.id !== currentUserId && !watcherIds.has(u.id))
+                  .map((u) => (
+                    <SelectItem key={u.id} value={u.id.toString()}>
+                      {u.fullName || u.email}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              disabled={!newWatcherId || isBusy}
+              onClick={() => subscribe.mutate({ workflowId, scope: "workflow", userId: parseInt(newWatcherId) })}
+            >
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { describeWorkflowEvent, getEventScopes, type WorkflowEvent } from "@shared/workflowEvents";
+
+interface LiveWorkflowUpdateOptions {
+  // Follow one workflow (its detail page); omit to follow every visible workflow
+  workflowId?: string;
+  // Toast changes made by other users
+  announceUserId?: number;
+  onEvent?: (event: WorkflowEvent) => void;
+  enabled?: boolean;
+}
+
+/**
+ * Keep the page's workflow queries current as other users act on them
+ */
+export function useLiveWorkflowUpdates({
+  workflowId,
+  announceUserId,
+  onEvent,
+  enabled = true,
+}: LiveWorkflowUpdateOptions = {}) {
+  const utils = trpc.useUtils();
+
+  trpc.live.onWorkflowEvent.useSubscription(workflowId ? { workflowId } : undefined, {
+    enabled,
+    onData: (event) => {
+      for (const scope of getEventScopes(event)) {
+        switch (scope) {
+          case "workflow":
+            utils.workflows.getById.invalidate({ id: event.workflowId });
+            utils.workflows.getRelated.invalidate({ id: event.workflowId });
+            utils.workflows.getAmendments.invalidate({ workflowId: event.workflowId });
+            utils.formSubmissions.getByWorkflow.invalidate({ workflowId: event.workflowId });
+            break;
+          case "stages":
+            utils.stages.getByWorkflow.invalidate({ workflowId: event.workflowId });
+            utils.stages.getApprovalProgress.invalidate({ workflowId: event.workflowId });
+            utils.workflows.getInbox.invalidate();
+            break;
+          case "comments":
+            utils.comments.getByWorkflow.invalidate({ workflowId: event.workflowId });
+            break;
+          case "files":
+            utils.files.getByWorkflow.invalidate({ workflowId: event.workflowId });
+            utils.workflows.getFiles.invalidate({ workflowId: event.workflowId });
+            break;
+          case "lists":
+            utils.workflows.list.invalidate();
+            utils.workflows.getStatusCounts.invalidate();
+            utils.stages.getSlaBreaches.invalidate();
+            break;
+        }
+      }
+
+      if (announceUserId && event.actorId && event.actorId !== announceUserId) {
+        const message = describeWorkflowEvent(event);
+        if (message) toast.info(message);
+      }
+
+      onEvent?.(event);
+    },
+    onError: (error) => console.error("[Live updates]", error),
+  });
+}
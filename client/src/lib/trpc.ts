@@ -1,4 +1,5 @@
-import { createTRPCReact, httpBatchLink } from '@trpc/react-query';
+import { createTRPCReact, httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/react-query';
+import { createTRPCClient } from '@trpc/client';
 import type { AppRouter } from "../../../server/routers";
 import superjson from 'superjson';
 import { cognitoAuth } from './cognito';
@@ -9,18 +10,38 @@ export const trpc = createTRPCReact<AppRouter>();
 const API_URL = import.meta.env.VITE_API_URL || window.location.origin;
 console.log('🌐 API_URL:', API_URL, '| VITE_API_URL:', import.meta.env.VITE_API_URL, '| origin:', window.location.origin);
 
+const batchLink = httpBatchLink({
+  url: `${API_URL}/api/trpc`,
+  transformer: superjson,
+  async headers() {
+    // Get Cognito ID token and add to headers
+    const idToken = await cognitoAuth.getIdToken();
+    return {
+      authorization: idToken ? `Bearer ${idToken}` : '',
+    };
+  },
+});
+
+// Fetches live-update tickets outside React
+const ticketClient = createTRPCClient<AppRouter>({ links: [batchLink] });
+
 export const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: `${API_URL}/api/trpc`,
-      transformer: superjson,
-      async headers() {
-        // Get Cognito ID token and add to headers
-        const idToken = await cognitoAuth.getIdToken();
-        return {
-          authorization: idToken ? `Bearer ${idToken}` : '',
-        };
-      },
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      // Live updates stream over server-sent events. EventSource can't send
+      // headers and its connection params go in the URL, so each connection
+      // presents a single-use ticket rather than the ID token
+      true: httpSubscriptionLink({
+        url: `${API_URL}/api/trpc`,
+        transformer: superjson,
+        async connectionParams() {
+          if (!(await cognitoAuth.getIdToken())) return {};
+          const { ticket } = await ticketClient.live.createTicket.mutate();
+          return { ticket };
+        },
+      }),
+      false: batchLink,
     }),
   ],
 });
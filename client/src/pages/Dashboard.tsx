@@ -3,11 +3,12 @@ import { Link } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { useCognitoAuth } from "@/hooks/useCognitoAuth";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useLiveWorkflowUpdates } from "@/hooks/useLiveWorkflowUpdates";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Plus, Search, FileText, CheckCircle2, Clock, XCircle, LogOut, Users, BarChart3, FileEdit, Trash2, FileSpreadsheet } from "lucide-react";
+import { Loader2, Plus, Search, FileText, CheckCircle2, Clock, XCircle, LogOut, Users, BarChart3, FileEdit, Trash2, FileSpreadsheet, RotateCcw, UserCheck, AlarmClock, Repeat, Mail, MailOpen, Inbox, ChevronLeft, ChevronRight, Columns3 } from "lucide-react";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -22,59 +23,117 @@ import {
 import { RoleSwitcher } from "@/components/RoleSwitcher";
 import { HelpButton } from "@/components/HelpButton";
 import { DashboardSkeleton } from "@/components/DashboardSkeleton";
+import { NotificationBell } from "@/components/NotificationBell";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { SavedViewsBar } from "@/components/SavedViewsBar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  DEFAULT_WORKFLOW_FILTERS,
+  filtersFromSearchParams,
+  filtersToListQuery,
+  filtersToSearchParams,
+  type WorkflowListFilters,
+  type WorkflowSortField,
+} from "@shared/workflowListFilters";
+import {
+  DEFAULT_VISIBLE_COLUMNS,
+  WORKFLOW_LIST_COLUMNS,
+  WORKFLOW_LIST_COLUMN_LABELS,
+  getSavedViewColumns,
+  type WorkflowListColumn,
+} from "@shared/savedViews";
+
+const SORT_LABELS: Record<WorkflowSortField, string> = {
+  createdAt: "Created",
+  updatedAt: "Last Updated",
+  title: "Title",
+  workflowNumber: "Workflow Number",
+  estimatedAmount: "Amount",
+};
+
+// URL params win over the filters saved in localStorage, so shared links open as sent
+function loadInitialFilters(): WorkflowListFilters {
+  let saved = DEFAULT_WORKFLOW_FILTERS;
+  const savedFilters = localStorage.getItem("workflowFilters");
+  if (savedFilters) {
+    try {
+      saved = { ...DEFAULT_WORKFLOW_FILTERS, ...JSON.parse(savedFilters), page: 1 };
+    } catch (e) {
+      // Ignore parse errors
+    }
+  }
+  return filtersFromSearchParams(window.location.search, saved);
+}
+
+function loadInitialColumns(): WorkflowListColumn[] {
+  const savedColumns = localStorage.getItem("workflowColumns");
+  if (savedColumns) {
+    try {
+      return getSavedViewColumns(JSON.parse(savedColumns));
+    } catch (e) {
+      // Ignore parse errors
+    }
+  }
+  return DEFAULT_VISIBLE_COLUMNS;
+}
 
 export default function Dashboard() {
   const { signOut } = useCognitoAuth();
   const { user, loading: authLoading } = useUserRole();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [typeFilter, setTypeFilter] = useState<string>("all");
-  const [departmentFilter, setDepartmentFilter] = useState<string>("all");
-  const [dateFrom, setDateFrom] = useState<string>("");
-  const [dateTo, setDateTo] = useState<string>("");
+  const [filters, setFilters] = useState<WorkflowListFilters>(loadInitialFilters);
+  const [debouncedSearch, setDebouncedSearch] = useState(filters.search);
+  const [visibleColumns, setVisibleColumns] = useState<WorkflowListColumn[]>(loadInitialColumns);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [workflowToDelete, setWorkflowToDelete] = useState<string | null>(null);
   const utils = trpc.useUtils();
 
-  // Load filters from localStorage on mount
-  useEffect(() => {
-    const savedFilters = localStorage.getItem("workflowFilters");
-    if (savedFilters) {
-      try {
-        const filters = JSON.parse(savedFilters);
-        setSearchQuery(filters.search || "");
-        setStatusFilter(filters.status || "all");
-        setTypeFilter(filters.type || "all");
-        setDepartmentFilter(filters.department || "all");
-        setDateFrom(filters.dateFrom || "");
-        setDateTo(filters.dateTo || "");
-      } catch (e) {
-        // Ignore parse errors
-      }
-    }
-  }, []);
+  const { search: searchQuery, status: statusFilter, type: typeFilter, department: departmentFilter, dateFrom, dateTo, minAmount, maxAmount } = filters;
+
+  // Change a filter; any change other than the page itself goes back to page 1
+  const updateFilters = (changes: Partial<WorkflowListFilters>) => {
+    setFilters((prev) => ({ ...prev, page: 1, ...changes }));
+  };
 
-  // Save filters to localStorage whenever they change
+  // Save filters to localStorage and the URL whenever they change
   useEffect(() => {
-    const filters = {
-      search: searchQuery,
-      status: statusFilter,
-      type: typeFilter,
-      department: departmentFilter,
-      dateFrom,
-      dateTo,
-    };
     localStorage.setItem("workflowFilters", JSON.stringify(filters));
-  }, [searchQuery, statusFilter, typeFilter, departmentFilter, dateFrom, dateTo]);
+    const query = filtersToSearchParams(filters);
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, [filters]);
+
+  useEffect(() => {
+    localStorage.setItem("workflowColumns", JSON.stringify(visibleColumns));
+  }, [visibleColumns]);
 
-  // Clear all filters
+  const toggleColumn = (column: WorkflowListColumn) => {
+    setVisibleColumns((prev) =>
+      prev.includes(column) ? prev.filter((c) => c !== column) : WORKFLOW_LIST_COLUMNS.filter((c) => c === column || prev.includes(c))
+    );
+  };
+
+  // Only query once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Clear all filters (the sort order is kept)
   const clearFilters = () => {
-    setSearchQuery("");
-    setStatusFilter("all");
-    setTypeFilter("all");
-    setDepartmentFilter("all");
-    setDateFrom("");
-    setDateTo("");
+    updateFilters({
+      search: "",
+      status: "all",
+      type: "all",
+      department: "all",
+      dateFrom: "",
+      dateTo: "",
+      minAmount: "",
+      maxAmount: "",
+    });
   };
 
   // Count active filters
@@ -85,25 +144,57 @@ export default function Dashboard() {
     departmentFilter !== "all",
     dateFrom !== "",
     dateTo !== "",
+    minAmount !== "",
+    maxAmount !== "",
   ].filter(Boolean).length;
 
-  // Fetch workflows with caching
-  const { data: workflows, isLoading: workflowsLoading } = trpc.workflows.getAll.useQuery(
-    undefined,
+  // Fetch one page of workflows, filtered and sorted on the server
+  const { data: workflowPage, isLoading: workflowsLoading } = trpc.workflows.list.useQuery(
+    { ...filtersToListQuery({ ...filters, search: debouncedSearch }), page: filters.page },
     { 
       enabled: !!user,
       staleTime: 1000 * 60 * 2, // 2 minutes - workflows change frequently
       refetchInterval: 1000 * 60 * 5, // Auto-refetch every 5 minutes in background
+      placeholderData: (previous) => previous, // Keep the current page visible while the next one loads
     }
   );
 
+  // A bookmarked or stale page past the end (e.g. after deletions) goes to the last page
+  useEffect(() => {
+    if (workflowPage && workflowPage.pageCount > 0 && filters.page > workflowPage.pageCount) {
+      setFilters((prev) => ({ ...prev, page: workflowPage.pageCount }));
+    }
+  }, [workflowPage, filters.page]);
+
+  const { data: statusCounts } = trpc.workflows.getStatusCounts.useQuery(undefined, {
+    enabled: !!user,
+    staleTime: 1000 * 60 * 2,
+    refetchInterval: 1000 * 60 * 5,
+  });
+
+  // Stages past their SLA deadline
+  const { data: slaBreaches } = trpc.stages.getSlaBreaches.useQuery(undefined, {
+    enabled: !!user,
+    refetchInterval: 1000 * 60 * 5,
+  });
+
+  // Approvals waiting on the user
+  const { data: inbox } = trpc.workflows.getInbox.useQuery(undefined, {
+    enabled: !!user,
+    refetchInterval: 1000 * 60 * 5,
+  });
+
+  // Counts, lists and the inbox follow other users' changes as they happen
+  useLiveWorkflowUpdates({ enabled: !!user });
+
   // Delete workflow mutation
   const deleteWorkflow = trpc.workflows.delete.useMutation({
     onSuccess: () => {
       toast.success("Workflow deleted", {
         description: "The workflow has been permanently deleted.",
       });
-      utils.workflows.getAll.invalidate();
+      utils.workflows.list.invalidate();
+      utils.workflows.getStatusCounts.invalidate();
       setDeleteDialogOpen(false);
       setWorkflowToDelete(null);
     },
@@ -156,37 +247,15 @@ export default function Dashboard() {
     );
   }
 
-  // Filter workflows by all criteria
-  const filteredWorkflows = workflows?.filter((w) => {
-    // Search filter (ID or title)
-    const matchesSearch = !searchQuery ||
-      w.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      w.workflowNumber.toLowerCase().includes(searchQuery.toLowerCase());
-
-    // Status filter
-    const matchesStatus = statusFilter === "all" || w.overallStatus === statusFilter;
-
-    // Type filter
-    const matchesType = typeFilter === "all" || w.workflowType === typeFilter;
-
-    // Department filter
-    const matchesDepartment = departmentFilter === "all" || w.department === departmentFilter;
-
-    // Date range filter
-    const workflowDate = new Date(w.createdAt);
-    const matchesDateFrom = !dateFrom || workflowDate >= new Date(dateFrom);
-    const matchesDateTo = !dateTo || workflowDate <= new Date(dateTo + "T23:59:59");
-
-    return matchesSearch && matchesStatus && matchesType && matchesDepartment && matchesDateFrom && matchesDateTo;
-  }) || [];
+  const filteredWorkflows = workflowPage?.items || [];
 
   // Calculate statistics
   const stats = {
-    total: workflows?.length || 0,
-    draft: workflows?.filter((w) => w.overallStatus === "draft").length || 0,
-    inProgress: workflows?.filter((w) => w.overallStatus === "in_progress").length || 0,
-    completed: workflows?.filter((w) => w.overallStatus === "completed").length || 0,
-    rejected: workflows?.filter((w) => w.overallStatus === "rejected").length || 0,
+    total: Object.values(statusCounts || {}).reduce((sum, n) => sum + n, 0),
+    draft: statusCounts?.draft || 0,
+    inProgress: statusCounts?.in_progress || 0,
+    completed: statusCounts?.completed || 0,
+    rejected: statusCounts?.rejected || 0,
   };
 
   return (
@@ -204,6 +273,8 @@ export default function Dashboard() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <GlobalSearch />
+            <NotificationBell />
             {/* Executive features for CEO, COO, CFO */}
             {(user.role === "CEO" || user.role === "COO" || user.role === "CFO" || user.role === "admin") && (
               <>
@@ -247,6 +318,24 @@ export default function Dashboard() {
                     Templates
                   </Button>
                 </Link>
+                <Link href="/admin/recurring-workflows">
+                  <Button variant="outline" size="sm">
+                    <Repeat className="h-4 w-4 mr-2" />
+                    Recurring
+                  </Button>
+                </Link>
+                <Link href="/admin/email-outbox">
+                  <Button variant="outline" size="sm">
+                    <Mail className="h-4 w-4 mr-2" />
+                    Email Outbox
+                  </Button>
+                </Link>
+                <Link href="/admin/email-templates">
+                  <Button variant="outline" size="sm">
+                    <MailOpen className="h-4 w-4 mr-2" />
+                    Email Templates
+                  </Button>
+                </Link>
               </>
             )}
             {user.role === "admin" && (
@@ -257,6 +346,21 @@ export default function Dashboard() {
                 </Button>
               </Link>
             )}
+            <Link href="/inbox">
+              <Button variant="outline" size="sm">
+                <Inbox className="h-4 w-4 mr-2" />
+                My Approvals
+                {inbox && inbox.length > 0 && (
+                  <Badge variant="secondary" className="ml-2">{inbox.length}</Badge>
+                )}
+              </Button>
+            </Link>
+            <Link href="/delegations">
+              <Button variant="outline" size="sm">
+                <UserCheck className="h-4 w-4 mr-2" />
+                Out of Office
+              </Button>
+            </Link>
             <Button variant="outline" size="sm" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
               Sign Out
@@ -319,6 +423,43 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* SLA Breaches */}
+        {slaBreaches && slaBreaches.length > 0 && (
+          <Card className="border-red-200">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlarmClock className="h-5 w-5 text-red-500" />
+                Overdue Stages
+              </CardTitle>
+              <CardDescription>Stages that have exceeded their SLA</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {slaBreaches.map((breach) => (
+                  <Link key={breach.stageId} href={`/workflows/${breach.workflowId}`}>
+                    <div className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 cursor-pointer">
+                      <div>
+                        <p className="font-medium">{breach.workflowTitle}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {breach.workflowNumber} · {breach.stageName}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {breach.escalatedAt && <Badge variant="outline">Escalated</Badge>}
+                        {breach.slaDeadline && (
+                          <span className="text-sm text-red-600">
+                            Due {new Date(breach.slaDeadline).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Search and Workflows List */}
         <Card>
           <CardHeader>
@@ -336,13 +477,24 @@ export default function Dashboard() {
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Saved Views */}
+            <SavedViewsBar
+              filters={filters}
+              visibleColumns={visibleColumns}
+              userDepartment={user?.department || null}
+              onApply={(viewFilters, viewColumns) => {
+                setFilters(viewFilters);
+                setVisibleColumns(viewColumns);
+              }}
+            />
+
             {/* Search Input */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search by workflow ID or title..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => updateFilters({ search: e.target.value })}
                 className="pl-10"
               />
             </div>
@@ -354,7 +506,7 @@ export default function Dashboard() {
                 <label className="text-sm font-medium mb-1.5 block">Status</label>
                 <select
                   value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value)}
+                  onChange={(e) => updateFilters({ status: e.target.value })}
                   className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
                 >
                   <option value="all">All Status</option>
@@ -362,6 +514,7 @@ export default function Dashboard() {
                   <option value="in_progress">In Progress</option>
                   <option value="completed">Completed</option>
                   <option value="rejected">Rejected</option>
+                  <option value="revision_requested">Revision Requested</option>
                 </select>
               </div>
 
@@ -370,7 +523,7 @@ export default function Dashboard() {
                 <label className="text-sm font-medium mb-1.5 block">Type</label>
                 <select
                   value={typeFilter}
-                  onChange={(e) => setTypeFilter(e.target.value)}
+                  onChange={(e) => updateFilters({ type: e.target.value })}
                   className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
                 >
                   <option value="all">All Types</option>
@@ -386,7 +539,7 @@ export default function Dashboard() {
                 <label className="text-sm font-medium mb-1.5 block">Department</label>
                 <select
                   value={departmentFilter}
-                  onChange={(e) => setDepartmentFilter(e.target.value)}
+                  onChange={(e) => updateFilters({ department: e.target.value })}
                   className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
                 >
                   <option value="all">All Departments</option>
@@ -417,14 +570,14 @@ export default function Dashboard() {
               </div>
             </div>
 
-            {/* Date Range Filters */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {/* Date Range Filters and Sorting */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
               <div>
                 <label className="text-sm font-medium mb-1.5 block">From Date</label>
                 <Input
                   type="date"
                   value={dateFrom}
-                  onChange={(e) => setDateFrom(e.target.value)}
+                  onChange={(e) => updateFilters({ dateFrom: e.target.value })}
                   className="w-full"
                 />
               </div>
@@ -433,16 +586,88 @@ export default function Dashboard() {
                 <Input
                   type="date"
                   value={dateTo}
-                  onChange={(e) => setDateTo(e.target.value)}
+                  onChange={(e) => updateFilters({ dateTo: e.target.value })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">Sort By</label>
+                <select
+                  value={filters.sortBy}
+                  onChange={(e) => updateFilters({ sortBy: e.target.value as WorkflowSortField })}
+                  className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+                >
+                  {(Object.keys(SORT_LABELS) as WorkflowSortField[]).map((field) => (
+                    <option key={field} value={field}>
+                      {SORT_LABELS[field]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">Order</label>
+                <select
+                  value={filters.sortDirection}
+                  onChange={(e) => updateFilters({ sortDirection: e.target.value as "asc" | "desc" })}
+                  className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+                >
+                  <option value="desc">Descending</option>
+                  <option value="asc">Ascending</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Amount Range and Columns */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">Min Amount</label>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="e.g., 50000000"
+                  value={minAmount}
+                  onChange={(e) => updateFilters({ minAmount: e.target.value })}
                   className="w-full"
                 />
               </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">Max Amount</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={maxAmount}
+                  onChange={(e) => updateFilters({ maxAmount: e.target.value })}
+                  className="w-full"
+                />
+              </div>
+              <div className="flex items-end">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="w-full">
+                      <Columns3 className="h-4 w-4 mr-2" />
+                      Columns
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    {WORKFLOW_LIST_COLUMNS.map((column) => (
+                      <DropdownMenuCheckboxItem
+                        key={column}
+                        checked={visibleColumns.includes(column)}
+                        onCheckedChange={() => toggleColumn(column)}
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        {WORKFLOW_LIST_COLUMN_LABELS[column]}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
 
             {/* Results Count */}
             {activeFilterCount > 0 && (
               <div className="text-sm text-muted-foreground">
-                Showing {filteredWorkflows.length} of {workflows?.length || 0} workflows
+                {workflowPage?.total ?? 0} of {stats.total} workflows match
               </div>
             )}
 
@@ -503,15 +728,23 @@ export default function Dashboard() {
                               </p>
                             )}
                             <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
-                              <span>Department: {workflow.department}</span>
-                              {workflow.estimatedAmount && (
+                              {visibleColumns.includes("department") && <span>Department: {workflow.department}</span>}
+                              {visibleColumns.includes("requester") && <span>Requester: {workflow.requesterName}</span>}
+                              {visibleColumns.includes("amount") && workflow.estimatedAmount && (
                                 <span>
                                   Amount: {workflow.currency} {parseFloat(workflow.estimatedAmount).toLocaleString()}
                                 </span>
                               )}
-                              <span>
-                                Created: {new Date(workflow.createdAt).toLocaleDateString()}
-                              </span>
+                              {visibleColumns.includes("createdAt") && (
+                                <span>
+                                  Created: {new Date(workflow.createdAt).toLocaleDateString()}
+                                </span>
+                              )}
+                              {visibleColumns.includes("updatedAt") && (
+                                <span>
+                                  Updated: {new Date(workflow.updatedAt).toLocaleDateString()}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </Link>
@@ -531,6 +764,35 @@ export default function Dashboard() {
                 ))}
               </div>
             )}
+
+            {/* Pagination */}
+            {workflowPage && workflowPage.pageCount > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-sm text-muted-foreground">
+                  Page {workflowPage.page} of {workflowPage.pageCount} · {workflowPage.total} workflows
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={workflowPage.page <= 1}
+                    onClick={() => setFilters((prev) => ({ ...prev, page: prev.page - 1 }))}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={workflowPage.page >= workflowPage.pageCount}
+                    onClick={() => setFilters((prev) => ({ ...prev, page: prev.page + 1 }))}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -582,6 +844,7 @@ function StatusBadge({ status }: { status: string }) {
     in_progress: { variant: "default", icon: Clock },
     completed: { variant: "secondary", icon: CheckCircle2 },
     rejected: { variant: "destructive", icon: XCircle },
+    revision_requested: { variant: "outline", icon: RotateCcw },
     cancelled: { variant: "outline", icon: XCircle },
   };
 
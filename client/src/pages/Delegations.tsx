@@ -0,0 +1,250 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { Loader2, ArrowLeft, UserCheck, Ban } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { useState } from "react";
+import { format } from "date-fns";
+import { useUserRole } from "@/hooks/useUserRole";
+
+const WORKFLOW_TYPES = ["MAF", "PR", "CATTO"];
+
+export default function Delegations() {
+  const { user } = useUserRole();
+  const [delegateId, setDelegateId] = useState<string>("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [workflowTypes, setWorkflowTypes] = useState<string[]>([]);
+  const [maxAmount, setMaxAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: users } = trpc.users.getAll.useQuery();
+  const { data: delegations, isLoading, refetch } = trpc.delegations.list.useQuery({
+    all: user?.role === "admin",
+  });
+
+  const createDelegation = trpc.delegations.create.useMutation({
+    onSuccess: () => {
+      toast.success("Delegation created");
+      setDelegateId("");
+      setStartsAt("");
+      setEndsAt("");
+      setWorkflowTypes([]);
+      setMaxAmount("");
+      setReason("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeDelegation = trpc.delegations.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("Delegation revoked");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const toggleWorkflowType = (type: string) => {
+    setWorkflowTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]
+    );
+  };
+
+  const handleCreate = () => {
+    if (!delegateId || !startsAt || !endsAt) {
+      toast.error("Please select a substitute and a date range");
+      return;
+    }
+    createDelegation.mutate({
+      delegateId: parseInt(delegateId),
+      startsAt: new Date(`${startsAt}T00:00:00`),
+      endsAt: new Date(`${endsAt}T23:59:59`),
+      workflowTypes: workflowTypes.length > 0 ? workflowTypes : undefined,
+      maxAmount: maxAmount ? parseFloat(maxAmount) : undefined,
+      reason: reason || undefined,
+    });
+  };
+
+  const getDelegationStatus = (delegation: { isActive: boolean; startsAt: Date; endsAt: Date }) => {
+    const now = new Date();
+    if (!delegation.isActive) return <Badge variant="outline">Revoked</Badge>;
+    if (new Date(delegation.endsAt) < now) return <Badge variant="outline">Expired</Badge>;
+    if (new Date(delegation.startsAt) > now) return <Badge variant="secondary">Scheduled</Badge>;
+    return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+  };
+
+  if (!user || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mb-2">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Out of Office</h1>
+          <p className="text-sm text-muted-foreground">Delegate your approval authority while you are away</p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>New Delegation</CardTitle>
+            <CardDescription>
+              Your substitute can approve, reject or return stages you could act on, during the selected dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="delegate">Substitute</Label>
+                <Select value={delegateId} onValueChange={setDelegateId}>
+                  <SelectTrigger id="delegate">
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users
+                      ?.filter((u) => u.isActive && u.id !== user.id)
+                      .map((u) => (
+                        <SelectItem key={u.id} value={u.id.toString()}>
+                          {u.fullName || u.email} ({u.role})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="startsAt">From</Label>
+                <Input id="startsAt" type="date" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="endsAt">Until</Label>
+                <Input id="endsAt" type="date" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Workflow Types</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {WORKFLOW_TYPES.map((type) => (
+                    <Button
+                      key={type}
+                      size="sm"
+                      variant={workflowTypes.includes(type) ? "default" : "outline"}
+                      onClick={() => toggleWorkflowType(type)}
+                    >
+                      {type}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave empty for all types</p>
+              </div>
+              <div>
+                <Label htmlFor="maxAmount">Amount Ceiling</Label>
+                <Input
+                  id="maxAmount"
+                  type="number"
+                  placeholder="e.g., 50000000"
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Leave empty for no limit</p>
+              </div>
+              <div>
+                <Label htmlFor="reason">Reason</Label>
+                <Input
+                  id="reason"
+                  placeholder="e.g., Business trip"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Button onClick={handleCreate} disabled={createDelegation.isPending}>
+              {createDelegation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <UserCheck className="h-4 w-4 mr-2" />
+              )}
+              Delegate
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delegations</CardTitle>
+            <CardDescription>Delegations you have given or received</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {delegations && delegations.length > 0 ? (
+              <div className="space-y-4">
+                {delegations.map((d) => (
+                  <div key={d.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <p className="font-medium">
+                          {d.delegatorName} → {d.delegateName}
+                        </p>
+                        {getDelegationStatus(d)}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(d.startsAt), "MMM dd, yyyy")} – {format(new Date(d.endsAt), "MMM dd, yyyy")}
+                        {d.workflowTypes && d.workflowTypes.length > 0 && ` · ${d.workflowTypes.join(", ")}`}
+                        {d.maxAmount && ` · up to ${parseFloat(d.maxAmount).toLocaleString()}`}
+                        {d.reason && ` · ${d.reason}`}
+                      </p>
+                    </div>
+                    {d.isActive && new Date(d.endsAt) >= new Date() && (d.delegatorId === user.id || user.role === "admin") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => revokeDelegation.mutate({ id: d.id })}
+                        disabled={revokeDelegation.isPending}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">No delegations yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Copyright Footer */}
+      <footer className="border-t bg-card mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          © Eddie Amintohir. All rights reserved.
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { useLiveWorkflowUpdates } from "@/hooks/useLiveWorkflowUpdates";
+import { Loader2, ArrowLeft, ArrowDown, ArrowUp, Inbox as InboxIcon, Search, CheckCircle2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Link } from "wouter";
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+
+type SortKey = "waiting" | "amount" | "deadline" | "title";
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: "waiting", label: "Time waiting" },
+  { value: "amount", label: "Amount" },
+  { value: "deadline", label: "SLA deadline" },
+  { value: "title", label: "Title" },
+];
+
+const ALL = "all";
+
+type BulkAction = "approve" | "reject";
+
+interface BulkFailure {
+  stageId: string;
+  label: string;
+  error: string;
+}
+
+function formatWaiting(hours: number) {
+  if (hours < 1) return "< 1h";
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export default function Inbox() {
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [departmentFilter, setDepartmentFilter] = useState(ALL);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("waiting");
+  const [descending, setDescending] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkComments, setBulkComments] = useState("");
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  const { data: items, isLoading, refetch } = trpc.workflows.getInbox.useQuery();
+  // Items drop out as soon as another approver closes their stage
+  useLiveWorkflowUpdates();
+
+  const bulkMutation = trpc.stages.bulkAction.useMutation({
+    onSuccess: (result, variables) => {
+      const verb = variables.action === "approve" ? "approved" : "rejected";
+      if (result.succeeded > 0) {
+        toast.success(`${result.succeeded} ${result.succeeded === 1 ? "item" : "items"} ${verb}`);
+      }
+      setFailures(
+        result.results
+          .filter((r) => !r.success)
+          .map((r) => {
+            const item = items?.find((i) => i.stageId === r.stageId);
+            return {
+              stageId: r.stageId,
+              label: item ? `${item.workflowNumber} · ${item.stageName}` : r.stageId,
+              error: r.error || "Unknown error",
+            };
+          })
+      );
+      // Keep the failed items selected so they can be retried after fixing the cause
+      setSelected(new Set(result.results.filter((r) => !r.success).map((r) => r.stageId)));
+      setBulkAction(null);
+      setBulkComments("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const toggleSelected = (stageId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(stageId)) next.delete(stageId);
+      else next.add(stageId);
+      return next;
+    });
+  };
+
+  const types = useMemo(() => Array.from(new Set(items?.map((i) => i.workflowType) || [])).sort(), [items]);
+  const departments = useMemo(() => Array.from(new Set(items?.map((i) => i.department) || [])).sort(), [items]);
+
+  const visibleItems = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = (items || []).filter((item) => {
+      if (typeFilter !== ALL && item.workflowType !== typeFilter) return false;
+      if (departmentFilter !== ALL && item.department !== departmentFilter) return false;
+      if (overdueOnly && !item.slaBreached) return false;
+      if (!term) return true;
+      return [item.title, item.workflowNumber, item.requesterName, item.stageName].some((value) =>
+        value.toLowerCase().includes(term)
+      );
+    });
+
+    const compare = (a: (typeof filtered)[number], b: (typeof filtered)[number]) => {
+      switch (sortKey) {
+        case "waiting":
+          return a.waitingHours - b.waitingHours;
+        case "amount":
+          return (a.estimatedAmount ?? 0) - (b.estimatedAmount ?? 0);
+        case "deadline": {
+          // Stages without an SLA sort after every deadline
+          const deadline = (item: typeof a) => (item.slaDeadline ? new Date(item.slaDeadline).getTime() : Infinity);
+          return deadline(b) - deadline(a);
+        }
+        case "title":
+          return b.title.localeCompare(a.title);
+      }
+    };
+
+    return [...filtered].sort((a, b) => (descending ? compare(b, a) : compare(a, b)));
+  }, [items, search, typeFilter, departmentFilter, overdueOnly, sortKey, descending]);
+
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every((item) => selected.has(item.stageId));
+  const toggleAllVisible = () => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const item of visibleItems) {
+        if (allVisibleSelected) next.delete(item.stageId);
+        else next.add(item.stageId);
+      }
+      return next;
+    });
+  };
+  // Only act on selected items that are still in the inbox
+  const selectedIds = (items || []).filter((item) => selected.has(item.stageId)).map((item) => item.stageId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mb-2">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">My Approvals</h1>
+          <p className="text-sm text-muted-foreground">Workflows waiting for your decision</p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Waiting on You ({items?.length || 0})</CardTitle>
+            <CardDescription>
+              Stages you can approve with your role, as their assignee, or as someone's out-of-office substitute
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search title, number, requester or stage..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {types.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department} value={department}>
+                      {department}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch id="overdueOnly" checked={overdueOnly} onCheckedChange={setOverdueOnly} />
+                <Label htmlFor="overdueOnly">Overdue only</Label>
+              </div>
+              <div className="flex items-center gap-1">
+                <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        Sort: {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setDescending(!descending)}
+                  title={descending ? "Descending" : "Ascending"}
+                >
+                  {descending ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+
+            {/* Bulk actions */}
+            {selectedIds.length > 0 && (
+              <div className="flex items-center justify-between p-3 border rounded-lg bg-muted/50">
+                <span className="text-sm font-medium">{selectedIds.length} selected</span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setSelected(new Set())}>
+                    Clear
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => setBulkAction("reject")}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject Selected
+                  </Button>
+                  <Button size="sm" onClick={() => setBulkAction("approve")}>
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Approve Selected
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Failures of the last bulk action */}
+            {failures.length > 0 && (
+              <div className="p-3 border border-destructive/50 rounded-lg bg-destructive/5 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-destructive">
+                    {failures.length} {failures.length === 1 ? "item" : "items"} could not be processed
+                  </p>
+                  <Button size="sm" variant="ghost" onClick={() => setFailures([])}>
+                    Dismiss
+                  </Button>
+                </div>
+                <ul className="text-sm space-y-1">
+                  {failures.map((failure) => (
+                    <li key={failure.stageId}>
+                      <span className="font-medium">{failure.label}</span>: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {visibleItems.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAllVisible} aria-label="Select all" />
+                    </TableHead>
+                    <TableHead>Workflow</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Requester</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Waiting</TableHead>
+                    <TableHead>SLA</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.map((item) => (
+                    <TableRow key={item.stageId}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(item.stageId)}
+                          onCheckedChange={() => toggleSelected(item.stageId)}
+                          aria-label={`Select ${item.workflowNumber}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/workflows/${item.workflowId}`} className="font-medium hover:underline">
+                          {item.title}
+                        </Link>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Badge variant="outline">{item.workflowType}</Badge>
+                          {item.workflowNumber} · {item.department}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {item.stageName}
+                        <div className="flex gap-1 mt-1">
+                          {item.assignedToMe && <Badge variant="secondary">Assigned to you</Badge>}
+                          {item.onBehalfOfName && <Badge variant="outline">For {item.onBehalfOfName}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{item.requesterName}</TableCell>
+                      <TableCell className="text-right">
+                        {item.estimatedAmount !== null
+                          ? `${item.currency || ""} ${item.estimatedAmount.toLocaleString()}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>{formatWaiting(item.waitingHours)}</TableCell>
+                      <TableCell>
+                        {item.slaDeadline ? (
+                          item.slaBreached ? (
+                            <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+                          ) : (
+                            <span className="text-sm">Due {format(new Date(item.slaDeadline), "MMM dd, HH:mm")}</span>
+                          )
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-12">
+                <InboxIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">
+                  {items && items.length > 0 ? "No approvals match your filters" : "Nothing is waiting on you"}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Bulk Action Dialog */}
+      <Dialog open={!!bulkAction} onOpenChange={(open) => !open && setBulkAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {bulkAction === "approve" ? "Approve" : "Reject"} {selectedIds.length}{" "}
+              {selectedIds.length === 1 ? "Item" : "Items"}
+            </DialogTitle>
+            <DialogDescription>
+              Each item is checked on its own; items that fail are listed afterwards and the rest go through.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Textarea
+              placeholder={bulkAction === "reject" ? "Reason for rejection (required)" : "Comment for all items (optional)"}
+              value={bulkComments}
+              onChange={(e) => setBulkComments(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={bulkAction === "reject" ? "destructive" : "default"}
+              onClick={() =>
+                bulkAction &&
+                bulkMutation.mutate({
+                  action: bulkAction,
+                  stageIds: selectedIds,
+                  comments: bulkComments.trim() || undefined,
+                })
+              }
+              disabled={bulkMutation.isPending || (bulkAction === "reject" && !bulkComments.trim())}
+            >
+              {bulkMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {bulkAction === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Copyright Footer */}
+      <footer className="border-t bg-card mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          © Eddie Amintohir. All rights reserved.
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { Loader2, ArrowLeft, Save } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { useEffect, useState } from "react";
+import { isValidTimeZone } from "@shared/recurringSchedule";
+import { DEFAULT_EMAIL_LANGUAGE, EMAIL_LANGUAGES, EMAIL_LANGUAGE_LABELS, type EmailLanguage } from "@shared/emailTemplates";
+import {
+  DELIVERY_MODES,
+  NOTIFICATION_EVENT_LABELS,
+  type DeliveryMode,
+  type NotificationEventType,
+} from "@shared/notificationPreferences";
+
+const MODE_LABELS: Record<DeliveryMode, string> = {
+  immediate: "Immediately",
+  daily_digest: "Daily digest",
+  weekly_digest: "Weekly digest (Mondays)",
+  off: "Off",
+};
+
+const NO_QUIET_HOURS = "none";
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function NotificationSettings() {
+  const [modes, setModes] = useState<Partial<Record<NotificationEventType, DeliveryMode>>>({});
+  const [quietHoursStart, setQuietHoursStart] = useState<number | null>(null);
+  const [quietHoursEnd, setQuietHoursEnd] = useState<number | null>(null);
+  const [timezone, setTimezone] = useState("");
+  const [language, setLanguage] = useState<EmailLanguage>(DEFAULT_EMAIL_LANGUAGE);
+
+  const { data, isLoading, refetch } = trpc.notificationPreferences.get.useQuery();
+
+  useEffect(() => {
+    if (!data) return;
+    setModes(Object.fromEntries(data.preferences.map((p) => [p.eventType, p.mode])));
+    setQuietHoursStart(data.quietHoursStart);
+    setQuietHoursEnd(data.quietHoursEnd);
+    setTimezone(data.timezone);
+    setLanguage(data.language);
+  }, [data]);
+
+  const updatePreferences = trpc.notificationPreferences.update.useMutation({
+    onSuccess: () => {
+      toast.success("Notification settings saved");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleSave = () => {
+    if (!isValidTimeZone(timezone.trim())) {
+      toast.error(`Unknown time zone: ${timezone}`);
+      return;
+    }
+    if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+      toast.error("Choose both a start and an end for quiet hours");
+      return;
+    }
+    updatePreferences.mutate({
+      preferences: (data?.preferences || []).map((p) => ({
+        eventType: p.eventType,
+        mode: modes[p.eventType] || p.mode,
+      })),
+      quietHoursStart,
+      quietHoursEnd,
+      timezone: timezone.trim(),
+      language,
+    });
+  };
+
+  const hourSelect = (id: string, value: number | null, onChange: (hour: number | null) => void) => (
+    <Select
+      value={value === null ? NO_QUIET_HOURS : value.toString()}
+      onValueChange={(v) => onChange(v === NO_QUIET_HOURS ? null : parseInt(v))}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_QUIET_HOURS}>Not set</SelectItem>
+        {HOURS.map((hour) => (
+          <SelectItem key={hour} value={hour.toString()}>
+            {hour.toString().padStart(2, "0")}:00
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (isLoading || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mb-2">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Notification Settings</h1>
+          <p className="text-sm text-muted-foreground">Choose which emails you get, and when</p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Delivery</CardTitle>
+            <CardDescription>
+              Digests collect everything since the last one into a single email, sent at 8:00 in your time zone.
+              In-app notifications are not affected.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.preferences.map((p) => (
+              <div key={p.eventType} className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <Label htmlFor={`mode-${p.eventType}`}>{NOTIFICATION_EVENT_LABELS[p.eventType].label}</Label>
+                  <p className="text-sm text-muted-foreground">{NOTIFICATION_EVENT_LABELS[p.eventType].description}</p>
+                </div>
+                <Select
+                  value={modes[p.eventType] || p.mode}
+                  onValueChange={(mode) => setModes({ ...modes, [p.eventType]: mode as DeliveryMode })}
+                >
+                  <SelectTrigger id={`mode-${p.eventType}`} className="md:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Quiet Hours</CardTitle>
+            <CardDescription>
+              Emails that arrive during quiet hours are held until they end, and digests wait for them too
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursStart">From</Label>
+                {hourSelect("quietHoursStart", quietHoursStart, setQuietHoursStart)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursEnd">Until</Label>
+                {hourSelect("quietHoursEnd", quietHoursEnd, setQuietHoursEnd)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Time Zone</Label>
+                <Input id="timezone" value={timezone} onChange={(e) => setTimezone(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Language</CardTitle>
+            <CardDescription>The language of your workflow emails and reminders</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 md:w-56">
+              <Label htmlFor="language">Email Language</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(value as EmailLanguage)}>
+                <SelectTrigger id="language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_LANGUAGES.map((lang) => (
+                    <SelectItem key={lang} value={lang}>
+                      {EMAIL_LANGUAGE_LABELS[lang]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updatePreferences.isPending}>
+            {updatePreferences.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Settings
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
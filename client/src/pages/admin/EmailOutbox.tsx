@@ -0,0 +1,344 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { Loader2, ArrowLeft, Ban, ChevronLeft, ChevronRight, Eye, RotateCcw, Send } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { useState } from "react";
+import { format } from "date-fns";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  EMAIL_OUTBOX_STATUSES,
+  EMAIL_OUTBOX_STATUS_LABELS,
+  MAX_EMAIL_ATTEMPTS,
+  canCancelEmail,
+  canResendEmail,
+  type EmailOutboxStatus,
+} from "@shared/emailOutbox";
+
+const ALL = "all";
+
+const STATUS_STYLES: Record<EmailOutboxStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+export default function EmailOutbox() {
+  const { user } = useUserRole();
+  const [status, setStatus] = useState<EmailOutboxStatus | typeof ALL>(ALL);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = trpc.emailOutbox.list.useQuery(
+    { status: status === ALL ? undefined : status, search: search || undefined, page },
+    { enabled: user?.role === "admin", refetchInterval: 1000 * 30 }
+  );
+  const { data: opened, isLoading: openedLoading, refetch: refetchOpened } = trpc.emailOutbox.getById.useQuery(
+    { id: openId || "" },
+    { enabled: !!openId }
+  );
+
+  const onChanged = (message: string) => {
+    toast.success(message);
+    refetch();
+    if (openId) refetchOpened();
+  };
+
+  const resend = trpc.emailOutbox.resend.useMutation({
+    onSuccess: () => onChanged("Email queued again"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const cancel = trpc.emailOutbox.cancel.useMutation({
+    onSuccess: () => onChanged("Email cancelled"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const processNow = trpc.emailOutbox.processNow.useMutation({
+    onSuccess: (result) => onChanged(`${result.sentCount} sent, ${result.failedCount} failed`),
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!user || (user.role === "admin" && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (user.role !== "admin") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Admin access required</p>
+      </div>
+    );
+  }
+
+  const actions = (email: { id: string; status: EmailOutboxStatus; subject: string }) => (
+    <div className="flex gap-2 justify-end">
+      <Button size="sm" variant="outline" onClick={() => setOpenId(email.id)}>
+        <Eye className="h-4 w-4" />
+      </Button>
+      {canResendEmail(email.status) && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => resend.mutate({ id: email.id })}
+          disabled={resend.isPending}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Resend
+        </Button>
+      )}
+      {canCancelEmail(email.status) && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            if (confirm(`Cancel the email "${email.subject}"?`)) {
+              cancel.mutate({ id: email.id });
+            }
+          }}
+          disabled={cancel.isPending}
+        >
+          <Ban className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-end justify-between">
+          <div>
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="mb-2">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold">Email Outbox</h1>
+            <p className="text-sm text-muted-foreground">Every email the system sends, with its delivery attempts</p>
+          </div>
+          <Button variant="outline" onClick={() => processNow.mutate()} disabled={processNow.isPending}>
+            {processNow.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Send Due Now
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Messages</CardTitle>
+            <CardDescription>
+              Failed sends are retried with increasing delays, up to {MAX_EMAIL_ATTEMPTS} attempts
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                placeholder="Search subject or recipient..."
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(1);
+                }}
+                className="md:max-w-sm"
+              />
+              <Select
+                value={status}
+                onValueChange={(value) => {
+                  setStatus(value as EmailOutboxStatus | typeof ALL);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {EMAIL_OUTBOX_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {EMAIL_OUTBOX_STATUS_LABELS[s]} ({data?.statusCounts[s] || 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {data && data.items.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map((email) => (
+                    <TableRow key={email.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(email.createdAt), "MMM dd, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={email.toAddresses.join(", ")}>
+                        {email.toAddresses.join(", ")}
+                      </TableCell>
+                      <TableCell className="max-w-[280px] truncate" title={email.subject}>
+                        {email.subject}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[email.status]}>{EMAIL_OUTBOX_STATUS_LABELS[email.status]}</Badge>
+                        {email.status === "pending" && email.attempts > 0 && email.nextAttemptAt && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Retry at {format(new Date(email.nextAttemptAt), "HH:mm")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell title={email.lastError || undefined}>{email.attempts}</TableCell>
+                      <TableCell>{actions(email)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">No emails</p>
+            )}
+
+            {/* Pagination */}
+            {data && data.pageCount > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-sm text-muted-foreground">
+                  Page {data.page} of {data.pageCount} · {data.total} emails
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={data.page <= 1} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={data.page >= data.pageCount}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Message Dialog */}
+      <Dialog open={!!openId} onOpenChange={(open) => !open && setOpenId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{opened?.subject || "Email"}</DialogTitle>
+            <DialogDescription>
+              {opened && `From ${opened.fromAddress} to ${opened.toAddresses.join(", ")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {openedLoading || !opened ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge className={STATUS_STYLES[opened.status]}>{EMAIL_OUTBOX_STATUS_LABELS[opened.status]}</Badge>
+                  {opened.sentAt && (
+                    <span className="text-muted-foreground">
+                      Sent {format(new Date(opened.sentAt), "MMM dd, yyyy HH:mm")}
+                    </span>
+                  )}
+                  {opened.providerMessageId && (
+                    <span className="text-muted-foreground">· ID <code>{opened.providerMessageId}</code></span>
+                  )}
+                </div>
+                {actions(opened)}
+              </div>
+
+              {/* Rendered in a sandboxed frame so the email's styles stay inside it */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={opened.htmlBody}
+                className="w-full h-96 border rounded-md bg-white"
+              />
+
+              <div>
+                <p className="font-medium text-sm mb-2">Delivery Attempts</p>
+                {opened.deliveryAttempts.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Attempted At</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>Transport</TableHead>
+                        <TableHead>Message ID</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {opened.deliveryAttempts.map((attempt) => (
+                        <TableRow key={attempt.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(attempt.attemptedAt), "MMM dd, yyyy HH:mm:ss")}
+                          </TableCell>
+                          <TableCell>
+                            {attempt.status === "sent" ? (
+                              "Sent"
+                            ) : (
+                              <span className="text-destructive">Failed{attempt.error && `: ${attempt.error}`}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{attempt.transport}</TableCell>
+                          <TableCell className="max-w-[200px] truncate">
+                            {attempt.providerMessageId ? <code>{attempt.providerMessageId}</code> : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not attempted yet</p>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Copyright Footer */}
+      <footer className="border-t bg-card mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          © Eddie Amintohir. All rights reserved.
+        </div>
+      </footer>
+    </div>
+  );
+}
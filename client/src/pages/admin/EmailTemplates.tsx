@@ -0,0 +1,261 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { trpc } from "@/lib/trpc";
+import { Loader2, ArrowLeft, RotateCcw, Save } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  EMAIL_LANGUAGES,
+  EMAIL_LANGUAGE_LABELS,
+  SAMPLE_DIGEST_SECTIONS,
+  SAMPLE_TEMPLATE_VALUES,
+  TEMPLATE_VARIABLES,
+  findUnknownPlaceholders,
+  renderDigestBlock,
+  renderEmail,
+  type EmailLanguage,
+  type EmailTemplateKey,
+} from "@shared/emailTemplates";
+
+export default function EmailTemplates() {
+  const { user } = useUserRole();
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>("workflow_submitted");
+  const [language, setLanguage] = useState<EmailLanguage>("en");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+
+  const { data: templates, isLoading, refetch } = trpc.emailTemplates.list.useQuery(undefined, {
+    enabled: user?.role === "admin",
+  });
+
+  const template = templates?.find((t) => t.key === selectedKey);
+  const current = template?.languages.find((l) => l.language === language);
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    if (!current) return;
+    setSubject(current.subject);
+    setBody(current.body);
+  }, [current?.subject, current?.body, selectedKey, language]);
+
+  const updateTemplate = trpc.emailTemplates.update.useMutation({
+    onSuccess: () => {
+      toast.success("Template saved");
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const resetTemplate = trpc.emailTemplates.reset.useMutation({
+    onSuccess: () => {
+      toast.success("Template reset to the default");
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const unknown = findUnknownPlaceholders(selectedKey, `${subject}\n${body}`);
+  const isDirty = !!current && (subject !== current.subject || body !== current.body);
+
+  // Rendered with sample data, exactly as the email would be
+  const preview = useMemo(
+    () =>
+      renderEmail(selectedKey, { subject, body }, SAMPLE_TEMPLATE_VALUES[language], language, {
+        digest: renderDigestBlock(SAMPLE_DIGEST_SECTIONS[language], language),
+      }),
+    [selectedKey, subject, body, language]
+  );
+
+  if (!user || (user.role === "admin" && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (user.role !== "admin") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Admin access required</p>
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    if (unknown.length > 0) {
+      toast.error(`Unknown placeholders: ${unknown.map((name) => `{{${name}}}`).join(", ")}`);
+      return;
+    }
+    updateTemplate.mutate({ key: selectedKey, language, subject, body });
+  };
+
+  const handleReset = () => {
+    if (confirm("Reset this template to the default? Your changes will be lost.")) {
+      resetTemplate.mutate({ key: selectedKey, language });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mb-2">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Email Templates</h1>
+          <p className="text-sm text-muted-foreground">
+            The emails sent to requesters and approvers, in each recipient's language
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Template List */}
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {templates?.map((t) => (
+              <button
+                key={t.key}
+                onClick={() => setSelectedKey(t.key)}
+                className={`w-full text-left rounded-md px-3 py-2 text-sm hover:bg-accent ${
+                  t.key === selectedKey ? "bg-accent font-medium" : ""
+                }`}
+              >
+                {t.label}
+                {t.languages.some((l) => l.isCustom) && (
+                  <Badge variant="secondary" className="ml-2">
+                    Edited
+                  </Badge>
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3 space-y-6">
+          {/* Editor */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{template?.label}</CardTitle>
+              <CardDescription>{template?.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Tabs value={language} onValueChange={(value) => setLanguage(value as EmailLanguage)}>
+                  <TabsList>
+                    {EMAIL_LANGUAGES.map((lang) => (
+                      <TabsTrigger key={lang} value={lang}>
+                        {EMAIL_LANGUAGE_LABELS[lang]}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+                <span className="text-sm text-muted-foreground">
+                  {current?.isCustom && current.updatedAt
+                    ? `Edited ${format(new Date(current.updatedAt), "MMM dd, yyyy HH:mm")}`
+                    : "Default template"}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="subject">Subject</Label>
+                <Input id="subject" value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={500} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="body">Body</Label>
+                <Textarea
+                  id="body"
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={10}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Separate paragraphs with a blank line. A paragraph whose placeholders are all empty is left out.
+                </p>
+              </div>
+
+              {unknown.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Not available in this email: {unknown.map((name) => `{{${name}}}`).join(", ")}
+                </p>
+              )}
+
+              <div>
+                <p className="font-medium text-sm mb-2">Placeholders</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {template?.variables.map((name) => (
+                    <div key={name}>
+                      <code className="text-xs bg-muted rounded px-1">{`{{${name}}}`}</code>{" "}
+                      <span className="text-muted-foreground">{TEMPLATE_VARIABLES[name]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleReset}
+                  disabled={!current?.isCustom || resetTemplate.isPending}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset to Default
+                </Button>
+                <Button onClick={handleSave} disabled={!isDirty || updateTemplate.isPending}>
+                  {updateTemplate.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  Save Template
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>With sample data · Subject: {preview.subject}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {/* Rendered in a sandboxed frame so the email's styles stay inside it */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.htmlBody}
+                className="w-full h-[500px] border rounded-md bg-white"
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {/* Copyright Footer */}
+      <footer className="border-t bg-card mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          © Eddie Amintohir. All rights reserved.
+        </div>
+      </footer>
+    </div>
+  );
+}
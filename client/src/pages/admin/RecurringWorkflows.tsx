@@ -0,0 +1,601 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
+import { trpc } from "@/lib/trpc";
+import { Loader2, ArrowLeft, Plus, Pause, Play, PencilLine, History, Trash2, Zap } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { useState } from "react";
+import { format } from "date-fns";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DEFAULT_TIMEZONE, isValidCron } from "@shared/recurringSchedule";
+
+const WORKFLOW_TYPES = ["MAF", "PR", "CATTO"] as const;
+type WorkflowType = (typeof WORKFLOW_TYPES)[number];
+
+const DEPARTMENTS = ["PPIC", "Purchasing", "GA", "Finance", "Production", "Logistics", "IT", "HR", "Marketing", "Sales", "R&D"];
+
+const SCHEDULE_PRESETS = [
+  { label: "Every Monday at 08:00", value: "0 8 * * 1" },
+  { label: "1st of every month at 08:00", value: "0 8 1 * *" },
+  { label: "1st of every quarter at 08:00", value: "0 8 1 1,4,7,10 *" },
+  { label: "1st of January at 08:00", value: "0 8 1 1 *" },
+];
+
+const NONE = "none";
+
+interface DefinitionForm {
+  id?: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  workflowType: WorkflowType;
+  templateId: string;
+  formTemplateId: string;
+  formData: Record<string, any>;
+  title: string;
+  description: string;
+  department: string;
+  estimatedAmount: string;
+  currency: string;
+  ownerId: string;
+  autoSubmit: boolean;
+}
+
+const EMPTY_FORM: DefinitionForm = {
+  name: "",
+  cronExpression: "0 8 1 * *",
+  timezone: DEFAULT_TIMEZONE,
+  workflowType: "PR",
+  templateId: NONE,
+  formTemplateId: NONE,
+  formData: {},
+  title: "",
+  description: "",
+  department: NONE,
+  estimatedAmount: "",
+  currency: "IDR",
+  ownerId: "",
+  autoSubmit: false,
+};
+
+export default function RecurringWorkflows() {
+  const { user } = useUserRole();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [form, setForm] = useState<DefinitionForm>(EMPTY_FORM);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const { data: definitions, isLoading, refetch } = trpc.recurringWorkflows.list.useQuery(undefined, {
+    enabled: user?.role === "admin",
+  });
+  const { data: users } = trpc.users.getAll.useQuery();
+  const { data: templates } = trpc.templates.getAll.useQuery({ isActive: true });
+  const { data: formTemplates } = trpc.formTemplates.getActive.useQuery();
+  const { data: runs, isLoading: runsLoading } = trpc.recurringWorkflows.getRuns.useQuery(
+    { id: historyId || "" },
+    { enabled: !!historyId }
+  );
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setEditorOpen(false);
+    refetch();
+  };
+
+  const createDefinition = trpc.recurringWorkflows.create.useMutation({
+    onSuccess: () => onSaved("Recurring workflow created"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateDefinition = trpc.recurringWorkflows.update.useMutation({
+    onSuccess: () => onSaved("Recurring workflow updated"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setActive = trpc.recurringWorkflows.setActive.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.isActive ? "Schedule resumed" : "Schedule paused");
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const runNow = trpc.recurringWorkflows.runNow.useMutation({
+    onSuccess: (result) => {
+      if (result.status === "failed") {
+        toast.error("Run failed, see the run history for details");
+      } else {
+        toast.success(result.status === "submitted" ? "Workflow created and submitted" : "Draft workflow created");
+      }
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteDefinition = trpc.recurringWorkflows.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Recurring workflow deleted");
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const selectedFormTemplate = formTemplates?.find((t) => String(t.id) === form.formTemplateId);
+  const typeTemplates = templates?.filter((t) => t.workflowType === form.workflowType) || [];
+
+  const openEditor = (definition?: NonNullable<typeof definitions>[number]) => {
+    setForm(
+      definition
+        ? {
+            id: definition.id,
+            name: definition.name,
+            cronExpression: definition.cronExpression,
+            timezone: definition.timezone,
+            workflowType: definition.workflowType,
+            templateId: definition.templateId || NONE,
+            formTemplateId: definition.formTemplateId || NONE,
+            formData: definition.formData || {},
+            title: definition.title,
+            description: definition.description || "",
+            department: definition.department || NONE,
+            estimatedAmount: definition.estimatedAmount || "",
+            currency: definition.currency || "IDR",
+            ownerId: definition.ownerId.toString(),
+            autoSubmit: definition.autoSubmit,
+          }
+        : EMPTY_FORM
+    );
+    setEditorOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.title.trim() || !form.ownerId) {
+      toast.error("Please enter a name, a title and an owner");
+      return;
+    }
+    if (!isValidCron(form.cronExpression)) {
+      toast.error("Please enter a valid schedule");
+      return;
+    }
+
+    const fields = {
+      name: form.name.trim(),
+      cronExpression: form.cronExpression.trim(),
+      timezone: form.timezone.trim() || undefined,
+      workflowType: form.workflowType,
+      templateId: form.templateId !== NONE ? form.templateId : undefined,
+      formTemplateId: form.formTemplateId !== NONE ? form.formTemplateId : undefined,
+      formData: form.formTemplateId !== NONE ? form.formData : undefined,
+      title: form.title.trim(),
+      description: form.description || undefined,
+      department: form.department !== NONE ? form.department : undefined,
+      estimatedAmount: form.estimatedAmount ? parseFloat(form.estimatedAmount) : undefined,
+      currency: form.currency || undefined,
+      ownerId: parseInt(form.ownerId),
+      autoSubmit: form.autoSubmit,
+    };
+
+    if (form.id) {
+      updateDefinition.mutate({ id: form.id, ...fields });
+    } else {
+      createDefinition.mutate(fields);
+    }
+  };
+
+  if (!user || (user.role === "admin" && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (user.role !== "admin") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Admin access required</p>
+      </div>
+    );
+  }
+
+  const saving = createDefinition.isPending || updateDefinition.isPending;
+  const historyDefinition = definitions?.find((d) => d.id === historyId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-end justify-between">
+          <div>
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="mb-2">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold">Recurring Workflows</h1>
+            <p className="text-sm text-muted-foreground">Workflows raised automatically on a fixed schedule</p>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedules</CardTitle>
+            <CardDescription>Each run creates a workflow for the owner, as a draft or submitted straight away</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {definitions && definitions.length > 0 ? (
+              <div className="space-y-4">
+                {definitions.map((d) => (
+                  <div key={d.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <p className="font-medium">{d.name}</p>
+                        <Badge variant="outline">{d.workflowType}</Badge>
+                        {d.isActive ? (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Paused</Badge>
+                        )}
+                        {d.autoSubmit && <Badge variant="outline">Auto-submit</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        <code>{d.cronExpression}</code> ({d.timezone}) · Owner: {d.ownerName}
+                        {d.lastRunAt && ` · Last run ${format(new Date(d.lastRunAt), "MMM dd, yyyy HH:mm")}`}
+                        {d.nextRunAt && ` · Next run ${format(new Date(d.nextRunAt), "MMM dd, yyyy HH:mm")}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setHistoryId(d.id)}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openEditor(d)}>
+                        <PencilLine className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setActive.mutate({ id: d.id, isActive: !d.isActive })}
+                        disabled={setActive.isPending}
+                      >
+                        {d.isActive ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                        {d.isActive ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runNow.mutate({ id: d.id })}
+                        disabled={runNow.isPending}
+                      >
+                        <Zap className="h-4 w-4 mr-1" />
+                        Run Now
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          if (confirm(`Delete the recurring workflow "${d.name}" and its run history?`)) {
+                            deleteDefinition.mutate({ id: d.id });
+                          }
+                        }}
+                        disabled={deleteDefinition.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">No recurring workflows yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Editor Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form.id ? "Edit Recurring Workflow" : "New Recurring Workflow"}</DialogTitle>
+            <DialogDescription>
+              The title may use {"{month}"}, {"{year}"}, {"{quarter}"} and {"{date}"}, filled in at each run
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  placeholder="e.g., Monthly consumables"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="owner">Owner *</Label>
+                <Select value={form.ownerId} onValueChange={(ownerId) => setForm({ ...form, ownerId })}>
+                  <SelectTrigger id="owner">
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users
+                      ?.filter((u) => u.isActive)
+                      .map((u) => (
+                        <SelectItem key={u.id} value={u.id.toString()}>
+                          {u.fullName || u.email} ({u.role})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cronExpression">Schedule *</Label>
+                <Input
+                  id="cronExpression"
+                  placeholder="minute hour day month weekday"
+                  value={form.cronExpression}
+                  onChange={(e) => setForm({ ...form, cronExpression: e.target.value })}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <Button
+                      key={preset.value}
+                      size="sm"
+                      variant={form.cronExpression === preset.value ? "default" : "outline"}
+                      className="h-7 text-xs"
+                      onClick={() => setForm({ ...form, cronExpression: preset.value })}
+                    >
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Time Zone</Label>
+                <Input
+                  id="timezone"
+                  value={form.timezone}
+                  onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="workflowType">Workflow Type *</Label>
+                <Select
+                  value={form.workflowType}
+                  onValueChange={(workflowType) =>
+                    setForm({ ...form, workflowType: workflowType as WorkflowType, templateId: NONE })
+                  }
+                >
+                  <SelectTrigger id="workflowType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateId">Workflow Template</Label>
+                <Select value={form.templateId} onValueChange={(templateId) => setForm({ ...form, templateId })}>
+                  <SelectTrigger id="templateId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Default template</SelectItem>
+                    {typeTemplates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="title">Workflow Title *</Label>
+              <Input
+                id="title"
+                placeholder="e.g., Consumables PR {month} {year}"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Select value={form.department} onValueChange={(department) => setForm({ ...form, department })}>
+                  <SelectTrigger id="department">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Owner's department</SelectItem>
+                    {DEPARTMENTS.map((department) => (
+                      <SelectItem key={department} value={department}>
+                        {department}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="estimatedAmount">Estimated Amount</Label>
+                <Input
+                  id="estimatedAmount"
+                  type="number"
+                  value={form.estimatedAmount}
+                  onChange={(e) => setForm({ ...form, estimatedAmount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="currency">Currency</Label>
+                <Input
+                  id="currency"
+                  maxLength={3}
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="formTemplateId">Form Template</Label>
+              <Select
+                value={form.formTemplateId}
+                onValueChange={(formTemplateId) => setForm({ ...form, formTemplateId, formData: {} })}
+              >
+                <SelectTrigger id="formTemplateId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No form</SelectItem>
+                  {formTemplates?.map((template) => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.templateName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedFormTemplate && (
+              <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+                <p className="text-sm font-medium">Pre-filled Form Data</p>
+                <DynamicFormRenderer
+                  fields={selectedFormTemplate.fields.filter((field) => field.type !== "file")}
+                  formData={form.formData}
+                  onChange={(fieldId, value) =>
+                    setForm((prev) => ({ ...prev, formData: { ...prev.formData, [fieldId]: value } }))
+                  }
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <Label htmlFor="autoSubmit">Submit Automatically</Label>
+                <p className="text-sm text-muted-foreground">Otherwise each run leaves a draft for the owner to review</p>
+              </div>
+              <Switch
+                id="autoSubmit"
+                checked={form.autoSubmit}
+                onCheckedChange={(autoSubmit) => setForm({ ...form, autoSubmit })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run History Dialog */}
+      <Dialog open={!!historyId} onOpenChange={(open) => !open && setHistoryId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Run History</DialogTitle>
+            <DialogDescription>{historyDefinition?.name}</DialogDescription>
+          </DialogHeader>
+          {runsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : runs && runs.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run At</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Workflow</TableHead>
+                  <TableHead>Triggered By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell>{format(new Date(run.createdAt), "MMM dd, yyyy HH:mm")}</TableCell>
+                    <TableCell>
+                      {run.status === "failed" ? (
+                        <span className="text-destructive" title={run.errorMessage || undefined}>
+                          Failed{run.errorMessage && `: ${run.errorMessage}`}
+                        </span>
+                      ) : run.status === "submitted" ? (
+                        "Submitted"
+                      ) : (
+                        "Draft created"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {run.workflowId && run.workflowNumber ? (
+                        <Link href={`/workflows/${run.workflowId}`} className="text-primary hover:underline">
+                          {run.workflowNumber}
+                        </Link>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>{run.triggeredByName || "Schedule"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No runs yet</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Copyright Footer */}
+      <footer className="border-t bg-card mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          © Eddie Amintohir. All rights reserved.
+        </div>
+      </footer>
+    </div>
+  );
+}
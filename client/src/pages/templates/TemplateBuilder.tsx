@@ -33,7 +33,8 @@ import {
   Eye,
   ArrowLeft,
   Save,
-  Home
+  Home,
+  GitBranch
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
@@ -53,8 +54,25 @@ interface TemplateStage {
   notificationEmails?: string[];
   visibleToDepartments?: string[];
   approvalThreshold?: number;
+  parallelGroup?: string;
+  minApprovals?: number;
+  rejectionPolicy?: "any" | "quorum_unreachable";
+  slaHours?: number;
+  escalationRole?: string;
+  escalationUserId?: number;
+  escalationAction?: "notify" | "add_approver" | "reassign";
+  assignmentMode?: "role" | "fixed" | "requester" | "round_robin" | "least_loaded";
+  assigneeId?: number;
+  reapprovalRule?: "threshold_crossed" | "amount_increase" | "any_change" | "never";
 }
 
+const ASSIGNMENT_LABELS: Record<string, string> = {
+  fixed: "Named assignee",
+  requester: "Assignee chosen by requester",
+  round_robin: "Round-robin",
+  least_loaded: "Least-loaded",
+};
+
 interface SortableStageProps {
   stage: TemplateStage;
   onEdit: (stage: TemplateStage) => void;
@@ -94,6 +112,12 @@ function SortableStage({ stage, onEdit, onDelete }: SortableStageProps) {
                       Stage {stage.stageOrder}
                     </Badge>
                     <h4 className="font-semibold">{stage.stageName}</h4>
+                    {stage.parallelGroup && (
+                      <Badge variant="outline" className="text-xs">
+                        <GitBranch className="h-3 w-3 mr-1" />
+                        Parallel: {stage.parallelGroup}
+                      </Badge>
+                    )}
                   </div>
                   
                   {stage.stageDescription && (
@@ -116,6 +140,21 @@ function SortableStage({ stage, onEdit, onDelete }: SortableStageProps) {
                         One of: {stage.requiresOneOf.join(", ")}
                       </Badge>
                     )}
+                    {(stage.minApprovals || 1) > 1 && (
+                      <Badge variant="secondary">
+                        {stage.minApprovals} approvals needed
+                      </Badge>
+                    )}
+                    {stage.slaHours && (
+                      <Badge variant="secondary">
+                        SLA: {stage.slaHours}h
+                      </Badge>
+                    )}
+                    {stage.assignmentMode && stage.assignmentMode !== "role" && (
+                      <Badge variant="secondary">
+                        {ASSIGNMENT_LABELS[stage.assignmentMode]}
+                      </Badge>
+                    )}
                   </div>
 
                   <div className="flex flex-wrap gap-2 mt-2">
@@ -282,6 +321,16 @@ export default function TemplateBuilder() {
           notificationEmails: stage.notificationEmails,
           visibleToDepartments: stage.visibleToDepartments,
           approvalThreshold: stage.approvalThreshold,
+          parallelGroup: stage.parallelGroup,
+          minApprovals: stage.minApprovals,
+          rejectionPolicy: stage.rejectionPolicy,
+          slaHours: stage.slaHours,
+          escalationRole: stage.escalationRole,
+          escalationUserId: stage.escalationUserId,
+          escalationAction: stage.escalationAction,
+          assignmentMode: stage.assignmentMode,
+          assigneeId: stage.assigneeId,
+          reapprovalRule: stage.reapprovalRule,
         })),
       });
       toast.success("Template saved successfully");
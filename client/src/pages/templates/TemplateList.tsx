@@ -13,7 +13,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
-import { Plus, Edit, Trash2, Eye, Search, CheckCircle, Upload, Mail, EyeIcon, Home } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Search, CheckCircle, Upload, Mail, EyeIcon, Home, GitBranch } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
@@ -250,6 +250,17 @@ export default function TemplateList() {
                                 One of: {stage.requiresOneOf.join(", ")}
                               </Badge>
                             )}
+                            {stage.minApprovals > 1 && (
+                              <Badge variant="secondary">
+                                {stage.minApprovals} approvals needed
+                              </Badge>
+                            )}
+                            {stage.parallelGroup && (
+                              <Badge variant="outline">
+                                <GitBranch className="h-3 w-3 mr-1" />
+                                Parallel: {stage.parallelGroup}
+                              </Badge>
+                            )}
                           </div>
 
                           <div className="flex flex-wrap gap-2">
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { useUserRole } from "@/hooks/useUserRole";
 import { Button } from "@/components/ui/button";
@@ -9,10 +9,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, ArrowLeft, Download, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ArrowLeft, Download, FileText, GitBranch, X } from "lucide-react";
 import { toast } from "sonner";
 import { Link } from "wouter";
 import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
+import { usesNamedAssignee } from "@shared/stageAssignment";
+import { getStageApproverRoles } from "@shared/stageQuorum";
+import { FOLLOW_UP_TYPES } from "@shared/workflowLinks";
 
 export default function WorkflowCreate() {
   const [, setLocation] = useLocation();
@@ -28,6 +32,40 @@ export default function WorkflowCreate() {
   const [requiresPpic, setRequiresPpic] = useState(false);
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [stageAssignees, setStageAssignees] = useState<Record<string, number>>({});
+  const [watcherIds, setWatcherIds] = useState<number[]>([]);
+  const [blockedUntilParentCompleted, setBlockedUntilParentCompleted] = useState(true);
+
+  // Follow-up to another workflow (?parent=<id>)
+  const parentWorkflowId = new URLSearchParams(useSearch()).get("parent") || "";
+  const { data: parentWorkflow } = trpc.workflows.getById.useQuery(
+    { id: parentWorkflowId },
+    { enabled: !!parentWorkflowId }
+  );
+  const { data: parentSubmissions } = trpc.formSubmissions.getByWorkflow.useQuery(
+    { workflowId: parentWorkflowId },
+    { enabled: !!parentWorkflowId }
+  );
+
+  // Pre-fill the follow-up from its parent
+  useEffect(() => {
+    if (!parentWorkflow) return;
+    setTitle((prev) => prev || parentWorkflow.title);
+    setDescription((prev) => prev || parentWorkflow.description || "");
+    setDepartment((prev) => prev || parentWorkflow.department);
+  }, [parentWorkflow]);
+
+  // Parent form values for the fields the chosen form also has
+  const getParentFormData = (formTemplateId: string) => {
+    const parentFormData = parentSubmissions?.[0]?.formData;
+    const formTemplate = formTemplates?.find(t => String(t.id) === formTemplateId);
+    if (!parentFormData || !formTemplate) return {};
+    return Object.fromEntries(
+      formTemplate.fields
+        .filter((field) => field.type !== "file" && parentFormData[field.id] !== undefined)
+        .map((field) => [field.id, parentFormData[field.id]])
+    );
+  };
 
   // Fetch active form templates
   const { data: formTemplates, isLoading: formTemplatesLoading } = trpc.formTemplates.getActive.useQuery();
@@ -38,6 +76,12 @@ export default function WorkflowCreate() {
   // Get selected workflow template
   const selectedWorkflowTemplate = workflowTemplates?.find(t => t.id === selectedTemplateId);
 
+  // Stages whose assignee the requester picks
+  const { data: users } = trpc.users.getAll.useQuery();
+  const requesterAssignedStages = (selectedWorkflowTemplate?.stages || [])
+    .filter(stage => stage.assignmentMode === "requester" && usesNamedAssignee(stage))
+    .sort((a, b) => a.stageOrder - b.stageOrder);
+
   // Get form template by selected ID
   const selectedFormTemplate = formTemplates?.find(t => String(t.id) === selectedFormTemplateId);
 
@@ -132,6 +176,12 @@ export default function WorkflowCreate() {
         requiresGa,
         requiresPpic,
         templateId: selectedTemplateId || undefined,
+        stageAssignees: Object.keys(stageAssignees).length > 0 ? stageAssignees : undefined,
+        parentWorkflowId: parentWorkflow?.id,
+        watcherIds: watcherIds.length > 0 ? watcherIds : undefined,
+        blockedUntilParentCompleted: parentWorkflow && parentWorkflow.overallStatus !== "completed"
+          ? blockedUntilParentCompleted
+          : undefined,
       });
 
       // If form template was used, save form submission
@@ -176,6 +226,40 @@ export default function WorkflowCreate() {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Parent Workflow */}
+              {parentWorkflow && (
+                <div className="p-3 bg-muted rounded-md space-y-3">
+                  <div className="flex items-start gap-2">
+                    <GitBranch className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium">
+                        Follow-up to {parentWorkflow.workflowNumber}: {parentWorkflow.title}
+                      </p>
+                      {FOLLOW_UP_TYPES[parentWorkflow.workflowType]?.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Usually followed by: {FOLLOW_UP_TYPES[parentWorkflow.workflowType].join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {parentWorkflow.overallStatus !== "completed" && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="blockedUntilParentCompleted">Wait for Parent</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Hold submission until {parentWorkflow.workflowNumber} is completed
+                        </p>
+                      </div>
+                      <Switch
+                        id="blockedUntilParentCompleted"
+                        checked={blockedUntilParentCompleted}
+                        onCheckedChange={setBlockedUntilParentCompleted}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Workflow Template Selection */}
               <div className="space-y-2">
                 <Label htmlFor="templateId">Workflow Template *</Label>
@@ -189,6 +273,7 @@ export default function WorkflowCreate() {
                     }
                     setFormData({});
                     setFormErrors({});
+                    setStageAssignees({});
                   }}
                 >
                   <SelectTrigger id="templateId">
@@ -222,6 +307,47 @@ export default function WorkflowCreate() {
                 )}
               </div>
 
+              {/* Stage Assignees */}
+              {requesterAssignedStages.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Approvers</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Choose who should approve these stages, or leave them open to everyone with the role
+                  </p>
+                  {requesterAssignedStages.map((stage) => {
+                    const roles = getStageApproverRoles(stage);
+                    return (
+                      <div key={stage.id} className="grid grid-cols-2 gap-4 items-center">
+                        <span className="text-sm">{stage.stageName}</span>
+                        <Select
+                          value={stageAssignees[stage.id]?.toString() || "any"}
+                          onValueChange={(value) =>
+                            setStageAssignees((prev) => {
+                              const { [stage.id]: _, ...rest } = prev;
+                              return value === "any" ? rest : { ...rest, [stage.id]: parseInt(value) };
+                            })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Anyone with the role</SelectItem>
+                            {users
+                              ?.filter((u) => u.isActive && (roles.length === 0 || roles.includes(u.role)))
+                              .map((u) => (
+                                <SelectItem key={u.id} value={u.id.toString()}>
+                                  {u.fullName || u.email} ({u.role})
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Title */}
               <div className="space-y-2">
                 <Label htmlFor="title">Workflow Title *</Label>
@@ -246,6 +372,49 @@ export default function WorkflowCreate() {
                 />
               </div>
 
+              {/* Watchers */}
+              <div className="space-y-2">
+                <Label>Watchers (Optional)</Label>
+                <p className="text-xs text-muted-foreground">
+                  Colleagues to keep informed of stage changes, comments and completion
+                </p>
+                <Select
+                  value=""
+                  onValueChange={(value) => setWatcherIds((prev) => [...prev, parseInt(value)])}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add a watcher" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users
+                      ?.filter((u) => u.isActive && u.id !== user?.id && !watcherIds.includes(u.id))
+                      .map((u) => (
+                        <SelectItem key={u.id} value={u.id.toString()}>
+                          {u.fullName || u.email} ({u.role})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {watcherIds.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {watcherIds.map((watcherId) => {
+                      const watcher = users?.find((u) => u.id === watcherId);
+                      return (
+                        <Badge key={watcherId} variant="secondary" className="gap-1">
+                          {watcher ? watcher.fullName || watcher.email : watcherId}
+                          <button
+                            type="button"
+                            onClick={() => setWatcherIds((prev) => prev.filter((id) => id !== watcherId))}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
               {/* Form Template Selection */}
               {selectedTemplateId && (
                 <div className="space-y-2">
@@ -254,7 +423,7 @@ export default function WorkflowCreate() {
                     value={selectedFormTemplateId}
                     onValueChange={(value) => {
                       setSelectedFormTemplateId(value);
-                      setFormData({});
+                      setFormData(getParentFormData(value));
                       setFormErrors({});
                     }}
                   >
@@ -2,35 +2,80 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
-import { Loader2, ArrowLeft, CheckCircle2, XCircle, Upload, Download, FileText } from "lucide-react";
+import { Loader2, ArrowLeft, CheckCircle2, XCircle, Upload, Download, FileText, RotateCcw, AlarmClock, UserCog, PencilLine, GitBranch, Lock, Copy, FileSpreadsheet } from "lucide-react";
 import { useState, useRef } from "react";
-import { Link, useParams } from "wouter";
+import { Link, useLocation, useParams } from "wouter";
 import { toast } from "sonner";
 import { useCognitoAuth } from "@/hooks/useCognitoAuth";
+import { useLiveWorkflowUpdates } from "@/hooks/useLiveWorkflowUpdates";
 import { AuditTrail } from "@/components/AuditTrail";
+import { WorkflowWatchers } from "@/components/WorkflowWatchers";
+import { WorkflowComments } from "@/components/WorkflowComments";
 import { HelpButton } from "@/components/HelpButton";
 import { WorkflowProgressTrail } from "@/components/WorkflowProgressTrail";
+import { DynamicFormRenderer } from "@/components/DynamicFormRenderer";
 import { format } from "date-fns";
+import { getStageApproverRoles } from "@shared/stageQuorum";
 
 export default function WorkflowDetail() {
   const { id } = useParams();
   const workflowId = id || "";
+  const [, setLocation] = useLocation();
   const { user: cognitoUser } = useCognitoAuth();
   const { data: user } = trpc.users.me.useQuery(undefined, {
     enabled: !!cognitoUser, // Only fetch when Cognito user is available
   });
   const [approveDialogOpen, setApproveDialogOpen] = useState(false);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [returnTarget, setReturnTarget] = useState<string>("requester");
+  const [reassignDialogOpen, setReassignDialogOpen] = useState(false);
+  const [reassignTo, setReassignTo] = useState<string>("role");
+  const [amendDialogOpen, setAmendDialogOpen] = useState(false);
+  const [amendTitle, setAmendTitle] = useState("");
+  const [amendDescription, setAmendDescription] = useState("");
+  const [amendAmount, setAmendAmount] = useState("");
+  const [amendFormData, setAmendFormData] = useState<Record<string, any>>({});
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [duplicateAttachments, setDuplicateAttachments] = useState(false);
   const [selectedStageId, setSelectedStageId] = useState<string | null>(null);
   const [comments, setComments] = useState("");
   const [uploadingStageId, setUploadingStageId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { data: workflow, isLoading: workflowLoading, error: workflowError } = trpc.workflows.getById.useQuery({ id: workflowId });
+  const { data: workflow, isLoading: workflowLoading, error: workflowError, refetch: refetchWorkflow } = trpc.workflows.getById.useQuery({ id: workflowId });
   const { data: stages, isLoading: stagesLoading, refetch: refetchStages } = trpc.stages.getByWorkflow.useQuery({ workflowId });
   const { data: files } = trpc.files.getByWorkflow.useQuery({ workflowId });
+  const { data: approvalProgress, refetch: refetchApprovalProgress } = trpc.stages.getApprovalProgress.useQuery({ workflowId });
+
+  // Other users' changes show up without a refresh. A decision dialog closes
+  // when someone else has just closed its stage, instead of failing on submit.
+  useLiveWorkflowUpdates({
+    workflowId,
+    announceUserId: user?.id,
+    enabled: !!workflowId && !!user,
+    onEvent: (event) => {
+      const decisionOpen = approveDialogOpen || rejectDialogOpen || returnDialogOpen;
+      if (
+        decisionOpen &&
+        event.type === "stage_status" &&
+        event.stageId === selectedStageId &&
+        event.actorId !== user?.id &&
+        event.status !== "in_progress"
+      ) {
+        setApproveDialogOpen(false);
+        setRejectDialogOpen(false);
+        setReturnDialogOpen(false);
+        toast.warning("Someone else has just acted on this stage");
+      }
+    },
+  });
 
   // Filter stages based on user's department visibility
   const visibleStages = stages?.filter(stage => {
@@ -47,12 +92,13 @@ export default function WorkflowDetail() {
   }) || [];
 
   const approveStage = trpc.stages.approve.useMutation({
-    onSuccess: () => {
-      toast.success("Stage approved successfully");
+    onSuccess: (result) => {
+      toast.success(result.stageCompleted ? "Stage approved successfully" : "Approval recorded, waiting for other approvers");
       setApproveDialogOpen(false);
       setComments("");
       setSelectedStageId(null);
       refetchStages();
+      refetchApprovalProgress();
     },
     onError: (error) => {
       toast.error(error.message);
@@ -60,12 +106,112 @@ export default function WorkflowDetail() {
   });
 
   const rejectStage = trpc.stages.reject.useMutation({
-    onSuccess: () => {
-      toast.success("Stage rejected");
+    onSuccess: (result) => {
+      toast.success(result.stageRejected ? "Stage rejected" : "Rejection recorded, quorum can still be reached");
       setRejectDialogOpen(false);
       setComments("");
       setSelectedStageId(null);
       refetchStages();
+      refetchApprovalProgress();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const returnStage = trpc.stages.returnForRevision.useMutation({
+    onSuccess: () => {
+      toast.success("Workflow returned for revision");
+      setReturnDialogOpen(false);
+      setComments("");
+      setReturnTarget("requester");
+      setSelectedStageId(null);
+      refetchWorkflow();
+      refetchStages();
+      refetchApprovalProgress();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const { data: users } = trpc.users.getAll.useQuery();
+
+  const reassignStage = trpc.stages.reassign.useMutation({
+    onSuccess: () => {
+      toast.success("Stage reassigned");
+      setReassignDialogOpen(false);
+      setComments("");
+      setSelectedStageId(null);
+      refetchStages();
+      refetchApprovalProgress();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const { data: formSubmissions, refetch: refetchFormSubmission } = trpc.formSubmissions.getByWorkflow.useQuery({ workflowId });
+  // Amendments apply to the latest form submission
+  const formSubmission = formSubmissions?.[0];
+  const { data: amendments, refetch: refetchAmendments } = trpc.workflows.getAmendments.useQuery({ workflowId });
+  const { data: related } = trpc.workflows.getRelated.useQuery({ id: workflowId });
+
+  const exportExcel = trpc.workflows.exportExcel.useMutation({
+    onSuccess: ({ fileName, data }) => {
+      const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+      const url = URL.createObjectURL(
+        new Blob([bytes], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const amendWorkflow = trpc.workflows.amend.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.reopenedStageIds.length > 0
+          ? `Amendment saved as version ${result.version}; approvals will be repeated`
+          : `Amendment saved as version ${result.version}`
+      );
+      setAmendDialogOpen(false);
+      setComments("");
+      refetchWorkflow();
+      refetchStages();
+      refetchApprovalProgress();
+      refetchAmendments();
+      refetchFormSubmission();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const duplicateWorkflow = trpc.workflows.duplicate.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Draft ${result.workflowNumber} created`);
+      setDuplicateDialogOpen(false);
+      setDuplicateAttachments(false);
+      setLocation(`/workflows/${result.id}`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const resubmitWorkflow = trpc.workflows.resubmit.useMutation({
+    onSuccess: () => {
+      toast.success("Workflow resubmitted for approval");
+      refetchWorkflow();
+      refetchStages();
+      refetchApprovalProgress();
     },
     onError: (error) => {
       toast.error(error.message);
@@ -141,6 +287,28 @@ export default function WorkflowDetail() {
     setRejectDialogOpen(true);
   };
 
+  const handleReturnClick = (stageId: string) => {
+    setSelectedStageId(stageId);
+    setReturnTarget("requester");
+    setReturnDialogOpen(true);
+  };
+
+  const handleAmendClick = () => {
+    if (!workflow) return;
+    setAmendTitle(workflow.title);
+    setAmendDescription(workflow.description || "");
+    setAmendAmount(workflow.estimatedAmount ? String(workflow.estimatedAmount) : "");
+    setAmendFormData(formSubmission?.formData || {});
+    setComments("");
+    setAmendDialogOpen(true);
+  };
+
+  const handleReassignClick = (stageId: string, assigneeId: number | null) => {
+    setSelectedStageId(stageId);
+    setReassignTo(assigneeId ? assigneeId.toString() : "role");
+    setReassignDialogOpen(true);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "completed":
@@ -151,6 +319,8 @@ export default function WorkflowDetail() {
         return <Badge className="bg-gray-100 text-gray-800">Pending</Badge>;
       case "rejected":
         return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case "revision_requested":
+        return <Badge className="bg-yellow-100 text-yellow-800">Revision Requested</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
@@ -158,12 +328,15 @@ export default function WorkflowDetail() {
 
   const canUserApproveStage = (stage: any) => {
     if (!user) return false;
-    // Allow approval for pending or in_progress stages
-    if (stage.status !== "pending" && stage.status !== "in_progress") return false;
+    // Only the stages currently awaiting approval can be acted on
+    if (stage.status !== "in_progress") return false;
     // Check if workflow is in a state that allows approvals
-    if (workflow?.overallStatus === "completed" || workflow?.overallStatus === "rejected" || workflow?.overallStatus === "discontinued") return false;
-    // Check role permission
-    if (stage.requiredRole && user.role !== stage.requiredRole && user.role !== "admin") return false;
+    if (workflow?.overallStatus !== "in_progress") return false;
+    // Check role permission (the server also accounts for delegations)
+    const progress = approvalProgress?.find(p => p.stageId === stage.id);
+    if (progress) return progress.canAct;
+    const approverRoles = getStageApproverRoles(stage);
+    if (approverRoles.length > 0 && !approverRoles.includes(user.role) && user.role !== "admin") return false;
     return true;
   };
 
@@ -248,22 +421,59 @@ export default function WorkflowDetail() {
                       <Badge>{workflow.workflowType}</Badge>
                       <span className="text-sm text-muted-foreground">{workflow.workflowNumber}</span>
                       {getStatusBadge(workflow.overallStatus)}
+                      {amendments && amendments.length > 0 && (
+                        <Badge variant="outline">Version {amendments[0].version}</Badge>
+                      )}
                     </div>
                     <CardTitle className="text-2xl">{workflow.title}</CardTitle>
                     {workflow.description && (
                       <CardDescription>{workflow.description}</CardDescription>
                     )}
                   </div>
-                  {excelTemplate && (
+                  <div className="flex gap-2">
+                    {(workflow.overallStatus === "completed" || workflow.overallStatus === "in_progress") && (
+                      <Link href={`/workflows/create?parent=${workflowId}`}>
+                        <Button variant="outline" size="sm">
+                          <GitBranch className="h-4 w-4 mr-2" />
+                          Create Follow-up
+                        </Button>
+                      </Link>
+                    )}
+                    <Button onClick={() => setDuplicateDialogOpen(true)} variant="outline" size="sm">
+                      <Copy className="h-4 w-4 mr-2" />
+                      Duplicate
+                    </Button>
+                    {(workflow.overallStatus === "in_progress" || workflow.overallStatus === "revision_requested") &&
+                      (workflow.requesterId === user.id || user.role === "admin") && (
+                      <Button onClick={handleAmendClick} variant="outline" size="sm">
+                        <PencilLine className="h-4 w-4 mr-2" />
+                        Amend
+                      </Button>
+                    )}
                     <Button
-                      onClick={handleDownloadTemplate}
+                      onClick={() => exportExcel.mutate({ id: workflowId })}
                       variant="outline"
                       size="sm"
+                      disabled={exportExcel.isPending}
                     >
-                      <Download className="h-4 w-4 mr-2" />
-                      Download {excelTemplate.templateName}
+                      {exportExcel.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      )}
+                      Export Excel
                     </Button>
-                  )}
+                    {excelTemplate && (
+                      <Button
+                        onClick={handleDownloadTemplate}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Download {excelTemplate.templateName}
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -292,6 +502,45 @@ export default function WorkflowDetail() {
               </CardContent>
             </Card>
 
+            {/* Revision Requested */}
+            {workflow.overallStatus === "revision_requested" && (
+              <Card className="border-yellow-300 bg-yellow-50 dark:bg-yellow-950/20">
+                <CardContent className="pt-6 flex items-center justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <RotateCcw className="h-5 w-5 text-yellow-700 mt-0.5" />
+                    <div>
+                      <p className="font-medium">This workflow was returned for revision</p>
+                      <p className="text-sm text-muted-foreground">
+                        Update the request and resubmit it. Approval continues from the stage that returned it.
+                      </p>
+                    </div>
+                  </div>
+                  {(workflow.requesterId === user.id || user.role === "admin") && (
+                    <Button
+                      onClick={() => resubmitWorkflow.mutate({ id: workflowId })}
+                      disabled={resubmitWorkflow.isPending}
+                    >
+                      {resubmitWorkflow.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Resubmit
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Blocked by Parent */}
+            {related?.submissionBlocker && (
+              <Card className="border-gray-300 bg-gray-50 dark:bg-gray-950/20">
+                <CardContent className="pt-6 flex items-start gap-3">
+                  <Lock className="h-5 w-5 text-gray-600 mt-0.5" />
+                  <div>
+                    <p className="font-medium">Submission on hold</p>
+                    <p className="text-sm text-muted-foreground">{related.submissionBlocker}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Initial Submission Details */}
             <Card>
               <CardHeader>
@@ -416,6 +665,73 @@ export default function WorkflowDetail() {
                                 Required Role: {stage.requiredRole}
                               </p>
                             )}
+                            {(() => {
+                              const progress = approvalProgress?.find(p => p.stageId === stage.id);
+                              if (!progress?.assignee && !progress?.canReassign) return null;
+                              return (
+                                <div className="flex items-center gap-2 mt-1">
+                                  <p className="text-sm text-muted-foreground">
+                                    Assigned to: {progress.assignee ? progress.assignee.fullName : "anyone with the role"}
+                                  </p>
+                                  {progress.canReassign && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 px-2"
+                                      onClick={() => handleReassignClick(stage.id, progress.assignee?.id ?? null)}
+                                    >
+                                      <UserCog className="h-3 w-3 mr-1" />
+                                      Reassign
+                                    </Button>
+                                  )}
+                                </div>
+                              );
+                            })()}
+                            {(() => {
+                              const progress = approvalProgress?.find(p => p.stageId === stage.id);
+                              if (!progress || progress.minApprovals <= 1) return null;
+                              return (
+                                <div className="mt-1 space-y-1">
+                                  <p className="text-sm text-muted-foreground">
+                                    Approvals: {progress.approvedCount} of {progress.minApprovals} required
+                                    {progress.rejectedCount > 0 && ` · ${progress.rejectedCount} rejected`}
+                                  </p>
+                                  {(stage.status === "pending" || stage.status === "in_progress") && progress.outstandingApprovers.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1">
+                                      <span className="text-xs text-muted-foreground">Waiting on:</span>
+                                      {progress.outstandingApprovers.map(approver => (
+                                        <Badge key={approver.id} variant="outline" className="text-xs">
+                                          {approver.fullName} ({approver.role})
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })()}
+                            {(() => {
+                              const progress = approvalProgress?.find(p => p.stageId === stage.id);
+                              if (!progress?.slaDeadline || stage.status !== "in_progress") return null;
+                              return (
+                                <div className="flex items-center gap-2 mt-1">
+                                  {progress.slaBreached ? (
+                                    <Badge className="bg-red-100 text-red-800">
+                                      <AlarmClock className="h-3 w-3 mr-1" />
+                                      SLA breached
+                                    </Badge>
+                                  ) : (
+                                    <span className="text-sm text-muted-foreground">
+                                      Due {format(new Date(progress.slaDeadline), "MMM dd, yyyy h:mm a")}
+                                    </span>
+                                  )}
+                                  {progress.escalatedAt && (
+                                    <Badge variant="outline" className="text-xs">
+                                      Escalated {format(new Date(progress.escalatedAt), "MMM dd, h:mm a")}
+                                    </Badge>
+                                  )}
+                                </div>
+                              );
+                            })()}
                           </div>
                         </div>
 
@@ -458,6 +774,11 @@ export default function WorkflowDetail() {
                         {/* Action Buttons */}
                         {canUserApproveStage(stage) && (
                           <div className="mt-4">
+                            {approvalProgress?.find(p => p.stageId === stage.id)?.actingOnBehalfOf && (
+                              <p className="mb-3 text-sm text-muted-foreground">
+                                You are acting on behalf of {approvalProgress.find(p => p.stageId === stage.id)?.actingOnBehalfOf?.fullName}
+                              </p>
+                            )}
                             {(!files || files.filter(f => f.stageId === stage.id).length === 0) && (
                               <div className="mb-3 p-3 bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-lg">
                                 <p className="text-sm text-blue-800 dark:text-blue-200">
@@ -487,6 +808,14 @@ export default function WorkflowDetail() {
                                 <CheckCircle2 className="h-4 w-4 mr-1" />
                                 Approve
                               </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleReturnClick(stage.id)}
+                                variant="outline"
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Return for Revision
+                              </Button>
                               <Button
                                 size="sm"
                                 onClick={() => handleRejectClick(stage.id)}
@@ -506,10 +835,52 @@ export default function WorkflowDetail() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Discussion */}
+            <WorkflowComments workflowId={workflowId} />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Related Workflows */}
+            {related && related.chain.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Related Workflows</CardTitle>
+                  <CardDescription>Parent and follow-up workflows</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {related.chain.map((w) => (
+                    <div
+                      key={w.id}
+                      className="flex items-center justify-between gap-2"
+                      style={{ paddingLeft: `${w.depth * 16}px` }}
+                    >
+                      {w.id === workflowId ? (
+                        <span className="text-sm font-semibold truncate">
+                          {w.workflowNumber} · {w.title}
+                        </span>
+                      ) : (
+                        <Link href={`/workflows/${w.id}`} className="text-sm text-primary hover:underline truncate">
+                          {w.workflowNumber} · {w.title}
+                        </Link>
+                      )}
+                      {getStatusBadge(w.overallStatus)}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Watchers */}
+            <WorkflowWatchers
+              workflowId={workflowId}
+              workflowType={workflow.workflowType}
+              department={workflow.department}
+              currentUserId={user?.id}
+              canAddWatchers={user?.id === workflow.requesterId || user?.role === "admin"}
+            />
+
             {/* Audit Trail */}
             <AuditTrail workflowId={workflowId} />
           </div>
@@ -593,6 +964,230 @@ export default function WorkflowDetail() {
         </DialogContent>
       </Dialog>
 
+      {/* Return for Revision Dialog */}
+      <Dialog open={returnDialogOpen} onOpenChange={setReturnDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return for Revision</DialogTitle>
+            <DialogDescription>
+              Send the workflow back instead of rejecting it. Approval history is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <Select value={returnTarget} onValueChange={setReturnTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="requester">Return to requester</SelectItem>
+                {stages
+                  ?.filter(s => {
+                    const current = stages.find(c => c.id === selectedStageId);
+                    return current && s.stageOrder < current.stageOrder;
+                  })
+                  .map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      Return to stage: {s.stageName}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="What needs to be revised? (required)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturnDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (selectedStageId && comments) {
+                  returnStage.mutate({
+                    stageId: selectedStageId,
+                    comments,
+                    returnToStageId: returnTarget === "requester" ? undefined : returnTarget,
+                  });
+                }
+              }}
+              disabled={!comments || returnStage.isPending}
+            >
+              {returnStage.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Amend Dialog */}
+      <Dialog open={amendDialogOpen} onOpenChange={setAmendDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Amend Workflow</DialogTitle>
+            <DialogDescription>
+              Changes are saved as a new version. Stages may need to approve again, depending on their rules.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="amendTitle">Title</Label>
+              <Input id="amendTitle" value={amendTitle} onChange={(e) => setAmendTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amendDescription">Description</Label>
+              <Textarea
+                id="amendDescription"
+                value={amendDescription}
+                onChange={(e) => setAmendDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amendAmount">Amount ({workflow.currency})</Label>
+              <Input
+                id="amendAmount"
+                type="number"
+                value={amendAmount}
+                onChange={(e) => setAmendAmount(e.target.value)}
+              />
+            </div>
+            {formSubmission?.template && (
+              <DynamicFormRenderer
+                fields={formSubmission.template.fields.filter((field: any) => field.type !== "file")}
+                formData={amendFormData}
+                onChange={(fieldId, value) => setAmendFormData((prev) => ({ ...prev, [fieldId]: value }))}
+              />
+            )}
+            <Textarea
+              placeholder="Reason for the amendment (required)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAmendDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                amendWorkflow.mutate({
+                  id: workflowId,
+                  title: amendTitle.trim() || undefined,
+                  description: amendDescription,
+                  estimatedAmount: amendAmount ? parseFloat(amendAmount) : undefined,
+                  formData: formSubmission?.template ? amendFormData : undefined,
+                  reason: comments,
+                });
+              }}
+              disabled={!comments || amendWorkflow.isPending}
+            >
+              {amendWorkflow.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Amendment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Duplicate Dialog */}
+      <Dialog open={duplicateDialogOpen} onOpenChange={setDuplicateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Duplicate Workflow</DialogTitle>
+            <DialogDescription>
+              Creates a new draft with the same details and form data. Approval stages are rebuilt from the current template.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="duplicateAttachments"
+                checked={duplicateAttachments}
+                onCheckedChange={(checked) => setDuplicateAttachments(checked as boolean)}
+                disabled={!files || files.length === 0}
+              />
+              <Label htmlFor="duplicateAttachments" className="cursor-pointer">
+                Include attachments ({files?.length || 0})
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => duplicateWorkflow.mutate({ id: workflowId, includeAttachments: duplicateAttachments })}
+              disabled={duplicateWorkflow.isPending}
+            >
+              {duplicateWorkflow.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reassign Dialog */}
+      <Dialog open={reassignDialogOpen} onOpenChange={setReassignDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reassign Stage</DialogTitle>
+            <DialogDescription>
+              Hand this stage over to another user with the required role
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="role">Anyone with the role</SelectItem>
+                {(() => {
+                  const current = stages?.find(s => s.id === selectedStageId);
+                  const roles = current ? getStageApproverRoles(current) : [];
+                  return users
+                    ?.filter(u => u.isActive && (roles.length === 0 || roles.includes(u.role)))
+                    .map(u => (
+                      <SelectItem key={u.id} value={u.id.toString()}>
+                        {u.fullName || u.email} ({u.role})
+                      </SelectItem>
+                    ));
+                })()}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Reason (optional)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReassignDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (selectedStageId) {
+                  reassignStage.mutate({
+                    stageId: selectedStageId,
+                    assigneeId: reassignTo === "role" ? null : parseInt(reassignTo),
+                    reason: comments || undefined,
+                  });
+                }
+              }}
+              disabled={reassignStage.isPending}
+            >
+              {reassignStage.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reassign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Hidden File Input */}
       <input
         type="file"
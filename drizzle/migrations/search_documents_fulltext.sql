@@ -0,0 +1,9 @@
+-- Full-text index for the global workflow search (drizzle can't declare
+-- FULLTEXT indexes, so it lives here). The ngram parser indexes every
+-- two-character sequence, so short terms such as "PR" and words inside longer
+-- ones still match. Stopwords are switched off while the index is built, as
+-- the ngram parser would otherwise drop every token containing "a" or "i".
+SET SESSION innodb_ft_enable_stopword = OFF;
+
+ALTER TABLE `search_documents`
+  ADD FULLTEXT INDEX `search_documents_content_ft` (`content`) WITH PARSER ngram;
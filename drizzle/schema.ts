@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, json, decimal, bigint } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, json, decimal, bigint, index, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * =====================================================
@@ -73,6 +73,10 @@ export const workflows = mysqlTable("workflows", {
   requiresGa: boolean("requires_ga").default(false),
   requiresPpic: boolean("requires_ppic").default(false),
   
+  // Parent/child links (e.g. a PR raised as a follow-up to an approved MAF)
+  parentWorkflowId: varchar("parent_workflow_id", { length: 36 }),
+  blockedUntilParentCompleted: boolean("blocked_until_parent_completed").default(false).notNull(),
+  
   // Workflow status
   currentStage: varchar("current_stage", { length: 100 }),
   overallStatus: mysqlEnum("overall_status", [
@@ -80,6 +84,7 @@ export const workflows = mysqlTable("workflows", {
     "in_progress",
     "completed",
     "rejected",
+    "revision_requested",
     "cancelled",
     "discontinued",
     "archived"
@@ -93,7 +98,15 @@ export const workflows = mysqlTable("workflows", {
   
   // Metadata
   metadata: json("metadata").$type<Record<string, any>>(),
-});
+}, (table) => [
+  // Paginated workflow lists: scoped by requester or status, newest first
+  index("workflows_requester_created_idx").on(table.requesterId, table.createdAt),
+  index("workflows_status_created_idx").on(table.overallStatus, table.createdAt),
+  index("workflows_created_idx").on(table.createdAt),
+  index("workflows_type_idx").on(table.workflowType),
+  index("workflows_department_idx").on(table.department),
+  index("workflows_amount_idx").on(table.estimatedAmount),
+]);
 
 export type Workflow = typeof workflows.$inferSelect;
 export type InsertWorkflow = typeof workflows.$inferInsert;
@@ -118,6 +131,26 @@ export const workflowStages = mysqlTable("workflow_stages", {
   requiresOneOf: json("requires_one_of").$type<string[]>(), // For CEO/COO: ['CEO', 'COO']
   approvalThreshold: decimal("approval_threshold", { precision: 15, scale: 2 }),
   
+  // Parallel execution: consecutive stages with the same group run together
+  parallelGroup: varchar("parallel_group", { length: 50 }),
+  
+  // Quorum: number of distinct approvals needed and how rejections are handled
+  minApprovals: int("min_approvals").default(1).notNull(),
+  rejectionPolicy: mysqlEnum("rejection_policy", ["any", "quorum_unreachable"]).default("any").notNull(),
+  
+  // SLA and escalation (copied from the template stage)
+  slaHours: int("sla_hours"),
+  escalationRole: varchar("escalation_role", { length: 50 }),
+  escalationUserId: int("escalation_user_id"),
+  escalationAction: mysqlEnum("escalation_action", ["notify", "add_approver", "reassign"]).default("notify").notNull(),
+  escalatedAt: timestamp("escalated_at"), // Set once the SLA breach has been escalated
+  
+  // Named assignee; when set only this user (or their delegate) can act instead of everyone with the role
+  assigneeId: int("assignee_id"),
+  
+  // Whether an amendment to the workflow invalidates this stage's approval (copied from the template stage)
+  reapprovalRule: mysqlEnum("reapproval_rule", ["threshold_crossed", "amount_increase", "any_change", "never"]).default("threshold_crossed").notNull(),
+  
   // Stage status
   status: mysqlEnum("status", [
     "pending",
@@ -156,9 +189,12 @@ export const workflowApprovals = mysqlTable("workflow_approvals", {
   approverRole: varchar("approver_role", { length: 50 }).notNull(),
   
   // Action details
-  action: mysqlEnum("action", ["approved", "rejected", "commented"]).notNull(),
+  action: mysqlEnum("action", ["approved", "rejected", "returned", "commented"]).notNull(), // "returned" = sent back for revision
   comments: text("comments"),
   
+  // Set when the approver acted as a delegate of another user
+  onBehalfOfId: int("on_behalf_of_id"),
+  
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   
@@ -215,6 +251,7 @@ export const workflowComments = mysqlTable("workflow_comments", {
   id: varchar("id", { length: 36 }).primaryKey(),
   workflowId: varchar("workflow_id", { length: 36 }).notNull(),
   stageId: varchar("stage_id", { length: 36 }),
+  parentCommentId: varchar("parent_comment_id", { length: 36 }), // Set on replies
   
   // Comment details
   commentText: text("comment_text").notNull(),
@@ -227,6 +264,8 @@ export const workflowComments = mysqlTable("workflow_comments", {
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  editedAt: timestamp("edited_at"), // Last edit by the author
+  deletedAt: timestamp("deleted_at"), // Text is cleared; replies stay in place
   
   // Metadata
   metadata: json("metadata").$type<Record<string, any>>(),
@@ -477,6 +516,31 @@ export const templateStages = mysqlTable("template_stages", {
   // Approval threshold (for amount-based routing)
   approvalThreshold: decimal("approval_threshold", { precision: 15, scale: 2 }),
   
+  // Parallel execution: consecutive stages with the same group run together
+  // and the workflow only advances once every stage in the group is completed
+  parallelGroup: varchar("parallel_group", { length: 50 }),
+  
+  // Quorum (e.g. 2 of 3 directors). With "any" a single rejection rejects the stage,
+  // with "quorum_unreachable" only once not enough approvers are left to reach it
+  minApprovals: int("min_approvals").default(1).notNull(),
+  rejectionPolicy: mysqlEnum("rejection_policy", ["any", "quorum_unreachable"]).default("any").notNull(),
+  
+  // SLA: hours the stage may stay in progress before it is escalated to a role or user.
+  // "notify" only alerts the target, "add_approver" lets them approve too, "reassign" hands the stage over
+  slaHours: int("sla_hours"),
+  escalationRole: varchar("escalation_role", { length: 50 }),
+  escalationUserId: int("escalation_user_id"),
+  escalationAction: mysqlEnum("escalation_action", ["notify", "add_approver", "reassign"]).default("notify").notNull(),
+  
+  // Named assignee: "role" leaves the stage to everyone with the role, "fixed" uses assigneeId,
+  // "requester" lets the requester pick, "round_robin"/"least_loaded" pick within the role
+  assignmentMode: mysqlEnum("assignment_mode", ["role", "fixed", "requester", "round_robin", "least_loaded"]).default("role").notNull(),
+  assigneeId: int("assignee_id"),
+  
+  // When an amendment re-triggers an approval already given by this stage:
+  // amount rising past approvalThreshold, any amount increase, any change, or never
+  reapprovalRule: mysqlEnum("reapproval_rule", ["threshold_crossed", "amount_increase", "any_change", "never"]).default("threshold_crossed").notNull(),
+  
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
@@ -542,3 +606,471 @@ export const excelTemplates = mysqlTable("excel_templates", {
 
 export type ExcelTemplate = typeof excelTemplates.$inferSelect;
 export type InsertExcelTemplate = typeof excelTemplates.$inferInsert;
+
+
+/**
+ * =====================================================
+ * APPROVAL_DELEGATIONS TABLE
+ * Temporary transfer of approval authority (out-of-office substitutes)
+ * =====================================================
+ */
+export const approvalDelegations = mysqlTable("approval_delegations", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  
+  // Who hands over their authority, and to whom
+  delegatorId: int("delegator_id").notNull(),
+  delegateId: int("delegate_id").notNull(),
+  
+  // Validity window
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  
+  // Optional limits (null = no limit)
+  workflowTypes: json("workflow_types").$type<string[]>(), // e.g. ['PR', 'MAF']
+  maxAmount: decimal("max_amount", { precision: 15, scale: 2 }),
+  
+  reason: text("reason"),
+  isActive: boolean("is_active").default(true).notNull(), // false once revoked
+  createdBy: int("created_by").notNull(),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type InsertApprovalDelegation = typeof approvalDelegations.$inferInsert;
+
+
+/**
+ * =====================================================
+ * WORKFLOW_AMENDMENTS TABLE
+ * Versioned changes made to a workflow after submission
+ * =====================================================
+ */
+export const workflowAmendments = mysqlTable("workflow_amendments", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  workflowId: varchar("workflow_id", { length: 36 }).notNull(),
+  
+  // Version 1 is the workflow as submitted; each amendment adds one
+  version: int("version").notNull(),
+  
+  // Field-level diff, e.g. [{ field: 'estimatedAmount', oldValue: '1000.00', newValue: 1500 }]
+  changes: json("changes").$type<{ field: string; oldValue: unknown; newValue: unknown }[]>().notNull(),
+  reason: text("reason"),
+  
+  // Stages whose approval was invalidated by this amendment
+  reopenedStageIds: json("reopened_stage_ids").$type<string[]>(),
+  
+  amendedBy: int("amended_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type WorkflowAmendment = typeof workflowAmendments.$inferSelect;
+export type InsertWorkflowAmendment = typeof workflowAmendments.$inferInsert;
+
+
+/**
+ * =====================================================
+ * RECURRING_WORKFLOWS TABLE
+ * Definitions that raise the same workflow on a fixed schedule
+ * =====================================================
+ */
+export const recurringWorkflows = mysqlTable("recurring_workflows", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  name: varchar("name", { length: 255 }).notNull(),
+  
+  // Five-field cron expression, e.g. "0 8 1 * *" (08:00 on the 1st of every month)
+  cronExpression: varchar("cron_expression", { length: 100 }).notNull(),
+  timezone: varchar("timezone", { length: 64 }).default("Asia/Jakarta").notNull(),
+  
+  // What to raise
+  workflowType: mysqlEnum("workflow_type", ["MAF", "PR", "CATTO"]).notNull(),
+  templateId: varchar("template_id", { length: 36 }), // Workflow template; the type's default if null
+  formTemplateId: varchar("form_template_id", { length: 36 }),
+  formData: json("form_data").$type<Record<string, any>>(),
+  title: varchar("title", { length: 500 }).notNull(), // May contain {date}, {month}, {year}, {quarter}
+  description: text("description"),
+  department: varchar("department", { length: 100 }),
+  estimatedAmount: decimal("estimated_amount", { precision: 15, scale: 2 }),
+  currency: varchar("currency", { length: 3 }).default("IDR"),
+  
+  // The owner becomes the requester of every generated workflow
+  ownerId: int("owner_id").notNull(),
+  autoSubmit: boolean("auto_submit").default(false).notNull(), // false = leave as draft
+  
+  isActive: boolean("is_active").default(true).notNull(), // false while paused
+  lastRunAt: timestamp("last_run_at"),
+  createdBy: int("created_by").notNull(),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RecurringWorkflow = typeof recurringWorkflows.$inferSelect;
+export type InsertRecurringWorkflow = typeof recurringWorkflows.$inferInsert;
+
+
+/**
+ * =====================================================
+ * RECURRING_WORKFLOW_RUNS TABLE
+ * Run history of recurring workflow definitions
+ * =====================================================
+ */
+export const recurringWorkflowRuns = mysqlTable("recurring_workflow_runs", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  recurringWorkflowId: varchar("recurring_workflow_id", { length: 36 }).notNull(),
+  
+  // Outcome; workflowId is null when the run failed
+  status: mysqlEnum("status", ["created", "submitted", "failed"]).notNull(),
+  workflowId: varchar("workflow_id", { length: 36 }),
+  errorMessage: text("error_message"),
+  
+  // Set when an admin started the run by hand
+  triggeredBy: int("triggered_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type RecurringWorkflowRun = typeof recurringWorkflowRuns.$inferSelect;
+export type InsertRecurringWorkflowRun = typeof recurringWorkflowRuns.$inferInsert;
+
+
+/**
+ * =====================================================
+ * SEARCH_DOCUMENTS TABLE
+ * Searchable text of workflows, comments, form data and file names
+ * (rebuilt per workflow whenever one of them changes)
+ * =====================================================
+ */
+export const searchDocuments = mysqlTable("search_documents", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  workflowId: varchar("workflow_id", { length: 36 }).notNull(),
+  
+  // Where the text came from
+  sourceType: mysqlEnum("source_type", ["workflow", "comment", "form", "file"]).notNull(),
+  sourceId: varchar("source_id", { length: 36 }).notNull(),
+  
+  content: text("content").notNull(), // FULLTEXT indexed, see migrations/search_documents_fulltext.sql
+  indexedAt: timestamp("indexed_at").defaultNow().notNull(),
+}, (table) => [
+  index("search_documents_workflow_idx").on(table.workflowId),
+]);
+
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type InsertSearchDocument = typeof searchDocuments.$inferInsert;
+
+
+/**
+ * =====================================================
+ * SAVED_VIEWS TABLE
+ * Named workflow list filters, private or shared with a department
+ * =====================================================
+ */
+export const savedViews = mysqlTable("saved_views", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  name: varchar("name", { length: 255 }).notNull(),
+  ownerId: int("owner_id").notNull(),
+  
+  // Workflow list filters (search, status, type, department, dates, amounts)
+  filters: json("filters").$type<Record<string, string>>().notNull(),
+  sortBy: varchar("sort_by", { length: 50 }).default("createdAt").notNull(),
+  sortDirection: mysqlEnum("sort_direction", ["asc", "desc"]).default("desc").notNull(),
+  visibleColumns: json("visible_columns").$type<string[]>().notNull(),
+  
+  // Sharing; department is set when visibility is "department"
+  visibility: mysqlEnum("visibility", ["private", "department"]).default("private").notNull(),
+  department: varchar("department", { length: 100 }),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("saved_views_owner_idx").on(table.ownerId),
+  index("saved_views_department_idx").on(table.visibility, table.department),
+]);
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = typeof savedViews.$inferInsert;
+
+
+/**
+ * =====================================================
+ * WORKFLOW_SUBSCRIPTIONS TABLE
+ * Watchers of a workflow, a workflow type or a department
+ * =====================================================
+ */
+export const workflowSubscriptions = mysqlTable("workflow_subscriptions", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  userId: int("user_id").notNull(), // The watcher
+  
+  // What is watched; only the column for the scope is set
+  scope: mysqlEnum("scope", ["workflow", "workflow_type", "department"]).notNull(),
+  workflowId: varchar("workflow_id", { length: 36 }),
+  workflowType: varchar("workflow_type", { length: 50 }),
+  department: varchar("department", { length: 100 }),
+  
+  // Who added the subscription (the watcher, the requester or an admin)
+  createdBy: int("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("workflow_subscriptions_user_idx").on(table.userId),
+  index("workflow_subscriptions_workflow_idx").on(table.workflowId),
+  index("workflow_subscriptions_type_idx").on(table.scope, table.workflowType),
+  index("workflow_subscriptions_department_idx").on(table.scope, table.department),
+]);
+
+export type WorkflowSubscription = typeof workflowSubscriptions.$inferSelect;
+export type InsertWorkflowSubscription = typeof workflowSubscriptions.$inferInsert;
+
+
+/**
+ * =====================================================
+ * COMMENT_MENTIONS TABLE
+ * Users @mentioned in workflow comments
+ * =====================================================
+ */
+export const commentMentions = mysqlTable("comment_mentions", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  commentId: varchar("comment_id", { length: 36 }).notNull(),
+  workflowId: varchar("workflow_id", { length: 36 }).notNull(),
+  userId: int("user_id").notNull(), // The mentioned user
+  mentionedBy: int("mentioned_by").notNull(),
+  
+  // Set when the mention gave temporary read access to someone without it
+  accessExpiresAt: timestamp("access_expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("comment_mentions_user_workflow_idx").on(table.userId, table.workflowId),
+  index("comment_mentions_comment_idx").on(table.commentId),
+]);
+
+export type CommentMention = typeof commentMentions.$inferSelect;
+export type InsertCommentMention = typeof commentMentions.$inferInsert;
+
+
+/**
+ * =====================================================
+ * COMMENT_REVISIONS TABLE
+ * Text of a comment before each edit or deletion
+ * =====================================================
+ */
+export const commentRevisions = mysqlTable("comment_revisions", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  commentId: varchar("comment_id", { length: 36 }).notNull(),
+  previousText: text("previous_text").notNull(),
+  action: mysqlEnum("action", ["edited", "deleted"]).notNull(),
+  changedBy: int("changed_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("comment_revisions_comment_idx").on(table.commentId),
+]);
+
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+export type InsertCommentRevision = typeof commentRevisions.$inferInsert;
+
+
+/**
+ * =====================================================
+ * NOTIFICATIONS TABLE
+ * In-app notifications shown in the notification center
+ * =====================================================
+ */
+export const notifications = mysqlTable("notifications", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  userId: int("user_id").notNull(), // The recipient
+  type: mysqlEnum("type", [
+    "stage_assigned",
+    "stage_approved",
+    "stage_rejected",
+    "comment",
+    "mention",
+    "sla_breach",
+  ]).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message"),
+  
+  // What the notification is about
+  workflowId: varchar("workflow_id", { length: 36 }),
+  stageId: varchar("stage_id", { length: 36 }),
+  commentId: varchar("comment_id", { length: 36 }),
+  actorId: int("actor_id"), // null when the system raised it
+  
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_read_idx").on(table.userId, table.readAt),
+  index("notifications_workflow_idx").on(table.workflowId),
+]);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+
+/**
+ * =====================================================
+ * NOTIFICATION_PREFERENCES TABLE
+ * How each user wants to receive each kind of email
+ * =====================================================
+ */
+export const notificationPreferences = mysqlTable("notification_preferences", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  userId: int("user_id").notNull(),
+  eventType: mysqlEnum("event_type", [
+    "approval_request",
+    "mention",
+    "workflow_update",
+    "sla_escalation",
+    "recurring_workflow",
+    "own_workflow",
+  ]).notNull(),
+  mode: mysqlEnum("mode", ["immediate", "daily_digest", "weekly_digest", "off"]).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("notification_preferences_user_event_idx").on(table.userId, table.eventType),
+]);
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = typeof notificationPreferences.$inferInsert;
+
+
+/**
+ * =====================================================
+ * NOTIFICATION_SETTINGS TABLE
+ * Quiet hours and language for a user's emails
+ * =====================================================
+ */
+export const notificationSettings = mysqlTable("notification_settings", {
+  userId: int("user_id").primaryKey(),
+  quietHoursStart: int("quiet_hours_start"), // Hour of day, 0-23
+  quietHoursEnd: int("quiet_hours_end"),
+  timezone: varchar("timezone", { length: 64 }).default("Asia/Jakarta").notNull(),
+  language: mysqlEnum("language", ["en", "id"]).default("en").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type NotificationSettings = typeof notificationSettings.$inferSelect;
+export type InsertNotificationSettings = typeof notificationSettings.$inferInsert;
+
+
+/**
+ * =====================================================
+ * EMAIL_DIGEST_ITEMS TABLE
+ * Emails held for a digest or until quiet hours end
+ * =====================================================
+ */
+export const emailDigestItems = mysqlTable("email_digest_items", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  userId: int("user_id").notNull(),
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  
+  workflowId: varchar("workflow_id", { length: 36 }),
+  workflowNumber: varchar("workflow_number", { length: 50 }),
+  workflowTitle: varchar("workflow_title", { length: 255 }),
+  // Rendered in the recipient's language when the digest goes out (see DIGEST_HEADLINES)
+  headlineKey: varchar("headline_key", { length: 64 }).notNull(),
+  headlineParams: json("headline_params").$type<Record<string, string>>(),
+  details: text("details"),
+  
+  deliverAt: timestamp("deliver_at").notNull(), // Sent with the first digest due after this
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_digest_items_due_idx").on(table.sentAt, table.deliverAt),
+  index("email_digest_items_user_idx").on(table.userId),
+]);
+
+export type EmailDigestItem = typeof emailDigestItems.$inferSelect;
+export type InsertEmailDigestItem = typeof emailDigestItems.$inferInsert;
+
+
+/**
+ * =====================================================
+ * EMAIL_OUTBOX TABLE
+ * Every outgoing email, queued with the change that caused it and sent by
+ * the outbox worker
+ * =====================================================
+ */
+export const emailOutbox = mysqlTable("email_outbox", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  fromAddress: varchar("from_address", { length: 320 }).notNull(),
+  toAddresses: json("to_addresses").$type<string[]>().notNull(),
+  subject: varchar("subject", { length: 500 }).notNull(),
+  htmlBody: text("html_body").notNull(),
+  textBody: text("text_body"),
+  
+  status: mysqlEnum("status", ["pending", "sending", "sent", "failed", "cancelled"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(), // Failed attempts since it was last (re)queued
+  nextAttemptAt: timestamp("next_attempt_at"), // null once sent, failed or cancelled
+  claimedAt: timestamp("claimed_at"), // When a worker started sending it
+  lastError: text("last_error"),
+  providerMessageId: varchar("provider_message_id", { length: 255 }),
+  sentAt: timestamp("sent_at"),
+  
+  cancelledBy: int("cancelled_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  index("email_outbox_created_idx").on(table.createdAt),
+]);
+
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+
+
+/**
+ * =====================================================
+ * EMAIL_DELIVERY_ATTEMPTS TABLE
+ * One row per attempt to send an outbox message
+ * =====================================================
+ */
+export const emailDeliveryAttempts = mysqlTable("email_delivery_attempts", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  emailId: varchar("email_id", { length: 36 }).notNull(),
+  status: mysqlEnum("status", ["sent", "failed"]).notNull(),
+  transport: varchar("transport", { length: 20 }).notNull(), // ses, smtp, file
+  providerMessageId: varchar("provider_message_id", { length: 255 }),
+  error: text("error"),
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_delivery_attempts_email_idx").on(table.emailId),
+]);
+
+export type EmailDeliveryAttempt = typeof emailDeliveryAttempts.$inferSelect;
+export type InsertEmailDeliveryAttempt = typeof emailDeliveryAttempts.$inferInsert;
+
+
+/**
+ * =====================================================
+ * EMAIL_TEMPLATES TABLE
+ * Admin edits of the notification email templates; the built-in template
+ * is used for any key and language without one
+ * =====================================================
+ */
+export const emailTemplates = mysqlTable("email_templates", {
+  id: varchar("id", { length: 36 }).primaryKey(), // UUID
+  templateKey: mysqlEnum("template_key", [
+    "workflow_submitted",
+    "stage_approved",
+    "stage_rejected",
+    "workflow_completed",
+    "approval_reminder",
+    "watcher_update",
+    "mention",
+    "stage_escalated",
+    "recurring_workflow_created",
+  ]).notNull(),
+  language: mysqlEnum("language", ["en", "id"]).notNull(),
+  subject: varchar("subject", { length: 500 }).notNull(),
+  body: text("body").notNull(), // Plain text with {{placeholders}}; blank lines separate paragraphs
+  
+  updatedBy: int("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("email_templates_key_language_idx").on(table.templateKey, table.language),
+]);
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = typeof emailTemplates.$inferInsert;
@@ -1,7 +1,8 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
 import type { User } from "../db";
 import { verifyCognitoToken } from "../cognito-auth";
-import { getUserByOpenId, upsertUser } from "../db";
+import { getUserById, getUserByOpenId, upsertUser } from "../db";
+import { redeemSubscriptionTicket } from "./subscriptionTickets";
 
 export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
@@ -9,8 +10,24 @@ export type TrpcContext = {
   user: User | null;
 };
 
-async function authenticateCognitoRequest(req: CreateExpressContextOptions["req"]): Promise<User | null> {
-  const authHeader = req.headers.authorization;
+/**
+ * Live-update subscriptions authenticate with a single-use ticket, as their
+ * connection params end up in the URL
+ */
+async function authenticateSubscriptionTicket(opts: CreateExpressContextOptions): Promise<User | null> {
+  const ticket = opts.info?.connectionParams?.ticket;
+  if (!ticket) return null;
+  
+  const userId = redeemSubscriptionTicket(ticket);
+  if (!userId) {
+    console.log("❌ Subscription ticket unknown, used or expired");
+    return null;
+  }
+  return (await getUserById(userId)) || null;
+}
+
+async function authenticateCognitoRequest(opts: CreateExpressContextOptions): Promise<User | null> {
+  const authHeader = opts.req.headers.authorization;
   console.log("🔐 Auth header:", authHeader ? "Bearer token present" : "No auth header");
   
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -75,7 +92,7 @@ export async function createContext(
   let user: User | null = null;
 
   try {
-    user = await authenticateCognitoRequest(opts.req);
+    user = (await authenticateSubscriptionTicket(opts)) || (await authenticateCognitoRequest(opts));
   } catch (error) {
     // Authentication is optional for public procedures
     user = null;
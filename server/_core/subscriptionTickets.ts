@@ -0,0 +1,40 @@
+/**
+ * Subscription Tickets
+ * Live updates stream over server-sent events. EventSource can't send headers,
+ * and tRPC passes the connection params in the URL, where access and proxy
+ * logs keep them. So a live-update connection presents a ticket instead of the
+ * ID token: random, valid for a short while and good for one connection.
+ * Tickets are held in this server's memory, as the live events are.
+ */
+
+import { randomBytes } from "crypto";
+
+const TICKET_TTL_MS = 30 * 1000;
+
+const tickets = new Map<string, { userId: number; expiresAt: number }>();
+
+/**
+ * A new ticket for the user's next live-update connection
+ */
+export function issueSubscriptionTicket(userId: number, now: number = Date.now()): string {
+  // Forget tickets that were never used
+  for (const [ticket, entry] of Array.from(tickets)) {
+    if (entry.expiresAt <= now) tickets.delete(ticket);
+  }
+
+  const ticket = randomBytes(32).toString("base64url");
+  tickets.set(ticket, { userId, expiresAt: now + TICKET_TTL_MS });
+  return ticket;
+}
+
+/**
+ * The user a ticket was issued to, or null if it is unknown, used or expired.
+ * A ticket can only be redeemed once.
+ */
+export function redeemSubscriptionTicket(ticket: string, now: number = Date.now()): number | null {
+  const entry = tickets.get(ticket);
+  if (!entry) return null;
+
+  tickets.delete(ticket);
+  return entry.expiresAt > now ? entry.userId : null;
+}
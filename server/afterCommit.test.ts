@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { afterCommit, runWithAfterCommit } from "./afterCommit";
+
+describe("After-Commit Hooks", () => {
+  it("should run straight away outside a transaction", () => {
+    const ran: string[] = [];
+    afterCommit(() => ran.push("event"));
+    expect(ran).toEqual(["event"]);
+  });
+
+  it("should hold callbacks until the transaction commits", async () => {
+    const ran: string[] = [];
+    const result = await runWithAfterCommit(async () => {
+      afterCommit(() => ran.push("event"));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      afterCommit(() => ran.push("cache"));
+      expect(ran).toEqual([]);
+      return "committed";
+    });
+
+    expect(result).toBe("committed");
+    expect(ran).toEqual(["event", "cache"]);
+  });
+
+  it("should drop callbacks when the transaction rolls back", async () => {
+    const ran: string[] = [];
+    await expect(runWithAfterCommit(async () => {
+      afterCommit(() => ran.push("event"));
+      throw new Error("conflict");
+    })).rejects.toThrow("conflict");
+
+    expect(ran).toEqual([]);
+  });
+});
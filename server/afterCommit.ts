@@ -0,0 +1,41 @@
+/**
+ * After-Commit Hooks
+ * Side effects that must only be seen once the database change behind them
+ * is committed (live update events, cache invalidation). Inside a transaction
+ * they are held until it commits and dropped if it rolls back; outside one
+ * they run straight away.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+// Callbacks held for the transaction open in the current call chain, if any
+const pending = new AsyncLocalStorage<(() => void)[]>();
+
+/**
+ * Run `callback` once the current transaction commits, or now if there is none
+ */
+export function afterCommit(callback: () => void): void {
+  const queue = pending.getStore();
+  if (queue) {
+    queue.push(callback);
+  } else {
+    callback();
+  }
+}
+
+/**
+ * Run a transaction, then the callbacks it queued, provided it committed
+ */
+export async function runWithAfterCommit<T>(transaction: () => Promise<T>): Promise<T> {
+  const queue: (() => void)[] = [];
+  const result = await pending.run(queue, transaction);
+
+  for (const callback of queue) {
+    try {
+      callback();
+    } catch (error) {
+      console.error("❌ After-commit callback failed:", error);
+    }
+  }
+  return result;
+}
@@ -3,6 +3,8 @@
  * Reduces database load by caching expensive analytics calculations
  */
 
+import { afterCommit } from "./afterCommit";
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -126,6 +128,9 @@ export async function withCache<T>(
  * Invalidate all analytics caches (call when workflows are created/updated/deleted)
  */
 export function invalidateAnalyticsCache() {
-  console.log('🗑️  Invalidating all analytics cache');
-  analyticsCache.invalidatePattern('analytics:.*');
+  // Once the change is committed, so a refill can't cache the old data
+  afterCommit(() => {
+    console.log('🗑️  Invalidating all analytics cache');
+    analyticsCache.invalidatePattern('analytics:.*');
+  });
 }
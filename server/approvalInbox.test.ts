@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { getInboxCapacity, getWaitingHours, isWaitingOn, runBulkStageAction } from "../shared/approvalInbox";
+
+const stage = {
+  status: "in_progress",
+  requiredRole: "Finance",
+  visibleToDepartments: ["Finance", "Purchasing"],
+};
+
+const financeUser = { id: 1, role: "Finance", department: "Finance" };
+const salesFinanceUser = { id: 2, role: "Finance", department: "Sales" };
+const cfo = { id: 3, role: "CFO", department: "Board" };
+const admin = { id: 4, role: "admin", department: "IT" };
+
+describe("Approval Inbox", () => {
+  describe("isWaitingOn", () => {
+    it("should match the required role within the stage's departments", () => {
+      expect(isWaitingOn(stage, financeUser)).toBe(true);
+      expect(isWaitingOn(stage, salesFinanceUser)).toBe(false);
+      expect(isWaitingOn({ ...stage, visibleToDepartments: null }, salesFinanceUser)).toBe(true);
+    });
+
+    it("should accept any of several roles", () => {
+      const ceoOrCfo = { ...stage, requiredRole: null, requiresOneOf: ["CEO", "CFO"] };
+      expect(isWaitingOn(ceoOrCfo, cfo)).toBe(true);
+      expect(isWaitingOn(ceoOrCfo, financeUser)).toBe(false);
+    });
+
+    it("should only list assigned stages for the assignee", () => {
+      const assigned = { ...stage, assigneeId: 2 };
+      expect(isWaitingOn(assigned, salesFinanceUser)).toBe(true);
+      expect(isWaitingOn(assigned, financeUser)).toBe(false);
+    });
+
+    it("should not fill an admin's inbox with stages meant for others", () => {
+      expect(isWaitingOn(stage, admin)).toBe(false);
+      expect(isWaitingOn({ ...stage, requiredRole: null }, admin)).toBe(true);
+    });
+
+    it("should include escalation targets once a stage is reassigned", () => {
+      const escalated = {
+        ...stage,
+        escalatedAt: "2026-05-02T09:00:00Z",
+        escalationAction: "reassign" as const,
+        escalationUserId: 3,
+      };
+      expect(isWaitingOn(escalated, cfo)).toBe(true);
+      expect(isWaitingOn(escalated, financeUser)).toBe(false);
+    });
+  });
+
+  describe("getInboxCapacity", () => {
+    it("should list stages waiting on a delegator for their delegate", () => {
+      const delegate = { id: 9, role: "Staff", department: "Sales" };
+      expect(getInboxCapacity(stage, delegate, [financeUser])).toEqual({ onBehalfOf: financeUser });
+      expect(getInboxCapacity(stage, delegate, [salesFinanceUser])).toBeNull();
+      expect(getInboxCapacity(stage, financeUser, [])).toEqual({ onBehalfOf: null });
+    });
+  });
+
+  describe("getWaitingHours", () => {
+    it("should count whole hours since the stage started", () => {
+      const now = new Date("2026-05-02T10:30:00Z");
+      expect(getWaitingHours("2026-05-01T08:00:00Z", now)).toBe(26);
+      expect(getWaitingHours(null, now)).toBe(0);
+    });
+  });
+
+  describe("runBulkStageAction", () => {
+    it("should carry on past stages that fail and count both", async () => {
+      const summary = await runBulkStageAction(["s1", "s2", "s3"], async stageId => {
+        if (stageId === "s2") throw new Error("You have already responded to this stage");
+        return stageId === "s3";
+      });
+
+      expect(summary.succeeded).toBe(2);
+      expect(summary.failed).toBe(1);
+      expect(summary.results.map(r => r.stageId)).toEqual(["s1", "s2", "s3"]);
+      expect(summary.results[2]).toEqual({ stageId: "s3", success: true, stageClosed: true });
+    });
+
+    it("should report each failing stage with its own error", async () => {
+      const summary = await runBulkStageAction(["s1", "s2"], async stageId => {
+        if (stageId === "s1") throw new Error("Stage not found");
+        throw "not an error";
+      });
+
+      expect(summary.results).toEqual([
+        { stageId: "s1", success: false, stageClosed: false, error: "Stage not found" },
+        { stageId: "s2", success: false, stageClosed: false, error: "Unexpected error" },
+      ]);
+      expect(summary.succeeded).toBe(0);
+    });
+
+    it("should act on a stage listed twice only once", async () => {
+      const acted: string[] = [];
+      await runBulkStageAction(["s1", "s1", "s2"], async stageId => {
+        acted.push(stageId);
+        return false;
+      });
+      expect(acted).toEqual(["s1", "s2"]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { buildCommentThreads, canViewCommentRevisions, getCommentChangeBlocker } from "../shared/commentThreads";
+
+const now = new Date("2026-05-01T10:00:00Z");
+
+describe("Comment Threads", () => {
+  describe("buildCommentThreads", () => {
+    it("should nest replies under their parents, oldest first", () => {
+      const comments = [
+        { id: "c", parentCommentId: "a", authorId: 1, createdAt: "2026-05-01T09:20:00Z" },
+        { id: "a", parentCommentId: null, authorId: 1, createdAt: "2026-05-01T09:00:00Z" },
+        { id: "b", parentCommentId: "a", authorId: 2, createdAt: "2026-05-01T09:10:00Z" },
+        { id: "d", parentCommentId: "b", authorId: 1, createdAt: "2026-05-01T09:30:00Z" },
+        { id: "e", parentCommentId: null, authorId: 3, createdAt: "2026-05-01T08:00:00Z" },
+      ];
+      const threads = buildCommentThreads(comments);
+      expect(threads.map(t => t.id)).toEqual(["e", "a"]);
+      expect(threads[1].replies.map(r => r.id)).toEqual(["b", "c"]);
+      expect(threads[1].replies[0].replies.map(r => r.id)).toEqual(["d"]);
+    });
+
+    it("should keep replies to missing comments at the top level", () => {
+      const threads = buildCommentThreads([
+        { id: "x", parentCommentId: "gone", authorId: 1, createdAt: "2026-05-01T09:00:00Z" },
+      ]);
+      expect(threads.map(t => t.id)).toEqual(["x"]);
+    });
+  });
+
+  describe("getCommentChangeBlocker", () => {
+    const comment = { id: "a", authorId: 1, commentType: "general", createdAt: "2026-05-01T09:45:00Z" };
+
+    it("should let the author change a recent discussion comment", () => {
+      expect(getCommentChangeBlocker(comment, { id: 1 }, now)).toBeNull();
+    });
+
+    it("should block other users, old comments and approval comments", () => {
+      expect(getCommentChangeBlocker(comment, { id: 2 }, now)).toMatch(/author/);
+      expect(getCommentChangeBlocker({ ...comment, createdAt: "2026-05-01T09:00:00Z" }, { id: 1 }, now)).toMatch(/30 minutes/);
+      expect(getCommentChangeBlocker({ ...comment, commentType: "approval" }, { id: 1 }, now)).toMatch(/approval/);
+      expect(getCommentChangeBlocker({ ...comment, deletedAt: now }, { id: 1 }, now)).toMatch(/deleted/);
+    });
+  });
+
+  it("should only show revisions to auditors", () => {
+    expect(canViewCommentRevisions({ role: "CFO" })).toBe(true);
+    expect(canViewCommentRevisions({ role: "Finance" })).toBe(false);
+  });
+});
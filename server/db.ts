@@ -1,8 +1,13 @@
 import { drizzle } from "drizzle-orm/mysql2";
 import mysql from "mysql2/promise";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, asc, desc, sql, inArray, lte, gte, like, count, type SQL } from "drizzle-orm";
+import { escapeLikePattern, type SortDirection, type WorkflowSortField } from "@shared/workflowListFilters";
+import { buildFullTextQuery, flattenFormData, type SearchSourceType } from "@shared/workflowSearch";
+import { mentionsToPlainText } from "@shared/mentions";
 import * as schema from "../drizzle/schema";
 import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { runWithAfterCommit } from "./afterCommit";
 
 // Re-export types for convenience
 export type User = schema.User;
@@ -14,6 +19,23 @@ export type WorkflowComment = schema.WorkflowComment;
 export type AuditLog = schema.AuditLog;
 export type EmailRecipient = schema.EmailRecipient;
 export type SequenceCounter = schema.SequenceCounter;
+export type TemplateStage = schema.TemplateStage;
+export type WorkflowAmendment = schema.WorkflowAmendment;
+export type ApprovalDelegation = schema.ApprovalDelegation;
+export type RecurringWorkflow = schema.RecurringWorkflow;
+export type RecurringWorkflowRun = schema.RecurringWorkflowRun;
+export type SearchDocument = schema.SearchDocument;
+export type SavedView = schema.SavedView;
+export type WorkflowSubscription = schema.WorkflowSubscription;
+export type CommentMention = schema.CommentMention;
+export type CommentRevision = schema.CommentRevision;
+export type Notification = schema.Notification;
+export type NotificationPreference = schema.NotificationPreference;
+export type NotificationSettings = schema.NotificationSettings;
+export type EmailDigestItem = schema.EmailDigestItem;
+export type EmailOutboxMessage = schema.EmailOutboxMessage;
+export type EmailDeliveryAttempt = schema.EmailDeliveryAttempt;
+export type EmailTemplate = schema.EmailTemplate;
 
 // Database connection
 const connection = mysql.createPool({
@@ -24,7 +46,33 @@ const connection = mysql.createPool({
   enableKeepAlive: true,
   keepAliveInitialDelay: 0,
 });
-export const db = drizzle(connection, { schema, mode: "default" });
+const rootDb = drizzle(connection, { schema, mode: "default" });
+type Database = typeof rootDb;
+
+// The transaction opened by `withTransaction` for the current call chain, if any
+const activeTransaction = new AsyncLocalStorage<Database>();
+
+// Queries run on the open transaction when there is one, so every helper
+// below joins it without being handed it
+export const db: Database = new Proxy(rootDb, {
+  get(target, prop) {
+    const current = activeTransaction.getStore() || target;
+    const value = Reflect.get(current, prop, current);
+    return typeof value === "function" ? value.bind(current) : value;
+  },
+});
+
+/**
+ * Run `fn` in a transaction: its writes, including queued emails, commit or
+ * roll back together. Calls made while one is open join it. Live events and
+ * cache invalidation (see afterCommit.ts) wait for the outermost one to commit.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (activeTransaction.getStore()) return await fn();
+  return await runWithAfterCommit(() =>
+    rootDb.transaction(tx => activeTransaction.run(tx as unknown as Database, fn))
+  );
+}
 
 // ============================================
 // User Management
@@ -163,6 +211,9 @@ export async function createWorkflow(workflow: {
   currency?: string;
   requiresGa?: boolean;
   requiresPpic?: boolean;
+  templateId?: string;
+  parentWorkflowId?: string;
+  blockedUntilParentCompleted?: boolean;
 }): Promise<schema.Workflow> {
   const workflowId = randomUUID();
   const workflowNumber = await generateWorkflowNumber(workflow.workflowType);
@@ -173,6 +224,7 @@ export async function createWorkflow(workflow: {
       id: workflowId,
       workflowNumber,
       workflowType: workflow.workflowType,
+      templateId: workflow.templateId || null,
       title: workflow.title,
       description: workflow.description,
       requesterId: workflow.requesterId,
@@ -181,6 +233,8 @@ export async function createWorkflow(workflow: {
       currency: workflow.currency || "IDR",
       requiresGa: workflow.requiresGa || false,
       requiresPpic: workflow.requiresPpic || false,
+      parentWorkflowId: workflow.parentWorkflowId || null,
+      blockedUntilParentCompleted: !!workflow.parentWorkflowId && (workflow.blockedUntilParentCompleted || false),
       overallStatus: "draft",
     });
   
@@ -191,6 +245,8 @@ export async function createWorkflow(workflow: {
     .where(eq(schema.workflows.id, workflowId))
     .limit(1);
   
+  await reindexWorkflowSearch(workflowId);
+  
   return newWorkflow;
 }
 
@@ -216,6 +272,100 @@ export async function getWorkflowsByRequester(requesterId: number): Promise<sche
     .orderBy(desc(schema.workflows.createdAt));
 }
 
+export async function getChildWorkflows(parentWorkflowId: string): Promise<schema.Workflow[]> {
+  return await db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.parentWorkflowId, parentWorkflowId))
+    .orderBy(schema.workflows.createdAt);
+}
+
+/**
+ * One page of workflows matching the given filters, with the total number of matches
+ */
+export async function listWorkflows(params: {
+  requesterId?: number; // Limit to one requester's workflows
+  search?: string;
+  status?: string;
+  workflowType?: string;
+  department?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  sortBy: WorkflowSortField;
+  sortDirection: SortDirection;
+  limit: number;
+  offset: number;
+}): Promise<{ items: schema.Workflow[]; total: number }> {
+  const conditions: SQL[] = [];
+  
+  if (params.requesterId !== undefined) {
+    conditions.push(eq(schema.workflows.requesterId, params.requesterId));
+  }
+  if (params.search) {
+    const pattern = `%${escapeLikePattern(params.search)}%`;
+    conditions.push(or(
+      like(schema.workflows.title, pattern),
+      like(schema.workflows.workflowNumber, pattern)
+    )!);
+  }
+  if (params.status) {
+    conditions.push(sql`${schema.workflows.overallStatus} = ${params.status}`);
+  }
+  if (params.workflowType) {
+    conditions.push(sql`${schema.workflows.workflowType} = ${params.workflowType}`);
+  }
+  if (params.department) {
+    conditions.push(eq(schema.workflows.department, params.department));
+  }
+  if (params.createdFrom) {
+    conditions.push(gte(schema.workflows.createdAt, params.createdFrom));
+  }
+  if (params.createdTo) {
+    conditions.push(lte(schema.workflows.createdAt, params.createdTo));
+  }
+  if (params.minAmount !== undefined) {
+    conditions.push(sql`${schema.workflows.estimatedAmount} >= ${params.minAmount}`);
+  }
+  if (params.maxAmount !== undefined) {
+    conditions.push(sql`${schema.workflows.estimatedAmount} <= ${params.maxAmount}`);
+  }
+  
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const sortColumn = schema.workflows[params.sortBy];
+  const order = params.sortDirection === "asc" ? asc(sortColumn) : desc(sortColumn);
+  
+  const items = await db
+    .select()
+    .from(schema.workflows)
+    .where(where)
+    // Tie-break on id so pages don't overlap when the sort column has duplicates
+    .orderBy(order, asc(schema.workflows.id))
+    .limit(params.limit)
+    .offset(params.offset);
+  
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(schema.workflows)
+    .where(where);
+  
+  return { items, total };
+}
+
+/**
+ * Number of workflows per status, optionally for a single requester
+ */
+export async function getWorkflowStatusCounts(requesterId?: number): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ status: schema.workflows.overallStatus, total: count() })
+    .from(schema.workflows)
+    .where(requesterId !== undefined ? eq(schema.workflows.requesterId, requesterId) : undefined)
+    .groupBy(schema.workflows.overallStatus);
+  
+  return Object.fromEntries(rows.map(row => [row.status, row.total]));
+}
+
 export async function getAllWorkflows(): Promise<schema.Workflow[]> {
   return await db
     .select()
@@ -223,48 +373,102 @@ export async function getAllWorkflows(): Promise<schema.Workflow[]> {
     .orderBy(desc(schema.workflows.createdAt));
 }
 
+/**
+ * The workflow status changes below only apply while the workflow is still
+ * `fromStatus`; they return false when it has moved on in the meantime
+ */
 export async function updateWorkflowStatus(
   workflowId: string,
-  status: typeof schema.workflows.$inferSelect.overallStatus
-): Promise<void> {
-  await db
+  status: typeof schema.workflows.$inferSelect.overallStatus,
+  fromStatus: typeof schema.workflows.$inferSelect.overallStatus
+): Promise<boolean> {
+  const updates: any = { overallStatus: status };
+  
+  if (status === "completed" || status === "rejected" || status === "cancelled") {
+    updates.completedAt = new Date();
+  }
+  
+  const [result] = await db
     .update(schema.workflows)
-    .set({ overallStatus: status })
-    .where(eq(schema.workflows.id, workflowId));
+    .set(updates)
+    .where(workflowInStatus(workflowId, fromStatus));
+  return result.affectedRows > 0;
 }
 
-export async function submitWorkflow(workflowId: string): Promise<void> {
-  await db
+export async function submitWorkflow(
+  workflowId: string,
+  fromStatus: typeof schema.workflows.$inferSelect.overallStatus
+): Promise<boolean> {
+  const [result] = await db
     .update(schema.workflows)
     .set({
       overallStatus: "in_progress",
       submittedAt: new Date(),
     })
-    .where(eq(schema.workflows.id, workflowId));
+    .where(workflowInStatus(workflowId, fromStatus));
+  return result.affectedRows > 0;
 }
 
 export async function discontinueWorkflow(
   workflowId: string,
+  fromStatus: typeof schema.workflows.$inferSelect.overallStatus,
   reason?: string
-): Promise<void> {
-  await db
+): Promise<boolean> {
+  const [result] = await db
     .update(schema.workflows)
     .set({
       overallStatus: "discontinued",
       completedAt: new Date(),
       metadata: sql`JSON_SET(COALESCE(metadata, '{}'), '$.discontinuedReason', ${reason || 'No reason provided'}, '$.discontinuedAt', ${new Date().toISOString()})`,
     })
-    .where(eq(schema.workflows.id, workflowId));
+    .where(workflowInStatus(workflowId, fromStatus));
+  return result.affectedRows > 0;
 }
 
-export async function archiveWorkflow(workflowId: string): Promise<void> {
-  await db
+export async function archiveWorkflow(
+  workflowId: string,
+  fromStatus: typeof schema.workflows.$inferSelect.overallStatus
+): Promise<boolean> {
+  const [result] = await db
     .update(schema.workflows)
     .set({
       overallStatus: "archived",
       metadata: sql`JSON_SET(COALESCE(metadata, '{}'), '$.archivedAt', ${new Date().toISOString()})`,
     })
+    .where(workflowInStatus(workflowId, fromStatus));
+  return result.affectedRows > 0;
+}
+
+function workflowInStatus(
+  workflowId: string,
+  status: typeof schema.workflows.$inferSelect.overallStatus
+): SQL | undefined {
+  return and(eq(schema.workflows.id, workflowId), eq(schema.workflows.overallStatus, status));
+}
+
+/**
+ * Apply amended details to a workflow
+ */
+export async function updateWorkflowDetails(
+  workflowId: string,
+  updates: {
+    title?: string;
+    description?: string;
+    estimatedAmount?: number;
+    currency?: string;
+  }
+): Promise<void> {
+  await db
+    .update(schema.workflows)
+    .set({
+      title: updates.title,
+      description: updates.description,
+      estimatedAmount: updates.estimatedAmount?.toString(),
+      currency: updates.currency,
+    })
     .where(eq(schema.workflows.id, workflowId));
+  
+  await reindexWorkflowSearch(workflowId);
 }
 
 export async function deleteWorkflow(workflowId: string): Promise<void> {
@@ -272,8 +476,13 @@ export async function deleteWorkflow(workflowId: string): Promise<void> {
   // 1. Delete workflow files
   await db.delete(schema.workflowFiles).where(eq(schema.workflowFiles.workflowId, workflowId));
   
-  // 2. Delete workflow comments
+  // 2. Delete workflow comments, their revisions and mentions
+  const commentIds = (await getCommentsByWorkflow(workflowId)).map(c => c.id);
+  if (commentIds.length > 0) {
+    await db.delete(schema.commentRevisions).where(inArray(schema.commentRevisions.commentId, commentIds));
+  }
   await db.delete(schema.workflowComments).where(eq(schema.workflowComments.workflowId, workflowId));
+  await db.delete(schema.commentMentions).where(eq(schema.commentMentions.workflowId, workflowId));
   
   // 3. Delete workflow approvals
   await db.delete(schema.workflowApprovals).where(eq(schema.workflowApprovals.workflowId, workflowId));
@@ -284,7 +493,21 @@ export async function deleteWorkflow(workflowId: string): Promise<void> {
   // 5. Delete workflow stages
   await db.delete(schema.workflowStages).where(eq(schema.workflowStages.workflowId, workflowId));
   
-  // 6. Finally delete the workflow itself
+  // 6. Delete amendment history
+  await db.delete(schema.workflowAmendments).where(eq(schema.workflowAmendments.workflowId, workflowId));
+  
+  // 6b. Drop it from the search index, its watchers and notifications
+  await db.delete(schema.searchDocuments).where(eq(schema.searchDocuments.workflowId, workflowId));
+  await db.delete(schema.workflowSubscriptions).where(eq(schema.workflowSubscriptions.workflowId, workflowId));
+  await db.delete(schema.notifications).where(eq(schema.notifications.workflowId, workflowId));
+  
+  // 7. Unlink follow-ups so they are no longer held back by this workflow
+  await db
+    .update(schema.workflows)
+    .set({ parentWorkflowId: null, blockedUntilParentCompleted: false })
+    .where(eq(schema.workflows.parentWorkflowId, workflowId));
+  
+  // 8. Finally delete the workflow itself
   await db.delete(schema.workflows).where(eq(schema.workflows.id, workflowId));
 }
 
@@ -300,6 +523,15 @@ export async function createWorkflowStage(stage: {
   requiredRole?: string;
   requiresOneOf?: string[];
   approvalThreshold?: number;
+  parallelGroup?: string | null;
+  minApprovals?: number;
+  rejectionPolicy?: "any" | "quorum_unreachable";
+  slaHours?: number | null;
+  escalationRole?: string | null;
+  escalationUserId?: number | null;
+  escalationAction?: "notify" | "add_approver" | "reassign";
+  assigneeId?: number | null;
+  reapprovalRule?: "threshold_crossed" | "amount_increase" | "any_change" | "never";
 }): Promise<schema.WorkflowStage> {
   const stageId = randomUUID();
   
@@ -314,6 +546,15 @@ export async function createWorkflowStage(stage: {
       requiredRole: stage.requiredRole,
       requiresOneOf: stage.requiresOneOf,
       approvalThreshold: stage.approvalThreshold?.toString(),
+      parallelGroup: stage.parallelGroup || null,
+      minApprovals: stage.minApprovals || 1,
+      rejectionPolicy: stage.rejectionPolicy || "any",
+      slaHours: stage.slaHours || null,
+      escalationRole: stage.escalationRole || null,
+      escalationUserId: stage.escalationUserId || null,
+      escalationAction: stage.escalationAction || "notify",
+      assigneeId: stage.assigneeId || null,
+      reapprovalRule: stage.reapprovalRule || "threshold_crossed",
       status: "pending",
     });
   
@@ -345,10 +586,29 @@ export async function getStageById(stageId: string): Promise<schema.WorkflowStag
   return stage;
 }
 
+/**
+ * Lock a workflow's row until the transaction ends, so votes on its stages
+ * are applied one at a time. Take the lock before any other read in the
+ * transaction: what is read afterwards then includes the votes and stage
+ * changes committed while it waited.
+ */
+export async function lockWorkflow(workflowId: string): Promise<void> {
+  await db
+    .select({ id: schema.workflows.id })
+    .from(schema.workflows)
+    .where(eq(schema.workflows.id, workflowId))
+    .for("update");
+}
+
+/**
+ * Change a stage's status, provided it is still `fromStatus`.
+ * Returns false when the stage has moved on in the meantime.
+ */
 export async function updateStageStatus(
   stageId: string,
-  status: typeof schema.workflowStages.$inferSelect.status
-): Promise<void> {
+  status: typeof schema.workflowStages.$inferSelect.status,
+  fromStatus: typeof schema.workflowStages.$inferSelect.status
+): Promise<boolean> {
   const updates: any = { status };
   
   if (status === "in_progress") {
@@ -357,16 +617,119 @@ export async function updateStageStatus(
     updates.completedAt = new Date();
   }
   
-  await db
+  const [result] = await db
     .update(schema.workflowStages)
     .set(updates)
+    .where(and(
+      eq(schema.workflowStages.id, stageId),
+      eq(schema.workflowStages.status, fromStatus)
+    ));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Put stages back to pending so they go through approval again.
+ * Approval history is kept; only votes cast after a stage restarts count.
+ */
+export async function reopenStages(stageIds: string[]): Promise<void> {
+  if (stageIds.length === 0) return;
+  
+  await db
+    .update(schema.workflowStages)
+    .set({ status: "pending", startedAt: null, completedAt: null, escalatedAt: null })
+    .where(inArray(schema.workflowStages.id, stageIds));
+}
+
+/**
+ * In-progress stages that have an SLA, for breach detection
+ */
+export async function getInProgressStagesWithSla(): Promise<schema.WorkflowStage[]> {
+  return await db
+    .select()
+    .from(schema.workflowStages)
+    .where(and(
+      eq(schema.workflowStages.status, "in_progress"),
+      sql`${schema.workflowStages.slaHours} IS NOT NULL`
+    ));
+}
+
+/**
+ * Stages currently awaiting a decision, with their workflow (only workflows still in progress)
+ */
+export async function getOpenStagesWithWorkflows(): Promise<{ stage: schema.WorkflowStage; workflow: schema.Workflow }[]> {
+  return await db
+    .select({
+      stage: schema.workflowStages,
+      workflow: schema.workflows,
+    })
+    .from(schema.workflowStages)
+    .innerJoin(schema.workflows, eq(schema.workflowStages.workflowId, schema.workflows.id))
+    .where(and(
+      eq(schema.workflowStages.status, "in_progress"),
+      eq(schema.workflows.overallStatus, "in_progress")
+    ));
+}
+
+export async function markStageEscalated(stageId: string): Promise<void> {
+  await db
+    .update(schema.workflowStages)
+    .set({ escalatedAt: new Date() })
+    .where(eq(schema.workflowStages.id, stageId));
+}
+
+export async function assignStage(stageId: string, assigneeId: number | null): Promise<void> {
+  await db
+    .update(schema.workflowStages)
+    .set({ assigneeId })
     .where(eq(schema.workflowStages.id, stageId));
 }
 
+/**
+ * Who was assigned the most recent stage with this name, for round-robin assignment
+ */
+export async function getLastAssigneeByStageName(stageName: string): Promise<number | null> {
+  const [stage] = await db
+    .select({ assigneeId: schema.workflowStages.assigneeId })
+    .from(schema.workflowStages)
+    .where(and(
+      eq(schema.workflowStages.stageName, stageName),
+      sql`${schema.workflowStages.assigneeId} IS NOT NULL`
+    ))
+    .orderBy(desc(schema.workflowStages.createdAt))
+    .limit(1);
+  
+  return stage?.assigneeId ?? null;
+}
+
+/**
+ * Number of pending or in-progress stages assigned to each user
+ */
+export async function getOpenAssignmentCounts(userIds: number[]): Promise<Map<number, number>> {
+  const counts = new Map<number, number>();
+  if (userIds.length === 0) return counts;
+  
+  const rows = await db
+    .select({ assigneeId: schema.workflowStages.assigneeId, count: sql<number>`COUNT(*)` })
+    .from(schema.workflowStages)
+    .where(and(
+      inArray(schema.workflowStages.assigneeId, userIds),
+      inArray(schema.workflowStages.status, ["pending", "in_progress"])
+    ))
+    .groupBy(schema.workflowStages.assigneeId);
+  
+  for (const row of rows) {
+    if (row.assigneeId !== null) counts.set(row.assigneeId, Number(row.count));
+  }
+  return counts;
+}
+
+const FULL_ACCESS_ROLES = ["CEO", "CFO", "COO", "admin"];
+
 /**
  * Check if a user has access to view a workflow based on:
  * 1. C-level roles (CEO, CFO, COO) and admin always have access
- * 2. Workflow requester always has access
+ * 2. Workflow requester and watchers added to the workflow always have access;
+ *    users mentioned in a comment have access until the mention expires
  * 3. Other users have access if their department is in visibleToDepartments for at least one stage
  */
 export async function checkWorkflowAccess(
@@ -376,7 +739,7 @@ export async function checkWorkflowAccess(
   userDepartment: string | null
 ): Promise<{ hasAccess: boolean; reason?: string }> {
   // C-level and admin always have access
-  if (["CEO", "CFO", "COO", "admin"].includes(userRole)) {
+  if (FULL_ACCESS_ROLES.includes(userRole)) {
     return { hasAccess: true, reason: "C-level or admin access" };
   }
 
@@ -390,6 +753,16 @@ export async function checkWorkflowAccess(
     return { hasAccess: true, reason: "Workflow requester" };
   }
 
+  // Watchers added to this workflow by name follow it like the requester
+  if (await isWatchingWorkflow(userId, workflowId)) {
+    return { hasAccess: true, reason: "Workflow watcher" };
+  }
+
+  // Being mentioned in a comment gives read access for a while
+  if (await hasMentionAccess(userId, workflowId)) {
+    return { hasAccess: true, reason: "Mentioned in a comment" };
+  }
+
   // Check if user's department has visibility to any stage
   if (!userDepartment) {
     return { hasAccess: false, reason: "No department assigned" };
@@ -415,6 +788,31 @@ export async function checkWorkflowAccess(
   return { hasAccess: false, reason: "No visible stages for your department" };
 }
 
+/**
+ * The same rules as `checkWorkflowAccess`, as a condition on the workflows
+ * table for queries that may only return workflows the user can see. Keep the
+ * two in step. Undefined when the user can see every workflow.
+ * Workflow stages don't store department visibility (only template stages
+ * do), so the department rule never grants access and has no counterpart here.
+ */
+export function workflowAccessCondition(
+  user: { id: number; role: string },
+  at: Date = new Date()
+): SQL | undefined {
+  if (FULL_ACCESS_ROLES.includes(user.role)) return undefined;
+  
+  return or(
+    eq(schema.workflows.requesterId, user.id),
+    sql`EXISTS (SELECT 1 FROM ${schema.workflowSubscriptions}
+      WHERE ${schema.workflowSubscriptions.userId} = ${user.id}
+        AND ${schema.workflowSubscriptions.workflowId} = ${schema.workflows.id})`,
+    sql`EXISTS (SELECT 1 FROM ${schema.commentMentions}
+      WHERE ${schema.commentMentions.userId} = ${user.id}
+        AND ${schema.commentMentions.workflowId} = ${schema.workflows.id}
+        AND ${schema.commentMentions.accessExpiresAt} >= ${at})`
+  );
+}
+
 // ============================================
 // Workflow Approval Management
 // ============================================
@@ -424,8 +822,9 @@ export async function createApproval(approval: {
   stageId: string;
   approverId: number;
   approverRole: string;
-  action: "approved" | "rejected" | "commented";
+  action: "approved" | "rejected" | "returned" | "commented";
   comments?: string;
+  onBehalfOfId?: number;
 }): Promise<schema.WorkflowApproval> {
   const approvalId = randomUUID();
   
@@ -439,32 +838,499 @@ export async function createApproval(approval: {
       approverRole: approval.approverRole,
       action: approval.action,
       comments: approval.comments,
+      onBehalfOfId: approval.onBehalfOfId,
+    });
+  
+  // Fetch and return the newly created approval
+  const [newApproval] = await db
+    .select()
+    .from(schema.workflowApprovals)
+    .where(eq(schema.workflowApprovals.id, approvalId))
+    .limit(1);
+  
+  return newApproval;
+}
+
+export async function getApprovalsByWorkflow(workflowId: string): Promise<schema.WorkflowApproval[]> {
+  return await db
+    .select()
+    .from(schema.workflowApprovals)
+    .where(eq(schema.workflowApprovals.workflowId, workflowId))
+    .orderBy(desc(schema.workflowApprovals.createdAt));
+}
+
+export async function getApprovalsByStage(stageId: string): Promise<schema.WorkflowApproval[]> {
+  return await db
+    .select()
+    .from(schema.workflowApprovals)
+    .where(eq(schema.workflowApprovals.stageId, stageId))
+    .orderBy(desc(schema.workflowApprovals.createdAt));
+}
+
+// ============================================
+// Workflow Amendment Management
+// ============================================
+
+export async function createWorkflowAmendment(amendment: {
+  workflowId: string;
+  changes: { field: string; oldValue: unknown; newValue: unknown }[];
+  reason?: string;
+  reopenedStageIds?: string[];
+  amendedBy: number;
+}): Promise<schema.WorkflowAmendment> {
+  const amendmentId = randomUUID();
+  
+  // The original submission is version 1
+  const [latest] = await db
+    .select({ version: schema.workflowAmendments.version })
+    .from(schema.workflowAmendments)
+    .where(eq(schema.workflowAmendments.workflowId, amendment.workflowId))
+    .orderBy(desc(schema.workflowAmendments.version))
+    .limit(1);
+  
+  await db.insert(schema.workflowAmendments).values({
+    id: amendmentId,
+    workflowId: amendment.workflowId,
+    version: (latest?.version || 1) + 1,
+    changes: amendment.changes,
+    reason: amendment.reason,
+    reopenedStageIds: amendment.reopenedStageIds && amendment.reopenedStageIds.length > 0 ? amendment.reopenedStageIds : null,
+    amendedBy: amendment.amendedBy,
+  });
+  
+  const [newAmendment] = await db
+    .select()
+    .from(schema.workflowAmendments)
+    .where(eq(schema.workflowAmendments.id, amendmentId))
+    .limit(1);
+  
+  return newAmendment;
+}
+
+export async function getAmendmentsByWorkflow(workflowId: string): Promise<schema.WorkflowAmendment[]> {
+  return await db
+    .select()
+    .from(schema.workflowAmendments)
+    .where(eq(schema.workflowAmendments.workflowId, workflowId))
+    .orderBy(desc(schema.workflowAmendments.version));
+}
+
+// ============================================
+// Approval Delegation Management
+// ============================================
+
+export async function createDelegation(delegation: {
+  delegatorId: number;
+  delegateId: number;
+  startsAt: Date;
+  endsAt: Date;
+  workflowTypes?: string[];
+  maxAmount?: number;
+  reason?: string;
+  createdBy: number;
+}): Promise<schema.ApprovalDelegation> {
+  const delegationId = randomUUID();
+  
+  await db
+    .insert(schema.approvalDelegations)
+    .values({
+      id: delegationId,
+      delegatorId: delegation.delegatorId,
+      delegateId: delegation.delegateId,
+      startsAt: delegation.startsAt,
+      endsAt: delegation.endsAt,
+      workflowTypes: delegation.workflowTypes && delegation.workflowTypes.length > 0 ? delegation.workflowTypes : null,
+      maxAmount: delegation.maxAmount?.toString(),
+      reason: delegation.reason,
+      isActive: true,
+      createdBy: delegation.createdBy,
+    });
+  
+  const [newDelegation] = await db
+    .select()
+    .from(schema.approvalDelegations)
+    .where(eq(schema.approvalDelegations.id, delegationId))
+    .limit(1);
+  
+  return newDelegation;
+}
+
+export async function getDelegationById(delegationId: string): Promise<schema.ApprovalDelegation | undefined> {
+  const result = await db
+    .select()
+    .from(schema.approvalDelegations)
+    .where(eq(schema.approvalDelegations.id, delegationId))
+    .limit(1);
+  
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Delegations given or received by a user
+ */
+export async function getDelegationsForUser(userId: number): Promise<schema.ApprovalDelegation[]> {
+  return await db
+    .select()
+    .from(schema.approvalDelegations)
+    .where(or(
+      eq(schema.approvalDelegations.delegatorId, userId),
+      eq(schema.approvalDelegations.delegateId, userId)
+    ))
+    .orderBy(desc(schema.approvalDelegations.startsAt));
+}
+
+export async function getAllDelegations(): Promise<schema.ApprovalDelegation[]> {
+  return await db
+    .select()
+    .from(schema.approvalDelegations)
+    .orderBy(desc(schema.approvalDelegations.startsAt));
+}
+
+/**
+ * Delegations a user can currently act under (limits are checked by the caller)
+ */
+export async function getActiveDelegationsByDelegate(
+  delegateId: number,
+  at: Date = new Date()
+): Promise<schema.ApprovalDelegation[]> {
+  return await db
+    .select()
+    .from(schema.approvalDelegations)
+    .where(and(
+      eq(schema.approvalDelegations.delegateId, delegateId),
+      eq(schema.approvalDelegations.isActive, true),
+      lte(schema.approvalDelegations.startsAt, at),
+      gte(schema.approvalDelegations.endsAt, at)
+    ));
+}
+
+/**
+ * Delegations currently handed over by any of the given users
+ */
+export async function getActiveDelegationsByDelegators(
+  delegatorIds: number[],
+  at: Date = new Date()
+): Promise<schema.ApprovalDelegation[]> {
+  if (delegatorIds.length === 0) return [];
+  
+  return await db
+    .select()
+    .from(schema.approvalDelegations)
+    .where(and(
+      inArray(schema.approvalDelegations.delegatorId, delegatorIds),
+      eq(schema.approvalDelegations.isActive, true),
+      lte(schema.approvalDelegations.startsAt, at),
+      gte(schema.approvalDelegations.endsAt, at)
+    ));
+}
+
+export async function revokeDelegation(delegationId: string): Promise<void> {
+  await db
+    .update(schema.approvalDelegations)
+    .set({ isActive: false })
+    .where(eq(schema.approvalDelegations.id, delegationId));
+}
+
+// ============================================
+// Recurring Workflow Management
+// ============================================
+
+export async function createRecurringWorkflow(definition: {
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  workflowType: "MAF" | "PR" | "CATTO";
+  templateId?: string;
+  formTemplateId?: string;
+  formData?: Record<string, any>;
+  title: string;
+  description?: string;
+  department?: string;
+  estimatedAmount?: number;
+  currency?: string;
+  ownerId: number;
+  autoSubmit?: boolean;
+  createdBy: number;
+}): Promise<schema.RecurringWorkflow> {
+  const definitionId = randomUUID();
+  
+  await db.insert(schema.recurringWorkflows).values({
+    id: definitionId,
+    name: definition.name,
+    cronExpression: definition.cronExpression,
+    timezone: definition.timezone,
+    workflowType: definition.workflowType,
+    templateId: definition.templateId || null,
+    formTemplateId: definition.formTemplateId || null,
+    formData: definition.formData || null,
+    title: definition.title,
+    description: definition.description,
+    department: definition.department || null,
+    estimatedAmount: definition.estimatedAmount?.toString(),
+    currency: definition.currency || "IDR",
+    ownerId: definition.ownerId,
+    autoSubmit: definition.autoSubmit || false,
+    isActive: true,
+    createdBy: definition.createdBy,
+  });
+  
+  const [newDefinition] = await db
+    .select()
+    .from(schema.recurringWorkflows)
+    .where(eq(schema.recurringWorkflows.id, definitionId))
+    .limit(1);
+  
+  return newDefinition;
+}
+
+export async function getRecurringWorkflowById(id: string): Promise<schema.RecurringWorkflow | undefined> {
+  const result = await db
+    .select()
+    .from(schema.recurringWorkflows)
+    .where(eq(schema.recurringWorkflows.id, id))
+    .limit(1);
+  
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAllRecurringWorkflows(): Promise<schema.RecurringWorkflow[]> {
+  return await db
+    .select()
+    .from(schema.recurringWorkflows)
+    .orderBy(schema.recurringWorkflows.name);
+}
+
+export async function getActiveRecurringWorkflows(): Promise<schema.RecurringWorkflow[]> {
+  return await db
+    .select()
+    .from(schema.recurringWorkflows)
+    .where(eq(schema.recurringWorkflows.isActive, true));
+}
+
+export async function updateRecurringWorkflow(
+  id: string,
+  updates: Partial<Omit<schema.InsertRecurringWorkflow, "id" | "createdBy" | "createdAt">>
+): Promise<void> {
+  await db
+    .update(schema.recurringWorkflows)
+    .set(updates)
+    .where(eq(schema.recurringWorkflows.id, id));
+}
+
+export async function deleteRecurringWorkflow(id: string): Promise<void> {
+  await db.delete(schema.recurringWorkflowRuns).where(eq(schema.recurringWorkflowRuns.recurringWorkflowId, id));
+  await db.delete(schema.recurringWorkflows).where(eq(schema.recurringWorkflows.id, id));
+}
+
+export async function createRecurringWorkflowRun(run: {
+  recurringWorkflowId: string;
+  status: "created" | "submitted" | "failed";
+  workflowId?: string;
+  errorMessage?: string;
+  triggeredBy?: number;
+}): Promise<void> {
+  await db.insert(schema.recurringWorkflowRuns).values({
+    id: randomUUID(),
+    recurringWorkflowId: run.recurringWorkflowId,
+    status: run.status,
+    workflowId: run.workflowId || null,
+    errorMessage: run.errorMessage || null,
+    triggeredBy: run.triggeredBy || null,
+  });
+}
+
+export async function getRecurringWorkflowRuns(
+  recurringWorkflowId: string,
+  limit: number = 50
+): Promise<schema.RecurringWorkflowRun[]> {
+  return await db
+    .select()
+    .from(schema.recurringWorkflowRuns)
+    .where(eq(schema.recurringWorkflowRuns.recurringWorkflowId, recurringWorkflowId))
+    .orderBy(desc(schema.recurringWorkflowRuns.createdAt))
+    .limit(limit);
+}
+
+// ============================================
+// Saved Views
+// ============================================
+
+export async function createSavedView(view: {
+  name: string;
+  ownerId: number;
+  filters: Record<string, string>;
+  sortBy: string;
+  sortDirection: "asc" | "desc";
+  visibleColumns: string[];
+  visibility: "private" | "department";
+  department?: string | null;
+}): Promise<schema.SavedView> {
+  const viewId = randomUUID();
+  
+  await db
+    .insert(schema.savedViews)
+    .values({
+      id: viewId,
+      name: view.name,
+      ownerId: view.ownerId,
+      filters: view.filters,
+      sortBy: view.sortBy,
+      sortDirection: view.sortDirection,
+      visibleColumns: view.visibleColumns,
+      visibility: view.visibility,
+      department: view.visibility === "department" ? view.department || null : null,
+    });
+  
+  const [newView] = await db
+    .select()
+    .from(schema.savedViews)
+    .where(eq(schema.savedViews.id, viewId))
+    .limit(1);
+  
+  return newView;
+}
+
+export async function getSavedViewById(viewId: string): Promise<schema.SavedView | undefined> {
+  const [view] = await db
+    .select()
+    .from(schema.savedViews)
+    .where(eq(schema.savedViews.id, viewId))
+    .limit(1);
+  
+  return view;
+}
+
+/**
+ * A user's own views plus those shared with their department
+ */
+export async function getSavedViewsForUser(userId: number, department: string | null): Promise<schema.SavedView[]> {
+  const sharedWithDepartment = department
+    ? and(eq(schema.savedViews.visibility, "department"), eq(schema.savedViews.department, department))
+    : undefined;
+  
+  return await db
+    .select()
+    .from(schema.savedViews)
+    .where(sharedWithDepartment ? or(eq(schema.savedViews.ownerId, userId), sharedWithDepartment) : eq(schema.savedViews.ownerId, userId))
+    .orderBy(asc(schema.savedViews.name));
+}
+
+export async function updateSavedView(
+  viewId: string,
+  updates: Partial<Omit<schema.InsertSavedView, "id" | "ownerId" | "createdAt">>
+): Promise<void> {
+  await db
+    .update(schema.savedViews)
+    .set(updates)
+    .where(eq(schema.savedViews.id, viewId));
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+  await db.delete(schema.savedViews).where(eq(schema.savedViews.id, viewId));
+}
+
+// ============================================
+// Workflow Subscriptions (Watchers)
+// ============================================
+
+/**
+ * Subscribe a user; an identical existing subscription is returned instead of a duplicate
+ */
+export async function createSubscription(subscription: {
+  userId: number;
+  scope: "workflow" | "workflow_type" | "department";
+  workflowId?: string;
+  workflowType?: string;
+  department?: string;
+  createdBy: number;
+}): Promise<schema.WorkflowSubscription> {
+  const target = {
+    workflowId: subscription.scope === "workflow" ? subscription.workflowId || null : null,
+    workflowType: subscription.scope === "workflow_type" ? subscription.workflowType || null : null,
+    department: subscription.scope === "department" ? subscription.department || null : null,
+  };
+  
+  const existing = (await getSubscriptionsForUser(subscription.userId)).find(s =>
+    s.scope === subscription.scope &&
+    s.workflowId === target.workflowId &&
+    s.workflowType === target.workflowType &&
+    s.department === target.department
+  );
+  if (existing) return existing;
+  
+  const subscriptionId = randomUUID();
+  
+  await db
+    .insert(schema.workflowSubscriptions)
+    .values({
+      id: subscriptionId,
+      userId: subscription.userId,
+      scope: subscription.scope,
+      ...target,
+      createdBy: subscription.createdBy,
     });
   
-  // Fetch and return the newly created approval
-  const [newApproval] = await db
+  const [newSubscription] = await db
+    .select()
+    .from(schema.workflowSubscriptions)
+    .where(eq(schema.workflowSubscriptions.id, subscriptionId))
+    .limit(1);
+  
+  return newSubscription;
+}
+
+export async function getSubscriptionById(subscriptionId: string): Promise<schema.WorkflowSubscription | undefined> {
+  const [subscription] = await db
     .select()
-    .from(schema.workflowApprovals)
-    .where(eq(schema.workflowApprovals.id, approvalId))
+    .from(schema.workflowSubscriptions)
+    .where(eq(schema.workflowSubscriptions.id, subscriptionId))
     .limit(1);
   
-  return newApproval;
+  return subscription;
 }
 
-export async function getApprovalsByWorkflow(workflowId: string): Promise<schema.WorkflowApproval[]> {
+export async function getSubscriptionsForUser(userId: number): Promise<schema.WorkflowSubscription[]> {
   return await db
     .select()
-    .from(schema.workflowApprovals)
-    .where(eq(schema.workflowApprovals.workflowId, workflowId))
-    .orderBy(desc(schema.workflowApprovals.createdAt));
+    .from(schema.workflowSubscriptions)
+    .where(eq(schema.workflowSubscriptions.userId, userId))
+    .orderBy(asc(schema.workflowSubscriptions.createdAt));
 }
 
-export async function getApprovalsByStage(stageId: string): Promise<schema.WorkflowApproval[]> {
+/**
+ * Subscriptions covering a workflow: to the workflow itself, its type or its department
+ */
+export async function getSubscriptionsForWorkflow(workflow: {
+  id: string;
+  workflowType: string;
+  department: string;
+}): Promise<schema.WorkflowSubscription[]> {
   return await db
     .select()
-    .from(schema.workflowApprovals)
-    .where(eq(schema.workflowApprovals.stageId, stageId))
-    .orderBy(desc(schema.workflowApprovals.createdAt));
+    .from(schema.workflowSubscriptions)
+    .where(or(
+      eq(schema.workflowSubscriptions.workflowId, workflow.id),
+      and(eq(schema.workflowSubscriptions.scope, "workflow_type"), eq(schema.workflowSubscriptions.workflowType, workflow.workflowType)),
+      and(eq(schema.workflowSubscriptions.scope, "department"), eq(schema.workflowSubscriptions.department, workflow.department))
+    ))
+    .orderBy(asc(schema.workflowSubscriptions.createdAt));
+}
+
+export async function isWatchingWorkflow(userId: number, workflowId: string): Promise<boolean> {
+  const [subscription] = await db
+    .select({ id: schema.workflowSubscriptions.id })
+    .from(schema.workflowSubscriptions)
+    .where(and(
+      eq(schema.workflowSubscriptions.userId, userId),
+      eq(schema.workflowSubscriptions.workflowId, workflowId)
+    ))
+    .limit(1);
+  
+  return !!subscription;
+}
+
+export async function deleteSubscription(subscriptionId: string): Promise<void> {
+  await db.delete(schema.workflowSubscriptions).where(eq(schema.workflowSubscriptions.id, subscriptionId));
 }
 
 // ============================================
@@ -510,6 +1376,8 @@ export async function createWorkflowFile(file: {
     .where(eq(schema.workflowFiles.id, fileId))
     .limit(1);
   
+  await reindexWorkflowSearch(file.workflowId);
+  
   return newFile;
 }
 
@@ -550,6 +1418,7 @@ export async function getFilesByStage(stageId: string): Promise<schema.WorkflowF
 export async function createComment(comment: {
   workflowId: string;
   stageId?: string;
+  parentCommentId?: string;
   commentText: string;
   commentType?: string;
   authorId: number;
@@ -563,6 +1432,7 @@ export async function createComment(comment: {
       id: commentId,
       workflowId: comment.workflowId,
       stageId: comment.stageId,
+      parentCommentId: comment.parentCommentId || null,
       commentText: comment.commentText,
       commentType: comment.commentType || "general",
       authorId: comment.authorId,
@@ -576,6 +1446,8 @@ export async function createComment(comment: {
     .where(eq(schema.workflowComments.id, commentId))
     .limit(1);
   
+  await reindexWorkflowSearch(comment.workflowId);
+  
   return newComment;
 }
 
@@ -587,6 +1459,121 @@ export async function getCommentsByWorkflow(workflowId: string): Promise<schema.
     .orderBy(desc(schema.workflowComments.createdAt));
 }
 
+export async function getCommentById(commentId: string): Promise<schema.WorkflowComment | undefined> {
+  const [comment] = await db
+    .select()
+    .from(schema.workflowComments)
+    .where(eq(schema.workflowComments.id, commentId))
+    .limit(1);
+  
+  return comment;
+}
+
+/**
+ * Replace a comment's text, keeping the previous text as a revision
+ */
+export async function editComment(comment: schema.WorkflowComment, commentText: string, editedBy: number): Promise<void> {
+  // The revision and the change are written together so no history is lost
+  await withTransaction(async () => {
+    await db.insert(schema.commentRevisions).values({
+      id: randomUUID(),
+      commentId: comment.id,
+      previousText: comment.commentText,
+      action: "edited",
+      changedBy: editedBy,
+    });
+    
+    await db
+      .update(schema.workflowComments)
+      .set({ commentText, editedAt: new Date() })
+      .where(eq(schema.workflowComments.id, comment.id));
+  });
+  
+  await reindexWorkflowSearch(comment.workflowId);
+}
+
+/**
+ * Clear a comment's text and mark it deleted, keeping the text as a revision;
+ * replies stay attached to it
+ */
+export async function deleteComment(comment: schema.WorkflowComment, deletedBy: number): Promise<void> {
+  // The revision and the change are written together so no history is lost
+  await withTransaction(async () => {
+    await db.insert(schema.commentRevisions).values({
+      id: randomUUID(),
+      commentId: comment.id,
+      previousText: comment.commentText,
+      action: "deleted",
+      changedBy: deletedBy,
+    });
+    
+    await db
+      .update(schema.workflowComments)
+      .set({ commentText: "", deletedAt: new Date() })
+      .where(eq(schema.workflowComments.id, comment.id));
+  });
+  
+  await reindexWorkflowSearch(comment.workflowId);
+}
+
+export async function getCommentRevisions(commentId: string): Promise<schema.CommentRevision[]> {
+  return await db
+    .select()
+    .from(schema.commentRevisions)
+    .where(eq(schema.commentRevisions.commentId, commentId))
+    .orderBy(desc(schema.commentRevisions.createdAt));
+}
+
+/**
+ * Number of revisions of each comment in a workflow
+ */
+export async function getCommentRevisionCounts(workflowId: string): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ commentId: schema.commentRevisions.commentId, total: count() })
+    .from(schema.commentRevisions)
+    .innerJoin(schema.workflowComments, eq(schema.commentRevisions.commentId, schema.workflowComments.id))
+    .where(eq(schema.workflowComments.workflowId, workflowId))
+    .groupBy(schema.commentRevisions.commentId);
+  
+  return new Map(rows.map(row => [row.commentId, row.total]));
+}
+
+export async function createCommentMention(mention: {
+  commentId: string;
+  workflowId: string;
+  userId: number;
+  mentionedBy: number;
+  accessExpiresAt?: Date | null;
+}): Promise<void> {
+  await db
+    .insert(schema.commentMentions)
+    .values({
+      id: randomUUID(),
+      commentId: mention.commentId,
+      workflowId: mention.workflowId,
+      userId: mention.userId,
+      mentionedBy: mention.mentionedBy,
+      accessExpiresAt: mention.accessExpiresAt || null,
+    });
+}
+
+/**
+ * Whether a mention still gives the user temporary read access to a workflow
+ */
+export async function hasMentionAccess(userId: number, workflowId: string, at: Date = new Date()): Promise<boolean> {
+  const [mention] = await db
+    .select({ id: schema.commentMentions.id })
+    .from(schema.commentMentions)
+    .where(and(
+      eq(schema.commentMentions.userId, userId),
+      eq(schema.commentMentions.workflowId, workflowId),
+      gte(schema.commentMentions.accessExpiresAt, at)
+    ))
+    .limit(1);
+  
+  return !!mention;
+}
+
 export async function getCommentsByStage(stageId: string): Promise<schema.WorkflowComment[]> {
   return await db
     .select()
@@ -595,6 +1582,144 @@ export async function getCommentsByStage(stageId: string): Promise<schema.Workfl
     .orderBy(desc(schema.workflowComments.createdAt));
 }
 
+// ============================================
+// Notifications
+// ============================================
+
+export async function createNotifications(notifications: Omit<schema.InsertNotification, "id">[]): Promise<void> {
+  if (notifications.length === 0) return;
+  await db
+    .insert(schema.notifications)
+    .values(notifications.map(notification => ({ ...notification, id: randomUUID() })));
+}
+
+/**
+ * A user's notifications, newest first
+ */
+export async function getNotificationsForUser(
+  userId: number,
+  options: { limit: number; unreadOnly?: boolean }
+): Promise<schema.Notification[]> {
+  const conditions = [eq(schema.notifications.userId, userId)];
+  if (options.unreadOnly) {
+    conditions.push(sql`${schema.notifications.readAt} IS NULL`);
+  }
+  
+  return await db
+    .select()
+    .from(schema.notifications)
+    .where(and(...conditions))
+    .orderBy(desc(schema.notifications.createdAt))
+    .limit(options.limit);
+}
+
+export async function countUnreadNotifications(userId: number): Promise<number> {
+  const [row] = await db
+    .select({ total: count() })
+    .from(schema.notifications)
+    .where(and(eq(schema.notifications.userId, userId), sql`${schema.notifications.readAt} IS NULL`));
+  
+  return row?.total || 0;
+}
+
+/**
+ * Mark a user's notifications as read; all of them when no ids are given
+ */
+export async function markNotificationsRead(userId: number, notificationIds?: string[]): Promise<void> {
+  if (notificationIds && notificationIds.length === 0) return;
+  
+  const conditions = [eq(schema.notifications.userId, userId), sql`${schema.notifications.readAt} IS NULL`];
+  if (notificationIds) {
+    conditions.push(inArray(schema.notifications.id, notificationIds));
+  }
+  
+  await db
+    .update(schema.notifications)
+    .set({ readAt: new Date() })
+    .where(and(...conditions));
+}
+
+// ============================================
+// Search Index
+// ============================================
+
+/**
+ * Rebuild the search documents of a workflow from its current details,
+ * comments, form submissions and attachment file names
+ */
+export async function reindexWorkflowSearch(workflowId: string): Promise<void> {
+  await db.delete(schema.searchDocuments).where(eq(schema.searchDocuments.workflowId, workflowId));
+
+  const [workflow] = await db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.id, workflowId))
+    .limit(1);
+  if (!workflow) return;
+
+  const [comments, submissions, files] = await Promise.all([
+    getCommentsByWorkflow(workflowId),
+    getFormSubmissionsByWorkflow(workflowId),
+    getWorkflowFiles(workflowId),
+  ]);
+
+  const sources: { sourceType: SearchSourceType; sourceId: string; content: string }[] = [
+    {
+      sourceType: "workflow",
+      sourceId: workflow.id,
+      content: [workflow.workflowNumber, workflow.title, workflow.description, workflow.department]
+        .filter(Boolean)
+        .join(" · "),
+    },
+    ...comments.map(c => ({ sourceType: "comment" as const, sourceId: c.id, content: mentionsToPlainText(c.commentText) })),
+    ...submissions.map(s => ({ sourceType: "form" as const, sourceId: s.id, content: flattenFormData(s.formData) })),
+    ...files.map(f => ({ sourceType: "file" as const, sourceId: f.id, content: f.fileName })),
+  ];
+
+  const documents = sources
+    .filter(source => source.content.trim())
+    .map(source => ({ ...source, id: randomUUID(), workflowId }));
+
+  if (documents.length > 0) {
+    await db.insert(schema.searchDocuments).values(documents);
+  }
+}
+
+/**
+ * Index every workflow from scratch, e.g. after the index table was created
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  const workflows = await db.select({ id: schema.workflows.id }).from(schema.workflows);
+  for (const workflow of workflows) {
+    await reindexWorkflowSearch(workflow.id);
+  }
+  return workflows.length;
+}
+
+/**
+ * Search documents containing every term, in workflows the user can see,
+ * newest workflows first, with the workflow they belong to
+ */
+export async function searchWorkflowDocuments(
+  terms: string[],
+  user: { id: number; role: string },
+  limit: number
+): Promise<{ document: schema.SearchDocument; workflow: schema.Workflow }[]> {
+  const query = buildFullTextQuery(terms);
+  if (!query) return [];
+
+  return await db
+    .select({ document: schema.searchDocuments, workflow: schema.workflows })
+    .from(schema.searchDocuments)
+    .innerJoin(schema.workflows, eq(schema.searchDocuments.workflowId, schema.workflows.id))
+    .where(and(
+      sql`MATCH(${schema.searchDocuments.content}) AGAINST (${query} IN BOOLEAN MODE)`,
+      workflowAccessCondition(user)
+    ))
+    .orderBy(desc(schema.workflows.updatedAt), asc(schema.searchDocuments.sourceType))
+    .limit(limit);
+}
+
 // ============================================
 // Audit Log Management
 // ============================================
@@ -727,6 +1852,265 @@ export async function getAllEmailRecipients(): Promise<schema.EmailRecipient[]>
     .where(eq(schema.emailRecipients.isActive, true));
 }
 
+// ============================================
+// Notification Preferences and Digests
+// ============================================
+
+export async function getNotificationPreferences(userIds: number[]): Promise<schema.NotificationPreference[]> {
+  if (userIds.length === 0) return [];
+  return await db
+    .select()
+    .from(schema.notificationPreferences)
+    .where(inArray(schema.notificationPreferences.userId, userIds));
+}
+
+export async function getNotificationSettings(userIds: number[]): Promise<schema.NotificationSettings[]> {
+  if (userIds.length === 0) return [];
+  return await db
+    .select()
+    .from(schema.notificationSettings)
+    .where(inArray(schema.notificationSettings.userId, userIds));
+}
+
+/**
+ * Replace a user's email preferences, quiet hours and language
+ */
+export async function saveNotificationPreferences(
+  userId: number,
+  preferences: { eventType: schema.NotificationPreference["eventType"]; mode: schema.NotificationPreference["mode"] }[],
+  settings: {
+    quietHoursStart: number | null;
+    quietHoursEnd: number | null;
+    timezone: string;
+    language: schema.NotificationSettings["language"];
+  }
+): Promise<void> {
+  await db.delete(schema.notificationPreferences).where(eq(schema.notificationPreferences.userId, userId));
+  if (preferences.length > 0) {
+    await db
+      .insert(schema.notificationPreferences)
+      .values(preferences.map(preference => ({ ...preference, id: randomUUID(), userId })));
+  }
+  
+  const [existing] = await getNotificationSettings([userId]);
+  if (existing) {
+    await db
+      .update(schema.notificationSettings)
+      .set(settings)
+      .where(eq(schema.notificationSettings.userId, userId));
+  } else {
+    await db.insert(schema.notificationSettings).values({ ...settings, userId });
+  }
+}
+
+/**
+ * Email recipient entries linked to users, for their legacy `notificationTypes`
+ */
+export async function getEmailRecipientsByUserIds(userIds: number[]): Promise<schema.EmailRecipient[]> {
+  if (userIds.length === 0) return [];
+  return await db
+    .select()
+    .from(schema.emailRecipients)
+    .where(and(inArray(schema.emailRecipients.userId, userIds), eq(schema.emailRecipients.isActive, true)));
+}
+
+export async function createEmailDigestItems(items: Omit<schema.InsertEmailDigestItem, "id">[]): Promise<void> {
+  if (items.length === 0) return;
+  await db
+    .insert(schema.emailDigestItems)
+    .values(items.map(item => ({ ...item, id: randomUUID() })));
+}
+
+/**
+ * Unsent digest items that are due, oldest first
+ */
+export async function getDueEmailDigestItems(now: Date = new Date()): Promise<schema.EmailDigestItem[]> {
+  return await db
+    .select()
+    .from(schema.emailDigestItems)
+    .where(and(sql`${schema.emailDigestItems.sentAt} IS NULL`, lte(schema.emailDigestItems.deliverAt, now)))
+    .orderBy(asc(schema.emailDigestItems.createdAt));
+}
+
+/**
+ * Mark digest items sent, unless another run already has.
+ * Returns how many this caller marked.
+ */
+export async function claimEmailDigestItems(itemIds: string[]): Promise<number> {
+  if (itemIds.length === 0) return 0;
+  const [result] = await db
+    .update(schema.emailDigestItems)
+    .set({ sentAt: new Date() })
+    .where(and(
+      inArray(schema.emailDigestItems.id, itemIds),
+      sql`${schema.emailDigestItems.sentAt} IS NULL`
+    ));
+  return result.affectedRows;
+}
+
+// ============================================
+// Email Outbox
+// ============================================
+
+/**
+ * Queue an email; it joins the caller's transaction when there is one
+ */
+export async function createOutboxEmail(
+  email: Pick<schema.InsertEmailOutboxMessage, "fromAddress" | "toAddresses" | "subject" | "htmlBody" | "textBody">
+): Promise<string> {
+  const id = randomUUID();
+  await db.insert(schema.emailOutbox).values({ ...email, id, nextAttemptAt: new Date() });
+  return id;
+}
+
+export async function getOutboxEmailById(id: string): Promise<schema.EmailOutboxMessage | null> {
+  const [email] = await db.select().from(schema.emailOutbox).where(eq(schema.emailOutbox.id, id)).limit(1);
+  return email || null;
+}
+
+/**
+ * Messages due to be sent, plus any left "sending" by a worker that died
+ */
+export async function getDueOutboxEmails(now: Date, staleBefore: Date, limit: number): Promise<schema.EmailOutboxMessage[]> {
+  return await db
+    .select()
+    .from(schema.emailOutbox)
+    .where(
+      or(
+        and(eq(schema.emailOutbox.status, "pending"), lte(schema.emailOutbox.nextAttemptAt, now)),
+        and(eq(schema.emailOutbox.status, "sending"), lte(schema.emailOutbox.claimedAt, staleBefore))
+      )
+    )
+    .orderBy(asc(schema.emailOutbox.nextAttemptAt))
+    .limit(limit);
+}
+
+/**
+ * Mark a message as being sent, unless another worker got there first.
+ * Returns whether this caller claimed it.
+ */
+export async function claimOutboxEmail(email: schema.EmailOutboxMessage, now: Date): Promise<boolean> {
+  const [result] = await db
+    .update(schema.emailOutbox)
+    .set({ status: "sending", claimedAt: now })
+    .where(
+      and(
+        eq(schema.emailOutbox.id, email.id),
+        eq(schema.emailOutbox.status, email.status),
+        email.claimedAt
+          ? eq(schema.emailOutbox.claimedAt, email.claimedAt)
+          : sql`${schema.emailOutbox.claimedAt} IS NULL`
+      )
+    );
+  return result.affectedRows > 0;
+}
+
+export async function updateOutboxEmail(
+  id: string,
+  data: Partial<Pick<
+    schema.InsertEmailOutboxMessage,
+    "status" | "attempts" | "nextAttemptAt" | "claimedAt" | "lastError" | "providerMessageId" | "sentAt" | "cancelledBy"
+  >>
+): Promise<void> {
+  await db.update(schema.emailOutbox).set(data).where(eq(schema.emailOutbox.id, id));
+}
+
+export async function createEmailDeliveryAttempt(attempt: Omit<schema.InsertEmailDeliveryAttempt, "id">): Promise<void> {
+  await db.insert(schema.emailDeliveryAttempts).values({ ...attempt, id: randomUUID() });
+}
+
+export async function getEmailDeliveryAttempts(emailId: string): Promise<schema.EmailDeliveryAttempt[]> {
+  return await db
+    .select()
+    .from(schema.emailDeliveryAttempts)
+    .where(eq(schema.emailDeliveryAttempts.emailId, emailId))
+    .orderBy(desc(schema.emailDeliveryAttempts.attemptedAt));
+}
+
+/**
+ * Outbox messages, newest first, with optional status and address/subject filters
+ */
+export async function listOutboxEmails(filters: {
+  status?: schema.EmailOutboxMessage["status"];
+  search?: string;
+  limit: number;
+  offset: number;
+}): Promise<{ items: schema.EmailOutboxMessage[]; total: number }> {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(schema.emailOutbox.status, filters.status));
+  if (filters.search) {
+    const pattern = `%${escapeLikePattern(filters.search)}%`;
+    conditions.push(or(
+      like(schema.emailOutbox.subject, pattern),
+      sql`CAST(${schema.emailOutbox.toAddresses} AS CHAR) LIKE ${pattern}`
+    )!);
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  
+  const items = await db
+    .select()
+    .from(schema.emailOutbox)
+    .where(where)
+    .orderBy(desc(schema.emailOutbox.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+  const [{ total }] = await db.select({ total: count() }).from(schema.emailOutbox).where(where);
+  
+  return { items, total };
+}
+
+export async function getOutboxStatusCounts(): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ status: schema.emailOutbox.status, total: count() })
+    .from(schema.emailOutbox)
+    .groupBy(schema.emailOutbox.status);
+  return Object.fromEntries(rows.map(row => [row.status, row.total]));
+}
+
+export async function getEmailTemplates(): Promise<schema.EmailTemplate[]> {
+  return await db.select().from(schema.emailTemplates);
+}
+
+function emailTemplateMatches(
+  templateKey: schema.EmailTemplate["templateKey"],
+  language: schema.EmailTemplate["language"]
+) {
+  return and(eq(schema.emailTemplates.templateKey, templateKey), eq(schema.emailTemplates.language, language));
+}
+
+/**
+ * Save an admin's version of a template, replacing any earlier one
+ */
+export async function saveEmailTemplate(
+  templateKey: schema.EmailTemplate["templateKey"],
+  language: schema.EmailTemplate["language"],
+  content: { subject: string; body: string },
+  updatedBy: number
+): Promise<void> {
+  const [existing] = await db
+    .select({ id: schema.emailTemplates.id })
+    .from(schema.emailTemplates)
+    .where(emailTemplateMatches(templateKey, language));
+  if (existing) {
+    await db
+      .update(schema.emailTemplates)
+      .set({ ...content, updatedBy })
+      .where(eq(schema.emailTemplates.id, existing.id));
+  } else {
+    await db.insert(schema.emailTemplates).values({ id: randomUUID(), templateKey, language, ...content, updatedBy });
+  }
+}
+
+/**
+ * Remove an admin's version of a template, going back to the default
+ */
+export async function deleteEmailTemplate(
+  templateKey: schema.EmailTemplate["templateKey"],
+  language: schema.EmailTemplate["language"]
+): Promise<void> {
+  await db.delete(schema.emailTemplates).where(emailTemplateMatches(templateKey, language));
+}
+
 // ============================================
 // Sequence Management (Public API)
 // ============================================
@@ -797,7 +2181,9 @@ export async function getWorkflowFileById(fileId: string) {
 }
 
 export async function deleteWorkflowFile(fileId: string) {
+  const file = await getWorkflowFileById(fileId);
   await db.delete(schema.workflowFiles).where(eq(schema.workflowFiles.id, fileId));
+  if (file) await reindexWorkflowSearch(file.workflowId);
 }
 
 // ============================================
@@ -888,6 +2274,8 @@ export async function createFormSubmission(submission: Omit<schema.InsertFormSub
     .where(eq(schema.formSubmissions.id, id))
     .limit(1);
   
+  if (created?.workflowId) await reindexWorkflowSearch(created.workflowId);
+  
   return created!;
 }
 
@@ -922,10 +2310,15 @@ export async function updateFormSubmission(id: string, updates: Partial<Omit<sch
     .update(schema.formSubmissions)
     .set(updates)
     .where(eq(schema.formSubmissions.id, id));
+  
+  const submission = await getFormSubmissionById(id);
+  if (submission?.workflowId) await reindexWorkflowSearch(submission.workflowId);
 }
 
 export async function deleteFormSubmission(id: string): Promise<void> {
+  const submission = await getFormSubmissionById(id);
   await db.delete(schema.formSubmissions).where(eq(schema.formSubmissions.id, id));
+  if (submission?.workflowId) await reindexWorkflowSearch(submission.workflowId);
 }
 
 // ============================================================================
@@ -1076,6 +2469,7 @@ export async function getWorkflowTimeline() {
           endDate: stage.completedAt,
           duration,
           stageOrder: stage.stageOrder,
+          parallelGroup: stage.parallelGroup,
         };
       });
       
@@ -1100,6 +2494,21 @@ export async function getUserByRole(role: string) {
   return users[0] || null;
 }
 
+/**
+ * Whether a role from a stage or template is one users can hold
+ */
+export function isUserRole(role: string): role is (typeof schema.users.role.enumValues)[number] {
+  return (schema.users.role.enumValues as readonly string[]).includes(role);
+}
+
+export async function getActiveUsersByRoles(roles: (typeof schema.users.role.enumValues)[number][]): Promise<schema.User[]> {
+  if (roles.length === 0) return [];
+  return await db
+    .select()
+    .from(schema.users)
+    .where(and(inArray(schema.users.role, roles), eq(schema.users.isActive, true)));
+}
+
 // ============================================
 // Workflow Template Management
 // ============================================
@@ -1122,6 +2531,16 @@ export async function createWorkflowTemplate(template: {
     notificationEmails?: string[];
     visibleToDepartments?: string[];
     approvalThreshold?: number;
+    parallelGroup?: string;
+    minApprovals?: number;
+    rejectionPolicy?: "any" | "quorum_unreachable";
+    slaHours?: number | null;
+    escalationRole?: string | null;
+    escalationUserId?: number | null;
+    escalationAction?: "notify" | "add_approver" | "reassign";
+    assignmentMode?: "role" | "fixed" | "requester" | "round_robin" | "least_loaded";
+    assigneeId?: number | null;
+    reapprovalRule?: "threshold_crossed" | "amount_increase" | "any_change" | "never";
   }>;
 }): Promise<{ templateId: string }> {
   const templateId = randomUUID();
@@ -1162,6 +2581,16 @@ export async function createWorkflowTemplate(template: {
       notificationEmails: stage.notificationEmails,
       visibleToDepartments: stage.visibleToDepartments,
       approvalThreshold: stage.approvalThreshold ? stage.approvalThreshold.toString() : undefined,
+      parallelGroup: stage.parallelGroup || null,
+      minApprovals: stage.minApprovals || 1,
+      rejectionPolicy: stage.rejectionPolicy || "any",
+      slaHours: stage.slaHours || null,
+      escalationRole: stage.escalationRole || null,
+      escalationUserId: stage.escalationUserId || null,
+      escalationAction: stage.escalationAction || "notify",
+      assignmentMode: stage.assignmentMode || "role",
+      assigneeId: stage.assigneeId || null,
+      reapprovalRule: stage.reapprovalRule || "threshold_crossed",
     });
   }
   
@@ -1269,6 +2698,16 @@ export async function updateWorkflowTemplate(
       notificationEmails?: string[];
       visibleToDepartments?: string[];
       approvalThreshold?: number;
+      parallelGroup?: string;
+      minApprovals?: number;
+      rejectionPolicy?: "any" | "quorum_unreachable";
+      slaHours?: number | null;
+      escalationRole?: string | null;
+      escalationUserId?: number | null;
+      escalationAction?: "notify" | "add_approver" | "reassign";
+      assignmentMode?: "role" | "fixed" | "requester" | "round_robin" | "least_loaded";
+      assigneeId?: number | null;
+      reapprovalRule?: "threshold_crossed" | "amount_increase" | "any_change" | "never";
     }>;
   }
 ) {
@@ -1308,6 +2747,16 @@ export async function updateWorkflowTemplate(
         notificationEmails: stage.notificationEmails,
         visibleToDepartments: stage.visibleToDepartments,
         approvalThreshold: stage.approvalThreshold ? stage.approvalThreshold.toString() : undefined,
+        parallelGroup: stage.parallelGroup || null,
+        minApprovals: stage.minApprovals || 1,
+        rejectionPolicy: stage.rejectionPolicy || "any",
+        slaHours: stage.slaHours || null,
+        escalationRole: stage.escalationRole || null,
+        escalationUserId: stage.escalationUserId || null,
+        escalationAction: stage.escalationAction || "notify",
+        assignmentMode: stage.assignmentMode || "role",
+        assigneeId: stage.assigneeId || null,
+        reapprovalRule: stage.reapprovalRule || "threshold_crossed",
       });
     }
   }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { isDelegationApplicable } from "../shared/delegation";
+
+const delegation = {
+  startsAt: "2026-03-01T00:00:00Z",
+  endsAt: "2026-03-10T23:59:59Z",
+  isActive: true,
+};
+
+const during = new Date("2026-03-05T09:00:00Z");
+
+describe("Approval Delegation", () => {
+  it("should apply within the date range", () => {
+    expect(isDelegationApplicable(delegation, { workflowType: "PR", at: during })).toBe(true);
+    expect(isDelegationApplicable(delegation, { workflowType: "PR", at: new Date("2026-03-11T00:00:00Z") })).toBe(false);
+    expect(isDelegationApplicable(delegation, { workflowType: "PR", at: new Date("2026-02-28T00:00:00Z") })).toBe(false);
+  });
+
+  it("should not apply once revoked", () => {
+    expect(isDelegationApplicable({ ...delegation, isActive: false }, { workflowType: "PR", at: during })).toBe(false);
+  });
+
+  it("should respect the workflow type limit", () => {
+    const limited = { ...delegation, workflowTypes: ["PR", "MAF"] };
+    expect(isDelegationApplicable(limited, { workflowType: "MAF", at: during })).toBe(true);
+    expect(isDelegationApplicable(limited, { workflowType: "CATTO", at: during })).toBe(false);
+  });
+
+  it("should respect the amount ceiling", () => {
+    const capped = { ...delegation, maxAmount: "10000000.00" };
+    expect(isDelegationApplicable(capped, { workflowType: "PR", amount: "5000000.00", at: during })).toBe(true);
+    expect(isDelegationApplicable(capped, { workflowType: "PR", amount: "25000000.00", at: during })).toBe(false);
+  });
+});
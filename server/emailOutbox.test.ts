@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_EMAIL_ATTEMPTS,
+  RETRY_MAX_DELAY_MINUTES,
+  canCancelEmail,
+  canResendEmail,
+  getRetryDelayMinutes,
+  isSendingStale,
+  planRetry,
+} from "../shared/emailOutbox";
+
+const now = new Date("2026-03-02T08:00:00Z");
+
+describe("getRetryDelayMinutes", () => {
+  it("doubles the wait after each failed attempt", () => {
+    expect([1, 2, 3, 4, 5].map(getRetryDelayMinutes)).toEqual([1, 2, 4, 8, 16]);
+  });
+
+  it("caps the wait", () => {
+    expect(getRetryDelayMinutes(20)).toBe(RETRY_MAX_DELAY_MINUTES);
+  });
+});
+
+describe("planRetry", () => {
+  it("schedules another attempt after the backoff", () => {
+    expect(planRetry(3, now)).toEqual({
+      status: "pending",
+      nextAttemptAt: new Date("2026-03-02T08:04:00Z"),
+    });
+  });
+
+  it("gives up after the last attempt", () => {
+    expect(planRetry(MAX_EMAIL_ATTEMPTS - 1, now).status).toBe("pending");
+    expect(planRetry(MAX_EMAIL_ATTEMPTS, now)).toEqual({ status: "failed", nextAttemptAt: null });
+  });
+});
+
+describe("admin actions", () => {
+  it("resends anything that isn't waiting to go out", () => {
+    expect(canResendEmail("sent")).toBe(true);
+    expect(canResendEmail("failed")).toBe(true);
+    expect(canResendEmail("cancelled")).toBe(true);
+    expect(canResendEmail("pending")).toBe(false);
+    expect(canResendEmail("sending")).toBe(false);
+  });
+
+  it("cancels only messages that haven't gone out", () => {
+    expect(canCancelEmail("pending")).toBe(true);
+    expect(canCancelEmail("failed")).toBe(true);
+    expect(canCancelEmail("sending")).toBe(false);
+    expect(canCancelEmail("sent")).toBe(false);
+    expect(canCancelEmail("cancelled")).toBe(false);
+  });
+});
+
+describe("isSendingStale", () => {
+  it("treats a long-running claim as abandoned", () => {
+    expect(isSendingStale(new Date("2026-03-02T07:55:00Z"), now)).toBe(false);
+    expect(isSendingStale(new Date("2026-03-02T07:50:00Z"), now)).toBe(true);
+    expect(isSendingStale(null, now)).toBe(true);
+  });
+});
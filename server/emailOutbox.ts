@@ -0,0 +1,126 @@
+/**
+ * Email Outbox
+ * `sendEmail` only queues messages here, inside the caller's transaction when
+ * there is one; this worker sends them through the configured transport,
+ * retrying failures with exponential backoff and logging every attempt.
+ */
+
+import * as db from "./db";
+import { getEmailTransport, type EmailOptions, type EmailTransport } from "./emailTransport";
+import { isSendingStale, planRetry, SENDING_TIMEOUT_MINUTES } from "@shared/emailOutbox";
+
+// Messages sent per worker run; the rest wait for the next run
+const OUTBOX_BATCH_SIZE = 50;
+
+export type DeliveryResult =
+  | { status: "sent"; providerMessageId: string | null }
+  | { status: "failed"; error: string };
+
+/**
+ * Queue an email for the outbox worker
+ */
+export async function queueEmail(message: EmailOptions): Promise<string> {
+  return await db.createOutboxEmail({
+    fromAddress: message.from,
+    toAddresses: message.to,
+    subject: message.subject.slice(0, 500),
+    htmlBody: message.htmlBody,
+    textBody: message.textBody,
+  });
+}
+
+/**
+ * Hand one message to a transport, reporting failure instead of throwing
+ */
+export async function attemptDelivery(message: EmailOptions, transport: EmailTransport): Promise<DeliveryResult> {
+  try {
+    const response = await transport.send(message);
+    return { status: "sent", providerMessageId: response.messageId || null };
+  } catch (error) {
+    return { status: "failed", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Send a claimed message and record the attempt
+ */
+async function deliverOutboxEmail(email: db.EmailOutboxMessage, transport: EmailTransport, now: Date): Promise<DeliveryResult> {
+  const result = await attemptDelivery({
+    from: email.fromAddress,
+    to: email.toAddresses,
+    subject: email.subject,
+    htmlBody: email.htmlBody,
+    textBody: email.textBody || undefined,
+  }, transport);
+
+  await db.createEmailDeliveryAttempt({
+    emailId: email.id,
+    status: result.status,
+    transport: transport.name,
+    providerMessageId: result.status === "sent" ? result.providerMessageId : null,
+    error: result.status === "failed" ? result.error : null,
+  });
+
+  if (result.status === "sent") {
+    await db.updateOutboxEmail(email.id, {
+      status: "sent",
+      sentAt: now,
+      nextAttemptAt: null,
+      claimedAt: null,
+      lastError: null,
+      providerMessageId: result.providerMessageId,
+    });
+  } else {
+    const attempts = email.attempts + 1;
+    const retry = planRetry(attempts, now);
+    await db.updateOutboxEmail(email.id, {
+      ...retry,
+      attempts,
+      claimedAt: null,
+      lastError: result.error,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Send every message that is due. Safe to run while another run is still going:
+ * each message is claimed before it is sent.
+ */
+export async function processEmailOutbox(now: Date = new Date()) {
+  let sentCount = 0;
+  let failedCount = 0;
+
+  try {
+    const staleBefore = new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+    const emails = await db.getDueOutboxEmails(now, staleBefore, OUTBOX_BATCH_SIZE);
+    if (emails.length === 0) return { sentCount, failedCount };
+
+    const transport = getEmailTransport();
+    for (const email of emails) {
+      try {
+        if (email.status === "sending" && !isSendingStale(email.claimedAt, now)) continue;
+        if (!(await db.claimOutboxEmail(email, now))) continue;
+
+        const result = await deliverOutboxEmail(email, transport, now);
+        if (result.status === "sent") {
+          sentCount++;
+          console.log(`✅ Email sent: "${email.subject}" to ${email.toAddresses.join(", ")}`);
+        } else {
+          failedCount++;
+          console.error(`❌ Failed to send email ${email.id} (attempt ${email.attempts + 1}):`, result.error);
+        }
+      } catch (error) {
+        failedCount++;
+        console.error(`❌ Error sending email ${email.id}:`, error);
+      }
+    }
+
+    console.log(`📊 Email outbox run complete: ${sentCount} sent, ${failedCount} failed`);
+  } catch (error) {
+    console.error("❌ Error processing email outbox:", error);
+  }
+
+  return { sentCount, failedCount };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  DIGEST_HEADLINE_KEYS,
+  DIGEST_HEADLINES,
+  EMAIL_LANGUAGES,
+  EMAIL_TEMPLATE_INFO,
+  EMAIL_TEMPLATE_KEYS,
+  SAMPLE_DIGEST_SECTIONS,
+  SAMPLE_TEMPLATE_VALUES,
+  fillPlaceholders,
+  findUnknownPlaceholders,
+  formatEmailAmount,
+  renderDigestBlock,
+  renderDigestHeadline,
+  renderEmail,
+  resolveEmailTemplate,
+} from "../shared/emailTemplates";
+
+describe("fillPlaceholders", () => {
+  it("replaces placeholders, tolerating spaces, and empties missing ones", () => {
+    expect(fillPlaceholders("{{ workflowNumber }} for {{requesterName}}{{missing}}", {
+      workflowNumber: "PR-2026-0012",
+      requesterName: "Budi",
+    })).toBe("PR-2026-0012 for Budi");
+  });
+});
+
+describe("findUnknownPlaceholders", () => {
+  it("flags placeholders the email doesn't provide", () => {
+    expect(findUnknownPlaceholders("workflow_submitted", "{{workflowNumber}} {{stageName}} {{foo}} {{foo}}"))
+      .toEqual(["stageName", "foo"]);
+    expect(findUnknownPlaceholders("stage_approved", "{{stageName}} by {{actorName}}")).toEqual([]);
+  });
+
+  it("accepts every default template", () => {
+    for (const key of EMAIL_TEMPLATE_KEYS) {
+      for (const language of EMAIL_LANGUAGES) {
+        const { subject, body } = DEFAULT_EMAIL_TEMPLATES[key][language];
+        expect(findUnknownPlaceholders(key, `${subject}\n${body}`)).toEqual([]);
+      }
+    }
+  });
+});
+
+describe("resolveEmailTemplate", () => {
+  const stored = [
+    { templateKey: "stage_approved", language: "id", subject: "Disetujui: {{workflowNumber}}", body: "Halo" },
+  ];
+
+  it("prefers the admin's version in the recipient's language", () => {
+    expect(resolveEmailTemplate("stage_approved", "id", stored)).toEqual({
+      subject: "Disetujui: {{workflowNumber}}",
+      body: "Halo",
+      isCustom: true,
+    });
+  });
+
+  it("falls back to the default in that language", () => {
+    expect(resolveEmailTemplate("stage_approved", "en", stored)).toEqual({
+      ...DEFAULT_EMAIL_TEMPLATES.stage_approved.en,
+      isCustom: false,
+    });
+  });
+});
+
+describe("formatEmailAmount", () => {
+  it("formats amounts for the recipient's language", () => {
+    expect(formatEmailAmount("12500000.00", "IDR", "id")).toMatch(/^Rp\s?12\.500\.000$/);
+    expect(formatEmailAmount(1500, "USD", "en")).toBe("$1,500");
+  });
+
+  it("describes a missing amount", () => {
+    expect(formatEmailAmount(null, "IDR", "en")).toBe("no amount");
+    expect(formatEmailAmount(undefined, "IDR", "id")).toBe("tanpa nominal");
+  });
+});
+
+describe("renderDigestHeadline", () => {
+  it("renders the headline in the recipient's language", () => {
+    const headline = { key: "stage_approved" as const, params: { stageName: "GA Review" } };
+    expect(renderDigestHeadline(headline, "en")).toBe('Stage "GA Review" approved');
+    expect(renderDigestHeadline(headline, "id")).toBe('Tahap "GA Review" disetujui');
+  });
+
+  it("has every headline in every language with the same placeholders", () => {
+    const names = (text: string) => Array.from(text.matchAll(/\{\{(\w+)\}\}/g)).map(m => m[1]).sort();
+    for (const key of DIGEST_HEADLINE_KEYS) {
+      expect(names(DIGEST_HEADLINES[key].id)).toEqual(names(DIGEST_HEADLINES[key].en));
+    }
+  });
+});
+
+describe("renderEmail", () => {
+  it("fills the subject and both bodies", () => {
+    const email = renderEmail("stage_approved", DEFAULT_EMAIL_TEMPLATES.stage_approved.en, SAMPLE_TEMPLATE_VALUES.en, "en");
+
+    expect(email.subject).toBe("PR-2026-0012: Finance Review approved");
+    expect(email.htmlBody).toContain("Sari Wijaya approved the Finance Review stage");
+    expect(email.htmlBody).toContain('href="https://example.com/workflows/sample"');
+    expect(email.htmlBody).toContain("View Workflow");
+    expect(email.textBody).toContain("Comments: Approved within this quarter's budget.");
+    expect(email.textBody).toContain("View Workflow: https://example.com/workflows/sample");
+  });
+
+  it("uses the template's language for the layout", () => {
+    const email = renderEmail("workflow_completed", DEFAULT_EMAIL_TEMPLATES.workflow_completed.id, SAMPLE_TEMPLATE_VALUES.id, "id");
+    expect(email.htmlBody).toContain('<html lang="id">');
+    expect(email.htmlBody).toContain("Lihat Workflow");
+    expect(email.textBody).toContain("Hak cipta dilindungi.");
+  });
+
+  it("escapes values in the HTML body", () => {
+    const email = renderEmail(
+      "workflow_submitted",
+      { subject: "{{workflowTitle}}", body: "Title: {{workflowTitle}}" },
+      { workflowTitle: "Chairs <script>alert(1)</script>" },
+      "en"
+    );
+    expect(email.htmlBody).not.toContain("<script>");
+    expect(email.htmlBody).toContain("Chairs &lt;script&gt;");
+    expect(email.textBody).toContain("Title: Chairs <script>alert(1)</script>");
+  });
+
+  it("leaves out paragraphs whose placeholders are all empty", () => {
+    const email = renderEmail(
+      "stage_rejected",
+      DEFAULT_EMAIL_TEMPLATES.stage_rejected.en,
+      { ...SAMPLE_TEMPLATE_VALUES.en, comments: undefined },
+      "en"
+    );
+    expect(email.textBody).not.toContain("Comments:");
+    expect(email.htmlBody).not.toContain("Comments:");
+  });
+
+  it("mentions temporary access only when the mention gave it", () => {
+    const template = DEFAULT_EMAIL_TEMPLATES.mention.en;
+    expect(renderEmail("mention", template, SAMPLE_TEMPLATE_VALUES.en, "en").textBody)
+      .toContain("read access to this workflow until 30 June 2026");
+    expect(renderEmail("mention", template, { ...SAMPLE_TEMPLATE_VALUES.en, accessUntil: undefined }, "en").textBody)
+      .not.toContain("read access");
+  });
+
+  it("puts blocks in their own paragraph", () => {
+    const digest = renderDigestBlock(SAMPLE_DIGEST_SECTIONS.en, "en");
+    const email = renderEmail(
+      "approval_reminder",
+      DEFAULT_EMAIL_TEMPLATES.approval_reminder.en,
+      { recipientName: "Budi", pendingCount: "1", link: "https://example.com/inbox" },
+      "en",
+      { digest }
+    );
+
+    expect(email.subject).toBe("Workflow Digest: 1 awaiting your approval");
+    expect(email.htmlBody).toContain("<li>Finance Review: Approval Required</li>");
+    expect(email.htmlBody).not.toContain("<p>{{digest}}</p>");
+    expect(email.htmlBody).toContain("Open My Approvals");
+    expect(email.textBody).toContain("PR-2026-0012 · Office chairs for the Finance team\n- Finance Review: Approval Required");
+  });
+
+  it("covers the variables each template lists", () => {
+    expect(EMAIL_TEMPLATE_INFO.approval_reminder.variables).toContain("digest");
+    expect(EMAIL_TEMPLATE_INFO.stage_rejected.variables).toContain("comments");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Templated Emails
+ * Renders the notification templates (the admin's version where there is
+ * one) in each recipient's language and queues them, one email per
+ * recipient. Like the other notifications, failures are logged, never thrown.
+ */
+
+import * as db from "./db";
+import { sendEmail, getSystemSender, getInboxUrl } from "./emailService";
+import {
+  DEFAULT_EMAIL_LANGUAGE,
+  renderDigestBlock,
+  renderEmail,
+  resolveEmailTemplate,
+  type DigestBlockSection,
+  type EmailLanguage,
+  type EmailTemplateKey,
+  type TemplateBlock,
+  type TemplateValues,
+  type TemplateVariable,
+} from "@shared/emailTemplates";
+
+export interface TemplatedEmail {
+  from: string;
+  // Values in the recipient's language; recipientName is filled in for each recipient
+  values: (language: EmailLanguage) => TemplateValues;
+  blocks?: (language: EmailLanguage) => Partial<Record<TemplateVariable, TemplateBlock>>;
+}
+
+/**
+ * Send each recipient the template in their language.
+ * Returns false when any of the emails could not be queued.
+ */
+export async function sendTemplatedEmail(
+  key: EmailTemplateKey,
+  recipients: db.User[],
+  email: TemplatedEmail
+): Promise<boolean> {
+  try {
+    const stored = await db.getEmailTemplates();
+    const settings = await db.getNotificationSettings(recipients.map(u => u.id));
+
+    let allQueued = true;
+    for (const recipient of recipients) {
+      const language = settings.find(s => s.userId === recipient.id)?.language || DEFAULT_EMAIL_LANGUAGE;
+      const rendered = renderEmail(
+        key,
+        resolveEmailTemplate(key, language, stored),
+        { ...email.values(language), recipientName: recipient.fullName || recipient.email },
+        language,
+        email.blocks?.(language)
+      );
+
+      const queued = await sendEmail({ from: email.from, to: [recipient.email], ...rendered });
+      allQueued = allQueued && queued;
+    }
+    return allQueued;
+  } catch (error) {
+    console.error(`❌ Failed to send ${key} emails:`, error);
+    return false;
+  }
+}
+
+/**
+ * Send a user their digest: everything held for them, grouped by workflow,
+ * with the workflows waiting on their approval first
+ * Sent from the system address, as it covers many people's actions
+ */
+export async function sendNotificationDigest(
+  user: db.User,
+  sections: DigestBlockSection[],
+  pendingApprovals: number // Workflows in the digest waiting on the user
+): Promise<boolean> {
+  return await sendTemplatedEmail("approval_reminder", [user], {
+    from: getSystemSender(),
+    values: () => ({ pendingCount: String(pendingApprovals), link: getInboxUrl() }),
+    blocks: language => ({ digest: renderDigestBlock(sections, language) }),
+  });
+}
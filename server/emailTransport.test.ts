@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createFileTransport,
+  createMemoryTransport,
+  getEmailTransport,
+  resolveTransportConfig,
+  setEmailTransport,
+} from "./emailTransport";
+import { attemptDelivery } from "./emailOutbox";
+
+afterEach(() => setEmailTransport(null));
+
+describe("resolveTransportConfig", () => {
+  it("defaults to SES", () => {
+    expect(resolveTransportConfig({ AWS_REGION: "ap-southeast-1" })).toMatchObject({
+      type: "ses",
+      region: "ap-southeast-1",
+    });
+  });
+
+  it("reads SMTP settings and picks the port from SMTP_SECURE", () => {
+    expect(resolveTransportConfig({ EMAIL_TRANSPORT: "smtp", SMTP_HOST: "mail.local" })).toMatchObject({
+      type: "smtp",
+      host: "mail.local",
+      port: 587,
+      secure: false,
+    });
+    expect(
+      resolveTransportConfig({ EMAIL_TRANSPORT: "SMTP", SMTP_HOST: "mail.local", SMTP_SECURE: "true" })
+    ).toMatchObject({ port: 465, secure: true });
+    expect(() => resolveTransportConfig({ EMAIL_TRANSPORT: "smtp" })).toThrow(/SMTP_HOST/);
+  });
+
+  it("uses the default outbox directory for the file transport", () => {
+    expect(resolveTransportConfig({ EMAIL_TRANSPORT: "file" })).toEqual({ type: "file", directory: ".email-outbox" });
+    expect(resolveTransportConfig({ EMAIL_TRANSPORT: "file", EMAIL_OUTBOX_DIR: "/tmp/mail" })).toEqual({
+      type: "file",
+      directory: "/tmp/mail",
+    });
+  });
+
+  it("rejects unknown transports", () => {
+    expect(() => resolveTransportConfig({ EMAIL_TRANSPORT: "pigeon" })).toThrow(/Unknown EMAIL_TRANSPORT/);
+  });
+});
+
+describe("attemptDelivery", () => {
+  it("hands messages to the transport and returns its message ID", async () => {
+    const transport = createMemoryTransport();
+
+    const result = await attemptDelivery({
+      from: "a@compawnion.co",
+      to: ["b@compawnion.co"],
+      subject: "Hello",
+      htmlBody: "<p>Hi</p>",
+    }, transport);
+
+    expect(result).toEqual({ status: "sent", providerMessageId: "memory-1" });
+    expect(transport.sent).toEqual([
+      { from: "a@compawnion.co", to: ["b@compawnion.co"], subject: "Hello", htmlBody: "<p>Hi</p>" },
+    ]);
+  });
+
+  it("reports a failing transport instead of throwing", async () => {
+    const broken = {
+      name: "broken",
+      send: async () => {
+        throw new Error("Connection refused");
+      },
+    };
+
+    await expect(attemptDelivery({ from: "a@compawnion.co", to: ["b@compawnion.co"], subject: "Hi", htmlBody: "" }, broken))
+      .resolves.toEqual({ status: "failed", error: "Connection refused" });
+  });
+});
+
+describe("getEmailTransport", () => {
+  it("returns the transport set for tests", () => {
+    const transport = createMemoryTransport();
+    setEmailTransport(transport);
+    expect(getEmailTransport()).toBe(transport);
+  });
+});
+
+describe("createFileTransport", () => {
+  it("writes each message as an .eml file", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "email-outbox-"));
+    try {
+      const transport = createFileTransport({ type: "file", directory: path.join(directory, "outbox") });
+      const { messageId } = await transport.send({
+        from: "Approval Workflow System <noreply@compawnion.co>",
+        to: ["b@compawnion.co"],
+        subject: "Stage approved",
+        htmlBody: "<p>Approved</p>",
+        textBody: "Approved",
+      });
+
+      const files = await readdir(path.join(directory, "outbox"));
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+
+      const eml = await readFile(path.join(directory, "outbox", files[0]), "utf8");
+      expect(eml).toContain("Subject: Stage approved");
+      expect(eml).toContain("To: b@compawnion.co");
+      expect(eml).toContain(`Message-ID: ${messageId}`);
+      expect(eml).toContain("multipart/alternative");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Email Transports
+ * How composed emails leave the server, chosen with EMAIL_TRANSPORT:
+ * - "ses" (default): Amazon SES
+ * - "smtp": any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ * - "file": .eml files written to EMAIL_OUTBOX_DIR, for local development
+ * Tests swap in a memory transport with `setEmailTransport`.
+ */
+
+import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
+import nodemailer from "nodemailer";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface EmailOptions {
+  from: string; // Email address of the sender (must be verified in SES)
+  to: string[]; // Array of recipient email addresses
+  subject: string;
+  htmlBody: string;
+  textBody?: string; // Optional plain text version
+}
+
+export interface EmailTransport {
+  name: string;
+  // Throws when the message could not be handed over
+  send(message: EmailOptions): Promise<{ messageId?: string }>;
+}
+
+export const EMAIL_TRANSPORT_TYPES = ["ses", "smtp", "file"] as const;
+export type EmailTransportType = (typeof EMAIL_TRANSPORT_TYPES)[number];
+
+export const DEFAULT_OUTBOX_DIR = ".email-outbox";
+
+export type EmailTransportConfig =
+  | { type: "ses"; region: string; accessKeyId?: string; secretAccessKey?: string }
+  | { type: "smtp"; host: string; port: number; secure: boolean; user?: string; password?: string }
+  | { type: "file"; directory: string };
+
+/**
+ * Read the transport settings from environment variables
+ */
+export function resolveTransportConfig(env: NodeJS.ProcessEnv = process.env): EmailTransportConfig {
+  const type = (env.EMAIL_TRANSPORT || "ses").toLowerCase();
+
+  switch (type) {
+    case "ses":
+      return {
+        type,
+        region: env.AWS_SES_REGION || env.AWS_REGION || "us-east-1",
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+      };
+    case "smtp": {
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT is smtp");
+      }
+      const secure = env.SMTP_SECURE === "true";
+      return {
+        type,
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? parseInt(env.SMTP_PORT) : secure ? 465 : 587,
+        secure,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      };
+    }
+    case "file":
+      return { type, directory: env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR };
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${type}"; expected one of ${EMAIL_TRANSPORT_TYPES.join(", ")}`);
+  }
+}
+
+/**
+ * Send through Amazon SES
+ */
+export function createSesTransport(config: Extract<EmailTransportConfig, { type: "ses" }>): EmailTransport {
+  const client = new SESClient({
+    region: config.region,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined, // Fall back to the SDK's own credential chain
+  });
+
+  return {
+    name: "ses",
+    async send(message) {
+      const response = await client.send(new SendEmailCommand({
+        Source: message.from,
+        Destination: {
+          ToAddresses: message.to,
+        },
+        Message: {
+          Subject: {
+            Data: message.subject,
+            Charset: "UTF-8",
+          },
+          Body: {
+            Html: {
+              Data: message.htmlBody,
+              Charset: "UTF-8",
+            },
+            ...(message.textBody && {
+              Text: {
+                Data: message.textBody,
+                Charset: "UTF-8",
+              },
+            }),
+          },
+        },
+      }));
+      return { messageId: response.MessageId };
+    },
+  };
+}
+
+/**
+ * Send through an SMTP server
+ */
+export function createSmtpTransport(config: Extract<EmailTransportConfig, { type: "smtp" }>): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.htmlBody,
+        text: message.textBody,
+      });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Write each message to `directory` as an .eml file, which mail clients can open
+ */
+export function createFileTransport(config: Extract<EmailTransportConfig, { type: "file" }>): EmailTransport {
+  // Composes the MIME message without sending it anywhere
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    async send(message) {
+      const messageId = `<${randomUUID()}@localhost>`;
+      const info = await composer.sendMail({
+        messageId,
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.htmlBody,
+        text: message.textBody,
+      });
+
+      await mkdir(config.directory, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const filePath = path.join(config.directory, `${timestamp}-${messageId.slice(1, 9)}.eml`);
+      await writeFile(filePath, info.message as Buffer);
+      return { messageId };
+    },
+  };
+}
+
+/**
+ * Keep messages in `sent` instead of sending them, for tests
+ */
+export function createMemoryTransport(): EmailTransport & { sent: EmailOptions[] } {
+  const sent: EmailOptions[] = [];
+  return {
+    name: "memory",
+    sent,
+    async send(message) {
+      sent.push(message);
+      return { messageId: `memory-${sent.length}` };
+    },
+  };
+}
+
+export function createEmailTransport(config: EmailTransportConfig): EmailTransport {
+  switch (config.type) {
+    case "ses":
+      return createSesTransport(config);
+    case "smtp":
+      return createSmtpTransport(config);
+    case "file":
+      return createFileTransport(config);
+  }
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * The configured transport, created on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    activeTransport = createEmailTransport(resolveTransportConfig());
+  }
+  return activeTransport;
+}
+
+/**
+ * Replace the transport (e.g. with a memory transport in tests); null goes
+ * back to the configured one
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  activeTransport = transport;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import { generateWorkflowExcel, type WorkflowData } from "./excelExport";
+
+const workflowData: WorkflowData = {
+  workflowNumber: "PR-2026-0012",
+  title: "Office chairs",
+  department: "Finance",
+  requester: "Budi Santoso",
+  createdAt: new Date("2026-03-02T09:00:00Z"),
+};
+
+async function readWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  return workbook;
+}
+
+describe("generateWorkflowExcel", () => {
+  it("adds the related-workflow chain as its own sheet", async () => {
+    const buffer = await generateWorkflowExcel("PR", {
+      ...workflowData,
+      relatedWorkflows: [
+        { workflowNumber: "MAF-2026-0003", workflowType: "MAF", title: "Capex request", overallStatus: "completed", depth: 0 },
+        { workflowNumber: "PR-2026-0012", workflowType: "PR", title: "Office chairs", overallStatus: "in_progress", depth: 1 },
+      ],
+    }, {});
+
+    const sheet = (await readWorkbook(buffer)).getWorksheet("Related Workflows");
+    expect(sheet).toBeDefined();
+    expect(sheet!.getRow(2).getCell(1).value).toBe("MAF-2026-0003");
+    expect(sheet!.getRow(3).getCell(1).value).toBe("  PR-2026-0012");
+    expect(sheet!.getRow(3).font?.bold).toBe(true);
+    expect(sheet!.getRow(3).getCell(4).value).toBe("in_progress");
+  });
+
+  it("leaves the sheet out for a workflow without links", async () => {
+    const buffer = await generateWorkflowExcel("MAF", {
+      ...workflowData,
+      relatedWorkflows: [
+        { workflowNumber: "PR-2026-0012", workflowType: "PR", title: "Office chairs", overallStatus: "draft", depth: 0 },
+      ],
+    }, {});
+
+    expect((await readWorkbook(buffer)).getWorksheet("Related Workflows")).toBeUndefined();
+  });
+
+  it("rejects workflow types without an export", async () => {
+    await expect(generateWorkflowExcel("SKU", workflowData, {})).rejects.toThrow(/No Excel export/);
+  });
+});
@@ -2,7 +2,7 @@ import ExcelJS from "exceljs";
 import path from "path";
 import fs from "fs/promises";
 
-interface WorkflowData {
+export interface WorkflowData {
   workflowNumber: string;
   title: string;
   department: string;
@@ -15,13 +15,41 @@ interface WorkflowData {
     approvedBy?: string;
     approvedAt?: Date;
   }>;
+  // Parent/child chain this workflow belongs to, in tree order
+  relatedWorkflows?: Array<{
+    workflowNumber: string;
+    workflowType: string;
+    title: string;
+    overallStatus: string;
+    depth: number;
+  }>;
 }
 
-interface SignatureData {
+export interface SignatureData {
   ceoSignatureUrl?: string;
   cfoSignatureUrl?: string;
 }
 
+/**
+ * Generate the Excel file for a workflow with the generator for its type
+ */
+export async function generateWorkflowExcel(
+  workflowType: string,
+  workflowData: WorkflowData,
+  signatures: SignatureData
+): Promise<Buffer> {
+  switch (workflowType) {
+    case "MAF":
+      return await generateMAFExcel(workflowData, signatures);
+    case "PR":
+      return await generatePRExcel(workflowData, signatures);
+    case "CATTO":
+      return await generateCATTOExcel(workflowData, signatures);
+    default:
+      throw new Error(`No Excel export for ${workflowType} workflows`);
+  }
+}
+
 /**
  * Generate Excel file for MAF workflow with data and signatures
  */
@@ -91,6 +119,8 @@ export async function generateMAFExcel(
     }
   }
 
+  addRelatedWorkflowsSheet(workbook, workflowData);
+
   const buffer = await workbook.xlsx.writeBuffer();
   return Buffer.from(buffer);
 }
@@ -161,6 +191,8 @@ export async function generatePRExcel(
     }
   }
 
+  addRelatedWorkflowsSheet(workbook, workflowData);
+
   const buffer = await workbook.xlsx.writeBuffer();
   return Buffer.from(buffer);
 }
@@ -231,6 +263,37 @@ export async function generateCATTOExcel(
     }
   }
 
+  addRelatedWorkflowsSheet(workbook, workflowData);
+
   const buffer = await workbook.xlsx.writeBuffer();
   return Buffer.from(buffer);
 }
+
+/**
+ * Add a sheet listing the related-workflow chain (MAF → PR → CATTO)
+ */
+function addRelatedWorkflowsSheet(workbook: ExcelJS.Workbook, workflowData: WorkflowData) {
+  if (!workflowData.relatedWorkflows || workflowData.relatedWorkflows.length <= 1) {
+    return;
+  }
+
+  const sheet = workbook.addWorksheet("Related Workflows");
+  sheet.columns = [
+    { header: "Workflow Number", key: "workflowNumber", width: 28 },
+    { header: "Type", key: "workflowType", width: 10 },
+    { header: "Title", key: "title", width: 50 },
+    { header: "Status", key: "overallStatus", width: 20 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  for (const related of workflowData.relatedWorkflows) {
+    const row = sheet.addRow({
+      ...related,
+      // Indent children under their parent
+      workflowNumber: `${"  ".repeat(related.depth)}${related.workflowNumber}`,
+    });
+    if (related.workflowNumber === workflowData.workflowNumber) {
+      row.font = { bold: true };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Approval Inbox
+ * The open stages waiting on a user, directly or as someone's delegate.
+ * Backs the "My approvals" page and the daily approval reminders.
+ */
+
+import * as db from "./db";
+import { getInboxCapacity, getWaitingHours } from "@shared/approvalInbox";
+import { isDelegationApplicable } from "@shared/delegation";
+import { getCurrentVotes, getVoterId } from "@shared/stageQuorum";
+import { getSlaDeadline, isSlaBreached } from "@shared/stageSla";
+
+export interface InboxContext {
+  openStages: { stage: db.WorkflowStage; workflow: db.Workflow }[];
+  users: db.User[];
+}
+
+/**
+ * Load what `getInboxItems` needs once, for building several users' inboxes
+ */
+export async function loadInboxContext(): Promise<InboxContext> {
+  return {
+    openStages: await db.getOpenStagesWithWorkflows(),
+    users: await db.getAllUsers(),
+  };
+}
+
+/**
+ * Stages waiting on the user, longest waiting first
+ */
+export async function getInboxItems(user: db.User, context?: InboxContext, now: Date = new Date()) {
+  const { openStages, users } = context || (await loadInboxContext());
+  const delegations = await db.getActiveDelegationsByDelegate(user.id);
+  const nameOf = (id: number) => {
+    const u = users.find(other => other.id === id);
+    return u ? u.fullName || u.email : "Unknown";
+  };
+  
+  const items = [];
+  for (const { stage, workflow } of openStages) {
+    const delegators = delegations
+      .filter(d => isDelegationApplicable(d, { workflowType: workflow.workflowType, amount: workflow.estimatedAmount }))
+      .map(d => users.find(u => u.id === d.delegatorId && u.isActive))
+      .filter((u): u is db.User => !!u);
+    
+    const capacity = getInboxCapacity(stage, user, delegators);
+    if (!capacity) continue;
+    
+    // A quorum stage stays open after the user's vote; it is no longer waiting on them
+    if (stage.minApprovals > 1) {
+      const voterId = capacity.onBehalfOf?.id ?? user.id;
+      const votes = getCurrentVotes(stage, await db.getApprovalsByStage(stage.id));
+      if (votes.some(v => getVoterId(v) === voterId)) continue;
+    }
+    
+    items.push({
+      workflowId: workflow.id,
+      workflowNumber: workflow.workflowNumber,
+      workflowType: workflow.workflowType,
+      title: workflow.title,
+      department: workflow.department,
+      requesterName: nameOf(workflow.requesterId),
+      estimatedAmount: workflow.estimatedAmount ? parseFloat(workflow.estimatedAmount) : null,
+      currency: workflow.currency,
+      submittedAt: workflow.submittedAt,
+      stageId: stage.id,
+      stageName: stage.stageName,
+      stageType: stage.stageType,
+      startedAt: stage.startedAt,
+      waitingHours: getWaitingHours(stage.startedAt, now),
+      slaDeadline: getSlaDeadline(stage),
+      slaBreached: isSlaBreached(stage, now),
+      assignedToMe: stage.assigneeId === user.id,
+      onBehalfOfName: capacity.onBehalfOf ? nameOf(capacity.onBehalfOf.id) : null,
+    });
+  }
+  
+  return items.sort((a, b) => b.waitingHours - a.waitingHours);
+}
+
+export type InboxItem = Awaited<ReturnType<typeof getInboxItems>>[number];
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractMentionIds,
+  findMentionCandidates,
+  formatMention,
+  getMentionAccessExpiry,
+  getMentionQuery,
+  insertMention,
+  mentionsToPlainText,
+  splitMentions,
+} from "../shared/mentions";
+
+const text = "Please check @[Siti Rahma](12) and @[Budi](7), thanks @[Siti Rahma](12)";
+
+describe("Mentions", () => {
+  it("should extract mentioned user ids once each", () => {
+    expect(extractMentionIds(text)).toEqual([12, 7]);
+    expect(extractMentionIds("email me at budi@example.com")).toEqual([]);
+  });
+
+  it("should split comments into text and mentions", () => {
+    expect(splitMentions("Hi @[Budi](7)!")).toEqual([
+      { type: "text", text: "Hi " },
+      { type: "mention", userId: 7, name: "Budi" },
+      { type: "text", text: "!" },
+    ]);
+    expect(mentionsToPlainText(text)).toBe("Please check @Siti Rahma and @Budi, thanks @Siti Rahma");
+  });
+
+  it("should keep brackets out of the mention markup", () => {
+    expect(formatMention({ id: 3, name: "Andi [Finance]" })).toBe("@[Andi Finance](3)");
+  });
+
+  it("should find the mention being typed", () => {
+    expect(getMentionQuery("Hello @si", 9)).toEqual({ query: "si", start: 6 });
+    expect(getMentionQuery("@", 1)).toEqual({ query: "", start: 0 });
+    expect(getMentionQuery("budi@example", 12)).toBeNull();
+    expect(getMentionQuery("Hello @si there", 15)).toBeNull();
+  });
+
+  it("should replace the typed query with the mention", () => {
+    expect(insertMention("Hello @si!", 6, 9, { id: 12, name: "Siti Rahma" })).toEqual({
+      text: "Hello @[Siti Rahma](12) !",
+      caret: 24,
+    });
+  });
+
+  it("should rank prefix matches first", () => {
+    const users = [
+      { id: 1, fullName: "Ahmad Budiman", email: "ahmad@example.com" },
+      { id: 2, fullName: "Budi Santoso", email: "budi@example.com" },
+      { id: 3, fullName: "Citra", email: "citra@example.com" },
+    ];
+    expect(findMentionCandidates(users, "budi").map(u => u.id)).toEqual([2, 1]);
+  });
+
+  it("should grant access for a limited time", () => {
+    expect(getMentionAccessExpiry(new Date("2026-05-01T00:00:00Z")).toISOString()).toBe("2026-05-15T00:00:00.000Z");
+  });
+});
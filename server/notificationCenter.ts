@@ -0,0 +1,113 @@
+/**
+ * Notification Center
+ * Writes the in-app notifications shown under the bell. Like watcher emails,
+ * failures are logged, never thrown, so a notification problem can't undo the
+ * change being reported.
+ */
+
+import * as db from "./db";
+import { getEffectiveApprovers } from "@shared/stageSla";
+import { getNotificationRecipients, type NotificationType } from "@shared/notifications";
+
+export interface NotificationEvent {
+  type: NotificationType;
+  title: string; // e.g. PR-2026-0012: Stage "Finance Review" approved
+  message?: string;
+  workflowId?: string;
+  stageId?: string;
+  commentId?: string;
+}
+
+/**
+ * Notify users of an event, except the actor who caused it
+ */
+export async function notifyUsers(
+  userIds: (number | null | undefined)[],
+  event: NotificationEvent,
+  actor: db.User | null = null
+): Promise<void> {
+  try {
+    const recipients = getNotificationRecipients(userIds, actor ? [actor.id] : []);
+    await db.createNotifications(recipients.map(userId => ({
+      userId,
+      type: event.type,
+      title: event.title.slice(0, 255),
+      message: event.message,
+      workflowId: event.workflowId,
+      stageId: event.stageId,
+      commentId: event.commentId,
+      actorId: actor?.id,
+    })));
+  } catch (error) {
+    console.error(`❌ Failed to write ${event.type} notifications:`, error);
+  }
+}
+
+/**
+ * Active users who may approve a stage, including escalation targets
+ */
+export async function getEligibleApprovers(stage: db.WorkflowStage): Promise<db.User[]> {
+  const approvers = getEffectiveApprovers(stage);
+  const users = await db.getActiveUsersByRoles(approvers.roles.filter(db.isUserRole));
+
+  for (const userId of approvers.userIds) {
+    const user = await db.getUserById(userId);
+    if (user && user.isActive && !users.some(u => u.id === user.id)) {
+      users.push(user);
+    }
+  }
+
+  return users;
+}
+
+/**
+ * Tell a stage's approvers it is waiting for them, or only `assigneeId` when
+ * the stage has just been handed to them
+ */
+export async function notifyStageAssigned(
+  stage: db.WorkflowStage,
+  actor: db.User | null = null,
+  assigneeId?: number
+): Promise<void> {
+  try {
+    const workflow = await db.getWorkflowById(stage.workflowId);
+    if (!workflow) return;
+
+    const userIds = assigneeId ? [assigneeId] : (await getEligibleApprovers(stage)).map(u => u.id);
+    await notifyUsers(userIds, {
+      type: "stage_assigned",
+      title: assigneeId
+        ? `${workflow.workflowNumber}: "${stage.stageName}" was assigned to you`
+        : `${workflow.workflowNumber}: "${stage.stageName}" awaits your approval`,
+      message: workflow.title,
+      workflowId: workflow.id,
+      stageId: stage.id,
+    }, actor);
+  } catch (error) {
+    console.error(`❌ Failed to notify approvers of stage ${stage.id}:`, error);
+  }
+}
+
+/**
+ * Tell the requester their workflow's stage was approved or rejected
+ */
+export async function notifyStageDecision(
+  stage: db.WorkflowStage,
+  decision: "approved" | "rejected",
+  actor: db.User | null = null
+): Promise<void> {
+  try {
+    const workflow = await db.getWorkflowById(stage.workflowId);
+    if (!workflow) return;
+
+    await notifyUsers([workflow.requesterId], {
+      type: decision === "approved" ? "stage_approved" : "stage_rejected",
+      title: `${workflow.workflowNumber}: "${stage.stageName}" ${decision}`,
+      message: actor ? `${workflow.title}, by ${actor.fullName || actor.email}` : workflow.title,
+      workflowId: workflow.id,
+      stageId: stage.id,
+    }, actor);
+  } catch (error) {
+    console.error(`❌ Failed to notify requester of stage ${stage.id}:`, error);
+  }
+}
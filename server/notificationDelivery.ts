@@ -0,0 +1,182 @@
+/**
+ * Notification Delivery
+ * Applies each user's email preferences: emails go out now, are held for a
+ * digest or until quiet hours end, or are dropped. Like the other
+ * notifications, failures are logged, never thrown.
+ */
+
+import * as db from "./db";
+import { getWorkflowUrl } from "./emailService";
+import { sendNotificationDigest } from "./emailTemplates";
+import {
+  buildDigestSections,
+  planDelivery,
+  resolveDeliveryMode,
+  type DeliveryPlan,
+  type NotificationEventType,
+} from "@shared/notificationPreferences";
+import type { DigestHeadline, DigestHeadlineKey } from "@shared/emailTemplates";
+
+export interface DigestContent {
+  workflowId?: string;
+  workflowNumber?: string;
+  workflowTitle?: string;
+  headline: DigestHeadline; // e.g. { key: "stage_approved", params: { stageName: "Finance Review" } }
+  details?: string;
+}
+
+/**
+ * How each user wants an event type delivered right now
+ */
+async function planDeliveries(
+  userIds: number[],
+  eventType: NotificationEventType,
+  now: Date
+): Promise<Map<number, DeliveryPlan>> {
+  const preferences = await db.getNotificationPreferences(userIds);
+  const settings = await db.getNotificationSettings(userIds);
+  const recipients = await db.getEmailRecipientsByUserIds(userIds);
+
+  const plans = new Map<number, DeliveryPlan>();
+  for (const userId of userIds) {
+    const userSettings = settings.find(s => s.userId === userId);
+    const mode = resolveDeliveryMode(
+      eventType,
+      preferences.filter(p => p.userId === userId),
+      recipients.find(r => r.userId === userId)?.notificationTypes
+    );
+    plans.set(userId, planDelivery({ ...userSettings, mode }, now));
+  }
+  return plans;
+}
+
+function toDigestItem(userId: number, eventType: NotificationEventType, content: DigestContent, deliverAt: Date) {
+  return {
+    userId,
+    eventType,
+    workflowId: content.workflowId,
+    workflowNumber: content.workflowNumber,
+    workflowTitle: content.workflowTitle?.slice(0, 255),
+    headlineKey: content.headline.key,
+    headlineParams: content.headline.params,
+    details: content.details,
+    deliverAt,
+  };
+}
+
+/**
+ * Email the users who want this event right away through `send`, and hold it
+ * for the others' digests
+ */
+export async function deliverEmail(
+  recipients: db.User[],
+  eventType: NotificationEventType,
+  content: DigestContent,
+  send: (recipients: db.User[]) => Promise<unknown>,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const plans = await planDeliveries(recipients.map(u => u.id), eventType, now);
+
+    const immediate: db.User[] = [];
+    const held = [];
+    for (const user of recipients) {
+      const plan = plans.get(user.id);
+      if (plan?.action === "send") immediate.push(user);
+      if (plan?.action === "queue") held.push(toDigestItem(user.id, eventType, content, plan.deliverAt));
+    }
+
+    await db.createEmailDigestItems(held);
+    if (immediate.length > 0) await send(immediate);
+  } catch (error) {
+    console.error(`❌ Failed to deliver ${eventType} email:`, error);
+  }
+}
+
+/**
+ * Hold items for a user's next digest. Users who want them immediately get
+ * them with the next digest run, outside their quiet hours.
+ * Returns how many items were held.
+ */
+export async function queueForDigest(
+  user: db.User,
+  eventType: NotificationEventType,
+  contents: DigestContent[],
+  now: Date = new Date()
+): Promise<number> {
+  if (contents.length === 0) return 0;
+
+  const plan = (await planDeliveries([user.id], eventType, now)).get(user.id);
+  if (!plan || plan.action === "skip") return 0;
+
+  const deliverAt = plan.action === "queue" ? plan.deliverAt : now;
+  await db.createEmailDigestItems(contents.map(content => toDigestItem(user.id, eventType, content, deliverAt)));
+  return contents.length;
+}
+
+/**
+ * Send every user with due items one digest email.
+ * Items stay queued for the next run when the email can't be queued.
+ */
+export async function sendDueDigests(now: Date = new Date()) {
+  let sentCount = 0;
+  let failedCount = 0;
+
+  try {
+    const items = await db.getDueEmailDigestItems(now);
+    const byUser = new Map<number, db.EmailDigestItem[]>();
+    for (const item of items) {
+      byUser.set(item.userId, [...(byUser.get(item.userId) || []), item]);
+    }
+
+    for (const [userId, userItems] of Array.from(byUser.entries())) {
+      try {
+        const itemIds = userItems.map(item => item.id);
+        const user = await db.getUserById(userId);
+        if (!user || !user.isActive || !user.email) {
+          // Nobody to send them to any more
+          await db.claimEmailDigestItems(itemIds);
+          continue;
+        }
+
+        const sections = buildDigestSections(userItems);
+        // The items are claimed and the digest queued together. A run that
+        // overlaps this one (the 08:00 reminders also send digests) waits for
+        // the claim, then finds the items taken.
+        const outcome = await db.withTransaction(async () => {
+          const claimed = await db.claimEmailDigestItems(itemIds);
+          if (claimed === 0) return "taken";
+          if (claimed < itemIds.length) {
+            throw new Error("Some of the digest's items were sent by another run");
+          }
+
+          const queued = await sendNotificationDigest(
+            user,
+            sections.map(section => ({
+              workflowNumber: section.workflowNumber,
+              workflowTitle: section.workflowTitle,
+              workflowUrl: section.workflowId ? getWorkflowUrl(section.workflowId) : null,
+              entries: section.entries.map(entry => ({
+                headline: { key: entry.headlineKey as DigestHeadlineKey, params: entry.headlineParams },
+                details: entry.details,
+              })),
+            })),
+            sections.filter(s => s.entries.some(e => e.eventType === "approval_request")).length
+          );
+          // Roll back the claim so the items are tried again
+          if (!queued) throw new Error("The digest could not be queued");
+          return "sent";
+        });
+
+        if (outcome === "sent") sentCount++;
+      } catch (error) {
+        failedCount++;
+        console.error(`❌ Error sending digest to user ${userId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("❌ Error sending digests:", error);
+  }
+
+  return { sentCount, failedCount };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDigestSections,
+  isInQuietHours,
+  planDelivery,
+  resolveDeliveryMode,
+} from "../shared/notificationPreferences";
+
+// 2026-05-06 is a Wednesday; Jakarta is UTC+7
+const jakarta = (iso: string) => new Date(`${iso}+07:00`);
+const quiet = { quietHoursStart: 22, quietHoursEnd: 7, timezone: "Asia/Jakarta" };
+
+describe("Notification Preferences", () => {
+  describe("resolveDeliveryMode", () => {
+    it("should prefer the user's choice, then the recipient entry, then immediate", () => {
+      const preferences = [{ eventType: "mention", mode: "off" as const }];
+      expect(resolveDeliveryMode("mention", preferences, ["mention"])).toBe("off");
+      expect(resolveDeliveryMode("approval_request", preferences, ["approval_request"])).toBe("immediate");
+      expect(resolveDeliveryMode("workflow_update", preferences, ["approval_request"])).toBe("off");
+      expect(resolveDeliveryMode("workflow_update", [], null)).toBe("immediate");
+    });
+  });
+
+  it("should handle quiet hours that run past midnight", () => {
+    expect(isInQuietHours(quiet, jakarta("2026-05-06T23:30:00"))).toBe(true);
+    expect(isInQuietHours(quiet, jakarta("2026-05-06T06:59:00"))).toBe(true);
+    expect(isInQuietHours(quiet, jakarta("2026-05-06T07:00:00"))).toBe(false);
+    expect(isInQuietHours({ quietHoursStart: 9, quietHoursEnd: 9 }, jakarta("2026-05-06T09:00:00"))).toBe(false);
+  });
+
+  describe("planDelivery", () => {
+    it("should send immediately outside quiet hours and hold until they end", () => {
+      expect(planDelivery({ mode: "immediate", ...quiet }, jakarta("2026-05-06T14:00:00"))).toEqual({ action: "send" });
+      expect(planDelivery({ mode: "immediate", ...quiet }, jakarta("2026-05-06T23:00:00"))).toEqual({
+        action: "queue",
+        deliverAt: jakarta("2026-05-07T07:00:00"),
+      });
+    });
+
+    it("should hold digests for the next daily or Monday slot", () => {
+      expect(planDelivery({ mode: "daily_digest" }, jakarta("2026-05-06T14:00:00"))).toEqual({
+        action: "queue",
+        deliverAt: jakarta("2026-05-07T08:00:00"),
+      });
+      expect(planDelivery({ mode: "weekly_digest" }, jakarta("2026-05-06T14:00:00"))).toEqual({
+        action: "queue",
+        deliverAt: jakarta("2026-05-11T08:00:00"),
+      });
+    });
+
+    it("should move a digest out of quiet hours and drop switched-off emails", () => {
+      const lateRiser = { mode: "daily_digest" as const, quietHoursStart: 22, quietHoursEnd: 9, timezone: "Asia/Jakarta" };
+      expect(planDelivery(lateRiser, jakarta("2026-05-06T14:00:00"))).toEqual({
+        action: "queue",
+        deliverAt: jakarta("2026-05-07T09:00:00"),
+      });
+      expect(planDelivery({ mode: "off" })).toEqual({ action: "skip" });
+    });
+  });
+
+  it("should group digest entries by workflow with approval requests first", () => {
+    const sections = buildDigestSections([
+      { eventType: "mention", workflowId: "wf-1", headlineKey: "mentioned", headlineParams: { actorName: "Dewi" }, createdAt: "2026-05-06T01:00:00Z" },
+      { eventType: "approval_request", workflowId: "wf-2", headlineKey: "approval_required", headlineParams: { stageName: "Finance Review" }, createdAt: "2026-05-05T01:00:00Z" },
+      { eventType: "approval_request", workflowId: "wf-2", headlineKey: "approval_required", headlineParams: { stageName: "Finance Review" }, createdAt: "2026-05-06T01:00:00Z" },
+      { eventType: "workflow_update", workflowId: "wf-1", headlineKey: "workflow_completed", createdAt: "2026-05-06T02:00:00Z" },
+    ]);
+    expect(sections.map(s => s.workflowId)).toEqual(["wf-2", "wf-1"]);
+    expect(sections[0].entries).toHaveLength(1);
+    expect(sections[0].entries[0].createdAt).toBe("2026-05-06T01:00:00Z");
+    expect(sections[1].entries.map(e => e.eventType)).toEqual(["mention", "workflow_update"]);
+  });
+});
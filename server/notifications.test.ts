@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatUnreadCount,
+  getCommentNotificationRecipients,
+  getNotificationRecipients,
+} from "../shared/notifications";
+
+describe("Notifications", () => {
+  it("should drop duplicates, empty ids and excluded users", () => {
+    expect(getNotificationRecipients([3, 1, null, 3, undefined, 2], [2])).toEqual([3, 1]);
+  });
+
+  describe("getCommentNotificationRecipients", () => {
+    it("should notify the requester and the author of the parent comment", () => {
+      expect(getCommentNotificationRecipients({ authorId: 1, requesterId: 2, parentAuthorId: 3 })).toEqual([2, 3]);
+    });
+
+    it("should not notify the comment author or mentioned users", () => {
+      expect(getCommentNotificationRecipients({ authorId: 2, requesterId: 2, parentAuthorId: 3 })).toEqual([3]);
+      expect(getCommentNotificationRecipients({ authorId: 1, requesterId: 2, mentionedUserIds: [2] })).toEqual([]);
+    });
+  });
+
+  it("should cap the unread badge", () => {
+    expect(formatUnreadCount(0)).toBeNull();
+    expect(formatUnreadCount(4)).toBe("4");
+    expect(formatUnreadCount(12)).toBe("9+");
+  });
+});
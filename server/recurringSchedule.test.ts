@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  getNextRun,
+  isRunDue,
+  isValidCron,
+  parseCron,
+  renderRecurringTitle,
+} from "../shared/recurringSchedule";
+
+// Asia/Jakarta is UTC+7 all year
+const jakarta = (iso: string) => new Date(`${iso}+07:00`);
+
+describe("Recurring Schedules", () => {
+  describe("parseCron", () => {
+    it("should expand ranges, lists and steps", () => {
+      const schedule = parseCron("*/15 8-10 1,15 * 1-5");
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([8, 9, 10]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should treat 7 as Sunday", () => {
+      expect([...parseCron("0 8 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("should reject malformed expressions", () => {
+      expect(isValidCron("0 8 * *")).toBe(false);
+      expect(isValidCron("60 8 * * *")).toBe(false);
+      expect(isValidCron("0 8 * * mon")).toBe(false);
+      expect(isValidCron("0 8 1 * *")).toBe(true);
+    });
+  });
+
+  describe("getNextRun", () => {
+    it("should find the next monthly run in the schedule's time zone", () => {
+      const next = getNextRun("0 8 1 * *", jakarta("2026-03-15T10:00:00"), "Asia/Jakarta");
+      expect(next).toEqual(jakarta("2026-04-01T08:00:00"));
+    });
+
+    it("should not return the starting minute itself", () => {
+      const next = getNextRun("0 8 * * *", jakarta("2026-03-15T08:00:00"), "Asia/Jakarta");
+      expect(next).toEqual(jakarta("2026-03-16T08:00:00"));
+    });
+
+    it("should run when either restricted day field matches", () => {
+      // The 1st of the month, or any Monday
+      const next = getNextRun("0 9 1 * 1", jakarta("2026-03-10T12:00:00"), "Asia/Jakarta");
+      expect(next).toEqual(jakarta("2026-03-16T09:00:00"));
+    });
+
+    it("should handle quarterly schedules", () => {
+      const next = getNextRun("0 7 1 1,4,7,10 *", jakarta("2026-04-01T07:30:00"), "Asia/Jakarta");
+      expect(next).toEqual(jakarta("2026-07-01T07:00:00"));
+    });
+
+    it("should give up on dates that never occur", () => {
+      expect(getNextRun("0 0 31 2 *", jakarta("2026-01-01T00:00:00"), "Asia/Jakarta")).toBeNull();
+    });
+  });
+
+  describe("isRunDue", () => {
+    it("should be due once the next run after the last one has passed", () => {
+      const lastRun = jakarta("2026-03-01T08:00:00");
+      expect(isRunDue("0 8 1 * *", "Asia/Jakarta", lastRun, jakarta("2026-03-31T23:59:00"))).toBe(false);
+      expect(isRunDue("0 8 1 * *", "Asia/Jakarta", lastRun, jakarta("2026-04-01T08:00:00"))).toBe(true);
+    });
+  });
+
+  describe("renderRecurringTitle", () => {
+    it("should fill in date placeholders", () => {
+      const runAt = jakarta("2026-05-01T08:00:00");
+      expect(renderRecurringTitle("Consumables PR {month} {year}", runAt, "Asia/Jakarta")).toBe("Consumables PR May 2026");
+      expect(renderRecurringTitle("Budget Q{quarter} ({date})", runAt, "Asia/Jakarta")).toBe("Budget Q2 (2026-05-01)");
+    });
+  });
+});
@@ -1,128 +1,329 @@
 /**
  * Workflow Reminder Scheduler
- * Sends daily reminders at 8 AM for pending workflows
+ * Sends daily reminders at 8 AM for pending workflows,
+ * sends digests and held emails as they fall due (checked hourly),
+ * escalates stages that breach their SLA (checked hourly)
+ * raises recurring workflows when they are due (checked every minute)
+ * and sends queued emails from the outbox (every minute)
  */
 
 import cron from "node-cron";
 import * as db from "./db";
-import { sendWorkflowReminder, getWorkflowUrl } from "./emailService";
+import { getWorkflowUrl } from "./emailService";
+import { sendTemplatedEmail } from "./emailTemplates";
+import {
+  ESCALATION_ACTION_TEXT,
+  RECURRING_OUTCOME_TEXT,
+  formatEmailAmount,
+  type DigestHeadline,
+} from "@shared/emailTemplates";
+import { needsEscalation } from "@shared/stageSla";
+import { getFirstOpenStep } from "@shared/stageRouting";
+import { isRunDue, renderRecurringTitle } from "@shared/recurringSchedule";
+import { createInitialStages, createStagesFromTemplate, pickStageAssignee } from "./workflowFactory";
+import { startStages, transitionWorkflow } from "./workflowStateMachine";
+import { invalidateAnalyticsCache } from "./analyticsCache";
+import { getEligibleApprovers, notifyUsers } from "./notificationCenter";
+import { getInboxItems, loadInboxContext } from "./inbox";
+import { deliverEmail, queueForDigest, sendDueDigests } from "./notificationDelivery";
+import { processEmailOutbox } from "./emailOutbox";
 
 /**
- * Get pending workflows that need reminders
+ * The reminder line for a stage waiting on the user, directly or as someone's delegate
  */
-async function getPendingWorkflows() {
-  const workflows = await db.getAllWorkflows();
-  
-  // Filter workflows that are in_progress
-  return workflows.filter(w => w.overallStatus === "in_progress");
+function describeInboxItem(item: { stageName: string; stageType: string; onBehalfOfName?: string | null }): DigestHeadline {
+  const required = item.stageType === "approval" ? "approval_required" : "review_required";
+  return item.onBehalfOfName
+    ? { key: `${required}_on_behalf`, params: { stageName: item.stageName, delegatorName: item.onBehalfOfName } }
+    : { key: required, params: { stageName: item.stageName } };
 }
 
 /**
- * Get last actor for a workflow (person who took the last action)
+ * Remind every active user of the workflows waiting on them. Each user gets
+ * one email listing all of them, sent now or held for their digest.
  */
-async function getLastActor(workflowId: string) {
-  const approvals = await db.getApprovalsByWorkflow(workflowId);
+export async function sendDailyReminders() {
+  console.log("📧 Starting daily workflow reminders...");
   
-  if (approvals.length === 0) {
-    return null;
+  try {
+    const context = await loadInboxContext();
+    let queuedCount = 0;
+    
+    for (const user of context.users.filter(u => u.isActive && u.email)) {
+      try {
+        const items = await getInboxItems(user, context);
+        queuedCount += await queueForDigest(user, "approval_request", items.map(item => ({
+          workflowId: item.workflowId,
+          workflowNumber: item.workflowNumber,
+          workflowTitle: item.title,
+          headline: describeInboxItem(item),
+        })));
+      } catch (error) {
+        console.error(`❌ Error collecting reminders for user ${user.id}:`, error);
+      }
+    }
+    console.log(`Queued ${queuedCount} pending approvals`);
+    
+    const { sentCount, failedCount } = await sendDueDigests();
+    console.log(`📊 Daily reminders complete: ${sentCount} sent, ${failedCount} failed`);
+    
+  } catch (error) {
+    console.error("❌ Error in daily reminders:", error);
   }
-  
-  // Sort by timestamp descending to get the most recent approval
-  const sortedApprovals = approvals.sort((a, b) => 
-    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
-  
-  const lastApproval = sortedApprovals[0];
-  
-  // Get user details
-  const user = await db.getUserById(lastApproval.approverId);
-  return user;
 }
 
 /**
- * Get current pending stage and approvers for a workflow
+ * Escalate in-progress stages that have breached their SLA.
+ * Each stage is escalated once per approval round.
  */
-async function getPendingStageInfo(workflowId: string) {
-  const stages = await db.getStagesByWorkflow(workflowId);
+export async function escalateBreachedStages() {
+  console.log("🚨 Checking stage SLAs...");
   
-  // Find the first stage that's pending
-  const pendingStage = stages.find(s => s.status === "pending");
-  
-  if (!pendingStage) {
-    return null;
+  try {
+    const stages = (await db.getInProgressStagesWithSla()).filter(stage => needsEscalation(stage));
+    let escalatedCount = 0;
+    
+    for (const stage of stages) {
+      try {
+        const workflow = await db.getWorkflowById(stage.workflowId);
+        if (!workflow || workflow.overallStatus !== "in_progress") continue;
+        
+        // Resolve escalation targets (a specific user and/or everyone with a role)
+        const users = await db.getAllUsers();
+        const targets = users.filter(u =>
+          u.isActive && (u.id === stage.escalationUserId || (!!stage.escalationRole && u.role === stage.escalationRole))
+        );
+        
+        // The approvers who missed the deadline, before escalation changes who they are
+        const approvers = await getEligibleApprovers(stage);
+        
+        await db.withTransaction(async () => {
+          // The escalation mark, notifications and audit entry commit together
+          await db.markStageEscalated(stage.id);
+          
+          await notifyUsers([...approvers, ...targets].map(u => u.id), {
+            type: "sla_breach",
+            title: `${workflow.workflowNumber}: "${stage.stageName}" is past its ${stage.slaHours}h SLA`,
+            message: workflow.title,
+            workflowId: workflow.id,
+            stageId: stage.id,
+          });
+          
+          const requester = await db.getUserById(workflow.requesterId);
+          if (targets.length > 0 && requester) {
+            await deliverEmail(targets, "sla_escalation", {
+              workflowId: workflow.id,
+              workflowNumber: workflow.workflowNumber,
+              workflowTitle: workflow.title,
+              headline: {
+                key: "stage_escalated",
+                params: { stageName: stage.stageName, slaHours: String(stage.slaHours) },
+              },
+            }, recipients => sendTemplatedEmail("stage_escalated", recipients, {
+              from: `${requester.fullName} <${requester.email}>`,
+              values: language => ({
+                workflowNumber: workflow.workflowNumber,
+                workflowTitle: workflow.title,
+                workflowType: workflow.workflowType,
+                amount: formatEmailAmount(workflow.estimatedAmount, workflow.currency, language),
+                requesterName: requester.fullName || requester.email,
+                stageName: stage.stageName,
+                slaHours: String(stage.slaHours),
+                escalationAction: ESCALATION_ACTION_TEXT[stage.escalationAction][language],
+                link: getWorkflowUrl(workflow.id),
+              }),
+            }));
+          }
+          
+          const targetNames = targets.map(u => u.fullName).join(", ") || stage.escalationRole || "nobody";
+          const actionSuffix = stage.escalationAction === "add_approver"
+            ? " (added as approver)"
+            : stage.escalationAction === "reassign" ? " (stage reassigned)" : "";
+          
+          await db.createAuditLog({
+            entityType: "stage",
+            entityId: stage.id,
+            action: "escalated",
+            actionDescription: `Stage SLA of ${stage.slaHours}h breached: ${stage.stageName} escalated to ${targetNames}${actionSuffix}`,
+            actorRole: "system",
+            newValues: {
+              workflowId: workflow.id,
+              escalationRole: stage.escalationRole,
+              escalationUserId: stage.escalationUserId,
+              escalationAction: stage.escalationAction,
+            },
+          });
+        });
+        
+        escalatedCount++;
+        console.log(`✅ Escalated stage ${stage.stageName} of workflow: ${workflow.title}`);
+      } catch (error) {
+        console.error(`❌ Error escalating stage ${stage.id}:`, error);
+      }
+    }
+    
+    console.log(`📊 SLA check complete: ${escalatedCount} stages escalated`);
+    
+  } catch (error) {
+    console.error("❌ Error in SLA check:", error);
   }
-  
-  // Get users with the required role
-  const users = await db.getAllUsers();
-  const approvers = users.filter(u => u.role === pendingStage.requiredRole);
-  
-  return {
-    stage: pendingStage,
-    approvers,
-  };
 }
 
 /**
- * Send reminders for all pending workflows
+ * Raise one workflow from a recurring definition, record the run and notify the owner.
+ * Failures are recorded in the run history rather than thrown.
  */
-export async function sendDailyReminders() {
-  console.log("📧 Starting daily workflow reminders...");
+export async function runRecurringWorkflow(
+  definition: db.RecurringWorkflow,
+  triggeredBy?: db.User
+): Promise<db.RecurringWorkflowRun["status"]> {
+  const runAt = new Date();
+  
+  // Mark first so a failing definition is not retried every minute
+  await db.updateRecurringWorkflow(definition.id, { lastRunAt: runAt });
   
   try {
-    const pendingWorkflows = await getPendingWorkflows();
-    console.log(`Found ${pendingWorkflows.length} pending workflows`);
+    const owner = await db.getUserById(definition.ownerId);
+    if (!owner || !owner.isActive) {
+      throw new Error("The owner is no longer an active user");
+    }
+    
+    const template = definition.templateId
+      ? await db.getWorkflowTemplateById(definition.templateId)
+      : await db.getDefaultTemplate(definition.workflowType);
+    if (definition.templateId && (!template || !template.isActive)) {
+      throw new Error("The workflow template no longer exists or is inactive");
+    }
+    
+    const assignees = new Map<string, number | null>();
+    for (const stage of template?.stages || []) {
+      assignees.set(stage.id, await pickStageAssignee(stage));
+    }
+    
+    const title = renderRecurringTitle(definition.title, runAt, definition.timezone);
+    const estimatedAmount = definition.estimatedAmount ? parseFloat(definition.estimatedAmount) : undefined;
+    const workflow = await db.createWorkflow({
+      workflowType: definition.workflowType,
+      templateId: template?.id,
+      title,
+      description: definition.description || undefined,
+      requesterId: owner.id,
+      department: definition.department || owner.department || "General",
+      estimatedAmount,
+      currency: definition.currency || undefined,
+    });
     
-    let sentCount = 0;
-    let failedCount = 0;
+    if (template) {
+      await createStagesFromTemplate(workflow.id, template.stages, assignees);
+    } else {
+      await createInitialStages(workflow.id, definition.workflowType, estimatedAmount);
+    }
+    
+    if (definition.formTemplateId) {
+      await db.createFormSubmission({
+        templateId: definition.formTemplateId,
+        workflowId: workflow.id,
+        formData: definition.formData || {},
+        submittedBy: owner.id,
+        submissionStatus: definition.autoSubmit ? "submitted" : "draft",
+        submittedAt: definition.autoSubmit ? runAt : undefined,
+      });
+    }
+    
+    await db.createAuditLog({
+      entityType: "workflow",
+      entityId: workflow.id,
+      action: "created",
+      actionDescription: `${definition.workflowType} workflow created by recurring schedule "${definition.name}": ${title}`,
+      newValues: { recurringWorkflowId: definition.id },
+      actorId: triggeredBy?.id,
+      actorEmail: triggeredBy?.email,
+      actorRole: triggeredBy?.role || "system",
+    });
+    
+    // Submitted on the owner's behalf, as if they had pressed submit
+    if (definition.autoSubmit) {
+      await transitionWorkflow(workflow.id, "in_progress", {
+        actor: owner,
+        auditDescription: `Workflow submitted automatically by recurring schedule "${definition.name}"`,
+      });
+      const stages = await db.getStagesByWorkflow(workflow.id);
+      await startStages(getFirstOpenStep(stages) || []);
+    }
+    
+    invalidateAnalyticsCache();
+    
+    const status = definition.autoSubmit ? "submitted" : "created";
+    await db.createRecurringWorkflowRun({
+      recurringWorkflowId: definition.id,
+      status,
+      workflowId: workflow.id,
+      triggeredBy: triggeredBy?.id,
+    });
+    
+    await deliverEmail([owner], "recurring_workflow", {
+      workflowId: workflow.id,
+      workflowNumber: workflow.workflowNumber,
+      workflowTitle: title,
+      headline: {
+        key: definition.autoSubmit ? "recurring_submitted" : "recurring_created",
+        params: { scheduleName: definition.name },
+      },
+    }, recipients => sendTemplatedEmail("recurring_workflow_created", recipients, {
+      from: `${owner.fullName} <${owner.email}>`,
+      values: language => ({
+        workflowNumber: workflow.workflowNumber,
+        workflowTitle: title,
+        workflowType: definition.workflowType,
+        amount: formatEmailAmount(estimatedAmount, definition.currency, language),
+        requesterName: owner.fullName || owner.email,
+        scheduleName: definition.name,
+        scheduleOutcome: RECURRING_OUTCOME_TEXT[definition.autoSubmit ? "submitted" : "draft"][language],
+        link: getWorkflowUrl(workflow.id),
+      }),
+    }));
+    
+    return status;
+  } catch (error) {
+    console.error(`❌ Error running recurring workflow ${definition.id}:`, error);
+    await db.createRecurringWorkflowRun({
+      recurringWorkflowId: definition.id,
+      status: "failed",
+      errorMessage: error instanceof Error ? error.message : String(error),
+      triggeredBy: triggeredBy?.id,
+    });
+    return "failed";
+  }
+}
+
+/**
+ * Raise every active recurring workflow whose next scheduled run has passed.
+ * A run missed while the server was down is made up once, not once per missed slot.
+ */
+export async function generateRecurringWorkflows() {
+  try {
+    const definitions = await db.getActiveRecurringWorkflows();
+    const now = new Date();
     
-    for (const workflow of pendingWorkflows) {
+    for (const definition of definitions) {
+      // Count from the last run, or from when the schedule was created, edited or resumed
+      const since = definition.lastRunAt && definition.lastRunAt > definition.updatedAt
+        ? definition.lastRunAt
+        : definition.updatedAt;
+      
       try {
-        // Get last actor (sender)
-        const lastActor = await getLastActor(workflow.id);
-        if (!lastActor) {
-          console.log(`⚠️  No last actor found for workflow ${workflow.id}, skipping`);
-          continue;
-        }
-        
-        // Get pending stage and approvers (recipients)
-        const pendingInfo = await getPendingStageInfo(workflow.id);
-        if (!pendingInfo || pendingInfo.approvers.length === 0) {
-          console.log(`⚠️  No pending approvers for workflow ${workflow.id}, skipping`);
-          continue;
-        }
-        
-        // Send reminder email
-        const recipientEmails = pendingInfo.approvers.map(u => u.email);
-        const success = await sendWorkflowReminder({
-          fromEmail: lastActor.email,
-          fromName: lastActor.fullName,
-          toEmails: recipientEmails,
-          workflowTitle: workflow.title,
-          workflowId: workflow.id,
-          workflowType: workflow.workflowType,
-          currentStage: pendingInfo.stage.stageName,
-          actionRequired: pendingInfo.stage.stageType === "approval" ? "Approval Required" : "Review Required",
-          workflowUrl: getWorkflowUrl(workflow.id),
-        });
-        
-        if (success) {
-          sentCount++;
-          console.log(`✅ Reminder sent for workflow: ${workflow.title}`);
-        } else {
-          failedCount++;
-          console.log(`❌ Failed to send reminder for workflow: ${workflow.title}`);
-        }
-        
+        if (!isRunDue(definition.cronExpression, definition.timezone, since, now)) continue;
       } catch (error) {
-        failedCount++;
-        console.error(`❌ Error processing workflow ${workflow.id}:`, error);
+        console.error(`❌ Invalid schedule for recurring workflow ${definition.id}:`, error);
+        continue;
       }
+      
+      console.log(`🔁 Running recurring workflow: ${definition.name}`);
+      await runRecurringWorkflow(definition);
     }
     
-    console.log(`📊 Daily reminders complete: ${sentCount} sent, ${failedCount} failed`);
-    
   } catch (error) {
-    console.error("❌ Error in daily reminders:", error);
+    console.error("❌ Error generating recurring workflows:", error);
   }
 }
 
@@ -143,6 +344,36 @@ export function startReminderScheduler() {
   });
   
   console.log("✅ Reminder scheduler started: Daily at 8:00 AM Asia/Jakarta");
+  
+  // SLA escalation check at the top of every hour
+  cron.schedule("0 * * * *", async () => {
+    await escalateBreachedStages();
+  }, {
+    timezone: "Asia/Jakarta"
+  });
+  
+  console.log("✅ SLA escalation check started: Hourly");
+  
+  // Digests go out at each user's local digest hour, and held emails when quiet hours end
+  cron.schedule("0 * * * *", async () => {
+    await sendDueDigests();
+  });
+  
+  console.log("✅ Notification digests started: Hourly");
+  
+  // Recurring workflows carry their own schedule and time zone, so check every minute
+  cron.schedule("* * * * *", async () => {
+    await generateRecurringWorkflows();
+  });
+  
+  console.log("✅ Recurring workflow check started: Every minute");
+  
+  // Queued emails, including retries that have waited out their backoff
+  cron.schedule("* * * * *", async () => {
+    await processEmailOutbox();
+  });
+  
+  console.log("✅ Email outbox worker started: Every minute");
 }
 
 /**
@@ -152,3 +383,11 @@ export async function triggerRemindersNow() {
   console.log("🔧 Manual trigger: Sending reminders now");
   await sendDailyReminders();
 }
+
+/**
+ * Manual SLA check (can be called via API endpoint)
+ */
+export async function triggerSlaCheckNow() {
+  console.log("🔧 Manual trigger: Checking stage SLAs now");
+  await escalateBreachedStages();
+}
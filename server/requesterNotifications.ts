@@ -0,0 +1,77 @@
+/**
+ * Requester Notifications
+ * Emails requesters as their workflow is submitted, each stage is approved or
+ * rejected, and the workflow completes, using the admin-editable templates.
+ * Failures are logged, never thrown. Requesters who prefer a digest get the
+ * update in their next one.
+ */
+
+import * as db from "./db";
+import { getSystemSender, getWorkflowUrl } from "./emailService";
+import { sendTemplatedEmail } from "./emailTemplates";
+import { deliverEmail } from "./notificationDelivery";
+import { formatEmailAmount, type DigestHeadline } from "@shared/emailTemplates";
+
+export type RequesterEmailKey = "workflow_submitted" | "stage_approved" | "stage_rejected" | "workflow_completed";
+
+export interface RequesterEvent {
+  stageName?: string;
+  comments?: string | null;
+}
+
+function describeEvent(key: RequesterEmailKey, event: RequesterEvent): DigestHeadline {
+  switch (key) {
+    case "workflow_submitted":
+    case "workflow_completed":
+      return { key };
+    case "stage_approved":
+    case "stage_rejected":
+      return { key, params: { stageName: event.stageName || "" } };
+  }
+}
+
+/**
+ * Email the requester of a workflow about its progress
+ */
+export async function notifyRequester(
+  workflowId: string,
+  key: RequesterEmailKey,
+  event: RequesterEvent = {},
+  actor: db.User | null = null
+): Promise<void> {
+  try {
+    const workflow = await db.getWorkflowById(workflowId);
+    if (!workflow) return;
+
+    const requester = await db.getUserById(workflow.requesterId);
+    if (!requester || !requester.isActive || !requester.email) return;
+
+    // From the person who acted, unless that's the requester themselves
+    const from = actor && actor.id !== requester.id
+      ? `${actor.fullName || actor.email} <${actor.email}>`
+      : getSystemSender();
+
+    await deliverEmail([requester], "own_workflow", {
+      workflowId: workflow.id,
+      workflowNumber: workflow.workflowNumber,
+      workflowTitle: workflow.title,
+      headline: describeEvent(key, event),
+      details: event.comments || undefined,
+    }, immediate => sendTemplatedEmail(key, immediate, {
+      from,
+      values: language => ({
+        workflowNumber: workflow.workflowNumber,
+        workflowTitle: workflow.title,
+        workflowType: workflow.workflowType,
+        amount: formatEmailAmount(workflow.estimatedAmount, workflow.currency, language),
+        requesterName: requester.fullName || requester.email,
+        stageName: event.stageName,
+        actorName: actor ? actor.fullName || actor.email : undefined,
+        comments: event.comments || undefined,
+        link: getWorkflowUrl(workflow.id),
+      }),
+    }));
+  } catch (error) {
+    console.error(`❌ Failed to email the requester of workflow ${workflowId}:`, error);
+  }
+}
@@ -2,11 +2,59 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { systemRouter } from "./_core/systemRouter";
+import { issueSubscriptionTicket } from "./_core/subscriptionTickets";
 import * as db from "./db";
 import { storagePut, storageGet } from "./storage";
 import { randomUUID } from "crypto";
 import { withCache, CACHE_TTL, invalidateAnalyticsCache } from "./analyticsCache";
-import { triggerRemindersNow } from "./reminderScheduler";
+import { triggerRemindersNow, triggerSlaCheckNow, runRecurringWorkflow } from "./reminderScheduler";
+import { getFirstOpenStep, getStagesToReopen, resolveNextStages } from "@shared/stageRouting";
+import { REJECTION_POLICIES, evaluateQuorum, getCurrentVotes, getStageApproverRoles, getVoterId } from "@shared/stageQuorum";
+import { isDelegationApplicable } from "@shared/delegation";
+import { ESCALATION_ACTIONS, getEffectiveApprovers, isSlaBreached, getSlaDeadline } from "@shared/stageSla";
+import { ASSIGNMENT_MODES } from "@shared/stageAssignment";
+import { runBulkStageAction } from "@shared/approvalInbox";
+import { FORM_FIELD_PREFIX, REAPPROVAL_RULES, diffFields, getStagesToReapprove } from "@shared/workflowAmendments";
+import { describeDuplication, getDuplicateDetails, getDuplicateFile } from "@shared/workflowDuplication";
+import { UNLINKABLE_STATUSES, getSubmissionBlocker, orderWorkflowChain } from "@shared/workflowLinks";
+import { DEFAULT_TIMEZONE, getNextRun, isValidTimeZone, parseCron } from "@shared/recurringSchedule";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, SORT_DIRECTIONS, WORKFLOW_SORT_FIELDS } from "@shared/workflowListFilters";
+import { buildSnippet, parseSearchQuery } from "@shared/workflowSearch";
+import {
+  SAVED_VIEW_VISIBILITIES,
+  WORKFLOW_LIST_COLUMNS,
+  canManageSavedView,
+  canShareWithDepartment,
+  canUseSavedView,
+} from "@shared/savedViews";
+import { transitionWorkflow, transitionStage, startStages, reopenStages } from "./workflowStateMachine";
+import { createInitialStages, createStagesFromTemplate, pickStageAssignee } from "./workflowFactory";
+import { listSavedViewWorkflows } from "./savedViews";
+import { getInboxItems } from "./inbox";
+import { notifyWatchers } from "./watcherNotifications";
+import { getEligibleApprovers, notifyStageAssigned, notifyUsers } from "./notificationCenter";
+import { publishWorkflowEvent, streamWorkflowEvents } from "./workflowEvents";
+import { deliverEmail } from "./notificationDelivery";
+import { processEmailOutbox } from "./emailOutbox";
+import { getWorkflowUrl } from "./emailService";
+import { sendTemplatedEmail } from "./emailTemplates";
+import { generateWorkflowExcel } from "./excelExport";
+import { extractMentionIds, getMentionAccessExpiry, mentionsToPlainText } from "@shared/mentions";
+import { WATCH_SCOPES, describeSubscription, matchesSubscription } from "@shared/workflowWatchers";
+import { canViewCommentRevisions, getCommentChangeBlocker } from "@shared/commentThreads";
+import { NOTIFICATION_LIST_LIMIT, getCommentNotificationRecipients } from "@shared/notifications";
+import { DELIVERY_MODES, NOTIFICATION_EVENT_TYPES, resolveDeliveryMode } from "@shared/notificationPreferences";
+import { EMAIL_OUTBOX_STATUSES, canCancelEmail, canResendEmail } from "@shared/emailOutbox";
+import {
+  DEFAULT_EMAIL_LANGUAGE,
+  EMAIL_LANGUAGES,
+  EMAIL_TEMPLATE_INFO,
+  EMAIL_TEMPLATE_KEYS,
+  findUnknownPlaceholders,
+  formatEmailAmount,
+  formatEmailDate,
+  resolveEmailTemplate,
+} from "@shared/emailTemplates";
 
 // Admin-only procedure
 const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
@@ -16,6 +64,44 @@ const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
   return next({ ctx });
 });
 
+// Fields of a recurring workflow definition (shared by create and update)
+const recurringWorkflowInput = z.object({
+  name: z.string().min(1),
+  cronExpression: z.string(),
+  timezone: z.string().optional(),
+  workflowType: z.enum(["MAF", "PR", "CATTO"]),
+  templateId: z.string().optional(),
+  formTemplateId: z.string().optional(),
+  formData: z.record(z.string(), z.any()).optional(),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  department: z.string().optional(),
+  estimatedAmount: z.number().optional(),
+  currency: z.string().optional(),
+  ownerId: z.number(),
+  autoSubmit: z.boolean().optional(),
+});
+
+// Fields of a saved workflow list view (shared by create and update)
+const savedViewInput = z.object({
+  name: z.string().min(1).max(255),
+  filters: z.object({
+    search: z.string(),
+    status: z.string(),
+    type: z.string(),
+    department: z.string(),
+    dateFrom: z.string(),
+    dateTo: z.string(),
+    minAmount: z.string(),
+    maxAmount: z.string(),
+  }),
+  sortBy: z.enum(WORKFLOW_SORT_FIELDS),
+  sortDirection: z.enum(SORT_DIRECTIONS),
+  visibleColumns: z.array(z.enum(WORKFLOW_LIST_COLUMNS)),
+  visibility: z.enum(SAVED_VIEW_VISIBILITIES),
+  department: z.string().optional(),
+});
+
 // Template router (defined before appRouter)
 const templatesRouter = router({
   // Create new template
@@ -37,6 +123,16 @@ const templatesRouter = router({
         notificationEmails: z.array(z.string()).optional(),
         visibleToDepartments: z.array(z.string()).optional(),
         approvalThreshold: z.number().optional(),
+        parallelGroup: z.string().optional(),
+        minApprovals: z.number().int().min(1).optional(),
+        rejectionPolicy: z.enum(REJECTION_POLICIES).optional(),
+        slaHours: z.number().int().positive().optional(),
+        escalationRole: z.string().optional(),
+        escalationUserId: z.number().optional(),
+        escalationAction: z.enum(ESCALATION_ACTIONS).optional(),
+        assignmentMode: z.enum(ASSIGNMENT_MODES).optional(),
+        assigneeId: z.number().optional(),
+        reapprovalRule: z.enum(REAPPROVAL_RULES).optional(),
       })),
     }))
     .mutation(async ({ ctx, input }) => {
@@ -95,6 +191,16 @@ const templatesRouter = router({
         notificationEmails: z.array(z.string()).optional(),
         visibleToDepartments: z.array(z.string()).optional(),
         approvalThreshold: z.number().optional(),
+        parallelGroup: z.string().optional(),
+        minApprovals: z.number().int().min(1).optional(),
+        rejectionPolicy: z.enum(REJECTION_POLICIES).optional(),
+        slaHours: z.number().int().positive().optional(),
+        escalationRole: z.string().optional(),
+        escalationUserId: z.number().optional(),
+        escalationAction: z.enum(ESCALATION_ACTIONS).optional(),
+        assignmentMode: z.enum(ASSIGNMENT_MODES).optional(),
+        assigneeId: z.number().optional(),
+        reapprovalRule: z.enum(REAPPROVAL_RULES).optional(),
       })).optional(),
     }))
     .mutation(async ({ input }) => {
@@ -301,43 +407,79 @@ export const appRouter = router({
           requiresGa: z.boolean().optional(),
           requiresPpic: z.boolean().optional(),
           templateId: z.string().optional(),
+          // Assignees picked by the requester, keyed by template stage id
+          stageAssignees: z.record(z.string(), z.number()).optional(),
+          // Follow-up to another workflow, optionally held back until that one completes
+          parentWorkflowId: z.string().optional(),
+          blockedUntilParentCompleted: z.boolean().optional(),
+          // Colleagues who should follow the workflow from the start
+          watcherIds: z.array(z.number()).max(50).optional(),
         })
       )
       .mutation(async ({ input, ctx }) => {
+        const { stageAssignees, watcherIds, ...workflowInput } = input;
+        
+        if (input.parentWorkflowId) {
+          const parent = await db.getWorkflowById(input.parentWorkflowId);
+          if (!parent) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Parent workflow not found" });
+          }
+          const access = await db.checkWorkflowAccess(parent.id, ctx.user.id, ctx.user.role, ctx.user.department);
+          if (!access.hasAccess) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to link to this workflow" });
+          }
+          if (UNLINKABLE_STATUSES.includes(parent.overallStatus)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Cannot create a follow-up to a ${parent.overallStatus} workflow` });
+          }
+        }
+        
+        const template = input.templateId ? await db.getWorkflowTemplateById(input.templateId) : null;
+        
+        // Resolve named assignees first so an invalid pick doesn't leave a half-created workflow
+        const assignees = new Map<string, number | null>();
+        for (const stage of template?.stages || []) {
+          assignees.set(stage.id, await pickStageAssignee(stage, stageAssignees?.[stage.id]));
+        }
+        
+        // Watchers get read access, so only active users can be added
+        const watchers = Array.from(new Set(watcherIds || [])).filter(id => id !== ctx.user.id);
+        for (const watcherId of watchers) {
+          const watcher = await db.getUserById(watcherId);
+          if (!watcher || !watcher.isActive) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Watcher not found or inactive" });
+          }
+        }
+        
         const workflow = await db.createWorkflow({
-          ...input,
+          ...workflowInput,
           requesterId: ctx.user.id,
         });
         
         // Create stages from template if provided, otherwise use default logic
         if (input.templateId) {
-          const template = await db.getWorkflowTemplateById(input.templateId);
           if (template && template.stages) {
-            for (const stage of template.stages) {
-              await db.createWorkflowStage({
-                workflowId: workflow.id,
-                stageOrder: stage.stageOrder,
-                stageName: stage.stageName,
-                stageType: stage.approvalRequired ? "approval" : "review",
-                requiredRole: stage.requiredRole,
-                requiresOneOf: stage.requiresOneOf,
-                fileUploadRequired: stage.fileUploadRequired,
-                notificationEmails: stage.notificationEmails,
-                visibleToDepartments: stage.visibleToDepartments,
-                approvalThreshold: stage.approvalThreshold,
-              });
-            }
+            await createStagesFromTemplate(workflow.id, template.stages, assignees);
           }
         } else {
           // Create initial stages based on workflow type (fallback)
           await createInitialStages(workflow.id, input.workflowType, input.estimatedAmount);
         }
         
+        for (const watcherId of watchers) {
+          await db.createSubscription({
+            userId: watcherId,
+            scope: "workflow",
+            workflowId: workflow.id,
+            createdBy: ctx.user.id,
+          });
+        }
+        
         await db.createAuditLog({
           entityType: "workflow",
           entityId: workflow.id,
           action: "created",
           actionDescription: `${input.workflowType} workflow created: ${input.title}`,
+          newValues: input.parentWorkflowId ? { parentWorkflowId: input.parentWorkflowId } : undefined,
           actorId: ctx.user.id,
           actorEmail: ctx.user.email,
           actorRole: ctx.user.role,
@@ -349,6 +491,86 @@ export const appRouter = router({
         return workflow;
       }),
 
+    duplicate: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          includeAttachments: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const source = await db.getWorkflowById(input.id);
+        if (!source) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+        }
+        
+        const access = await db.checkWorkflowAccess(source.id, ctx.user.id, ctx.user.role, ctx.user.department);
+        if (!access.hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to duplicate this workflow" });
+        }
+        
+        // Stages are rebuilt from the current template version, not copied
+        let template = source.templateId ? await db.getWorkflowTemplateById(source.templateId) : null;
+        if (!template || !template.isActive) {
+          template = await db.getDefaultTemplate(source.workflowType);
+        }
+        
+        const assignees = new Map<string, number | null>();
+        for (const stage of template?.stages || []) {
+          assignees.set(stage.id, await pickStageAssignee(stage));
+        }
+        
+        const details = getDuplicateDetails(source);
+        const workflow = await db.createWorkflow({
+          ...details,
+          workflowType: source.workflowType,
+          templateId: template?.id,
+          requesterId: ctx.user.id,
+        });
+        
+        if (template) {
+          await createStagesFromTemplate(workflow.id, template.stages, assignees);
+        } else {
+          await createInitialStages(workflow.id, source.workflowType, details.estimatedAmount);
+        }
+        
+        // Copy the latest form data as a draft submission
+        const [submission] = await db.getFormSubmissionsByWorkflow(source.id);
+        if (submission) {
+          await db.createFormSubmission({
+            templateId: submission.templateId,
+            workflowId: workflow.id,
+            formData: submission.formData,
+            submittedBy: ctx.user.id,
+            submissionStatus: "draft",
+          });
+        }
+        
+        // Attachments only when asked for
+        let copiedFiles = 0;
+        if (input.includeAttachments) {
+          for (const file of await db.getFilesByWorkflow(source.id)) {
+            await db.createWorkflowFile({ ...getDuplicateFile(file, ctx.user.id), workflowId: workflow.id });
+            copiedFiles++;
+          }
+        }
+        
+        await db.createAuditLog({
+          entityType: "workflow",
+          entityId: workflow.id,
+          action: "created",
+          actionDescription: describeDuplication(source, copiedFiles),
+          newValues: { duplicatedFrom: source.id },
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        invalidateAnalyticsCache();
+        
+        return workflow;
+      }),
+
     getAll: protectedProcedure.query(async ({ ctx }) => {
       // Admin sees all workflows, others see only their own
       if (ctx.user.role === "admin") {
@@ -358,6 +580,65 @@ export const appRouter = router({
       }
     }),
 
+    // Paginated, filtered and sorted list (admins see every workflow, others their own)
+    list: protectedProcedure
+      .input(
+        z.object({
+          search: z.string().optional(),
+          status: z.string().optional(),
+          workflowType: z.string().optional(),
+          department: z.string().optional(),
+          createdFrom: z.date().optional(),
+          createdTo: z.date().optional(),
+          minAmount: z.number().min(0).optional(),
+          maxAmount: z.number().min(0).optional(),
+          sortBy: z.enum(WORKFLOW_SORT_FIELDS).default("createdAt"),
+          sortDirection: z.enum(SORT_DIRECTIONS).default("desc"),
+          page: z.number().int().min(1).default(1),
+          pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+        })
+      )
+      .query(async ({ input, ctx }) => {
+        const { items, total } = await db.listWorkflows({
+          requesterId: ctx.user.role === "admin" ? undefined : ctx.user.id,
+          search: input.search?.trim() || undefined,
+          status: input.status,
+          workflowType: input.workflowType,
+          department: input.department,
+          createdFrom: input.createdFrom,
+          createdTo: input.createdTo,
+          minAmount: input.minAmount,
+          maxAmount: input.maxAmount,
+          sortBy: input.sortBy,
+          sortDirection: input.sortDirection,
+          limit: input.pageSize,
+          offset: (input.page - 1) * input.pageSize,
+        });
+        
+        const users = await db.getAllUsers();
+        
+        return {
+          items: items.map(workflow => {
+            const requester = users.find(u => u.id === workflow.requesterId);
+            return { ...workflow, requesterName: requester ? requester.fullName || requester.email : "Unknown" };
+          }),
+          total,
+          page: input.page,
+          pageSize: input.pageSize,
+          pageCount: Math.max(1, Math.ceil(total / input.pageSize)),
+        };
+      }),
+
+    // Per-status totals for the same scope as `list`, ignoring its filters
+    getStatusCounts: protectedProcedure.query(async ({ ctx }) => {
+      return await db.getWorkflowStatusCounts(ctx.user.role === "admin" ? undefined : ctx.user.id);
+    }),
+
+    // Open stages waiting on the caller, directly or as someone's delegate
+    getInbox: protectedProcedure.query(async ({ ctx }) => {
+      return await getInboxItems(ctx.user);
+    }),
+
     getById: protectedProcedure
       .input(z.object({ id: z.string() }))
       .query(async ({ input, ctx }) => {
@@ -386,16 +667,14 @@ export const appRouter = router({
 
     getWithDetails: protectedProcedure
       .input(z.object({ id: z.string() }))
-      .query(async ({ input }) => {
-        const workflow = await db.getWorkflowById(input.id);
-        if (!workflow) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
-        }
+      .query(async ({ input, ctx }) => {
+        const workflow = await getAccessibleWorkflow(input.id, ctx.user);
         
         const stages = await db.getStagesByWorkflow(input.id);
         const approvals = await db.getApprovalsByWorkflow(input.id);
         const files = await db.getFilesByWorkflow(input.id);
         const comments = await db.getCommentsByWorkflow(input.id);
+        const relatedWorkflows = await getVisibleWorkflowChain(workflow, ctx.user);
         
         return {
           workflow,
@@ -403,75 +682,246 @@ export const appRouter = router({
           approvals,
           files,
           comments,
+          relatedWorkflows,
+        };
+      }),
+
+    getRelated: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input, ctx }) => {
+        const workflow = await getAccessibleWorkflow(input.id, ctx.user);
+        
+        const parent = workflow.parentWorkflowId ? await db.getWorkflowById(workflow.parentWorkflowId) : null;
+        return {
+          chain: await getVisibleWorkflowChain(workflow, ctx.user),
+          submissionBlocker: workflow.overallStatus === "draft" ? getSubmissionBlocker(workflow, parent) : null,
+        };
+      }),
+
+    // The workflow's Excel form, filled in, with its related workflows
+    exportExcel: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const workflow = await getAccessibleWorkflow(input.id, ctx.user);
+        
+        const [submission] = await db.getFormSubmissionsByWorkflow(workflow.id);
+        const stages = await db.getStagesByWorkflow(workflow.id);
+        const approvals = (await db.getApprovalsByWorkflow(workflow.id)).filter(a => a.action === "approved");
+        const users = await db.getAllUsers();
+        const requester = users.find(u => u.id === workflow.requesterId);
+        const approvers = users.filter(u => approvals.some(a => a.approverId === u.id));
+        
+        const signatureOf = (role: string) =>
+          approvers.find(u => u.role === role)?.signatureUrl || undefined;
+        
+        const buffer = await generateWorkflowExcel(workflow.workflowType, {
+          workflowNumber: workflow.workflowNumber,
+          title: workflow.title,
+          department: workflow.department,
+          requester: requester ? requester.fullName || requester.email : "Unknown",
+          createdAt: workflow.createdAt,
+          formData: (submission?.formData as Record<string, any> | undefined) || undefined,
+          stages: stages.map(stage => {
+            const approval = approvals.find(a => a.stageId === stage.id);
+            const approver = approvers.find(u => u.id === approval?.approverId);
+            return {
+              stageName: stage.stageName,
+              status: stage.status,
+              approvedBy: approver ? approver.fullName || approver.email : undefined,
+              approvedAt: approval?.createdAt,
+            };
+          }),
+          relatedWorkflows: await getVisibleWorkflowChain(workflow, ctx.user),
+        }, {
+          ceoSignatureUrl: signatureOf("CEO"),
+          cfoSignatureUrl: signatureOf("CFO"),
+        });
+        
+        return {
+          fileName: `${workflow.workflowNumber}.xlsx`,
+          data: buffer.toString("base64"),
         };
       }),
 
     submit: protectedProcedure
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input, ctx }) => {
+        // Follow-ups may have to wait for their parent
         const workflow = await db.getWorkflowById(input.id);
-        if (!workflow) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
-        }
-        
-        if (workflow.requesterId !== ctx.user.id && ctx.user.role !== "admin") {
-          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized" });
+        if (workflow?.parentWorkflowId) {
+          const blocker = getSubmissionBlocker(workflow, await db.getWorkflowById(workflow.parentWorkflowId));
+          if (blocker) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: blocker });
+          }
         }
         
-        await db.submitWorkflow(input.id);
+        await transitionWorkflow(input.id, "in_progress", { actor: ctx.user });
         
-        // Update first stage to in_progress
+        // Start the first step (every stage of a parallel group starts together)
         const stages = await db.getStagesByWorkflow(input.id);
-        if (stages.length > 0) {
-          await db.updateStageStatus(stages[0].id, "in_progress");
-        }
-        
-        await db.createAuditLog({
-          entityType: "workflow",
-          entityId: input.id,
-          action: "submitted",
-          actionDescription: "Workflow submitted for approval",
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
-        });
+        await startStages(getFirstOpenStep(stages) || []);
         
         // TODO: Send email notifications to approvers
         
         return { success: true };
       }),
 
-    discontinue: protectedProcedure
-      .input(z.object({ 
-        id: z.string(),
-        reason: z.string().optional()
-      }))
+    resubmit: protectedProcedure
+      .input(z.object({ id: z.string(), comments: z.string().optional() }))
       .mutation(async ({ input, ctx }) => {
         const workflow = await db.getWorkflowById(input.id);
         if (!workflow) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
         }
         
-        // Only requester or admin can discontinue
-        if (workflow.requesterId !== ctx.user.id && ctx.user.role !== "admin") {
-          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to discontinue this workflow" });
+        if (workflow.overallStatus !== "revision_requested") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Workflow is not awaiting revision" });
         }
         
-        // Cannot discontinue already completed or discontinued workflows
-        if (["completed", "discontinued", "archived"].includes(workflow.overallStatus)) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: `Cannot discontinue ${workflow.overallStatus} workflow` });
+        await transitionWorkflow(input.id, "in_progress", {
+          actor: ctx.user,
+          auditAction: "resubmitted",
+          auditDescription: "Workflow resubmitted after revision",
+        });
+        
+        // Pick up from the stages that were reopened when it was returned
+        const stages = await db.getStagesByWorkflow(input.id);
+        await startStages(getFirstOpenStep(stages) || []);
+        
+        if (input.comments) {
+          await db.createComment({
+            workflowId: input.id,
+            commentText: input.comments,
+            commentType: "general",
+            authorId: ctx.user.id,
+            authorRole: ctx.user.role,
+          });
         }
         
-        await db.discontinueWorkflow(input.id, input.reason);
+        return { success: true };
+      }),
+
+    amend: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          title: z.string().min(1).optional(),
+          description: z.string().optional(),
+          estimatedAmount: z.number().nonnegative().optional(),
+          currency: z.string().length(3).optional(),
+          // Updated values for fields of the linked form submission
+          formData: z.record(z.string(), z.any()).optional(),
+          reason: z.string().min(1),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        // The new details, the amendment and the stages it reopens commit together,
+        // under the same lock as votes on the workflow
+        return await db.withTransaction(async () => {
+          await db.lockWorkflow(input.id);
+          const workflow = await db.getWorkflowById(input.id);
+          if (!workflow) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+          }
+          
+          // Only the requester (or an admin) can amend, and only while the workflow is under review
+          if (workflow.requesterId !== ctx.user.id && ctx.user.role !== "admin") {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Only the requester can amend this workflow" });
+          }
+          if (!AMENDABLE_STATUSES.includes(workflow.overallStatus)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Only workflows awaiting approval or revision can be amended" });
+          }
+          
+          const { id, formData, reason, ...fields } = input;
+          const changes = diffFields(
+            {
+              ...workflow,
+              estimatedAmount: workflow.estimatedAmount === null ? null : parseFloat(workflow.estimatedAmount),
+            },
+            fields
+          );
+          
+          const [submission] = await db.getFormSubmissionsByWorkflow(id);
+          if (formData) {
+            if (!submission) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "This workflow has no form to amend" });
+            }
+            changes.push(...diffFields(submission.formData, formData, FORM_FIELD_PREFIX));
+          }
+          
+          if (changes.length === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "The amendment does not change anything" });
+          }
+          
+          await db.updateWorkflowDetails(id, fields);
+          if (formData && submission) {
+            await db.updateFormSubmission(submission.id, { formData: { ...submission.formData, ...formData } });
+          }
+          
+          // Approvals the amendment invalidates go round again
+          const stages = await db.getStagesByWorkflow(id);
+          const stagesToReopen = getStagesToReapprove(stages, changes);
+          await reopenStages(stagesToReopen);
+          if (stagesToReopen.length > 0 && workflow.overallStatus === "in_progress") {
+            const reopened = await db.getStagesByWorkflow(id);
+            await startStages(getFirstOpenStep(reopened) || []);
+          }
+          
+          const amendment = await db.createWorkflowAmendment({
+            workflowId: id,
+            changes,
+            reason,
+            reopenedStageIds: stagesToReopen.map(s => s.id),
+            amendedBy: ctx.user.id,
+          });
+          
+          const reapproval = stagesToReopen.length > 0
+            ? `; re-approval required from ${stagesToReopen.map(s => s.stageName).join(", ")}`
+            : "";
+          await db.createAuditLog({
+            entityType: "workflow",
+            entityId: id,
+            action: "amended",
+            actionDescription: `Workflow amended (version ${amendment.version}): ${reason}${reapproval}`,
+            actorId: ctx.user.id,
+            actorEmail: ctx.user.email,
+            actorRole: ctx.user.role,
+            oldValues: Object.fromEntries(changes.map(c => [c.field, c.oldValue])),
+            newValues: Object.fromEntries(changes.map(c => [c.field, c.newValue])),
+          });
+          
+          invalidateAnalyticsCache();
+          publishWorkflowEvent({ type: "workflow_updated", workflowId: id }, ctx.user);
+          
+          return { success: true, version: amendment.version, reopenedStageIds: stagesToReopen.map(s => s.id) };
+        });
+      }),
+
+    getAmendments: protectedProcedure
+      .input(z.object({ workflowId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        await getAccessibleWorkflow(input.workflowId, ctx.user);
         
-        await db.createAuditLog({
-          entityType: "workflow",
-          entityId: input.id,
-          action: "discontinued",
-          actionDescription: `Workflow discontinued${input.reason ? `: ${input.reason}` : ''}`,
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
+        const amendments = await db.getAmendmentsByWorkflow(input.workflowId);
+        return await Promise.all(
+          amendments.map(async (amendment) => {
+            const author = await db.getUserById(amendment.amendedBy);
+            return { ...amendment, amendedByName: author?.fullName || author?.email || "Unknown" };
+          })
+        );
+      }),
+
+    discontinue: protectedProcedure
+      .input(z.object({ 
+        id: z.string(),
+        reason: z.string().optional()
+      }))
+      .mutation(async ({ input, ctx }) => {
+        // Only requester or admin can discontinue, and not once completed
+        await transitionWorkflow(input.id, "discontinued", {
+          actor: ctx.user,
+          reason: input.reason,
+          auditDescription: `Workflow discontinued${input.reason ? `: ${input.reason}` : ''}`,
         });
         
         return { success: true };
@@ -480,27 +930,12 @@ export const appRouter = router({
     archive: protectedProcedure
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input, ctx }) => {
-        const workflow = await db.getWorkflowById(input.id);
-        if (!workflow) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
-        }
-        
-        // Only admin can archive
+        // Only admin can archive, and only finished workflows
         if (ctx.user.role !== "admin") {
           throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can archive workflows" });
         }
         
-        await db.archiveWorkflow(input.id);
-        
-        await db.createAuditLog({
-          entityType: "workflow",
-          entityId: input.id,
-          action: "archived",
-          actionDescription: "Workflow archived",
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
-        });
+        await transitionWorkflow(input.id, "archived", { actor: ctx.user });
         
         return { success: true };
       }),
@@ -541,20 +976,16 @@ export const appRouter = router({
       .input(
         z.object({
           id: z.string(),
-          status: z.enum(["draft", "in_progress", "completed", "rejected", "cancelled"]),
+          // Workflows only go in progress through submit and resubmit, which
+          // check blockers and start the first stages
+          status: z.enum(["draft", "completed", "rejected", "cancelled"]),
         })
       )
       .mutation(async ({ input, ctx }) => {
-        await db.updateWorkflowStatus(input.id, input.status);
-        
-        await db.createAuditLog({
-          entityType: "workflow",
-          entityId: input.id,
-          action: "status_updated",
-          actionDescription: `Status updated to ${input.status}`,
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
+        await transitionWorkflow(input.id, input.status, {
+          actor: ctx.user,
+          auditAction: "status_updated",
+          auditDescription: `Status updated to ${input.status}`,
         });
         
         return { success: true };
@@ -603,6 +1034,8 @@ export const appRouter = router({
           actorRole: ctx.user.role,
         });
         
+        publishWorkflowEvent({ type: "file", workflowId: input.workflowId, stageId: input.stageId }, ctx.user);
+        
         return { success: true, url };
       }),
 
@@ -632,6 +1065,8 @@ export const appRouter = router({
           actorRole: ctx.user.role,
         });
         
+        publishWorkflowEvent({ type: "file", workflowId: file.workflowId, stageId: file.stageId || undefined }, ctx.user);
+        
         return { success: true };
       }),
   }),
@@ -646,6 +1081,76 @@ export const appRouter = router({
         return await db.getStagesByWorkflow(input.workflowId);
       }),
 
+    getApprovalProgress: protectedProcedure
+      .input(z.object({ workflowId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        await getAccessibleWorkflow(input.workflowId, ctx.user);
+        
+        const stages = await db.getStagesByWorkflow(input.workflowId);
+        const progress = [];
+        
+        for (const stage of stages) {
+          const approvals = await db.getApprovalsByStage(stage.id);
+          const votes = getCurrentVotes(stage, approvals);
+          const eligibleUsers = await getEligibleApprovers(stage);
+          const quorum = evaluateQuorum(stage, votes, eligibleUsers.length);
+          const votedIds = new Set(votes.map(getVoterId));
+          const actor = await resolveStageActor(stage, ctx.user);
+          const assignee = stage.assigneeId ? await db.getUserById(stage.assigneeId) : null;
+          
+          progress.push({
+            stageId: stage.id,
+            minApprovals: quorum.required,
+            rejectionPolicy: stage.rejectionPolicy,
+            approvedCount: quorum.approvedCount,
+            rejectedCount: quorum.rejectedCount,
+            outstandingApprovers: eligibleUsers
+              .filter(u => !votedIds.has(u.id))
+              .map(u => ({ id: u.id, fullName: u.fullName, role: u.role })),
+            slaDeadline: getSlaDeadline(stage),
+            slaBreached: isSlaBreached(stage),
+            escalatedAt: stage.escalatedAt,
+            assignee: assignee ? { id: assignee.id, fullName: assignee.fullName, role: assignee.role } : null,
+            canReassign: canReassignStage(stage, ctx.user),
+            // Whether the current user may act on this stage, and for whom
+            canAct: !!actor,
+            actingOnBehalfOf: actor?.onBehalfOf
+              ? { id: actor.onBehalfOf.id, fullName: actor.onBehalfOf.fullName }
+              : null,
+          });
+        }
+        
+        return progress;
+      }),
+
+    getSlaBreaches: protectedProcedure.query(async ({ ctx }) => {
+      const stages = (await db.getInProgressStagesWithSla()).filter(stage => isSlaBreached(stage));
+      const breaches = [];
+      
+      for (const stage of stages) {
+        const workflow = await db.getWorkflowById(stage.workflowId);
+        if (!workflow || workflow.overallStatus !== "in_progress") continue;
+        
+        // Admins see everything; others see their own requests and stages they can act on
+        const visible = ctx.user.role === "admin"
+          || workflow.requesterId === ctx.user.id
+          || !!(await resolveStageActor(stage, ctx.user));
+        if (!visible) continue;
+        
+        breaches.push({
+          stageId: stage.id,
+          stageName: stage.stageName,
+          workflowId: workflow.id,
+          workflowNumber: workflow.workflowNumber,
+          workflowTitle: workflow.title,
+          slaDeadline: getSlaDeadline(stage),
+          escalatedAt: stage.escalatedAt,
+        });
+      }
+      
+      return breaches.sort((a, b) => (a.slaDeadline?.getTime() || 0) - (b.slaDeadline?.getTime() || 0));
+    }),
+
     approve: protectedProcedure
       .input(
         z.object({
@@ -655,65 +1160,8 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const stage = await db.getStageById(input.stageId);
-        if (!stage) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
-        }
-        
-        // Check if user has permission to approve this stage
-        if (stage.requiredRole && ctx.user.role !== stage.requiredRole && ctx.user.role !== "admin") {
-          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to approve this stage" });
-        }
-        
-        // Check if form has been uploaded for this stage (except CEO/CFO who use signatures)
-        if (ctx.user.role !== "CEO" && ctx.user.role !== "CFO") {
-          const stageFiles = await db.getFilesByStage(input.stageId);
-          const userUploadedFile = stageFiles.find(f => f.uploadedBy === ctx.user.id);
-          
-          if (!userUploadedFile) {
-            throw new TRPCError({ 
-              code: "PRECONDITION_FAILED", 
-              message: "You must upload a form before approving this stage" 
-            });
-          }
-        }
-        
-        // Create approval record
-        await db.createApproval({
-          workflowId: input.workflowId,
-          stageId: input.stageId,
-          approverId: ctx.user.id,
-          approverRole: ctx.user.role,
-          action: "approved",
-          comments: input.comments,
-        });
-        
-        // Update stage status
-        await db.updateStageStatus(input.stageId, "completed");
-        
-        // Check if this was the last stage
-        const stages = await db.getStagesByWorkflow(input.workflowId);
-        const currentStageIndex = stages.findIndex(s => s.id === input.stageId);
-        
-        if (currentStageIndex < stages.length - 1) {
-          // Move to next stage
-          await db.updateStageStatus(stages[currentStageIndex + 1].id, "in_progress");
-        } else {
-          // Workflow completed
-          await db.updateWorkflowStatus(input.workflowId, "completed");
-        }
-        
-        await db.createAuditLog({
-          entityType: "stage",
-          entityId: input.stageId,
-          action: "approved",
-          actionDescription: `Stage approved: ${stage.stageName}`,
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
-        });
-        
-        return { success: true };
+        const { stageCompleted } = await approveStage(input.stageId, ctx.user, input.comments);
+        return { success: true, stageCompleted };
       }),
 
     reject: protectedProcedure
@@ -725,35 +1173,272 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const stage = await db.getStageById(input.stageId);
-        if (!stage) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
-        }
-        
-        // Check if user has permission to reject this stage
-        if (stage.requiredRole && ctx.user.role !== stage.requiredRole && ctx.user.role !== "admin") {
-          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to reject this stage" });
-        }
-        
-        // Create rejection record
-        await db.createApproval({
-          workflowId: input.workflowId,
-          stageId: input.stageId,
-          approverId: ctx.user.id,
-          approverRole: ctx.user.role,
-          action: "rejected",
-          comments: input.comments,
+        const { stageRejected } = await rejectStage(input.stageId, ctx.user, input.comments);
+        return { success: true, stageRejected };
+      }),
+
+    // Approve or reject many stages at once with a shared comment.
+    // Each stage goes through the same checks as a single approval, in its own
+    // transaction; one failing stage doesn't stop the others.
+    bulkAction: protectedProcedure
+      .input(
+        z.object({
+          action: z.enum(["approve", "reject"]),
+          stageIds: z.array(z.string()).min(1).max(100),
+          comments: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        if (input.action === "reject" && !input.comments?.trim()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A comment is required to reject" });
+        }
+        
+        return await runBulkStageAction(input.stageIds, async stageId =>
+          input.action === "approve"
+            ? (await approveStage(stageId, ctx.user, input.comments)).stageCompleted
+            : (await rejectStage(stageId, ctx.user, input.comments!)).stageRejected
+        );
+      }),
+
+    returnForRevision: protectedProcedure
+      .input(
+        z.object({
+          stageId: z.string(),
+          comments: z.string().min(1),
+          // Earlier stage to send the workflow back to; omit to return it to the requester
+          returnToStageId: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        // The stage decides which workflow is returned
+        const workflowId = await getStageWorkflowId(input.stageId);
+        
+        // Recorded, reopened and returned as a whole, under the same lock as votes
+        await db.withTransaction(async () => {
+          await db.lockWorkflow(workflowId);
+          const stage = await db.getStageById(input.stageId);
+          if (!stage) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
+          }
+          
+          const actor = await resolveStageActor(stage, ctx.user);
+          if (!actor) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to return this stage" });
+          }
+          
+          await assertStageIsOpen(stage);
+          
+          const stages = await db.getStagesByWorkflow(workflowId);
+          let reopenFrom = stage;
+          if (input.returnToStageId) {
+            const target = stages.find(s => s.id === input.returnToStageId);
+            if (!target || target.stageOrder >= stage.stageOrder) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Can only return to an earlier stage of this workflow" });
+            }
+            reopenFrom = target;
+          }
+          
+          // Keep the history: the return is recorded alongside earlier approvals
+          await db.createApproval({
+            workflowId,
+            stageId: input.stageId,
+            approverId: ctx.user.id,
+            approverRole: actor.approverRole,
+            action: "returned",
+            onBehalfOfId: actor.onBehalfOf?.id,
+            comments: input.comments,
+          });
+          
+          await db.createComment({
+            workflowId,
+            stageId: input.stageId,
+            commentText: input.comments,
+            commentType: "revision_request",
+            authorId: ctx.user.id,
+            authorRole: ctx.user.role,
+          });
+          
+          const stagesToReopen = getStagesToReopen(stages, reopenFrom.id);
+          await reopenStages(stagesToReopen);
+          
+          if (input.returnToStageId) {
+            // Restart approvals from the chosen stage
+            const restarted = await db.getStagesByWorkflow(workflowId);
+            await startStages(getFirstOpenStep(restarted) || []);
+          } else {
+            await transitionWorkflow(workflowId, "revision_requested", {
+              actor: ctx.user,
+              asApprover: true,
+              auditDescription: `Workflow returned to requester from ${stage.stageName}`,
+            });
+          }
+          
+          await db.createAuditLog({
+            entityType: "stage",
+            entityId: input.stageId,
+            action: "returned",
+            actionDescription: (input.returnToStageId
+              ? `Stage returned for revision: ${stage.stageName} → ${reopenFrom.stageName}`
+              : `Stage returned to requester for revision: ${stage.stageName}`) + describeDelegation("returned", ctx.user, actor),
+            actorId: ctx.user.id,
+            actorEmail: ctx.user.email,
+            actorRole: ctx.user.role,
+          });
+          
+          invalidateAnalyticsCache();
         });
         
-        // Update stage and workflow status
-        await db.updateStageStatus(input.stageId, "rejected");
-        await db.updateWorkflowStatus(input.workflowId, "rejected");
+        return { success: true };
+      }),
+
+    reassign: protectedProcedure
+      .input(
+        z.object({
+          stageId: z.string(),
+          // null hands the stage back to everyone with its role
+          assigneeId: z.number().nullable(),
+          reason: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const stage = await db.getStageById(input.stageId);
+        if (!stage) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
+        }
+        
+        // Admins and the current assignee can hand the stage over
+        if (!canReassignStage(stage, ctx.user)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to reassign this stage" });
+        }
+        
+        let assignee: db.User | undefined;
+        if (input.assigneeId !== null) {
+          assignee = await db.getUserById(input.assigneeId);
+          const roles = getStageApproverRoles(stage);
+          if (!assignee || !assignee.isActive || (roles.length > 0 && !roles.includes(assignee.role))) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Assignee must be an active user with the stage's role" });
+          }
+        }
+        
+        const previous = stage.assigneeId ? await db.getUserById(stage.assigneeId) : undefined;
+        await db.assignStage(stage.id, input.assigneeId);
+        
+        if (assignee) {
+          await notifyStageAssigned(stage, ctx.user, assignee.id);
+        }
+        publishWorkflowEvent({ type: "workflow_updated", workflowId: stage.workflowId, stageId: stage.id }, ctx.user);
         
         await db.createAuditLog({
           entityType: "stage",
-          entityId: input.stageId,
-          action: "rejected",
-          actionDescription: `Stage rejected: ${stage.stageName}`,
+          entityId: stage.id,
+          action: "reassigned",
+          actionDescription: `Stage reassigned: ${stage.stageName} (${previous?.fullName || "role"} → ${assignee?.fullName || "role"})${input.reason ? `: ${input.reason}` : ""}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+          oldValues: { assigneeId: stage.assigneeId },
+          newValues: { assigneeId: input.assigneeId },
+        });
+        
+        return { success: true };
+      }),
+  }),
+
+  // ============================================
+  // Approval Delegation (out-of-office substitutes)
+  // ============================================
+  delegations: router({
+    list: protectedProcedure
+      .input(z.object({ all: z.boolean().optional() }).optional())
+      .query(async ({ input, ctx }) => {
+        const delegations = input?.all && ctx.user.role === "admin"
+          ? await db.getAllDelegations()
+          : await db.getDelegationsForUser(ctx.user.id);
+        
+        const users = await db.getAllUsers();
+        const nameOf = (id: number) => {
+          const u = users.find(user => user.id === id);
+          return u ? u.fullName || u.email : "Unknown";
+        };
+        
+        return delegations.map(d => ({
+          ...d,
+          delegatorName: nameOf(d.delegatorId),
+          delegateName: nameOf(d.delegateId),
+        }));
+      }),
+
+    create: protectedProcedure
+      .input(
+        z.object({
+          // Admins may set up a delegation for someone else
+          delegatorId: z.number().optional(),
+          delegateId: z.number(),
+          startsAt: z.date(),
+          endsAt: z.date(),
+          workflowTypes: z.array(z.string()).optional(),
+          maxAmount: z.number().positive().optional(),
+          reason: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const delegatorId = input.delegatorId ?? ctx.user.id;
+        if (delegatorId !== ctx.user.id && ctx.user.role !== "admin") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can delegate on behalf of another user" });
+        }
+        
+        if (input.delegateId === delegatorId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot delegate to yourself" });
+        }
+        
+        if (input.endsAt <= input.startsAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "End date must be after start date" });
+        }
+        
+        const delegator = await db.getUserById(delegatorId);
+        const delegate = await db.getUserById(input.delegateId);
+        if (!delegator || !delegate || !delegate.isActive) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+        }
+        
+        const delegation = await db.createDelegation({
+          ...input,
+          delegatorId,
+          createdBy: ctx.user.id,
+        });
+        
+        await db.createAuditLog({
+          entityType: "delegation",
+          entityId: delegation.id,
+          action: "created",
+          actionDescription: `Approval authority of ${delegator.fullName} delegated to ${delegate.fullName} until ${input.endsAt.toISOString().slice(0, 10)}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return delegation;
+      }),
+
+    revoke: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const delegation = await db.getDelegationById(input.id);
+        if (!delegation) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Delegation not found" });
+        }
+        
+        if (delegation.delegatorId !== ctx.user.id && ctx.user.role !== "admin") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to revoke this delegation" });
+        }
+        
+        await db.revokeDelegation(input.id);
+        
+        await db.createAuditLog({
+          entityType: "delegation",
+          entityId: input.id,
+          action: "revoked",
+          actionDescription: "Approval delegation revoked",
           actorId: ctx.user.id,
           actorEmail: ctx.user.email,
           actorRole: ctx.user.role,
@@ -802,75 +1487,703 @@ export const appRouter = router({
           uploadedBy: ctx.user.id,
         });
         
-        await db.createAuditLog({
-          entityType: "file",
-          entityId: file.id,
-          action: "uploaded",
-          actionDescription: `File uploaded: ${input.fileName}`,
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
+        await db.createAuditLog({
+          entityType: "file",
+          entityId: file.id,
+          action: "uploaded",
+          actionDescription: `File uploaded: ${input.fileName}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        publishWorkflowEvent({ type: "file", workflowId: input.workflowId, stageId: input.stageId }, ctx.user);
+        
+        return file;
+      }),
+
+    getByWorkflow: protectedProcedure
+      .input(z.object({ workflowId: z.string() }))
+      .query(async ({ input }) => {
+        return await db.getFilesByWorkflow(input.workflowId);
+      }),
+
+    getByStage: protectedProcedure
+      .input(z.object({ stageId: z.string() }))
+      .query(async ({ input }) => {
+        return await db.getFilesByStage(input.stageId);
+      }),
+  }),
+
+  // ============================================
+  // Comment Management
+  // ============================================
+  comments: router({
+    create: protectedProcedure
+      .input(
+        z.object({
+          workflowId: z.string(),
+          stageId: z.string().optional(),
+          parentCommentId: z.string().optional(), // Set when replying to another comment
+          commentText: z.string(), // May contain @[Full Name](userId) mentions
+          commentType: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const workflow = await db.getWorkflowById(input.workflowId);
+        if (!workflow) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+        }
+        const access = await db.checkWorkflowAccess(workflow.id, ctx.user.id, ctx.user.role, ctx.user.department);
+        if (!access.hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to comment on this workflow" });
+        }
+        
+        const parent = input.parentCommentId ? await db.getCommentById(input.parentCommentId) : undefined;
+        if (input.parentCommentId) {
+          if (!parent || parent.workflowId !== workflow.id) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "The comment you are replying to was not found" });
+          }
+          if (parent.deletedAt) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Can't reply to a deleted comment" });
+          }
+        }
+        
+        // The comment and the emails about it commit together
+        const { comment, mentioned } = await db.withTransaction(async () => {
+          const comment = await db.createComment({
+            ...input,
+            authorId: ctx.user.id,
+            authorRole: ctx.user.role,
+          });
+          
+          const mentioned = await recordMentions(comment, workflow, ctx.user);
+          
+          await db.createAuditLog({
+            entityType: "comment",
+            entityId: comment.id,
+            action: "created",
+            actionDescription: mentioned.length > 0
+              ? `Comment added, mentioning ${mentioned.map(m => m.user.fullName || m.user.email).join(", ")}`
+              : "Comment added",
+            actorId: ctx.user.id,
+            actorEmail: ctx.user.email,
+            actorRole: ctx.user.role,
+          });
+          
+          await notifyWatchers(
+            input.workflowId,
+            {
+              headline: { key: "comment_added", params: { actorName: ctx.user.fullName || ctx.user.email } },
+              details: mentionsToPlainText(input.commentText),
+              excludeUserIds: mentioned.map(m => m.user.id),
+            },
+            ctx.user
+          );
+          
+          await notifyUsers(
+            getCommentNotificationRecipients({
+              authorId: ctx.user.id,
+              requesterId: workflow.requesterId,
+              parentAuthorId: parent?.authorId,
+              mentionedUserIds: mentioned.map(m => m.user.id),
+            }),
+            {
+              type: "comment",
+              title: `${workflow.workflowNumber}: ${parent ? "Reply" : "Comment"} from ${ctx.user.fullName || ctx.user.email}`,
+              message: mentionsToPlainText(input.commentText),
+              workflowId: workflow.id,
+              commentId: comment.id,
+            },
+            ctx.user
+          );
+          
+          return { comment, mentioned };
+        });
+        
+        publishWorkflowEvent({ type: "comment", workflowId: workflow.id, stageId: input.stageId }, ctx.user);
+        
+        return {
+          ...comment,
+          // Mentioned users who were given temporary read access
+          grantedAccess: mentioned
+            .filter(m => m.accessExpiresAt)
+            .map(m => ({ userId: m.user.id, name: m.user.fullName || m.user.email, until: m.accessExpiresAt })),
+        };
+      }),
+
+    getByWorkflow: protectedProcedure
+      .input(z.object({ workflowId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        const access = await db.checkWorkflowAccess(input.workflowId, ctx.user.id, ctx.user.role, ctx.user.department);
+        if (!access.hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view this workflow" });
+        }
+        
+        const comments = await db.getCommentsByWorkflow(input.workflowId);
+        const users = await db.getAllUsers();
+        const revisionCounts = canViewCommentRevisions(ctx.user)
+          ? await db.getCommentRevisionCounts(input.workflowId)
+          : new Map<string, number>();
+        
+        return comments.map(comment => {
+          const author = users.find(u => u.id === comment.authorId);
+          return {
+            ...comment,
+            authorName: author ? author.fullName || author.email : "Unknown",
+            canChange: getCommentChangeBlocker(comment, ctx.user) === null,
+            // Only reported to users who may read the history
+            revisionCount: revisionCounts.get(comment.id) || 0,
+          };
+        });
+      }),
+
+    // Authors may edit their own discussion comments shortly after posting
+    update: protectedProcedure
+      .input(z.object({ id: z.string(), commentText: z.string().min(1) }))
+      .mutation(async ({ input, ctx }) => {
+        const comment = await db.getCommentById(input.id);
+        if (!comment) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+        }
+        const blocker = getCommentChangeBlocker(comment, ctx.user);
+        if (blocker) {
+          throw new TRPCError({ code: "FORBIDDEN", message: blocker });
+        }
+        const workflow = await db.getWorkflowById(comment.workflowId);
+        if (!workflow) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+        }
+        
+        await db.editComment(comment, input.commentText, ctx.user.id);
+        
+        // Only people newly mentioned by the edit are notified
+        const mentioned = await recordMentions(
+          { ...comment, commentText: input.commentText },
+          workflow,
+          ctx.user,
+          comment.commentText
+        );
+        
+        await db.createAuditLog({
+          entityType: "comment",
+          entityId: comment.id,
+          action: "edited",
+          actionDescription: "Comment edited",
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+          // The text itself is kept in the comment's revisions, which only auditors may read
+        });
+        
+        publishWorkflowEvent({ type: "comment", workflowId: workflow.id }, ctx.user);
+        
+        return {
+          success: true,
+          grantedAccess: mentioned
+            .filter(m => m.accessExpiresAt)
+            .map(m => ({ userId: m.user.id, name: m.user.fullName || m.user.email, until: m.accessExpiresAt })),
+        };
+      }),
+
+    // Deleted comments keep their place in the thread so replies still make sense
+    delete: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const comment = await db.getCommentById(input.id);
+        if (!comment) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+        }
+        const blocker = getCommentChangeBlocker(comment, ctx.user);
+        if (blocker) {
+          throw new TRPCError({ code: "FORBIDDEN", message: blocker });
+        }
+        
+        await db.deleteComment(comment, ctx.user.id);
+        
+        await db.createAuditLog({
+          entityType: "comment",
+          entityId: comment.id,
+          action: "deleted",
+          actionDescription: "Comment deleted",
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        publishWorkflowEvent({ type: "comment", workflowId: comment.workflowId }, ctx.user);
+        
+        return { success: true };
+      }),
+
+    getRevisions: protectedProcedure
+      .input(z.object({ commentId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        if (!canViewCommentRevisions(ctx.user)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view comment history" });
+        }
+        
+        const revisions = await db.getCommentRevisions(input.commentId);
+        const users = await db.getAllUsers();
+        
+        return revisions.map(revision => {
+          const changedBy = users.find(u => u.id === revision.changedBy);
+          return { ...revision, changedByName: changedBy ? changedBy.fullName || changedBy.email : "Unknown" };
+        });
+      }),
+
+    // Which users about to be mentioned can't see the workflow yet, so the author can be warned
+    checkMentions: protectedProcedure
+      .input(z.object({ workflowId: z.string(), userIds: z.array(z.number()).max(50) }))
+      .query(async ({ input, ctx }) => {
+        await getAccessibleWorkflow(input.workflowId, ctx.user);
+        
+        const results = [];
+        for (const userId of input.userIds) {
+          const user = await db.getUserById(userId);
+          if (!user) continue;
+          const access = await db.checkWorkflowAccess(input.workflowId, user.id, user.role, user.department);
+          results.push({
+            userId,
+            name: user.fullName || user.email,
+            isActive: user.isActive,
+            hasAccess: access.hasAccess,
+          });
+        }
+        return results;
+      }),
+
+    getByStage: protectedProcedure
+      .input(z.object({ stageId: z.string() }))
+      .query(async ({ input }) => {
+        return await db.getCommentsByStage(input.stageId);
+      }),
+  }),
+
+  // ============================================
+  // Watchers
+  // ============================================
+  watchers: router({
+    // Everyone following a workflow, plus the caller's own matching subscriptions
+    getForWorkflow: protectedProcedure
+      .input(z.object({ workflowId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        const workflow = await db.getWorkflowById(input.workflowId);
+        if (!workflow) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+        }
+        const access = await db.checkWorkflowAccess(workflow.id, ctx.user.id, ctx.user.role, ctx.user.department);
+        if (!access.hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view this workflow" });
+        }
+        
+        const subscriptions = await db.getSubscriptionsForWorkflow(workflow);
+        const users = await db.getAllUsers();
+        
+        return {
+          watchers: subscriptions.map(subscription => {
+            const watcher = users.find(u => u.id === subscription.userId);
+            return {
+              subscriptionId: subscription.id,
+              userId: subscription.userId,
+              name: watcher ? watcher.fullName || watcher.email : "Unknown",
+              scope: subscription.scope,
+              label: describeSubscription(subscription),
+              canRemove: canRemoveSubscription(subscription, workflow, ctx.user),
+            };
+          }),
+          mySubscriptions: subscriptions
+            .filter(subscription => subscription.userId === ctx.user.id && matchesSubscription(subscription, workflow))
+            .map(subscription => ({ id: subscription.id, scope: subscription.scope })),
+        };
+      }),
+
+    // Watch a workflow, its type or its department; the requester and admins may add others to the workflow
+    subscribe: protectedProcedure
+      .input(
+        z.object({
+          workflowId: z.string(),
+          scope: z.enum(WATCH_SCOPES),
+          userId: z.number().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const workflow = await db.getWorkflowById(input.workflowId);
+        if (!workflow) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+        }
+        const access = await db.checkWorkflowAccess(workflow.id, ctx.user.id, ctx.user.role, ctx.user.department);
+        if (!access.hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view this workflow" });
+        }
+        
+        const watcherId = input.userId ?? ctx.user.id;
+        if (watcherId !== ctx.user.id) {
+          if (workflow.requesterId !== ctx.user.id && ctx.user.role !== "admin") {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Only the requester can add watchers" });
+          }
+          if (input.scope !== "workflow") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Others can only be added as watchers of this workflow" });
+          }
+          const watcher = await db.getUserById(watcherId);
+          if (!watcher || !watcher.isActive) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Watcher not found or inactive" });
+          }
+        }
+        
+        const subscription = await db.createSubscription({
+          userId: watcherId,
+          scope: input.scope,
+          workflowId: workflow.id,
+          workflowType: workflow.workflowType,
+          department: workflow.department,
+          createdBy: ctx.user.id,
+        });
+        
+        await db.createAuditLog({
+          entityType: "workflow",
+          entityId: workflow.id,
+          action: "watcher_added",
+          actionDescription: watcherId === ctx.user.id
+            ? `Started watching: ${describeSubscription(subscription)}`
+            : "Watcher added to this workflow",
+          newValues: { userId: watcherId, scope: input.scope },
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return subscription;
+      }),
+
+    unsubscribe: protectedProcedure
+      .input(z.object({ subscriptionId: z.string(), workflowId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const subscription = await db.getSubscriptionById(input.subscriptionId);
+        const workflow = await db.getWorkflowById(input.workflowId);
+        if (!subscription || !workflow) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Subscription not found" });
+        }
+        if (!canRemoveSubscription(subscription, workflow, ctx.user)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to remove this watcher" });
+        }
+        
+        await db.deleteSubscription(subscription.id);
+        
+        await db.createAuditLog({
+          entityType: "workflow",
+          entityId: workflow.id,
+          action: "watcher_removed",
+          actionDescription: subscription.userId === ctx.user.id
+            ? `Stopped watching: ${describeSubscription(subscription)}`
+            : "Watcher removed from this workflow",
+          oldValues: { userId: subscription.userId, scope: subscription.scope },
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return { success: true };
+      }),
+  }),
+
+  // ============================================
+  // Saved Views
+  // ============================================
+  savedViews: router({
+    // The caller's own views and those shared with their department
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const views = await db.getSavedViewsForUser(ctx.user.id, ctx.user.department);
+      const users = await db.getAllUsers();
+      
+      return views.map(view => {
+        const owner = users.find(u => u.id === view.ownerId);
+        return {
+          ...view,
+          ownerName: owner ? owner.fullName || owner.email : "Unknown",
+          canManage: canManageSavedView(view, ctx.user),
+        };
+      });
+    }),
+
+    create: protectedProcedure
+      .input(savedViewInput)
+      .mutation(async ({ input, ctx }) => {
+        const department = resolveSavedViewDepartment(input, ctx.user);
+        
+        const view = await db.createSavedView({
+          ...input,
+          ownerId: ctx.user.id,
+          department,
+        });
+        
+        await db.createAuditLog({
+          entityType: "saved_view",
+          entityId: view.id,
+          action: "created",
+          actionDescription: department
+            ? `Saved view created and shared with ${department}: ${input.name}`
+            : `Saved view created: ${input.name}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return view;
+      }),
+
+    update: protectedProcedure
+      .input(savedViewInput.extend({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...fields } = input;
+        const existing = await db.getSavedViewById(id);
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Saved view not found" });
+        }
+        if (!canManageSavedView(existing, ctx.user)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the owner can change this view" });
+        }
+        
+        const department = resolveSavedViewDepartment(fields, ctx.user);
+        await db.updateSavedView(id, { ...fields, department });
+        
+        await db.createAuditLog({
+          entityType: "saved_view",
+          entityId: id,
+          action: "updated",
+          actionDescription: `Saved view updated: ${fields.name}`,
+          oldValues: { visibility: existing.visibility, department: existing.department },
+          newValues: { visibility: fields.visibility, department },
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await db.getSavedViewById(input.id);
+        if (!view) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Saved view not found" });
+        }
+        if (!canManageSavedView(view, ctx.user)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only the owner can delete this view" });
+        }
+        
+        await db.deleteSavedView(input.id);
+        
+        await db.createAuditLog({
+          entityType: "saved_view",
+          entityId: input.id,
+          action: "deleted",
+          actionDescription: `Saved view deleted: ${view.name}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return { success: true };
+      }),
+
+    // The workflows a view selects, for exports and other consumers of a view
+    getWorkflows: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          page: z.number().int().min(1).default(1),
+          pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+        })
+      )
+      .query(async ({ input, ctx }) => {
+        const view = await db.getSavedViewById(input.id);
+        if (!view || !canUseSavedView(view, ctx.user)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Saved view not found" });
+        }
+        
+        const { items, total } = await listSavedViewWorkflows(view, ctx.user, {
+          limit: input.pageSize,
+          offset: (input.page - 1) * input.pageSize,
         });
         
-        return file;
+        return {
+          items,
+          total,
+          page: input.page,
+          pageSize: input.pageSize,
+          pageCount: Math.max(1, Math.ceil(total / input.pageSize)),
+        };
       }),
+  }),
 
-    getByWorkflow: protectedProcedure
-      .input(z.object({ workflowId: z.string() }))
-      .query(async ({ input }) => {
-        return await db.getFilesByWorkflow(input.workflowId);
+  // ============================================
+  // Search
+  // ============================================
+  search: router({
+    // Full-text search over workflows, comments, form data and file names
+    query: protectedProcedure
+      .input(
+        z.object({
+          query: z.string().max(200),
+          limit: z.number().int().min(1).max(50).default(20),
+        })
+      )
+      .query(async ({ input, ctx }) => {
+        const terms = parseSearchQuery(input.query);
+        if (terms.length === 0) {
+          return { terms, results: [] };
+        }
+
+        // Only workflows the user can see are searched
+        const matches = await db.searchWorkflowDocuments(terms, ctx.user, input.limit);
+
+        const results = matches.map(({ document, workflow }) => ({
+          documentId: document.id,
+          sourceType: document.sourceType,
+          workflowId: workflow.id,
+          workflowNumber: workflow.workflowNumber,
+          workflowType: workflow.workflowType,
+          title: workflow.title,
+          overallStatus: workflow.overallStatus,
+          snippet: buildSnippet(document.content, terms),
+        }));
+
+        return { terms, results };
       }),
 
-    getByStage: protectedProcedure
-      .input(z.object({ stageId: z.string() }))
-      .query(async ({ input }) => {
-        return await db.getFilesByStage(input.stageId);
+    // Re-index every workflow, e.g. for data created before search existed (admin only)
+    rebuildIndex: adminProcedure.mutation(async () => {
+      const indexed = await db.rebuildSearchIndex();
+      return { success: true, indexed };
+    }),
+  }),
+
+  // ============================================
+  // Notification Center (in-app notifications)
+  // ============================================
+  notifications: router({
+    list: protectedProcedure
+      .input(
+        z.object({
+          unreadOnly: z.boolean().optional(),
+          limit: z.number().int().min(1).max(100).default(NOTIFICATION_LIST_LIMIT),
+        }).optional()
+      )
+      .query(async ({ input, ctx }) => {
+        return await db.getNotificationsForUser(ctx.user.id, {
+          limit: input?.limit ?? NOTIFICATION_LIST_LIMIT,
+          unreadOnly: input?.unreadOnly,
+        });
+      }),
+
+    unreadCount: protectedProcedure.query(async ({ ctx }) => {
+      return await db.countUnreadNotifications(ctx.user.id);
+    }),
+
+    // Only the user's own notifications are touched
+    markRead: protectedProcedure
+      .input(z.object({ ids: z.array(z.string()).min(1).max(100) }))
+      .mutation(async ({ input, ctx }) => {
+        await db.markNotificationsRead(ctx.user.id, input.ids);
+        return { success: true };
       }),
+
+    markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+      await db.markNotificationsRead(ctx.user.id);
+      return { success: true };
+    }),
   }),
 
   // ============================================
-  // Comment Management
+  // Notification Preferences (email delivery)
   // ============================================
-  comments: router({
-    create: protectedProcedure
+  notificationPreferences: router({
+    // Every event type with the mode in effect, including legacy and default ones
+    get: protectedProcedure.query(async ({ ctx }) => {
+      const preferences = await db.getNotificationPreferences([ctx.user.id]);
+      const [settings] = await db.getNotificationSettings([ctx.user.id]);
+      const [recipient] = await db.getEmailRecipientsByUserIds([ctx.user.id]);
+      
+      return {
+        preferences: NOTIFICATION_EVENT_TYPES.map(eventType => ({
+          eventType,
+          mode: resolveDeliveryMode(eventType, preferences, recipient?.notificationTypes),
+        })),
+        quietHoursStart: settings?.quietHoursStart ?? null,
+        quietHoursEnd: settings?.quietHoursEnd ?? null,
+        timezone: settings?.timezone || DEFAULT_TIMEZONE,
+        language: settings?.language || DEFAULT_EMAIL_LANGUAGE,
+      };
+    }),
+
+    update: protectedProcedure
       .input(
         z.object({
-          workflowId: z.string(),
-          stageId: z.string().optional(),
-          commentText: z.string(),
-          commentType: z.string().optional(),
+          preferences: z.array(z.object({
+            eventType: z.enum(NOTIFICATION_EVENT_TYPES),
+            mode: z.enum(DELIVERY_MODES),
+          })),
+          quietHoursStart: z.number().int().min(0).max(23).nullable(),
+          quietHoursEnd: z.number().int().min(0).max(23).nullable(),
+          timezone: z.string(),
+          language: z.enum(EMAIL_LANGUAGES),
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const comment = await db.createComment({
-          ...input,
-          authorId: ctx.user.id,
-          authorRole: ctx.user.role,
-        });
+        if (!isValidTimeZone(input.timezone)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Unknown time zone: ${input.timezone}` });
+        }
+        if ((input.quietHoursStart === null) !== (input.quietHoursEnd === null)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Quiet hours need both a start and an end" });
+        }
         
-        await db.createAuditLog({
-          entityType: "comment",
-          entityId: comment.id,
-          action: "created",
-          actionDescription: "Comment added",
-          actorId: ctx.user.id,
-          actorEmail: ctx.user.email,
-          actorRole: ctx.user.role,
+        // One entry per event type; the last one wins
+        const preferences = Array.from(new Map(input.preferences.map(p => [p.eventType, p])).values());
+        await db.saveNotificationPreferences(ctx.user.id, preferences, {
+          quietHoursStart: input.quietHoursStart,
+          quietHoursEnd: input.quietHoursEnd,
+          timezone: input.timezone,
+          language: input.language,
         });
-        
-        return comment;
-      }),
-
-    getByWorkflow: protectedProcedure
-      .input(z.object({ workflowId: z.string() }))
-      .query(async ({ input }) => {
-        return await db.getCommentsByWorkflow(input.workflowId);
+        return { success: true };
       }),
+  }),
 
-    getByStage: protectedProcedure
-      .input(z.object({ stageId: z.string() }))
-      .query(async ({ input }) => {
-        return await db.getCommentsByStage(input.stageId);
+  // ============================================
+  // Live Updates (server-sent events)
+  // ============================================
+  live: router({
+    // A single-use ticket to open the live-update stream with, see subscriptionTickets.ts
+    createTicket: protectedProcedure.mutation(({ ctx }) => {
+      return { ticket: issueSubscriptionTicket(ctx.user.id) };
+    }),
+    
+    // One workflow for its detail page, or every workflow the user can see
+    // for lists such as the Dashboard and the inbox
+    onWorkflowEvent: protectedProcedure
+      .input(z.object({ workflowId: z.string().optional() }).optional())
+      .subscription(async function* ({ input, ctx, signal }) {
+        const workflowId = input?.workflowId;
+        if (workflowId) {
+          const access = await db.checkWorkflowAccess(workflowId, ctx.user.id, ctx.user.role, ctx.user.department);
+          if (!access.hasAccess) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view this workflow" });
+          }
+        }
+        
+        for await (const event of streamWorkflowEvents(signal)) {
+          if (workflowId) {
+            if (event.workflowId !== workflowId) continue;
+          } else {
+            // Checked per event: a workflow can become visible (or stop being) while connected
+            const access = await db.checkWorkflowAccess(event.workflowId, ctx.user.id, ctx.user.role, ctx.user.department);
+            if (!access.hasAccess) continue;
+          }
+          
+          yield event;
+        }
       }),
   }),
 
@@ -885,7 +2198,17 @@ export const appRouter = router({
           entityId: z.string(),
         })
       )
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
+        // Workflow trails follow the workflow's visibility; the rest are for admins
+        if (input.entityType === "workflow") {
+          const access = await db.checkWorkflowAccess(input.entityId, ctx.user.id, ctx.user.role, ctx.user.department);
+          if (!access.hasAccess) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to view this workflow" });
+          }
+        } else if (ctx.user.role !== "admin") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+        }
+        
         return await db.getAuditLogsByEntity(input.entityType, input.entityId);
       }),
   }),
@@ -1282,93 +2605,439 @@ export const appRouter = router({
         );
       }),
 
-    departmentCostBreakdown: protectedProcedure
-      .input(z.object({ 
-        department: z.string(),
-        period: z.enum(["monthly", "yearly"]).default("monthly")
-      }))
-      .query(async ({ input }) => {
-        return await withCache(
-          `analytics:costBreakdown:${input.department}:${input.period}`,
-          CACHE_TTL.COST_BREAKDOWN,
-          () => db.getDepartmentCostBreakdown(input.department, input.period)
-        );
+    departmentCostBreakdown: protectedProcedure
+      .input(z.object({ 
+        department: z.string(),
+        period: z.enum(["monthly", "yearly"]).default("monthly")
+      }))
+      .query(async ({ input }) => {
+        return await withCache(
+          `analytics:costBreakdown:${input.department}:${input.period}`,
+          CACHE_TTL.COST_BREAKDOWN,
+          () => db.getDepartmentCostBreakdown(input.department, input.period)
+        );
+      }),
+  }),
+
+  // ============================================
+  // Budget Management
+  // ============================================
+  budgets: router({
+    create: protectedProcedure
+      .input(z.object({
+        department: z.string(),
+        year: z.number(),
+        month: z.number().optional(),
+        quarter: z.number().optional(),
+        allocatedAmount: z.number(),
+        period: z.enum(['monthly', 'quarterly', 'yearly']),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.createBudget(input);
+      }),
+
+    getByDepartment: protectedProcedure
+      .input(z.object({
+        department: z.string(),
+        year: z.number(),
+      }))
+      .query(async ({ input }) => {
+        return await db.getBudgetsByDepartment(input.department, input.year);
+      }),
+
+    getAll: protectedProcedure
+      .input(z.object({ year: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getAllBudgets(input.year);
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        id: z.string(),
+        allocatedAmount: z.number(),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.updateBudget(input.id, input.allocatedAmount);
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input }) => {
+        await db.deleteBudget(input.id);
+        return { success: true };
+      }),
+
+    analytics: protectedProcedure
+      .input(z.object({
+        department: z.string(),
+        year: z.number(),
+        period: z.enum(['monthly', 'quarterly', 'yearly']),
+      }))
+      .query(async ({ input }) => {
+        return await db.getDepartmentBudgetAnalytics(input.department, input.year, input.period);
+      }),
+  }),
+
+  // ============================================
+  // Workflow Templates
+  // ============================================
+  templates: templatesRouter,
+
+  // ============================================
+  // Email Reminders
+  // ============================================
+  reminders: router({
+    // Manual trigger for testing (admin only)
+    sendNow: adminProcedure.mutation(async () => {
+      await triggerRemindersNow();
+      return { success: true, message: "Reminders sent successfully" };
+    }),
+
+    // Manual SLA escalation check (admin only)
+    checkSlaNow: adminProcedure.mutation(async () => {
+      await triggerSlaCheckNow();
+      return { success: true, message: "SLA check completed" };
+    }),
+  }),
+
+  // ============================================
+  // Email Outbox (delivery log, admin only)
+  // ============================================
+  emailOutbox: router({
+    list: adminProcedure
+      .input(
+        z.object({
+          status: z.enum(EMAIL_OUTBOX_STATUSES).optional(),
+          search: z.string().optional(), // Subject or recipient address
+          page: z.number().int().min(1).default(1),
+          pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+        })
+      )
+      .query(async ({ input }) => {
+        const { items, total } = await db.listOutboxEmails({
+          status: input.status,
+          search: input.search?.trim() || undefined,
+          limit: input.pageSize,
+          offset: (input.page - 1) * input.pageSize,
+        });
+        
+        return {
+          // Bodies are only loaded when a message is opened
+          items: items.map(({ htmlBody, textBody, ...email }) => email),
+          total,
+          page: input.page,
+          pageCount: Math.max(1, Math.ceil(total / input.pageSize)),
+          statusCounts: await db.getOutboxStatusCounts(),
+        };
+      }),
+
+    getById: adminProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input }) => {
+        const email = await db.getOutboxEmailById(input.id);
+        if (!email) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Email not found" });
+        }
+        return { ...email, deliveryAttempts: await db.getEmailDeliveryAttempts(email.id) };
+      }),
+
+    // Queue the message again with a fresh set of attempts
+    resend: adminProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const email = await db.getOutboxEmailById(input.id);
+        if (!email) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Email not found" });
+        }
+        if (!canResendEmail(email.status)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `A ${email.status} email is already waiting to be sent` });
+        }
+        
+        await db.updateOutboxEmail(email.id, {
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          claimedAt: null,
+          lastError: null,
+          cancelledBy: null,
+        });
+        await db.createAuditLog({
+          entityType: "email",
+          entityId: email.id,
+          action: "resent",
+          actionDescription: `Email "${email.subject}" queued again (was ${email.status})`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+          oldValues: { status: email.status },
+          newValues: { status: "pending" },
+        });
+        return { success: true };
+      }),
+
+    cancel: adminProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const email = await db.getOutboxEmailById(input.id);
+        if (!email) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Email not found" });
+        }
+        if (!canCancelEmail(email.status)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `A ${email.status} email can't be cancelled` });
+        }
+        
+        await db.updateOutboxEmail(email.id, { status: "cancelled", nextAttemptAt: null, cancelledBy: ctx.user.id });
+        await db.createAuditLog({
+          entityType: "email",
+          entityId: email.id,
+          action: "cancelled",
+          actionDescription: `Email "${email.subject}" cancelled`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+          oldValues: { status: email.status },
+          newValues: { status: "cancelled" },
+        });
+        return { success: true };
+      }),
+
+    // Run the outbox worker now instead of waiting for the next minute
+    processNow: adminProcedure.mutation(async () => {
+      return await processEmailOutbox();
+    }),
+  }),
+
+  // ============================================
+  // Email Templates (admin only)
+  // ============================================
+  emailTemplates: router({
+    // Every template in every language, the admin's version where there is one
+    list: adminProcedure.query(async () => {
+      const stored = await db.getEmailTemplates();
+      return EMAIL_TEMPLATE_KEYS.map(key => ({
+        key,
+        ...EMAIL_TEMPLATE_INFO[key],
+        languages: EMAIL_LANGUAGES.map(language => {
+          const custom = stored.find(t => t.templateKey === key && t.language === language);
+          return {
+            language,
+            ...resolveEmailTemplate(key, language, stored),
+            updatedAt: custom?.updatedAt ?? null,
+          };
+        }),
+      }));
+    }),
+
+    update: adminProcedure
+      .input(
+        z.object({
+          key: z.enum(EMAIL_TEMPLATE_KEYS),
+          language: z.enum(EMAIL_LANGUAGES),
+          subject: z.string().trim().min(1).max(500),
+          body: z.string().trim().min(1),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const unknown = findUnknownPlaceholders(input.key, `${input.subject}\n${input.body}`);
+        if (unknown.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(", ")}`,
+          });
+        }
+        
+        await db.saveEmailTemplate(input.key, input.language, { subject: input.subject, body: input.body }, ctx.user.id);
+        await db.createAuditLog({
+          entityType: "email_template",
+          entityId: `${input.key}:${input.language}`,
+          action: "updated",
+          actionDescription: `Email template "${EMAIL_TEMPLATE_INFO[input.key].label}" (${input.language}) updated`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+          newValues: { subject: input.subject, body: input.body },
+        });
+        return { success: true };
+      }),
+
+    // Go back to the built-in template
+    reset: adminProcedure
+      .input(z.object({ key: z.enum(EMAIL_TEMPLATE_KEYS), language: z.enum(EMAIL_LANGUAGES) }))
+      .mutation(async ({ input, ctx }) => {
+        await db.deleteEmailTemplate(input.key, input.language);
+        await db.createAuditLog({
+          entityType: "email_template",
+          entityId: `${input.key}:${input.language}`,
+          action: "reset",
+          actionDescription: `Email template "${EMAIL_TEMPLATE_INFO[input.key].label}" (${input.language}) reset to the default`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        return { success: true };
       }),
   }),
 
   // ============================================
-  // Budget Management
+  // Recurring Workflows
   // ============================================
-  budgets: router({
-    create: protectedProcedure
-      .input(z.object({
-        department: z.string(),
-        year: z.number(),
-        month: z.number().optional(),
-        quarter: z.number().optional(),
-        allocatedAmount: z.number(),
-        period: z.enum(['monthly', 'quarterly', 'yearly']),
-      }))
-      .mutation(async ({ input }) => {
-        return await db.createBudget(input);
-      }),
+  recurringWorkflows: router({
+    list: adminProcedure.query(async () => {
+      const definitions = await db.getAllRecurringWorkflows();
+      const users = await db.getAllUsers();
+      const now = new Date();
+      
+      return definitions.map(d => {
+        const owner = users.find(u => u.id === d.ownerId);
+        let nextRunAt: Date | null = null;
+        try {
+          nextRunAt = d.isActive ? getNextRun(d.cronExpression, now, d.timezone) : null;
+        } catch {
+          // Shown without a next run; the schedule is validated on save
+        }
+        return {
+          ...d,
+          ownerName: owner ? owner.fullName || owner.email : "Unknown",
+          nextRunAt,
+        };
+      });
+    }),
 
-    getByDepartment: protectedProcedure
-      .input(z.object({
-        department: z.string(),
-        year: z.number(),
-      }))
+    getRuns: adminProcedure
+      .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
-        return await db.getBudgetsByDepartment(input.department, input.year);
+        const runs = await db.getRecurringWorkflowRuns(input.id);
+        
+        return await Promise.all(runs.map(async run => {
+          const workflow = run.workflowId ? await db.getWorkflowById(run.workflowId) : null;
+          const triggeredBy = run.triggeredBy ? await db.getUserById(run.triggeredBy) : null;
+          return {
+            ...run,
+            workflowNumber: workflow?.workflowNumber || null,
+            workflowStatus: workflow?.overallStatus || null,
+            triggeredByName: triggeredBy ? triggeredBy.fullName || triggeredBy.email : null,
+          };
+        }));
       }),
 
-    getAll: protectedProcedure
-      .input(z.object({ year: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getAllBudgets(input.year);
+    create: adminProcedure
+      .input(recurringWorkflowInput)
+      .mutation(async ({ input, ctx }) => {
+        const timezone = await validateRecurringWorkflow(input);
+        
+        const definition = await db.createRecurringWorkflow({
+          ...input,
+          timezone,
+          createdBy: ctx.user.id,
+        });
+        
+        await db.createAuditLog({
+          entityType: "recurring_workflow",
+          entityId: definition.id,
+          action: "created",
+          actionDescription: `Recurring workflow created: ${input.name} (${input.cronExpression})`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return definition;
       }),
 
-    update: protectedProcedure
-      .input(z.object({
-        id: z.string(),
-        allocatedAmount: z.number(),
-      }))
-      .mutation(async ({ input }) => {
-        return await db.updateBudget(input.id, input.allocatedAmount);
+    update: adminProcedure
+      .input(recurringWorkflowInput.extend({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...fields } = input;
+        const existing = await db.getRecurringWorkflowById(id);
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Recurring workflow not found" });
+        }
+        
+        const timezone = await validateRecurringWorkflow(fields);
+        
+        await db.updateRecurringWorkflow(id, {
+          ...fields,
+          timezone,
+          templateId: fields.templateId || null,
+          formTemplateId: fields.formTemplateId || null,
+          formData: fields.formData || null,
+          department: fields.department || null,
+          estimatedAmount: fields.estimatedAmount?.toString() ?? null,
+        });
+        
+        await db.createAuditLog({
+          entityType: "recurring_workflow",
+          entityId: id,
+          action: "updated",
+          actionDescription: `Recurring workflow updated: ${fields.name}`,
+          oldValues: { cronExpression: existing.cronExpression, ownerId: existing.ownerId, autoSubmit: existing.autoSubmit },
+          newValues: { cronExpression: fields.cronExpression, ownerId: fields.ownerId, autoSubmit: fields.autoSubmit || false },
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return { success: true };
       }),
 
-    delete: protectedProcedure
-      .input(z.object({ id: z.string() }))
-      .mutation(async ({ input }) => {
-        await db.deleteBudget(input.id);
+    // Pause or resume; a resumed schedule does not make up the runs it missed
+    setActive: adminProcedure
+      .input(z.object({ id: z.string(), isActive: z.boolean() }))
+      .mutation(async ({ input, ctx }) => {
+        const definition = await db.getRecurringWorkflowById(input.id);
+        if (!definition) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Recurring workflow not found" });
+        }
+        
+        await db.updateRecurringWorkflow(input.id, { isActive: input.isActive });
+        
+        await db.createAuditLog({
+          entityType: "recurring_workflow",
+          entityId: input.id,
+          action: input.isActive ? "resumed" : "paused",
+          actionDescription: `Recurring workflow ${input.isActive ? "resumed" : "paused"}: ${definition.name}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
         return { success: true };
       }),
 
-    analytics: protectedProcedure
-      .input(z.object({
-        department: z.string(),
-        year: z.number(),
-        period: z.enum(['monthly', 'quarterly', 'yearly']),
-      }))
-      .query(async ({ input }) => {
-        return await db.getDepartmentBudgetAnalytics(input.department, input.year, input.period);
+    runNow: adminProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const definition = await db.getRecurringWorkflowById(input.id);
+        if (!definition) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Recurring workflow not found" });
+        }
+        
+        const status = await runRecurringWorkflow(definition, ctx.user);
+        return { status };
       }),
-  }),
-
-  // ============================================
-  // Workflow Templates
-  // ============================================
-  templates: templatesRouter,
 
-  // ============================================
-  // Email Reminders
-  // ============================================
-  reminders: router({
-    // Manual trigger for testing (admin only)
-    sendNow: adminProcedure.mutation(async () => {
-      await triggerRemindersNow();
-      return { success: true, message: "Reminders sent successfully" };
-    }),
+    delete: adminProcedure
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const definition = await db.getRecurringWorkflowById(input.id);
+        if (!definition) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Recurring workflow not found" });
+        }
+        
+        await db.deleteRecurringWorkflow(input.id);
+        
+        await db.createAuditLog({
+          entityType: "recurring_workflow",
+          entityId: input.id,
+          action: "deleted",
+          actionDescription: `Recurring workflow deleted: ${definition.name}`,
+          actorId: ctx.user.id,
+          actorEmail: ctx.user.email,
+          actorRole: ctx.user.role,
+        });
+        
+        return { success: true };
+      }),
   }),
 
   // ============================================
@@ -1514,69 +3183,474 @@ export const appRouter = router({
 // Helper Functions
 // ============================================
 
-async function createInitialStages(workflowId: string,
-  workflowType: "MAF" | "PR" | "CATTO",
-  estimatedAmount?: number
-): Promise<void> {
-  if (workflowType === "MAF") {
-    // MAF workflow stages
-    const stages = [
-      { order: 1, name: "PPIC Review", type: "approval", role: "PPIC" },
-      { order: 2, name: "Purchasing Review", type: "approval", role: "Purchasing" },
-    ];
+const AMENDABLE_STATUSES: string[] = ["in_progress", "revision_requested"];
+
+const CLOSED_FOR_APPROVAL_STATUSES: string[] = ["completed", "rejected", "revision_requested", "cancelled", "discontinued", "archived"];
+
+/**
+ * Load a workflow the user may see, or fail with NOT_FOUND / FORBIDDEN
+ */
+async function getAccessibleWorkflow(workflowId: string, user: db.User): Promise<db.Workflow> {
+  const workflow = await db.getWorkflowById(workflowId);
+  if (!workflow) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+  }
+  
+  const access = await db.checkWorkflowAccess(workflow.id, user.id, user.role, user.department);
+  if (!access.hasAccess) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `Access denied: ${access.reason}` });
+  }
+  return workflow;
+}
+
+/**
+ * Make sure a stage can still be acted on: it is currently in progress and its
+ * workflow has not been closed or sent back to the requester
+ */
+async function assertStageIsOpen(stage: db.WorkflowStage): Promise<void> {
+  if (stage.status !== "in_progress") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Stage is no longer awaiting approval" });
+  }
+  
+  const workflow = await db.getWorkflowById(stage.workflowId);
+  if (!workflow || CLOSED_FOR_APPROVAL_STATUSES.includes(workflow.overallStatus)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Workflow is not awaiting approval" });
+  }
+}
+
+interface StageActor {
+  approverRole: string;
+  onBehalfOf: db.User | null;
+  // The user the vote counts for in the quorum
+  voterId: number;
+}
+
+/**
+ * Work out in what capacity a user can act on a stage: with their own role,
+ * or on behalf of an eligible delegator. Returns null if they cannot act.
+ */
+async function resolveStageActor(stage: db.WorkflowStage, user: db.User): Promise<StageActor | null> {
+  const approvers = getEffectiveApprovers(stage);
+  const isApprover = (u: db.User) => approvers.roles.includes(u.role) || approvers.userIds.includes(u.id);
+  
+  if ((approvers.roles.length === 0 && approvers.userIds.length === 0) || isApprover(user) || user.role === "admin") {
+    return { approverRole: user.role, onBehalfOf: null, voterId: user.id };
+  }
+  
+  const delegations = await db.getActiveDelegationsByDelegate(user.id);
+  if (delegations.length === 0) return null;
+  
+  const workflow = await db.getWorkflowById(stage.workflowId);
+  if (!workflow) return null;
+  
+  for (const delegation of delegations) {
+    if (!isDelegationApplicable(delegation, { workflowType: workflow.workflowType, amount: workflow.estimatedAmount })) {
+      continue;
+    }
+    const delegator = await db.getUserById(delegation.delegatorId);
+    if (delegator && delegator.isActive && isApprover(delegator)) {
+      return { approverRole: delegator.role, onBehalfOf: delegator, voterId: delegator.id };
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * The workflow a stage belongs to, which never changes, so it can be looked
+ * up before the workflow is locked
+ */
+async function getStageWorkflowId(stageId: string): Promise<string> {
+  const stage = await db.getStageById(stageId);
+  if (!stage) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
+  }
+  return stage.workflowId;
+}
+
+/**
+ * Record a user's approval of a stage, completing it (and advancing the
+ * workflow) once the stage's quorum is met
+ */
+async function approveStage(stageId: string, user: db.User, comments?: string): Promise<{ stageCompleted: boolean }> {
+  const workflowId = await getStageWorkflowId(stageId);
+  
+  // The vote and everything it sets off commit together, or not at all
+  return await db.withTransaction(async () => {
+    // Votes on the workflow's stages wait here, then see each other's votes and
+    // completed branches
+    await db.lockWorkflow(workflowId);
+    const stage = await db.getStageById(stageId);
+    if (!stage) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
+    }
     
-    // Add financial approval stages based on amount
-    if (estimatedAmount && estimatedAmount > 5000000) {
-      stages.push({ order: 3, name: "CFO Approval", type: "approval", role: "CFO" });
-      stages.push({ order: 4, name: "CEO/COO Approval", type: "approval", role: "CEO" });
-    } else if (estimatedAmount && estimatedAmount > 1000000) {
-      stages.push({ order: 3, name: "CFO Approval", type: "approval", role: "CFO" });
+    // Check if user has permission to approve this stage, directly or as a delegate
+    const actor = await resolveStageActor(stage, user);
+    if (!actor) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to approve this stage" });
     }
     
-    for (const stage of stages) {
-      await db.createWorkflowStage({
-        workflowId,
-        stageOrder: stage.order,
-        stageName: stage.name,
-        stageType: stage.type,
-        requiredRole: stage.role,
-      });
+    await assertCanVoteOnStage(stage, actor.voterId);
+    
+    // Check if form has been uploaded for this stage (except CEO/CFO who use signatures)
+    if (user.role !== "CEO" && user.role !== "CFO") {
+      const stageFiles = await db.getFilesByStage(stageId);
+      const userUploadedFile = stageFiles.find(f => f.uploadedBy === user.id);
+    
+      if (!userUploadedFile) {
+        throw new TRPCError({ 
+          code: "PRECONDITION_FAILED", 
+          message: "You must upload a form before approving this stage" 
+        });
+      }
     }
-  } else if (workflowType === "PR") {
-    // PR workflow stages
-    const stages = [
-      { order: 1, name: "Department Head Review", type: "approval", role: "admin" },
-      { order: 2, name: "Finance Review", type: "approval", role: "Finance" },
-      { order: 3, name: "CFO Approval", type: "approval", role: "CFO" },
-    ];
     
-    for (const stage of stages) {
-      await db.createWorkflowStage({
-        workflowId,
-        stageOrder: stage.order,
-        stageName: stage.name,
-        stageType: stage.type,
-        requiredRole: stage.role,
+    // Create approval record
+    await db.createApproval({
+      workflowId: stage.workflowId,
+      stageId,
+      approverId: user.id,
+      approverRole: actor.approverRole,
+      action: "approved",
+      onBehalfOfId: actor.onBehalfOf?.id,
+      comments,
+    });
+    
+    // Only complete the stage once enough approvers have signed off
+    const quorum = await getStageQuorum(stage);
+    if (quorum.outcome !== "approved") {
+      await db.createAuditLog({
+        entityType: "stage",
+        entityId: stageId,
+        action: "approved",
+        actionDescription: `Stage approval recorded: ${stage.stageName} (${quorum.approvedCount}/${quorum.required})${describeDelegation("approved", user, actor)}`,
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.role,
       });
+    
+      publishWorkflowEvent(
+        { type: "approval", workflowId: stage.workflowId, stageId, stageName: stage.stageName, status: "approved" },
+        user
+      );
+    
+      return { stageCompleted: false };
+    }
+    
+    // Update stage status
+    await transitionStage(stage, "completed", { asApprover: true, actor: user, comments });
+    
+    // Advance once the whole step (including parallel branches) is done. Read
+    // under the workflow lock, so a branch approved at the same time is seen.
+    const stages = await db.getStagesByWorkflow(stage.workflowId);
+    const { stagesToStart, workflowCompleted } = resolveNextStages(stages, stageId);
+    
+    if (workflowCompleted) {
+      await transitionWorkflow(stage.workflowId, "completed", { actor: null });
+    } else {
+      await startStages(stagesToStart);
+    }
+    
+    await db.createAuditLog({
+      entityType: "stage",
+      entityId: stageId,
+      action: "approved",
+      actionDescription: `Stage approved: ${stage.stageName}${describeDelegation("approved", user, actor)}`,
+      actorId: user.id,
+      actorEmail: user.email,
+      actorRole: user.role,
+    });
+    
+    return { stageCompleted: true };
+  });
+}
+
+/**
+ * Record a user's rejection of a stage, rejecting the stage and the workflow
+ * when the stage's rejection policy says so
+ */
+async function rejectStage(stageId: string, user: db.User, comments: string): Promise<{ stageRejected: boolean }> {
+  const workflowId = await getStageWorkflowId(stageId);
+  
+  // The vote and everything it sets off commit together, or not at all
+  return await db.withTransaction(async () => {
+    // Votes on the workflow's stages wait here, then see each other's votes and
+    // completed branches
+    await db.lockWorkflow(workflowId);
+    const stage = await db.getStageById(stageId);
+    if (!stage) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Stage not found" });
+    }
+    
+    // Check if user has permission to reject this stage, directly or as a delegate
+    const actor = await resolveStageActor(stage, user);
+    if (!actor) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to reject this stage" });
     }
-  } else if (workflowType === "CATTO") {
-    // CATTO (Capital Approval) workflow stages
-    const stages = [
-      { order: 1, name: "Finance Review", type: "approval", role: "Finance" },
-      { order: 2, name: "CFO Approval", type: "approval", role: "CFO" },
-      { order: 3, name: "CEO Approval", type: "approval", role: "CEO" },
-    ];
     
-    for (const stage of stages) {
-      await db.createWorkflowStage({
-        workflowId,
-        stageOrder: stage.order,
-        stageName: stage.name,
-        stageType: stage.type,
-        requiredRole: stage.role,
+    await assertCanVoteOnStage(stage, actor.voterId);
+    
+    // Create rejection record
+    await db.createApproval({
+      workflowId: stage.workflowId,
+      stageId,
+      approverId: user.id,
+      approverRole: actor.approverRole,
+      action: "rejected",
+      onBehalfOfId: actor.onBehalfOf?.id,
+      comments,
+    });
+    
+    // The rejection policy decides whether this vote rejects the stage
+    const quorum = await getStageQuorum(stage);
+    if (quorum.outcome !== "rejected") {
+      await db.createAuditLog({
+        entityType: "stage",
+        entityId: stageId,
+        action: "rejected",
+        actionDescription: `Stage rejection recorded: ${stage.stageName} (${quorum.rejectedCount} rejected, ${quorum.approvedCount}/${quorum.required} approved)${describeDelegation("rejected", user, actor)}`,
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.role,
       });
+    
+      publishWorkflowEvent(
+        { type: "approval", workflowId: stage.workflowId, stageId, stageName: stage.stageName, status: "rejected" },
+        user
+      );
+    
+      return { stageRejected: false };
+    }
+    
+    // Update stage and workflow status
+    await transitionStage(stage, "rejected", { asApprover: true, actor: user, comments });
+    await transitionWorkflow(stage.workflowId, "rejected", { actor: null });
+    
+    await db.createAuditLog({
+      entityType: "stage",
+      entityId: stageId,
+      action: "rejected",
+      actionDescription: `Stage rejected: ${stage.stageName}${describeDelegation("rejected", user, actor)}`,
+      actorId: user.id,
+      actorEmail: user.email,
+      actorRole: user.role,
+    });
+    
+    return { stageRejected: true };
+  });
+}
+
+/**
+ * Audit suffix recording who acted on whose behalf
+ */
+function describeDelegation(verb: string, user: db.User, actor: StageActor): string {
+  if (!actor.onBehalfOf) return "";
+  return ` (${verb} by ${user.fullName || user.email} on behalf of ${actor.onBehalfOf.fullName || actor.onBehalfOf.email})`;
+}
+
+/**
+ * Stop a user from voting twice on the same stage round, or on a finished stage
+ */
+async function assertCanVoteOnStage(stage: db.WorkflowStage, userId: number): Promise<void> {
+  await assertStageIsOpen(stage);
+  
+  const votes = getCurrentVotes(stage, await db.getApprovalsByStage(stage.id));
+  if (votes.some(v => getVoterId(v) === userId)) {
+    throw new TRPCError({ code: "CONFLICT", message: "You have already responded to this stage" });
+  }
+}
+
+/**
+ * Every workflow linked to this one through parent/child links, from the
+ * root of the chain down, with each workflow's depth in the tree
+ */
+async function getWorkflowChain(workflow: db.Workflow) {
+  // Walk up to the root (guarding against cycles)
+  let root = workflow;
+  const seen = new Set([workflow.id]);
+  while (root.parentWorkflowId && !seen.has(root.parentWorkflowId)) {
+    const parent = await db.getWorkflowById(root.parentWorkflowId);
+    if (!parent) break;
+    seen.add(parent.id);
+    root = parent;
+  }
+  
+  // Then collect every descendant of the root
+  const related: db.Workflow[] = [root];
+  for (let i = 0; i < related.length; i++) {
+    for (const child of await db.getChildWorkflows(related[i].id)) {
+      if (!related.some(w => w.id === child.id)) related.push(child);
+    }
+  }
+  
+  return orderWorkflowChain(related, root.id).map(w => ({
+    id: w.id,
+    workflowNumber: w.workflowNumber,
+    workflowType: w.workflowType,
+    title: w.title,
+    overallStatus: w.overallStatus,
+    parentWorkflowId: w.parentWorkflowId,
+    depth: w.depth,
+  }));
+}
+
+/**
+ * The workflow chain, limited to the workflows a user can see
+ */
+async function getVisibleWorkflowChain(workflow: db.Workflow, user: db.User) {
+  const visible = [];
+  for (const related of await getWorkflowChain(workflow)) {
+    if (related.id !== workflow.id) {
+      const access = await db.checkWorkflowAccess(related.id, user.id, user.role, user.department);
+      if (!access.hasAccess) continue;
+    }
+    visible.push(related);
+  }
+  return visible;
+}
+
+/**
+ * Whether a user may change who a stage is assigned to
+ */
+function canReassignStage(stage: db.WorkflowStage, user: db.User): boolean {
+  if (stage.status !== "pending" && stage.status !== "in_progress") return false;
+  return user.role === "admin" || (!!stage.assigneeId && stage.assigneeId === user.id);
+}
+
+/**
+ * Check a recurring workflow definition before saving it; returns the time zone to store
+ */
+async function validateRecurringWorkflow(input: z.infer<typeof recurringWorkflowInput>): Promise<string> {
+  try {
+    parseCron(input.cronExpression);
+  } catch (error) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid schedule: ${(error as Error).message}` });
+  }
+  
+  const timezone = input.timezone || DEFAULT_TIMEZONE;
+  if (!isValidTimeZone(timezone)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Unknown time zone: ${timezone}` });
+  }
+  
+  const owner = await db.getUserById(input.ownerId);
+  if (!owner || !owner.isActive) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The owner must be an active user" });
+  }
+  
+  if (input.templateId) {
+    const template = await db.getWorkflowTemplateById(input.templateId);
+    if (!template || template.workflowType !== input.workflowType) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Workflow template not found for ${input.workflowType}` });
     }
   }
+  
+  return timezone;
+}
+
+/**
+ * Record and notify the users @mentioned in a new comment. Mentioned users who
+ * can't see the workflow get read access for a limited time.
+ */
+async function recordMentions(
+  comment: db.WorkflowComment,
+  workflow: db.Workflow,
+  author: db.User,
+  previousText?: string
+) {
+  const mentioned: { user: db.User; accessExpiresAt: Date | null }[] = [];
+  // Users already mentioned before an edit were handled when the comment was posted
+  const alreadyMentioned = previousText ? extractMentionIds(previousText) : [];
+  
+  for (const userId of extractMentionIds(comment.commentText)) {
+    if (userId === author.id || alreadyMentioned.includes(userId)) continue;
+    const user = await db.getUserById(userId);
+    if (!user || !user.isActive) continue;
+    
+    const access = await db.checkWorkflowAccess(workflow.id, user.id, user.role, user.department);
+    const accessExpiresAt = access.hasAccess ? null : getMentionAccessExpiry();
+    
+    await db.createCommentMention({
+      commentId: comment.id,
+      workflowId: workflow.id,
+      userId: user.id,
+      mentionedBy: author.id,
+      accessExpiresAt,
+    });
+    mentioned.push({ user, accessExpiresAt });
+  }
+  
+  await notifyUsers(mentioned.map(m => m.user.id), {
+    type: "mention",
+    title: `${workflow.workflowNumber}: ${author.fullName || author.email} mentioned you`,
+    message: mentionsToPlainText(comment.commentText),
+    workflowId: workflow.id,
+    commentId: comment.id,
+  }, author);
+  
+  const requester = await db.getUserById(workflow.requesterId);
+  const authorName = author.fullName || author.email;
+  for (const { user, accessExpiresAt } of mentioned) {
+    await deliverEmail([user], "mention", {
+      workflowId: workflow.id,
+      workflowNumber: workflow.workflowNumber,
+      workflowTitle: workflow.title,
+      headline: { key: "mentioned", params: { actorName: authorName } },
+      details: mentionsToPlainText(comment.commentText),
+    }, immediate => sendTemplatedEmail("mention", immediate, {
+      from: `${authorName} <${author.email}>`,
+      values: language => ({
+        workflowNumber: workflow.workflowNumber,
+        workflowTitle: workflow.title,
+        workflowType: workflow.workflowType,
+        amount: formatEmailAmount(workflow.estimatedAmount, workflow.currency, language),
+        requesterName: requester ? requester.fullName || requester.email : undefined,
+        actorName: authorName,
+        comments: mentionsToPlainText(comment.commentText),
+        accessUntil: accessExpiresAt ? formatEmailDate(accessExpiresAt, language) : undefined,
+        link: getWorkflowUrl(workflow.id),
+      }),
+    }));
+  }
+  
+  return mentioned;
+}
+
+/**
+ * Watchers may drop their own subscriptions; the requester and admins may also
+ * remove people watching this particular workflow
+ */
+function canRemoveSubscription(subscription: db.WorkflowSubscription, workflow: db.Workflow, user: db.User): boolean {
+  if (subscription.userId === user.id || user.role === "admin") return true;
+  return subscription.scope === "workflow" && subscription.workflowId === workflow.id && workflow.requesterId === user.id;
+}
+
+/**
+ * The department a saved view is shared with, or null for a private view
+ */
+function resolveSavedViewDepartment(
+  input: Pick<z.infer<typeof savedViewInput>, "visibility" | "department">,
+  user: db.User
+): string | null {
+  if (input.visibility === "private") return null;
+  
+  const department = input.department || user.department;
+  if (!department) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Choose a department to share this view with" });
+  }
+  if (!canShareWithDepartment(department, user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You can only share views with your own department" });
+  }
+  return department;
+}
+
+/**
+ * Evaluate the stage quorum from the votes recorded so far
+ */
+async function getStageQuorum(stage: db.WorkflowStage) {
+  const votes = getCurrentVotes(stage, await db.getApprovalsByStage(stage.id));
+  const eligibleUsers = await getEligibleApprovers(stage);
+  return evaluateQuorum(stage, votes, eligibleUsers.length);
 }
 
 export type AppRouter = typeof appRouter;
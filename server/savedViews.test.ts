@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  canManageSavedView,
+  canShareWithDepartment,
+  canUseSavedView,
+  getSavedViewColumns,
+  getSavedViewFilters,
+} from "../shared/savedViews";
+import { DEFAULT_WORKFLOW_FILTERS, filtersToListQuery } from "../shared/workflowListFilters";
+
+const financeLead = { id: 1, role: "Finance", department: "Finance" };
+const financeStaff = { id: 2, role: "Staff", department: "Finance" };
+const salesStaff = { id: 3, role: "Staff", department: "Sales" };
+const admin = { id: 4, role: "admin", department: "IT" };
+
+const sharedView = { ownerId: 1, visibility: "department" as const, department: "Finance" };
+const privateView = { ...sharedView, visibility: "private" as const };
+
+describe("Saved Views", () => {
+  it("should share department views with that department only", () => {
+    expect(canUseSavedView(sharedView, financeStaff)).toBe(true);
+    expect(canUseSavedView(sharedView, salesStaff)).toBe(false);
+    expect(canUseSavedView(privateView, financeStaff)).toBe(false);
+    expect(canUseSavedView(privateView, financeLead)).toBe(true);
+  });
+
+  it("should only let the owner or an admin manage a view", () => {
+    expect(canManageSavedView(sharedView, financeLead)).toBe(true);
+    expect(canManageSavedView(sharedView, financeStaff)).toBe(false);
+    expect(canManageSavedView(sharedView, admin)).toBe(true);
+  });
+
+  it("should only let admins publish to other departments", () => {
+    expect(canShareWithDepartment("Finance", financeLead)).toBe(true);
+    expect(canShareWithDepartment("Sales", financeLead)).toBe(false);
+    expect(canShareWithDepartment("Sales", admin)).toBe(true);
+  });
+
+  it("should fill in defaults for missing or stale stored filters", () => {
+    const filters = getSavedViewFilters({
+      filters: { status: "in_progress", minAmount: "50000000", unknown: "x" },
+      sortBy: "requester",
+      sortDirection: "asc",
+    });
+    expect(filters.status).toBe("in_progress");
+    expect(filters.type).toBe("all");
+    expect(filters.minAmount).toBe("50000000");
+    expect(filters).not.toHaveProperty("unknown");
+    expect(filters.sortBy).toBe("createdAt");
+    expect(filters.sortDirection).toBe("asc");
+    expect(getSavedViewColumns(["amount", "priority", "department"])).toEqual(["department", "amount"]);
+  });
+
+  it("should turn view filters into list query parameters", () => {
+    const query = filtersToListQuery({
+      ...DEFAULT_WORKFLOW_FILTERS,
+      status: "in_progress",
+      minAmount: "50000000",
+      maxAmount: "abc",
+    });
+    expect(query.status).toBe("in_progress");
+    expect(query.workflowType).toBeUndefined();
+    expect(query.minAmount).toBe(50000000);
+    expect(query.maxAmount).toBeUndefined();
+    expect(query.sortBy).toBe("createdAt");
+  });
+});
@@ -0,0 +1,20 @@
+import * as db from "./db";
+import { getSavedViewFilters } from "@shared/savedViews";
+import { filtersToListQuery } from "@shared/workflowListFilters";
+
+/**
+ * One page of the workflows a saved view selects, limited to what `viewer`
+ * may list (admins everything, others their own workflows). The Dashboard
+ * and scheduled exports or digests built on a view go through here.
+ */
+export async function listSavedViewWorkflows(
+  view: db.SavedView,
+  viewer: { id: number; role: string },
+  page: { limit: number; offset: number }
+): Promise<{ items: db.Workflow[]; total: number }> {
+  return await db.listWorkflows({
+    requesterId: viewer.role === "admin" ? undefined : viewer.id,
+    ...filtersToListQuery(getSavedViewFilters(view)),
+    ...page,
+  });
+}
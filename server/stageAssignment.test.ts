@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { pickLeastLoaded, pickRoundRobin, usesNamedAssignee } from "../shared/stageAssignment";
+
+describe("Stage Assignment", () => {
+  describe("usesNamedAssignee", () => {
+    it("should only assign single-approval stages with an assignment rule", () => {
+      expect(usesNamedAssignee({ assignmentMode: "round_robin" })).toBe(true);
+      expect(usesNamedAssignee({ assignmentMode: "role" })).toBe(false);
+      expect(usesNamedAssignee({})).toBe(false);
+      expect(usesNamedAssignee({ assignmentMode: "fixed", minApprovals: 2 })).toBe(false);
+    });
+  });
+
+  describe("pickRoundRobin", () => {
+    it("should rotate to the next user after the last assignee", () => {
+      expect(pickRoundRobin([5, 2, 9], 2)).toBe(5);
+      expect(pickRoundRobin([5, 2, 9], 9)).toBe(2);
+    });
+
+    it("should start with the first user when nobody was assigned yet", () => {
+      expect(pickRoundRobin([5, 2, 9], null)).toBe(2);
+      expect(pickRoundRobin([], null)).toBeNull();
+    });
+
+    it("should carry on when the last assignee left the role", () => {
+      expect(pickRoundRobin([2, 9], 5)).toBe(9);
+    });
+  });
+
+  describe("pickLeastLoaded", () => {
+    it("should pick the user with the fewest open stages", () => {
+      expect(pickLeastLoaded([1, 2, 3], new Map([[1, 4], [2, 1], [3, 2]]))).toBe(2);
+    });
+
+    it("should treat users without open stages as free and break ties by id", () => {
+      expect(pickLeastLoaded([3, 1, 2], new Map([[1, 2]]))).toBe(2);
+      expect(pickLeastLoaded([], new Map())).toBeNull();
+    });
+  });
+});
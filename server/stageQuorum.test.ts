@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { evaluateQuorum, getCurrentVotes, getStageApproverRoles } from "../shared/stageQuorum";
+
+const vote = (approverId: number, action: string, createdAt = "2026-01-02T00:00:00Z") => ({
+  approverId,
+  action,
+  createdAt,
+});
+
+describe("Stage Quorum", () => {
+  describe("getStageApproverRoles", () => {
+    it("should prefer requiresOneOf over requiredRole", () => {
+      expect(getStageApproverRoles({ requiredRole: "CEO", requiresOneOf: ["CEO", "COO"] })).toEqual(["CEO", "COO"]);
+      expect(getStageApproverRoles({ requiredRole: "CFO" })).toEqual(["CFO"]);
+      expect(getStageApproverRoles({})).toEqual([]);
+    });
+  });
+
+  describe("getCurrentVotes", () => {
+    it("should ignore comments and votes from before the stage started", () => {
+      const votes = getCurrentVotes({ startedAt: "2026-01-01T00:00:00Z" }, [
+        vote(1, "approved", "2025-12-31T00:00:00Z"),
+        vote(2, "commented"),
+        vote(3, "approved"),
+      ]);
+      expect(votes.map(v => v.approverId)).toEqual([3]);
+    });
+
+    it("should keep only the latest vote per approver", () => {
+      const votes = getCurrentVotes({}, [
+        vote(1, "rejected", "2026-01-01T00:00:00Z"),
+        vote(1, "approved", "2026-01-03T00:00:00Z"),
+      ]);
+      expect(votes).toHaveLength(1);
+      expect(votes[0].action).toBe("approved");
+    });
+
+    it("should count a delegate's vote for the delegator", () => {
+      const votes = getCurrentVotes({}, [
+        vote(1, "approved"),
+        { ...vote(2, "approved", "2026-01-03T00:00:00Z"), onBehalfOfId: 1 },
+      ]);
+      expect(votes).toHaveLength(1);
+      expect(votes[0].approverId).toBe(2);
+    });
+  });
+
+  describe("evaluateQuorum", () => {
+    it("should stay pending until enough approvals are recorded", () => {
+      const stage = { minApprovals: 2 };
+      expect(evaluateQuorum(stage, [vote(1, "approved")], 3).outcome).toBe("pending");
+      expect(evaluateQuorum(stage, [vote(1, "approved"), vote(2, "approved")], 3).outcome).toBe("approved");
+    });
+
+    it("should reject on the first rejection with the 'any' policy", () => {
+      const result = evaluateQuorum({ minApprovals: 2, rejectionPolicy: "any" }, [vote(1, "rejected")], 3);
+      expect(result.outcome).toBe("rejected");
+    });
+
+    it("should only reject once quorum is unreachable", () => {
+      const stage = { minApprovals: 2, rejectionPolicy: "quorum_unreachable" as const };
+      expect(evaluateQuorum(stage, [vote(1, "rejected")], 3).outcome).toBe("pending");
+      expect(evaluateQuorum(stage, [vote(1, "rejected"), vote(2, "rejected")], 3).outcome).toBe("rejected");
+    });
+
+    it("should default to a single approval", () => {
+      const result = evaluateQuorum({}, [vote(1, "approved")], 0);
+      expect(result).toEqual({ required: 1, approvedCount: 1, rejectedCount: 0, outcome: "approved" });
+    });
+  });
+});
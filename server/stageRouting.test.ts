@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { groupStagesIntoSteps, getFirstOpenStep, getStagesToReopen, resolveNextStages } from "../shared/stageRouting";
+
+const stage = (id: string, stageOrder: number, status: string, parallelGroup: string | null = null) => ({
+  id,
+  stageOrder,
+  status,
+  parallelGroup,
+});
+
+describe("Stage Routing", () => {
+  describe("groupStagesIntoSteps", () => {
+    it("should keep ungrouped stages as sequential steps", () => {
+      const steps = groupStagesIntoSteps([
+        stage("b", 2, "pending"),
+        stage("a", 1, "pending"),
+      ]);
+      expect(steps.map(step => step.map(s => s.id))).toEqual([["a"], ["b"]]);
+    });
+
+    it("should group adjacent stages sharing a parallel group", () => {
+      const steps = groupStagesIntoSteps([
+        stage("ppic", 1, "pending", "review"),
+        stage("ga", 2, "pending", "review"),
+        stage("purchasing", 3, "pending"),
+      ]);
+      expect(steps.map(step => step.map(s => s.id))).toEqual([["ppic", "ga"], ["purchasing"]]);
+    });
+  });
+
+  describe("getFirstOpenStep", () => {
+    it("should return every branch of the first parallel group", () => {
+      const step = getFirstOpenStep([
+        stage("ppic", 1, "pending", "review"),
+        stage("ga", 2, "pending", "review"),
+        stage("purchasing", 3, "pending"),
+      ]);
+      expect(step?.map(s => s.id)).toEqual(["ppic", "ga"]);
+    });
+
+    it("should return null when all stages are finished", () => {
+      expect(getFirstOpenStep([stage("a", 1, "completed"), stage("b", 2, "skipped")])).toBeNull();
+    });
+  });
+
+  describe("resolveNextStages", () => {
+    it("should wait until every parallel branch has completed", () => {
+      const result = resolveNextStages([
+        stage("ppic", 1, "completed", "review"),
+        stage("ga", 2, "in_progress", "review"),
+        stage("purchasing", 3, "pending"),
+      ], "ppic");
+      expect(result.stagesToStart).toEqual([]);
+      expect(result.workflowCompleted).toBe(false);
+    });
+
+    it("should start the next step once the group has joined", () => {
+      const result = resolveNextStages([
+        stage("ppic", 1, "completed", "review"),
+        stage("ga", 2, "completed", "review"),
+        stage("purchasing", 3, "pending"),
+      ], "ga");
+      expect(result.stagesToStart.map(s => s.id)).toEqual(["purchasing"]);
+      expect(result.workflowCompleted).toBe(false);
+    });
+
+    it("should complete the workflow after the last step", () => {
+      const result = resolveNextStages([
+        stage("ppic", 1, "completed"),
+        stage("purchasing", 2, "completed"),
+      ], "purchasing");
+      expect(result.workflowCompleted).toBe(true);
+    });
+  });
+
+  describe("getStagesToReopen", () => {
+    it("should reopen the whole parallel step and every later stage", () => {
+      const reopened = getStagesToReopen([
+        stage("finance", 1, "completed"),
+        stage("ppic", 2, "completed", "review"),
+        stage("ga", 3, "in_progress", "review"),
+        stage("cfo", 4, "pending"),
+      ], "ga");
+      expect(reopened.map(s => s.id)).toEqual(["ppic", "ga", "cfo"]);
+    });
+
+    it("should return nothing for an unknown stage", () => {
+      expect(getStagesToReopen([stage("a", 1, "completed")], "missing")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { getSlaDeadline, isSlaBreached, needsEscalation, getEffectiveApprovers } from "../shared/stageSla";
+
+const startedAt = "2026-05-01T08:00:00Z";
+const base = {
+  status: "in_progress",
+  requiredRole: "CFO",
+  startedAt,
+  slaHours: 24,
+  escalationRole: "CEO",
+};
+
+describe("Stage SLA", () => {
+  it("should compute the deadline from the start time", () => {
+    expect(getSlaDeadline(base)?.toISOString()).toBe("2026-05-02T08:00:00.000Z");
+    expect(getSlaDeadline({ ...base, slaHours: null })).toBeNull();
+    expect(getSlaDeadline({ ...base, startedAt: null })).toBeNull();
+  });
+
+  it("should only flag open stages past the deadline", () => {
+    const late = new Date("2026-05-02T09:00:00Z");
+    expect(isSlaBreached(base, new Date("2026-05-01T20:00:00Z"))).toBe(false);
+    expect(isSlaBreached(base, late)).toBe(true);
+    expect(isSlaBreached({ ...base, status: "completed" }, late)).toBe(false);
+  });
+
+  it("should escalate once and only with a target", () => {
+    const late = new Date("2026-05-02T09:00:00Z");
+    expect(needsEscalation(base, late)).toBe(true);
+    expect(needsEscalation({ ...base, escalatedAt: late }, late)).toBe(false);
+    expect(needsEscalation({ ...base, escalationRole: null }, late)).toBe(false);
+  });
+
+  describe("getEffectiveApprovers", () => {
+    const escalated = { ...base, escalatedAt: "2026-05-02T09:00:00Z", escalationUserId: 7 };
+
+    it("should keep the original approvers when only notifying", () => {
+      expect(getEffectiveApprovers({ ...escalated, escalationAction: "notify" })).toEqual({ roles: ["CFO"], userIds: [] });
+    });
+
+    it("should add the escalation target as an approver", () => {
+      expect(getEffectiveApprovers({ ...escalated, escalationAction: "add_approver" })).toEqual({ roles: ["CFO", "CEO"], userIds: [7] });
+    });
+
+    it("should hand the stage over on reassignment", () => {
+      expect(getEffectiveApprovers({ ...escalated, escalationAction: "reassign" })).toEqual({ roles: ["CEO"], userIds: [7] });
+    });
+
+    it("should restrict the stage to its named assignee", () => {
+      expect(getEffectiveApprovers({ ...base, assigneeId: 3 })).toEqual({ roles: [], userIds: [3] });
+      expect(getEffectiveApprovers({ ...escalated, assigneeId: 3, escalationAction: "add_approver" })).toEqual({ roles: ["CEO"], userIds: [3, 7] });
+    });
+
+    it("should ignore the escalation settings before escalation", () => {
+      expect(getEffectiveApprovers({ ...base, escalationAction: "reassign" })).toEqual({ roles: ["CFO"], userIds: [] });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { randomUUID } from "crypto";
+
+function callerFor(user: db.User) {
+  return appRouter.createCaller({
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  });
+}
+
+describe("Concurrent Stage Votes", () => {
+  let ceo: db.User;
+  let coo: db.User;
+  let workflowId: string;
+  let stageId: string;
+
+  beforeAll(async () => {
+    ceo = await db.upsertUser({
+      cognitoSub: `test-vote-${randomUUID()}`,
+      openId: randomUUID(),
+      email: `test-vote-ceo-${Date.now()}@compawnion.co`,
+      fullName: "Test Voting CEO",
+      role: "CEO",
+    });
+    coo = await db.upsertUser({
+      cognitoSub: `test-vote-${randomUUID()}`,
+      openId: randomUUID(),
+      email: `test-vote-coo-${Date.now()}@compawnion.co`,
+      fullName: "Test Voting COO",
+      role: "COO",
+    });
+
+    // A stage that needs both of them, waiting on its votes
+    const workflow = await db.createWorkflow({
+      workflowType: "MAF",
+      title: "Test Workflow for Concurrent Votes",
+      department: "Finance",
+      requesterId: ceo.id,
+    });
+    workflowId = workflow.id;
+    await db.submitWorkflow(workflowId, "draft");
+
+    const stage = await db.createWorkflowStage({
+      workflowId,
+      stageOrder: 1,
+      stageName: "Board Approval",
+      stageType: "approval",
+      requiresOneOf: ["CEO", "COO"],
+      minApprovals: 2,
+    });
+    stageId = stage.id;
+    await db.updateStageStatus(stageId, "in_progress", "pending");
+  });
+
+  afterAll(async () => {
+    if (workflowId) {
+      await db.deleteWorkflow(workflowId);
+    }
+  });
+
+  it("should count both of two simultaneous votes and complete the stage", async () => {
+    const results = await Promise.all([
+      callerFor(ceo).stages.approve({ stageId, workflowId }),
+      callerFor(coo).stages.approve({ stageId, workflowId }),
+    ]);
+
+    expect(results.filter(r => r.stageCompleted)).toHaveLength(1);
+    expect((await db.getStageById(stageId))?.status).toBe("completed");
+    expect((await db.getWorkflowById(workflowId))?.overallStatus).toBe("completed");
+  });
+
+  it("should report a vote on the finished stage per item in a bulk action", async () => {
+    const summary = await callerFor(ceo).stages.bulkAction({ action: "approve", stageIds: [stageId, "missing-stage"] });
+
+    expect(summary.failed).toBe(2);
+    expect(summary.results[0].error).toMatch(/no longer awaiting approval/);
+    expect(summary.results[1].error).toBe("Stage not found");
+  });
+
+  it("should start the next step when parallel branches are approved at the same time", async () => {
+    const workflow = await db.createWorkflow({
+      workflowType: "MAF",
+      title: "Test Workflow for Parallel Branches",
+      department: "Finance",
+      requesterId: ceo.id,
+    });
+    try {
+      await db.submitWorkflow(workflow.id, "draft");
+      const ceoBranch = await db.createWorkflowStage({
+        workflowId: workflow.id,
+        stageOrder: 1,
+        stageName: "CEO Review",
+        stageType: "approval",
+        requiredRole: "CEO",
+        parallelGroup: "board",
+      });
+      const cooBranch = await db.createWorkflowStage({
+        workflowId: workflow.id,
+        stageOrder: 2,
+        stageName: "COO Review",
+        stageType: "approval",
+        requiredRole: "COO",
+        parallelGroup: "board",
+      });
+      const next = await db.createWorkflowStage({
+        workflowId: workflow.id,
+        stageOrder: 3,
+        stageName: "Final Approval",
+        stageType: "approval",
+        requiredRole: "CEO",
+      });
+      await db.updateStageStatus(ceoBranch.id, "in_progress", "pending");
+      await db.updateStageStatus(cooBranch.id, "in_progress", "pending");
+
+      await Promise.all([
+        callerFor(ceo).stages.approve({ stageId: ceoBranch.id, workflowId: workflow.id }),
+        callerFor(coo).stages.approve({ stageId: cooBranch.id, workflowId: workflow.id }),
+      ]);
+
+      expect((await db.getStageById(next.id))?.status).toBe("in_progress");
+    } finally {
+      await db.deleteWorkflow(workflow.id);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { issueSubscriptionTicket, redeemSubscriptionTicket } from "./_core/subscriptionTickets";
+
+const now = Date.parse("2026-05-01T10:00:00Z");
+
+describe("Subscription Tickets", () => {
+  it("should redeem a ticket once, for the user it was issued to", () => {
+    const ticket = issueSubscriptionTicket(7, now);
+    expect(redeemSubscriptionTicket(ticket, now + 1000)).toBe(7);
+    expect(redeemSubscriptionTicket(ticket, now + 2000)).toBeNull();
+  });
+
+  it("should turn down expired and unknown tickets", () => {
+    const ticket = issueSubscriptionTicket(7, now);
+    expect(redeemSubscriptionTicket(ticket, now + 60 * 1000)).toBeNull();
+    expect(redeemSubscriptionTicket("not-a-ticket", now)).toBeNull();
+  });
+
+  it("should issue a different ticket each time", () => {
+    expect(issueSubscriptionTicket(7, now)).not.toBe(issueSubscriptionTicket(7, now));
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Watcher Notifications
+ * Emails the watchers of a workflow when one of its stages moves, a comment
+ * is added or the workflow finishes. Failures are logged, never thrown, so a
+ * notification problem can't undo the change being reported. Watchers who
+ * prefer a digest get the update in their next one.
+ */
+
+import * as db from "./db";
+import { getWorkflowUrl } from "./emailService";
+import { sendTemplatedEmail } from "./emailTemplates";
+import { deliverEmail } from "./notificationDelivery";
+import { getWatcherIds } from "@shared/workflowWatchers";
+import { formatEmailAmount, renderDigestHeadline, type DigestHeadline } from "@shared/emailTemplates";
+
+export interface WatcherEvent {
+  headline: DigestHeadline; // e.g. { key: "stage_approved", params: { stageName: "Finance Review" } }
+  details?: string;
+  // Users already told about this event some other way (e.g. mentioned in the comment)
+  excludeUserIds?: number[];
+}
+
+/**
+ * Notify everyone watching a workflow, except the actor who caused the event
+ */
+export async function notifyWatchers(
+  workflowId: string,
+  event: WatcherEvent,
+  actor: db.User | null = null
+): Promise<void> {
+  try {
+    const workflow = await db.getWorkflowById(workflowId);
+    if (!workflow) return;
+
+    const subscriptions = await db.getSubscriptionsForWorkflow(workflow);
+    const excluded = [...(event.excludeUserIds || []), ...(actor ? [actor.id] : [])];
+    const { direct, broad } = getWatcherIds(subscriptions, workflow, excluded);
+    if (direct.length === 0 && broad.length === 0) return;
+
+    const recipients: db.User[] = [];
+    for (const userId of [...direct, ...broad]) {
+      const user = await db.getUserById(userId);
+      if (!user || !user.isActive || !user.email) continue;
+
+      // Type and department watchers only hear about workflows they can see
+      if (broad.includes(userId)) {
+        const access = await db.checkWorkflowAccess(workflow.id, user.id, user.role, user.department);
+        if (!access.hasAccess) continue;
+      }
+      recipients.push(user);
+    }
+    if (recipients.length === 0) return;
+
+    const requester = await db.getUserById(workflow.requesterId);
+    const sender = actor || requester;
+    if (!sender) return;
+
+    await deliverEmail(recipients, "workflow_update", {
+      workflowId: workflow.id,
+      workflowNumber: workflow.workflowNumber,
+      workflowTitle: workflow.title,
+      headline: event.headline,
+      details: event.details,
+    }, immediate => sendTemplatedEmail("watcher_update", immediate, {
+      from: `${sender.fullName || sender.email} <${sender.email}>`,
+      values: language => ({
+        workflowNumber: workflow.workflowNumber,
+        workflowTitle: workflow.title,
+        workflowType: workflow.workflowType,
+        amount: formatEmailAmount(workflow.estimatedAmount, workflow.currency, language),
+        requesterName: requester ? requester.fullName || requester.email : undefined,
+        actorName: actor ? actor.fullName || actor.email : undefined,
+        update: renderDigestHeadline(event.headline, language),
+        details: event.details,
+        link: getWorkflowUrl(workflow.id),
+      }),
+    }));
+  } catch (error) {
+    console.error(`❌ Failed to notify watchers of workflow ${workflowId}:`, error);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { diffFields, getStagesToReapprove, requiresReapproval } from "../shared/workflowAmendments";
+
+const stage = (id: string, stageOrder: number, status: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  stageOrder,
+  status,
+  parallelGroup: null,
+  ...extra,
+});
+
+const amountChange = (oldValue: number, newValue: number) => [{ field: "estimatedAmount", oldValue, newValue }];
+
+describe("Workflow Amendments", () => {
+  describe("diffFields", () => {
+    it("should only report fields that changed", () => {
+      const changes = diffFields(
+        { title: "Laptop", description: null, estimatedAmount: 1000 },
+        { title: "Laptop", description: "", estimatedAmount: 1500 }
+      );
+      expect(changes).toEqual([{ field: "estimatedAmount", oldValue: 1000, newValue: 1500 }]);
+    });
+
+    it("should prefix form fields", () => {
+      const changes = diffFields({ qty: "2" }, { qty: "3", notes: "urgent" }, "form.");
+      expect(changes.map(c => c.field)).toEqual(["form.qty", "form.notes"]);
+    });
+  });
+
+  describe("requiresReapproval", () => {
+    it("should re-trigger when the amount crosses the stage threshold", () => {
+      const cfo = stage("cfo", 1, "completed", { approvalThreshold: "5000000.00" });
+      expect(requiresReapproval(cfo, amountChange(4000000, 6000000))).toBe(true);
+      expect(requiresReapproval(cfo, amountChange(6000000, 7000000))).toBe(false);
+    });
+
+    it("should follow the stage's rule", () => {
+      const titleChange = [{ field: "title", oldValue: "a", newValue: "b" }];
+      expect(requiresReapproval(stage("a", 1, "completed", { reapprovalRule: "any_change" }), titleChange)).toBe(true);
+      expect(requiresReapproval(stage("a", 1, "completed", { reapprovalRule: "amount_increase" }), amountChange(10, 5))).toBe(false);
+      expect(requiresReapproval(stage("a", 1, "completed", { reapprovalRule: "never" }), amountChange(10, 50))).toBe(false);
+    });
+
+    it("should ignore stages that have not approved yet", () => {
+      expect(requiresReapproval(stage("a", 1, "in_progress", { reapprovalRule: "any_change" }), amountChange(1, 2))).toBe(false);
+    });
+  });
+
+  describe("getStagesToReapprove", () => {
+    it("should reopen from the earliest invalidated stage onwards", () => {
+      const reopened = getStagesToReapprove([
+        stage("ppic", 1, "completed", { reapprovalRule: "never" }),
+        stage("finance", 2, "completed", { reapprovalRule: "amount_increase" }),
+        stage("cfo", 3, "in_progress"),
+      ], amountChange(100, 200));
+      expect(reopened.map(s => s.id)).toEqual(["finance", "cfo"]);
+    });
+
+    it("should keep every approval when no rule applies", () => {
+      expect(getStagesToReapprove([stage("ppic", 1, "completed")], amountChange(100, 200))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { describeDuplication, getDuplicateDetails, getDuplicateFile } from "../shared/workflowDuplication";
+
+const source = {
+  workflowType: "PR",
+  workflowNumber: "PR-2026-0012",
+  title: "Office chairs",
+  description: null,
+  department: "Finance",
+  estimatedAmount: "12500000.00",
+  currency: "IDR",
+  requiresGa: true,
+  requiresPpic: null,
+};
+
+describe("Workflow Duplication", () => {
+  describe("getDuplicateDetails", () => {
+    it("should carry over the request details", () => {
+      expect(getDuplicateDetails(source)).toEqual({
+        title: "Office chairs",
+        description: undefined,
+        department: "Finance",
+        estimatedAmount: 12500000,
+        currency: "IDR",
+        requiresGa: true,
+        requiresPpic: false,
+      });
+    });
+
+    it("should leave out a missing amount", () => {
+      expect(getDuplicateDetails({ ...source, estimatedAmount: null }).estimatedAmount).toBeUndefined();
+    });
+  });
+
+  describe("getDuplicateFile", () => {
+    it("should point at the same stored object, uploaded by the new requester", () => {
+      const file = {
+        fileName: "quote.pdf",
+        fileType: "pdf",
+        fileCategory: null,
+        s3Bucket: "workflow-files",
+        s3Key: "workflows/abc/quote.pdf",
+        s3Url: null,
+        fileSize: 2048,
+        mimeType: "application/pdf",
+        stageId: "stage-1",
+        uploadedBy: 3,
+      };
+
+      const copy = getDuplicateFile(file, 7);
+      expect(copy).toMatchObject({ s3Bucket: "workflow-files", s3Key: "workflows/abc/quote.pdf", s3Url: "", uploadedBy: 7 });
+      expect(copy).not.toHaveProperty("stageId");
+    });
+  });
+
+  describe("describeDuplication", () => {
+    it("should name the original and count copied attachments", () => {
+      expect(describeDuplication(source, 0)).toBe("PR workflow duplicated from PR-2026-0012: Office chairs");
+      expect(describeDuplication(source, 1)).toContain("(1 attachment copied)");
+      expect(describeDuplication(source, 3)).toContain("(3 attachments copied)");
+    });
+  });
+});
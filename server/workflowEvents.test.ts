@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { publishWorkflowEvent, streamWorkflowEvents } from "./workflowEvents";
+import { describeWorkflowEvent, getEventScopes } from "../shared/workflowEvents";
+
+const at = new Date("2026-05-01T10:00:00Z");
+
+describe("Workflow Events", () => {
+  it("should stream published events until the subscriber disconnects", async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    const consumer = (async () => {
+      for await (const event of streamWorkflowEvents(controller.signal)) {
+        received.push(`${event.type}:${event.workflowId}`);
+        if (received.length === 2) controller.abort();
+      }
+    })();
+
+    // Let the subscriber attach before publishing
+    await new Promise(resolve => setTimeout(resolve, 0));
+    publishWorkflowEvent({ type: "comment", workflowId: "wf-1" });
+    publishWorkflowEvent({ type: "file", workflowId: "wf-2" });
+
+    await consumer;
+    expect(received).toEqual(["comment:wf-1", "file:wf-2"]);
+  });
+
+  it("should refresh the lists only for status changes", () => {
+    expect(getEventScopes({ type: "stage_status" })).toContain("lists");
+    expect(getEventScopes({ type: "comment" })).toEqual(["comments"]);
+  });
+
+  it("should describe decisions and stay quiet about routine changes", () => {
+    expect(
+      describeWorkflowEvent({ type: "stage_status", workflowId: "wf-1", stageName: "Finance", status: "completed", actorName: "Dewi", at })
+    ).toBe('"Finance" was approved by Dewi');
+    expect(describeWorkflowEvent({ type: "stage_status", workflowId: "wf-1", stageName: "Finance", status: "in_progress", at })).toBeNull();
+    expect(describeWorkflowEvent({ type: "comment", workflowId: "wf-1", at })).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Workflow Events
+ * In-process broadcast of workflow changes to the live-update subscription.
+ * Events reach the pages connected to this server instance only.
+ */
+
+import { EventEmitter, on } from "events";
+import type * as db from "./db";
+import { afterCommit } from "./afterCommit";
+import type { WorkflowEvent } from "@shared/workflowEvents";
+
+const emitter = new EventEmitter();
+// Every open page holds a listener
+emitter.setMaxListeners(0);
+
+/**
+ * Broadcast a change to everyone watching the workflow, once it is committed
+ */
+export function publishWorkflowEvent(
+  event: Omit<WorkflowEvent, "at" | "actorId" | "actorName">,
+  actor: db.User | null = null
+): void {
+  const payload: WorkflowEvent = {
+    ...event,
+    actorId: actor?.id ?? null,
+    actorName: actor ? actor.fullName || actor.email : null,
+    at: new Date(),
+  };
+  afterCommit(() => emitter.emit("workflow", payload));
+}
+
+/**
+ * Events as they happen, until `signal` aborts (the client disconnects)
+ */
+export async function* streamWorkflowEvents(signal?: AbortSignal): AsyncGenerator<WorkflowEvent> {
+  try {
+    for await (const [event] of on(emitter, "workflow", { signal })) {
+      yield event as WorkflowEvent;
+    }
+  } catch (error) {
+    if ((error as Error).name !== "AbortError") throw error;
+  }
+}
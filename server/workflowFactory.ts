@@ -0,0 +1,140 @@
+/**
+ * Workflow Factory
+ * Builds the stages of new workflows, from a workflow template (with named
+ * assignees picked by each stage's assignment mode) or the built-in defaults.
+ * Shared by the API and the recurring workflow scheduler.
+ */
+
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+import { pickLeastLoaded, pickRoundRobin, usesNamedAssignee } from "@shared/stageAssignment";
+import { getStageApproverRoles } from "@shared/stageQuorum";
+
+/**
+ * Create a workflow's stages from (the current version of) its template
+ */
+export async function createStagesFromTemplate(
+  workflowId: string,
+  stages: db.TemplateStage[],
+  assignees: Map<string, number | null>
+): Promise<void> {
+  for (const stage of stages) {
+    await db.createWorkflowStage({
+      workflowId,
+      stageOrder: stage.stageOrder,
+      stageName: stage.stageName,
+      stageType: stage.approvalRequired ? "approval" : "review",
+      requiredRole: stage.requiredRole,
+      requiresOneOf: stage.requiresOneOf,
+      fileUploadRequired: stage.fileUploadRequired,
+      notificationEmails: stage.notificationEmails,
+      visibleToDepartments: stage.visibleToDepartments,
+      approvalThreshold: stage.approvalThreshold,
+      parallelGroup: stage.parallelGroup,
+      minApprovals: stage.minApprovals,
+      rejectionPolicy: stage.rejectionPolicy,
+      slaHours: stage.slaHours,
+      escalationRole: stage.escalationRole,
+      escalationUserId: stage.escalationUserId,
+      escalationAction: stage.escalationAction,
+      assigneeId: assignees.get(stage.id),
+      reapprovalRule: stage.reapprovalRule,
+    });
+  }
+}
+
+/**
+ * Pick the named assignee of a new stage according to its template's assignment mode
+ */
+export async function pickStageAssignee(stage: db.TemplateStage, requesterChoice?: number): Promise<number | null> {
+  if (!usesNamedAssignee(stage)) return null;
+  if (stage.assignmentMode === "fixed") return stage.assigneeId;
+  
+  const roles = getStageApproverRoles(stage);
+  const candidates = roles.length > 0
+    ? await db.getActiveUsersByRoles(roles.filter(db.isUserRole))
+    : (await db.getAllUsers()).filter(u => u.isActive);
+  const candidateIds = candidates.map(u => u.id);
+  
+  if (stage.assignmentMode === "requester") {
+    if (requesterChoice === undefined) return null;
+    if (!candidateIds.includes(requesterChoice)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Selected assignee cannot approve ${stage.stageName}` });
+    }
+    return requesterChoice;
+  }
+  
+  if (stage.assignmentMode === "round_robin") {
+    return pickRoundRobin(candidateIds, await db.getLastAssigneeByStageName(stage.stageName));
+  }
+  
+  return pickLeastLoaded(candidateIds, await db.getOpenAssignmentCounts(candidateIds));
+}
+
+/**
+ * Built-in stages for workflows created without a template
+ */
+export async function createInitialStages(workflowId: string,
+  workflowType: "MAF" | "PR" | "CATTO",
+  estimatedAmount?: number
+): Promise<void> {
+  if (workflowType === "MAF") {
+    // MAF workflow stages
+    const stages = [
+      { order: 1, name: "PPIC Review", type: "approval", role: "PPIC" },
+      { order: 2, name: "Purchasing Review", type: "approval", role: "Purchasing" },
+    ];
+    
+    // Add financial approval stages based on amount
+    if (estimatedAmount && estimatedAmount > 5000000) {
+      stages.push({ order: 3, name: "CFO Approval", type: "approval", role: "CFO" });
+      stages.push({ order: 4, name: "CEO/COO Approval", type: "approval", role: "CEO" });
+    } else if (estimatedAmount && estimatedAmount > 1000000) {
+      stages.push({ order: 3, name: "CFO Approval", type: "approval", role: "CFO" });
+    }
+    
+    for (const stage of stages) {
+      await db.createWorkflowStage({
+        workflowId,
+        stageOrder: stage.order,
+        stageName: stage.name,
+        stageType: stage.type,
+        requiredRole: stage.role,
+      });
+    }
+  } else if (workflowType === "PR") {
+    // PR workflow stages
+    const stages = [
+      { order: 1, name: "Department Head Review", type: "approval", role: "admin" },
+      { order: 2, name: "Finance Review", type: "approval", role: "Finance" },
+      { order: 3, name: "CFO Approval", type: "approval", role: "CFO" },
+    ];
+    
+    for (const stage of stages) {
+      await db.createWorkflowStage({
+        workflowId,
+        stageOrder: stage.order,
+        stageName: stage.name,
+        stageType: stage.type,
+        requiredRole: stage.role,
+      });
+    }
+  } else if (workflowType === "CATTO") {
+    // CATTO (Capital Approval) workflow stages
+    const stages = [
+      { order: 1, name: "Finance Review", type: "approval", role: "Finance" },
+      { order: 2, name: "CFO Approval", type: "approval", role: "CFO" },
+      { order: 3, name: "CEO Approval", type: "approval", role: "CEO" },
+    ];
+    
+    for (const stage of stages) {
+      await db.createWorkflowStage({
+        workflowId,
+        stageOrder: stage.order,
+        stageName: stage.name,
+        stageType: stage.type,
+        requiredRole: stage.role,
+      });
+    }
+  }
+}
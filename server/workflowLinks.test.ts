@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { getSubmissionBlocker, orderWorkflowChain } from "../shared/workflowLinks";
+
+describe("Workflow Links", () => {
+  describe("getSubmissionBlocker", () => {
+    const child = { parentWorkflowId: "maf", blockedUntilParentCompleted: true };
+
+    it("should hold a blocked child until its parent completes", () => {
+      expect(getSubmissionBlocker(child, { workflowNumber: "MAF-001", overallStatus: "in_progress" })).toContain("MAF-001");
+      expect(getSubmissionBlocker(child, { workflowNumber: "MAF-001", overallStatus: "completed" })).toBeNull();
+    });
+
+    it("should not hold children that opted out", () => {
+      const unblocked = { ...child, blockedUntilParentCompleted: false };
+      expect(getSubmissionBlocker(unblocked, { workflowNumber: "MAF-001", overallStatus: "in_progress" })).toBeNull();
+    });
+  });
+
+  describe("orderWorkflowChain", () => {
+    it("should list parents before their children with their depth", () => {
+      const chain = orderWorkflowChain([
+        { id: "catto", parentWorkflowId: "pr" },
+        { id: "pr2", parentWorkflowId: "maf" },
+        { id: "maf", parentWorkflowId: null },
+        { id: "pr", parentWorkflowId: "maf" },
+      ], "maf");
+      expect(chain.map(w => [w.id, w.depth])).toEqual([
+        ["maf", 0],
+        ["pr2", 1],
+        ["pr", 1],
+        ["catto", 2],
+      ]);
+    });
+
+    it("should not loop on cyclic links", () => {
+      const chain = orderWorkflowChain([
+        { id: "a", parentWorkflowId: "b" },
+        { id: "b", parentWorkflowId: "a" },
+      ], "a");
+      expect(chain.map(w => w.id)).toEqual(["a", "b"]);
+    });
+  });
+});
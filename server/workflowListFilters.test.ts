@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_WORKFLOW_FILTERS,
+  escapeLikePattern,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+} from "../shared/workflowListFilters";
+
+describe("Workflow List Filters", () => {
+  it("should leave defaults out of the query string", () => {
+    expect(filtersToSearchParams(DEFAULT_WORKFLOW_FILTERS)).toBe("");
+    expect(filtersToSearchParams({ ...DEFAULT_WORKFLOW_FILTERS, status: "completed", page: 3 })).toBe(
+      "status=completed&page=3"
+    );
+  });
+
+  it("should round-trip filters through the query string", () => {
+    const filters = {
+      ...DEFAULT_WORKFLOW_FILTERS,
+      search: "laptop & mouse",
+      type: "PR",
+      dateFrom: "2026-01-01",
+      sortBy: "estimatedAmount" as const,
+      sortDirection: "asc" as const,
+    };
+    expect(filtersFromSearchParams(filtersToSearchParams(filters))).toEqual(filters);
+  });
+
+  it("should fall back to the saved filters for missing or invalid params", () => {
+    const saved = { ...DEFAULT_WORKFLOW_FILTERS, department: "Finance" };
+    const filters = filtersFromSearchParams("?sort=requester&page=-2&status=draft", saved);
+    expect(filters.department).toBe("Finance");
+    expect(filters.status).toBe("draft");
+    expect(filters.sortBy).toBe("createdAt");
+    expect(filters.page).toBe(1);
+  });
+
+  it("should escape LIKE wildcards", () => {
+    expect(escapeLikePattern("50%_off\\")).toBe("50\\%\\_off\\\\");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { buildFullTextQuery, buildSnippet, flattenFormData, parseSearchQuery } from "../shared/workflowSearch";
+
+describe("Workflow Search", () => {
+  describe("parseSearchQuery", () => {
+    it("should split words and keep quoted phrases together", () => {
+      expect(parseSearchQuery('Laptop "PT  Maju Jaya" laptop')).toEqual(["laptop", "pt maju jaya"]);
+    });
+
+    it("should drop terms that are too short", () => {
+      expect(parseSearchQuery("a PR x")).toEqual(["pr"]);
+      expect(parseSearchQuery("   ")).toEqual([]);
+    });
+  });
+
+  describe("buildFullTextQuery", () => {
+    it("should require every term as a phrase", () => {
+      expect(buildFullTextQuery(["laptop", "pt maju jaya"])).toBe('+"laptop" +"pt maju jaya"');
+    });
+
+    it("should drop quotes so terms can't break out of their phrase", () => {
+      expect(buildFullTextQuery(['pt "maju', '"'])).toBe('+"pt maju"');
+      expect(buildFullTextQuery([])).toBe("");
+    });
+  });
+
+  describe("flattenFormData", () => {
+    it("should collect nested text and number values", () => {
+      const formData = {
+        vendor: "PT Maju Jaya",
+        items: [{ name: "Laptop", qty: 2 }, { name: " " }],
+        urgent: true,
+        notes: null,
+      };
+      expect(flattenFormData(formData)).toBe("PT Maju Jaya · Laptop · 2");
+    });
+  });
+
+  describe("buildSnippet", () => {
+    it("should highlight every occurrence of the terms", () => {
+      expect(buildSnippet("Quote from Vendor X, vendor x confirmed", ["vendor x"])).toEqual([
+        { text: "Quote from ", highlight: false },
+        { text: "Vendor X", highlight: true },
+        { text: ", ", highlight: false },
+        { text: "vendor x", highlight: true },
+        { text: " confirmed", highlight: false },
+      ]);
+    });
+
+    it("should trim long text around the first match", () => {
+      const text = `${"a ".repeat(100)}invoice${" b".repeat(100)}`;
+      const segments = buildSnippet(text, ["invoice"], 10);
+      expect(segments[0].text.startsWith("…")).toBe(true);
+      expect(segments[1]).toEqual({ text: "invoice", highlight: true });
+      expect(segments[2].text.endsWith("…")).toBe(true);
+    });
+  });
+});
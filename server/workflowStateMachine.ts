@@ -0,0 +1,257 @@
+/**
+ * Workflow State Machine
+ * Single entry point for changing workflow and stage statuses.
+ * Validates transitions against the shared transition tables, then applies
+ * the side effects (timestamps, audit entries, analytics cache invalidation,
+ * watcher, requester and in-app notifications, live update events). The
+ * change and the notifications about it are written in one transaction.
+ */
+
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+import { invalidateAnalyticsCache } from "./analyticsCache";
+import { notifyWatchers } from "./watcherNotifications";
+import { notifyStageAssigned, notifyStageDecision } from "./notificationCenter";
+import { notifyRequester, type RequesterEmailKey } from "./requesterNotifications";
+import { publishWorkflowEvent } from "./workflowEvents";
+import type { DigestHeadlineKey } from "@shared/emailTemplates";
+import {
+  STAGE_TRANSITIONS,
+  WORKFLOW_TRANSITIONS,
+  checkTransition,
+  type StageStatus,
+  type TransitionActor,
+  type WorkflowStatus,
+} from "@shared/workflowTransitions";
+
+export interface TransitionOptions {
+  // null when the approval engine or scheduler makes the change
+  actor: db.User | null;
+  // The caller has already checked that the actor may act on the relevant stage
+  asApprover?: boolean;
+  // Discontinue reason
+  reason?: string;
+  // Override the default audit action/description
+  auditAction?: string;
+  auditDescription?: string;
+}
+
+// Workflow and stage statuses watchers are told about, with their headline
+const WATCHED_WORKFLOW_STATUSES: Partial<Record<WorkflowStatus, DigestHeadlineKey>> = {
+  completed: "workflow_completed",
+  rejected: "workflow_rejected",
+  revision_requested: "workflow_revision_requested",
+  cancelled: "workflow_cancelled",
+  discontinued: "workflow_discontinued",
+};
+
+const WATCHED_STAGE_STATUSES: Partial<Record<StageStatus, DigestHeadlineKey>> = {
+  in_progress: "stage_awaiting_approval",
+  completed: "stage_approved",
+  rejected: "stage_rejected",
+};
+
+// Workflow and stage statuses the requester gets a templated email about
+const REQUESTER_WORKFLOW_EMAILS: Partial<Record<WorkflowStatus, RequesterEmailKey>> = {
+  in_progress: "workflow_submitted",
+  completed: "workflow_completed",
+};
+
+const REQUESTER_STAGE_EMAILS: Partial<Record<StageStatus, RequesterEmailKey>> = {
+  completed: "stage_approved",
+  rejected: "stage_rejected",
+};
+
+const DEFAULT_AUDIT: Record<WorkflowStatus, { action: string; description: string }> = {
+  draft: { action: "status_changed", description: "Workflow moved back to draft" },
+  in_progress: { action: "submitted", description: "Workflow submitted for approval" },
+  completed: { action: "completed", description: "Workflow completed" },
+  rejected: { action: "rejected", description: "Workflow rejected" },
+  revision_requested: { action: "revision_requested", description: "Workflow returned for revision" },
+  cancelled: { action: "cancelled", description: "Workflow cancelled" },
+  discontinued: { action: "discontinued", description: "Workflow discontinued" },
+  archived: { action: "archived", description: "Workflow archived" },
+};
+
+function getActorCapacities(workflow: db.Workflow, options: TransitionOptions): TransitionActor[] {
+  if (!options.actor) return ["system"];
+  
+  const actors: TransitionActor[] = [];
+  if (options.actor.role === "admin") actors.push("admin");
+  if (workflow.requesterId === options.actor.id) actors.push("requester");
+  if (options.asApprover) actors.push("approver");
+  return actors;
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ");
+}
+
+/**
+ * Move a workflow to a new overall status
+ */
+export async function transitionWorkflow(
+  workflowId: string,
+  to: WorkflowStatus,
+  options: TransitionOptions
+): Promise<void> {
+  const workflow = await db.getWorkflowById(workflowId);
+  if (!workflow) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+  }
+  
+  const from = workflow.overallStatus;
+  const check = checkTransition(WORKFLOW_TRANSITIONS, from, to, getActorCapacities(workflow, options));
+  if (check === "illegal") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Cannot change workflow status from ${formatStatus(from)} to ${formatStatus(to)}`,
+    });
+  }
+  if (check === "forbidden") {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Not authorized to change workflow status from ${formatStatus(from)} to ${formatStatus(to)}`,
+    });
+  }
+  
+  // The change, its audit entry and the emails about it commit together
+  await db.withTransaction(async () => {
+    let changed: boolean;
+    if (to === "in_progress" && from === "draft") {
+      changed = await db.submitWorkflow(workflowId, from);
+    } else if (to === "discontinued") {
+      changed = await db.discontinueWorkflow(workflowId, from, options.reason);
+    } else if (to === "archived") {
+      changed = await db.archiveWorkflow(workflowId, from);
+    } else {
+      changed = await db.updateWorkflowStatus(workflowId, to, from);
+    }
+    if (!changed) {
+      // Someone else changed the workflow's status since it was read
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "The workflow has changed since it was loaded; please try again",
+      });
+    }
+    
+    const audit = DEFAULT_AUDIT[to];
+    await db.createAuditLog({
+      entityType: "workflow",
+      entityId: workflowId,
+      action: options.auditAction || audit.action,
+      actionDescription: options.auditDescription || audit.description,
+      actorId: options.actor?.id,
+      actorEmail: options.actor?.email,
+      actorRole: options.actor?.role || "system",
+      oldValues: { overallStatus: from },
+      newValues: { overallStatus: to },
+    });
+    
+    // A requester watching their own workflow gets the requester email instead
+    const requesterEmail = REQUESTER_WORKFLOW_EMAILS[to];
+    const headline = WATCHED_WORKFLOW_STATUSES[to];
+    if (headline) {
+      await notifyWatchers(workflowId, {
+        headline: { key: headline },
+        details: options.reason,
+        excludeUserIds: requesterEmail ? [workflow.requesterId] : [],
+      }, options.actor);
+    }
+    if (requesterEmail) {
+      await notifyRequester(workflowId, requesterEmail, {}, options.actor);
+    }
+  });
+  
+  invalidateAnalyticsCache();
+  publishWorkflowEvent({ type: "workflow_status", workflowId, status: to }, options.actor);
+}
+
+/**
+ * Move a stage to a new status. Permission to act on the stage itself is
+ * checked by the caller; `asApprover` marks that check as done.
+ */
+export async function transitionStage(
+  stage: db.WorkflowStage,
+  to: StageStatus,
+  options: { asApprover?: boolean; actor?: db.User | null; comments?: string } = {}
+): Promise<void> {
+  // The same capacities as for workflows: "system" only when nobody acts
+  const actors: TransitionActor[] = [];
+  if (!options.actor) {
+    actors.push("system");
+  } else {
+    if (options.asApprover) actors.push("approver");
+    if (options.actor.role === "admin") actors.push("admin");
+  }
+  
+  const check = checkTransition(STAGE_TRANSITIONS, stage.status, to, actors);
+  if (check !== "allowed") {
+    throw new TRPCError({
+      code: check === "illegal" ? "BAD_REQUEST" : "FORBIDDEN",
+      message: `Cannot change stage "${stage.stageName}" from ${formatStatus(stage.status)} to ${formatStatus(to)}`,
+    });
+  }
+  
+  await db.withTransaction(async () => {
+    if (to === "pending") {
+      // Reopening clears timestamps and any previous escalation
+      await db.reopenStages([stage.id]);
+    } else if (!(await db.updateStageStatus(stage.id, to, stage.status))) {
+      // Someone else acted on the stage since it was read
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `Stage "${stage.stageName}" has changed since it was loaded; please try again`,
+      });
+    }
+    
+    const requesterEmail = REQUESTER_STAGE_EMAILS[to];
+    const requesterId = requesterEmail ? (await db.getWorkflowById(stage.workflowId))?.requesterId : undefined;
+    const headline = WATCHED_STAGE_STATUSES[to];
+    if (headline) {
+      await notifyWatchers(stage.workflowId, {
+        headline: { key: headline, params: { stageName: stage.stageName } },
+        excludeUserIds: requesterId ? [requesterId] : [],
+      }, options.actor ?? null);
+    }
+    if (requesterEmail) {
+      await notifyRequester(
+        stage.workflowId,
+        requesterEmail,
+        { stageName: stage.stageName, comments: options.comments },
+        options.actor ?? null
+      );
+    }
+    
+    if (to === "in_progress") {
+      await notifyStageAssigned(stage, options.actor ?? null);
+    } else if (to === "completed" || to === "rejected") {
+      await notifyStageDecision(stage, to === "completed" ? "approved" : "rejected", options.actor ?? null);
+    }
+  });
+  
+  publishWorkflowEvent(
+    { type: "stage_status", workflowId: stage.workflowId, stageId: stage.id, stageName: stage.stageName, status: to },
+    options.actor ?? null
+  );
+}
+
+/**
+ * Start every stage in a step (parallel branches start together)
+ */
+export async function startStages(stages: db.WorkflowStage[]): Promise<void> {
+  for (const stage of stages) {
+    await transitionStage(stage, "in_progress");
+  }
+}
+
+/**
+ * Reopen stages for another approval round; stages that are already pending are left alone
+ */
+export async function reopenStages(stages: db.WorkflowStage[]): Promise<void> {
+  for (const stage of stages) {
+    if (stage.status !== "pending") {
+      await transitionStage(stage, "pending");
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  STAGE_TRANSITIONS,
+  WORKFLOW_TRANSITIONS,
+  checkTransition,
+  getAvailableWorkflowTransitions,
+} from "../shared/workflowTransitions";
+
+describe("Workflow Transitions", () => {
+  describe("checkTransition", () => {
+    it("should let the requester submit a draft", () => {
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "draft", "in_progress", ["requester"])).toBe("allowed");
+    });
+
+    it("should reject transitions that never make sense", () => {
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "completed", "draft", ["admin"])).toBe("illegal");
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "archived", "in_progress", ["admin"])).toBe("illegal");
+    });
+
+    it("should forbid legal transitions for the wrong actor", () => {
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "completed", "archived", ["requester"])).toBe("forbidden");
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "in_progress", "completed", ["requester"])).toBe("forbidden");
+      expect(checkTransition(WORKFLOW_TRANSITIONS, "completed", "archived", ["admin"])).toBe("allowed");
+    });
+
+    it("should only let approvers finish a stage that is in progress", () => {
+      expect(checkTransition(STAGE_TRANSITIONS, "in_progress", "completed", ["approver"])).toBe("allowed");
+      expect(checkTransition(STAGE_TRANSITIONS, "pending", "completed", ["approver"])).toBe("illegal");
+      expect(checkTransition(STAGE_TRANSITIONS, "pending", "in_progress", ["approver"])).toBe("forbidden");
+    });
+  });
+
+  describe("getAvailableWorkflowTransitions", () => {
+    it("should list the moves open to the actor", () => {
+      expect(getAvailableWorkflowTransitions("completed", ["requester"])).toEqual([]);
+      expect(getAvailableWorkflowTransitions("revision_requested", ["requester"])).toEqual([
+        "in_progress",
+        "cancelled",
+        "discontinued",
+      ]);
+    });
+  });
+});
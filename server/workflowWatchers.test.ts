@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { describeSubscription, getWatcherIds, matchesSubscription } from "../shared/workflowWatchers";
+
+const workflow = { id: "wf-1", workflowType: "PR", department: "Finance" };
+
+describe("Workflow Watchers", () => {
+  it("should match subscriptions by workflow, type or department", () => {
+    expect(matchesSubscription({ userId: 1, scope: "workflow", workflowId: "wf-1" }, workflow)).toBe(true);
+    expect(matchesSubscription({ userId: 1, scope: "workflow", workflowId: "wf-2" }, workflow)).toBe(false);
+    expect(matchesSubscription({ userId: 1, scope: "workflow_type", workflowType: "PR" }, workflow)).toBe(true);
+    expect(matchesSubscription({ userId: 1, scope: "workflow_type", workflowType: "MAF" }, workflow)).toBe(false);
+    expect(matchesSubscription({ userId: 1, scope: "department", department: "Finance" }, workflow)).toBe(true);
+  });
+
+  it("should split direct and broad watchers without duplicates", () => {
+    const subscriptions = [
+      { userId: 1, scope: "workflow" as const, workflowId: "wf-1" },
+      { userId: 1, scope: "department" as const, department: "Finance" },
+      { userId: 2, scope: "workflow_type" as const, workflowType: "PR" },
+      { userId: 2, scope: "department" as const, department: "Finance" },
+      { userId: 3, scope: "department" as const, department: "Sales" },
+    ];
+    expect(getWatcherIds(subscriptions, workflow)).toEqual({ direct: [1], broad: [2] });
+  });
+
+  it("should leave out the user who caused the event", () => {
+    const subscriptions = [
+      { userId: 1, scope: "workflow" as const, workflowId: "wf-1" },
+      { userId: 2, scope: "workflow" as const, workflowId: "wf-1" },
+    ];
+    expect(getWatcherIds(subscriptions, workflow, [2])).toEqual({ direct: [1], broad: [] });
+  });
+
+  it("should describe subscriptions", () => {
+    expect(describeSubscription({ userId: 1, scope: "workflow_type", workflowType: "PR" })).toBe("All PR workflows");
+  });
+});
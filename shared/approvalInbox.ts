@@ -0,0 +1,100 @@
+/**
+ * Which open stages belong in a user's "My approvals" inbox.
+ *
+ * A stage is waiting on a user when they are one of its effective approvers
+ * (named assignee, required role or escalation target) or hold an applicable
+ * delegation from one. Stages restricted to some departments only reach
+ * approvers from those departments, unless they are named on the stage or
+ * hold a C-level role. The admin override is not counted: admins can act on
+ * any stage, but only stages explicitly waiting on them show up.
+ */
+
+import { getEffectiveApprovers, type SlaStage } from "./stageSla";
+
+// Roles that see every workflow regardless of department
+export const ALL_DEPARTMENT_ROLES = ["CEO", "CFO", "COO", "admin"];
+
+export interface InboxUser {
+  id: number;
+  role: string;
+  department?: string | null;
+}
+
+export interface InboxStage extends SlaStage {
+  visibleToDepartments?: string[] | null;
+}
+
+/**
+ * Whether a stage is waiting on the user in their own right
+ */
+export function isWaitingOn(stage: InboxStage, user: InboxUser): boolean {
+  const approvers = getEffectiveApprovers(stage);
+  if (approvers.userIds.includes(user.id)) return true;
+  if (approvers.roles.length === 0 && approvers.userIds.length === 0) return user.role === "admin";
+  if (!approvers.roles.includes(user.role)) return false;
+
+  const departments = stage.visibleToDepartments || [];
+  return (
+    departments.length === 0 ||
+    ALL_DEPARTMENT_ROLES.includes(user.role) ||
+    (!!user.department && departments.includes(user.department))
+  );
+}
+
+/**
+ * In what capacity a stage is in the user's inbox: directly (`onBehalfOf` null),
+ * on behalf of one of the given delegators, or not at all (null)
+ */
+export function getInboxCapacity<U extends InboxUser>(
+  stage: InboxStage,
+  user: InboxUser,
+  delegators: U[]
+): { onBehalfOf: U | null } | null {
+  if (isWaitingOn(stage, user)) return { onBehalfOf: null };
+  const delegator = delegators.find(d => isWaitingOn(stage, d));
+  return delegator ? { onBehalfOf: delegator } : null;
+}
+
+/**
+ * Whole hours a stage has been waiting since it started
+ */
+export function getWaitingHours(startedAt: Date | string | null | undefined, now: Date = new Date()): number {
+  if (!startedAt) return 0;
+  return Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / (60 * 60 * 1000)));
+}
+
+export interface BulkStageResult {
+  stageId: string;
+  success: boolean;
+  stageClosed: boolean; // The action completed or rejected the stage
+  error?: string;
+}
+
+/**
+ * Act on each stage in turn, once per stage. A stage that fails is reported
+ * with its error and doesn't stop the others.
+ */
+export async function runBulkStageAction(
+  stageIds: string[],
+  act: (stageId: string) => Promise<boolean>
+): Promise<{ results: BulkStageResult[]; succeeded: number; failed: number }> {
+  const results: BulkStageResult[] = [];
+  for (const stageId of Array.from(new Set(stageIds))) {
+    try {
+      results.push({ stageId, success: true, stageClosed: await act(stageId) });
+    } catch (error) {
+      results.push({
+        stageId,
+        success: false,
+        stageClosed: false,
+        error: error instanceof Error ? error.message : "Unexpected error",
+      });
+    }
+  }
+
+  return {
+    results,
+    succeeded: results.filter(r => r.success).length,
+    failed: results.filter(r => !r.success).length,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Threaded workflow comments.
+ *
+ * Replies point at their parent through `parentCommentId`. Authors may edit or
+ * delete their own discussion comments for a short while after posting;
+ * comments recorded with an approval decision are never changed. Every edit
+ * and deletion keeps the previous text as a revision that auditors can read.
+ */
+
+export const COMMENT_EDIT_WINDOW_MINUTES = 30;
+
+// Roles that may read the revision history of any comment
+export const COMMENT_AUDITOR_ROLES = ["admin", "CEO", "CFO", "COO"];
+
+export interface ThreadComment {
+  id: string;
+  parentCommentId?: string | null;
+  authorId: number;
+  commentType?: string | null;
+  createdAt: Date | string;
+  deletedAt?: Date | string | null;
+}
+
+export type CommentThread<C extends ThreadComment> = C & { replies: CommentThread<C>[] };
+
+/**
+ * Why the user can't edit or delete a comment right now, or null if they can
+ */
+export function getCommentChangeBlocker(
+  comment: ThreadComment,
+  user: { id: number },
+  now: Date = new Date()
+): string | null {
+  if (comment.authorId !== user.id) return "Only the author can change a comment";
+  if (comment.deletedAt) return "This comment has been deleted";
+  if (comment.commentType && comment.commentType !== "general") {
+    return "Comments recorded with an approval decision can't be changed";
+  }
+
+  const ageMinutes = (now.getTime() - new Date(comment.createdAt).getTime()) / (60 * 1000);
+  if (ageMinutes > COMMENT_EDIT_WINDOW_MINUTES) {
+    return `Comments can only be changed within ${COMMENT_EDIT_WINDOW_MINUTES} minutes of posting`;
+  }
+  return null;
+}
+
+/**
+ * Whether a user may read the revision history of comments
+ */
+export function canViewCommentRevisions(user: { role: string }): boolean {
+  return COMMENT_AUDITOR_ROLES.includes(user.role);
+}
+
+/**
+ * Nest comments under their parents, oldest first at every level. Replies
+ * whose parent is missing are shown at the top level.
+ */
+export function buildCommentThreads<C extends ThreadComment>(comments: C[]): CommentThread<C>[] {
+  const nodes = new Map<string, CommentThread<C>>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentThread<C>[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentCommentId ? nodes.get(node.parentCommentId) : undefined;
+    if (parent && parent !== node) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const byDate = (a: ThreadComment, b: ThreadComment) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  const sort = (list: CommentThread<C>[]) => {
+    list.sort(byDate);
+    list.forEach(node => sort(node.replies));
+  };
+  sort(roots);
+
+  return roots;
+}
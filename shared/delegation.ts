@@ -0,0 +1,45 @@
+/**
+ * Approval delegation rules shared by the server and the client.
+ *
+ * A delegation lets a delegate act on stages the delegator could approve,
+ * while it is active, inside its date range and within its optional limits.
+ */
+
+export interface DelegationScope {
+  startsAt: Date | string;
+  endsAt: Date | string;
+  isActive: boolean;
+  workflowTypes?: string[] | null;
+  maxAmount?: string | number | null;
+}
+
+export interface DelegationContext {
+  workflowType: string;
+  amount?: string | number | null;
+  at?: Date;
+}
+
+/**
+ * Check whether a delegation covers a given workflow at a given time
+ */
+export function isDelegationApplicable(delegation: DelegationScope, context: DelegationContext): boolean {
+  if (!delegation.isActive) return false;
+
+  const at = (context.at || new Date()).getTime();
+  if (at < new Date(delegation.startsAt).getTime() || at > new Date(delegation.endsAt).getTime()) {
+    return false;
+  }
+
+  if (delegation.workflowTypes && delegation.workflowTypes.length > 0 && !delegation.workflowTypes.includes(context.workflowType)) {
+    return false;
+  }
+
+  if (delegation.maxAmount !== null && delegation.maxAmount !== undefined && delegation.maxAmount !== "") {
+    const amount = Number(context.amount || 0);
+    if (amount > Number(delegation.maxAmount)) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,73 @@
+/**
+ * Email outbox rules.
+ *
+ * Every email is written to the outbox first and sent by a worker, so a
+ * failed send is retried instead of lost. Retries back off exponentially
+ * (1, 2, 4, 8 ... minutes, capped at 6 hours) until MAX_EMAIL_ATTEMPTS, after
+ * which the message is marked failed and waits for an admin to resend it.
+ */
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sending", "sent", "failed", "cancelled"] as const;
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+export const EMAIL_OUTBOX_STATUS_LABELS: Record<EmailOutboxStatus, string> = {
+  pending: "Pending",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const MAX_EMAIL_ATTEMPTS = 6;
+export const RETRY_BASE_DELAY_MINUTES = 1;
+export const RETRY_MAX_DELAY_MINUTES = 6 * 60;
+
+// A message left "sending" this long was claimed by a worker that died; it is retried
+export const SENDING_TIMEOUT_MINUTES = 10;
+
+/**
+ * How long to wait after the given number of failed attempts
+ */
+export function getRetryDelayMinutes(failedAttempts: number): number {
+  const delay = RETRY_BASE_DELAY_MINUTES * Math.pow(2, Math.max(failedAttempts - 1, 0));
+  return Math.min(delay, RETRY_MAX_DELAY_MINUTES);
+}
+
+/**
+ * What happens to a message after a failed attempt: another try later, or
+ * give up once it has used all its attempts
+ */
+export function planRetry(
+  failedAttempts: number,
+  now: Date = new Date()
+): { status: "pending"; nextAttemptAt: Date } | { status: "failed"; nextAttemptAt: null } {
+  if (failedAttempts >= MAX_EMAIL_ATTEMPTS) {
+    return { status: "failed", nextAttemptAt: null };
+  }
+  return {
+    status: "pending",
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMinutes(failedAttempts) * 60 * 1000),
+  };
+}
+
+/**
+ * Any message that isn't waiting to go out may be sent again
+ */
+export function canResendEmail(status: EmailOutboxStatus): boolean {
+  return status === "sent" || status === "failed" || status === "cancelled";
+}
+
+/**
+ * Only messages that haven't gone out yet may be cancelled
+ */
+export function canCancelEmail(status: EmailOutboxStatus): boolean {
+  return status === "pending" || status === "failed";
+}
+
+/**
+ * Whether a message claimed by a worker has been stuck sending too long
+ */
+export function isSendingStale(claimedAt: Date | string | null, now: Date = new Date()): boolean {
+  if (!claimedAt) return true;
+  return now.getTime() - new Date(claimedAt).getTime() >= SENDING_TIMEOUT_MINUTES * 60 * 1000;
+}
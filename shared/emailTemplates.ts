@@ -0,0 +1,598 @@
+/**
+ * Notification email templates.
+ *
+ * Admins can edit the subject and body of each template, in English and
+ * Bahasa Indonesia; templates they haven't edited use the defaults below.
+ * Bodies are plain text with {{placeholders}}: paragraphs are separated by a
+ * blank line, and the rendered email wraps them in the standard layout with a
+ * "View Workflow" button, so the same template yields the HTML and text parts.
+ * A paragraph whose placeholders are all empty (e.g. "Comments: {{comments}}"
+ * for a decision without comments) is left out.
+ */
+
+export const EMAIL_LANGUAGES = ["en", "id"] as const;
+export type EmailLanguage = (typeof EMAIL_LANGUAGES)[number];
+
+export const EMAIL_LANGUAGE_LABELS: Record<EmailLanguage, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+};
+
+export const DEFAULT_EMAIL_LANGUAGE: EmailLanguage = "en";
+
+export const TEMPLATE_VARIABLES = {
+  recipientName: "Name of the person receiving the email",
+  workflowNumber: "Workflow number, e.g. PR-2026-0012",
+  workflowTitle: "Workflow title",
+  workflowType: "Workflow type (MAF, PR or CATTO)",
+  stageName: "Name of the stage",
+  amount: "Estimated amount with currency",
+  requesterName: "Name of the requester",
+  actorName: "Name of the person who acted",
+  comments: "Comments left with the decision, or the comment the recipient is mentioned in",
+  link: "Link to the workflow (or to My Approvals in reminders)",
+  pendingCount: "Number of workflows waiting for the recipient's approval",
+  digest: "The list of workflows and updates in the reminder",
+  update: "What happened on a watched workflow, e.g. Stage \"Finance Review\" approved",
+  details: "The comment or reason that came with the update",
+  accessUntil: "Date until which a mention gives the recipient read access",
+  slaHours: "Hours the stage may wait before it is escalated",
+  escalationAction: "What the recipient is asked to do about the escalation",
+  scheduleName: "Name of the recurring schedule",
+  scheduleOutcome: "Whether the workflow was submitted or saved as a draft",
+} as const;
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const WORKFLOW_VARIABLES: TemplateVariable[] = [
+  "recipientName", "workflowNumber", "workflowTitle", "workflowType", "amount", "requesterName", "link",
+];
+
+export const EMAIL_TEMPLATE_KEYS = [
+  "workflow_submitted",
+  "stage_approved",
+  "stage_rejected",
+  "workflow_completed",
+  "approval_reminder",
+  "watcher_update",
+  "mention",
+  "stage_escalated",
+  "recurring_workflow_created",
+] as const;
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+export const EMAIL_TEMPLATE_INFO: Record<EmailTemplateKey, {
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+}> = {
+  workflow_submitted: {
+    label: "Workflow submitted",
+    description: "Sent to the requester when their workflow is submitted for approval",
+    variables: WORKFLOW_VARIABLES,
+  },
+  stage_approved: {
+    label: "Stage approved",
+    description: "Sent to the requester when a stage of their workflow is approved",
+    variables: [...WORKFLOW_VARIABLES, "stageName", "actorName", "comments"],
+  },
+  stage_rejected: {
+    label: "Stage rejected",
+    description: "Sent to the requester when a stage of their workflow is rejected",
+    variables: [...WORKFLOW_VARIABLES, "stageName", "actorName", "comments"],
+  },
+  workflow_completed: {
+    label: "Workflow completed",
+    description: "Sent to the requester when every stage of their workflow is approved",
+    variables: WORKFLOW_VARIABLES,
+  },
+  approval_reminder: {
+    label: "Approval reminder",
+    description: "The daily reminder and digest of workflows waiting for the recipient",
+    variables: ["recipientName", "pendingCount", "digest", "link"],
+  },
+  watcher_update: {
+    label: "Watched workflow update",
+    description: "Sent to the watchers of a workflow when a stage moves, a comment is added or the workflow finishes",
+    variables: [...WORKFLOW_VARIABLES, "actorName", "update", "details"],
+  },
+  mention: {
+    label: "Mention",
+    description: "Sent to a user who is @mentioned in a comment",
+    variables: [...WORKFLOW_VARIABLES, "actorName", "comments", "accessUntil"],
+  },
+  stage_escalated: {
+    label: "Stage escalated",
+    description: "Sent to the escalation targets when a stage misses its SLA",
+    variables: [...WORKFLOW_VARIABLES, "stageName", "slaHours", "escalationAction"],
+  },
+  recurring_workflow_created: {
+    label: "Recurring workflow raised",
+    description: "Sent to the owner of a recurring schedule when it raises a workflow",
+    variables: [...WORKFLOW_VARIABLES, "scheduleName", "scheduleOutcome"],
+  },
+};
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, Record<EmailLanguage, EmailTemplateContent>> = {
+  workflow_submitted: {
+    en: {
+      subject: "{{workflowNumber}} submitted: {{workflowTitle}}",
+      body: "Hello {{recipientName}},\n\nYour {{workflowType}} workflow {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}) has been submitted for approval. We will let you know as it moves through each stage.",
+    },
+    id: {
+      subject: "{{workflowNumber}} diajukan: {{workflowTitle}}",
+      body: "Halo {{recipientName}},\n\nWorkflow {{workflowType}} Anda {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}) telah diajukan untuk persetujuan. Kami akan mengabari Anda di setiap tahapnya.",
+    },
+  },
+  stage_approved: {
+    en: {
+      subject: "{{workflowNumber}}: {{stageName}} approved",
+      body: "Hello {{recipientName}},\n\n{{actorName}} approved the {{stageName}} stage of {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}).\n\nComments: {{comments}}",
+    },
+    id: {
+      subject: "{{workflowNumber}}: {{stageName}} disetujui",
+      body: "Halo {{recipientName}},\n\n{{actorName}} menyetujui tahap {{stageName}} pada {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}).\n\nKomentar: {{comments}}",
+    },
+  },
+  stage_rejected: {
+    en: {
+      subject: "{{workflowNumber}}: {{stageName}} rejected",
+      body: "Hello {{recipientName}},\n\n{{actorName}} rejected the {{stageName}} stage of {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}).\n\nComments: {{comments}}",
+    },
+    id: {
+      subject: "{{workflowNumber}}: {{stageName}} ditolak",
+      body: "Halo {{recipientName}},\n\n{{actorName}} menolak tahap {{stageName}} pada {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}).\n\nKomentar: {{comments}}",
+    },
+  },
+  workflow_completed: {
+    en: {
+      subject: "{{workflowNumber}} completed: {{workflowTitle}}",
+      body: "Hello {{recipientName}},\n\nEvery stage of your workflow {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}) has been approved. The workflow is complete.",
+    },
+    id: {
+      subject: "{{workflowNumber}} selesai: {{workflowTitle}}",
+      body: "Halo {{recipientName}},\n\nSemua tahap workflow Anda {{workflowNumber}} \"{{workflowTitle}}\" ({{amount}}) telah disetujui. Workflow ini selesai.",
+    },
+  },
+  approval_reminder: {
+    en: {
+      subject: "Workflow Digest: {{pendingCount}} awaiting your approval",
+      body: "Hello {{recipientName}},\n\nHere is what happened on your workflows. {{pendingCount}} of them are waiting for your approval.\n\n{{digest}}\n\nYou can choose which emails you get, and when, in your notification settings.",
+    },
+    id: {
+      subject: "Ringkasan Workflow: {{pendingCount}} menunggu persetujuan Anda",
+      body: "Halo {{recipientName}},\n\nBerikut perkembangan workflow Anda. {{pendingCount}} di antaranya menunggu persetujuan Anda.\n\n{{digest}}\n\nAnda dapat memilih email yang ingin diterima, dan kapan, di pengaturan notifikasi.",
+    },
+  },
+  watcher_update: {
+    en: {
+      subject: "[{{workflowNumber}}] {{update}}",
+      body: "Hello {{recipientName}},\n\nThere is an update on {{workflowNumber}} \"{{workflowTitle}}\" ({{workflowType}}), which you are watching:\n\n{{update}}\n\n{{details}}\n\nYou receive this because you are watching this workflow. You can stop watching it from the workflow page.",
+    },
+    id: {
+      subject: "[{{workflowNumber}}] {{update}}",
+      body: "Halo {{recipientName}},\n\nAda perkembangan pada {{workflowNumber}} \"{{workflowTitle}}\" ({{workflowType}}) yang Anda pantau:\n\n{{update}}\n\n{{details}}\n\nAnda menerima email ini karena memantau workflow ini. Anda dapat berhenti memantaunya dari halaman workflow.",
+    },
+  },
+  mention: {
+    en: {
+      subject: "{{actorName}} mentioned you on {{workflowNumber}}",
+      body: "Hello {{recipientName}},\n\n{{actorName}} mentioned you in a comment on {{workflowNumber}} \"{{workflowTitle}}\":\n\n{{comments}}\n\nYou have been given read access to this workflow until {{accessUntil}}.",
+    },
+    id: {
+      subject: "{{actorName}} menyebut Anda di {{workflowNumber}}",
+      body: "Halo {{recipientName}},\n\n{{actorName}} menyebut Anda dalam komentar pada {{workflowNumber}} \"{{workflowTitle}}\":\n\n{{comments}}\n\nAnda diberi akses baca ke workflow ini hingga {{accessUntil}}.",
+    },
+  },
+  stage_escalated: {
+    en: {
+      subject: "Escalation: {{workflowTitle}} - {{stageName}} is overdue",
+      body: "Hello {{recipientName}},\n\nThe {{stageName}} stage of {{workflowNumber}} \"{{workflowTitle}}\" ({{workflowType}}) has been waiting for more than {{slaHours}} hours.\n\n{{escalationAction}}",
+    },
+    id: {
+      subject: "Eskalasi: {{workflowTitle}} - {{stageName}} terlambat",
+      body: "Halo {{recipientName}},\n\nTahap {{stageName}} pada {{workflowNumber}} \"{{workflowTitle}}\" ({{workflowType}}) telah menunggu lebih dari {{slaHours}} jam.\n\n{{escalationAction}}",
+    },
+  },
+  recurring_workflow_created: {
+    en: {
+      subject: "Recurring workflow {{workflowNumber}}: {{workflowTitle}}",
+      body: "Hello {{recipientName}},\n\nThe recurring schedule \"{{scheduleName}}\" has created the {{workflowType}} workflow {{workflowNumber}} \"{{workflowTitle}}\" for you.\n\n{{scheduleOutcome}}",
+    },
+    id: {
+      subject: "Workflow berulang {{workflowNumber}}: {{workflowTitle}}",
+      body: "Halo {{recipientName}},\n\nJadwal berulang \"{{scheduleName}}\" telah membuat workflow {{workflowType}} {{workflowNumber}} \"{{workflowTitle}}\" untuk Anda.\n\n{{scheduleOutcome}}",
+    },
+  },
+};
+
+// Text for the escalation and recurring workflow emails' fixed choices
+export const ESCALATION_ACTION_TEXT: Record<"notify" | "add_approver" | "reassign", Record<EmailLanguage, string>> = {
+  notify: {
+    en: "Please follow up with the current approvers.",
+    id: "Mohon tindak lanjuti dengan para penyetuju saat ini.",
+  },
+  add_approver: {
+    en: "You have been added as an approver for this stage.",
+    id: "Anda telah ditambahkan sebagai penyetuju untuk tahap ini.",
+  },
+  reassign: {
+    en: "This stage has been reassigned to you for approval.",
+    id: "Tahap ini telah dialihkan kepada Anda untuk disetujui.",
+  },
+};
+
+export const RECURRING_OUTCOME_TEXT: Record<"submitted" | "draft", Record<EmailLanguage, string>> = {
+  submitted: {
+    en: "It has been submitted for approval automatically.",
+    id: "Workflow ini telah diajukan untuk persetujuan secara otomatis.",
+  },
+  draft: {
+    en: "It has been saved as a draft. Please review it and submit it when ready.",
+    id: "Workflow ini disimpan sebagai draf. Mohon periksa dan ajukan bila sudah siap.",
+  },
+};
+
+/**
+ * One-line descriptions of events, for digests and watcher emails. Digest
+ * items store the key and its values, so each recipient reads them in their
+ * own language when the digest goes out.
+ */
+export const DIGEST_HEADLINE_KEYS = [
+  "approval_required",
+  "approval_required_on_behalf",
+  "review_required",
+  "review_required_on_behalf",
+  "workflow_submitted",
+  "workflow_completed",
+  "workflow_rejected",
+  "workflow_revision_requested",
+  "workflow_cancelled",
+  "workflow_discontinued",
+  "stage_awaiting_approval",
+  "stage_approved",
+  "stage_rejected",
+  "comment_added",
+  "mentioned",
+  "stage_escalated",
+  "recurring_submitted",
+  "recurring_created",
+] as const;
+export type DigestHeadlineKey = (typeof DIGEST_HEADLINE_KEYS)[number];
+
+export const DIGEST_HEADLINES: Record<DigestHeadlineKey, Record<EmailLanguage, string>> = {
+  approval_required: { en: "{{stageName}}: Approval Required", id: "{{stageName}}: Perlu Persetujuan" },
+  approval_required_on_behalf: {
+    en: "{{stageName}}: Approval Required on behalf of {{delegatorName}}",
+    id: "{{stageName}}: Perlu Persetujuan atas nama {{delegatorName}}",
+  },
+  review_required: { en: "{{stageName}}: Review Required", id: "{{stageName}}: Perlu Ditinjau" },
+  review_required_on_behalf: {
+    en: "{{stageName}}: Review Required on behalf of {{delegatorName}}",
+    id: "{{stageName}}: Perlu Ditinjau atas nama {{delegatorName}}",
+  },
+  workflow_submitted: { en: "Workflow submitted for approval", id: "Workflow diajukan untuk persetujuan" },
+  workflow_completed: { en: "Workflow completed", id: "Workflow selesai" },
+  workflow_rejected: { en: "Workflow rejected", id: "Workflow ditolak" },
+  workflow_revision_requested: { en: "Workflow returned for revision", id: "Workflow dikembalikan untuk revisi" },
+  workflow_cancelled: { en: "Workflow cancelled", id: "Workflow dibatalkan" },
+  workflow_discontinued: { en: "Workflow discontinued", id: "Workflow dihentikan" },
+  stage_awaiting_approval: {
+    en: "Stage \"{{stageName}}\" is now awaiting approval",
+    id: "Tahap \"{{stageName}}\" kini menunggu persetujuan",
+  },
+  stage_approved: { en: "Stage \"{{stageName}}\" approved", id: "Tahap \"{{stageName}}\" disetujui" },
+  stage_rejected: { en: "Stage \"{{stageName}}\" rejected", id: "Tahap \"{{stageName}}\" ditolak" },
+  comment_added: { en: "New comment from {{actorName}}", id: "Komentar baru dari {{actorName}}" },
+  mentioned: { en: "{{actorName}} mentioned you", id: "{{actorName}} menyebut Anda" },
+  stage_escalated: {
+    en: "{{stageName}} is past its {{slaHours}}h SLA and was escalated to you",
+    id: "{{stageName}} melewati SLA {{slaHours}} jam dan dieskalasikan kepada Anda",
+  },
+  recurring_submitted: {
+    en: "Recurring schedule \"{{scheduleName}}\" submitted this workflow",
+    id: "Jadwal berulang \"{{scheduleName}}\" mengajukan workflow ini",
+  },
+  recurring_created: {
+    en: "Recurring schedule \"{{scheduleName}}\" created a draft of this workflow",
+    id: "Jadwal berulang \"{{scheduleName}}\" membuat draf workflow ini",
+  },
+};
+
+export interface DigestHeadline {
+  key: DigestHeadlineKey;
+  params?: Record<string, string> | null;
+}
+
+// Layout text around the template body
+const LAYOUT_TEXT: Record<EmailLanguage, { viewButton: string; viewReminder: string; rights: string }> = {
+  en: { viewButton: "View Workflow", viewReminder: "Open My Approvals", rights: "All rights reserved." },
+  id: { viewButton: "Lihat Workflow", viewReminder: "Buka Persetujuan Saya", rights: "Hak cipta dilindungi." },
+};
+
+export const SAMPLE_TEMPLATE_VALUES: Record<EmailLanguage, TemplateValues> = {
+  en: {
+    recipientName: "Budi Santoso",
+    workflowNumber: "PR-2026-0012",
+    workflowTitle: "Office chairs for the Finance team",
+    workflowType: "PR",
+    stageName: "Finance Review",
+    amount: formatEmailAmount(12500000, "IDR", "en"),
+    requesterName: "Budi Santoso",
+    actorName: "Sari Wijaya",
+    comments: "Approved within this quarter's budget.",
+    link: "https://example.com/workflows/sample",
+    pendingCount: "2",
+    update: "Stage \"Finance Review\" approved",
+    details: "Please attach the vendor's quotation.",
+    accessUntil: formatEmailDate(new Date("2026-06-30T00:00:00Z"), "en"),
+    slaHours: "48",
+    escalationAction: ESCALATION_ACTION_TEXT.notify.en,
+    scheduleName: "Monthly office supplies",
+    scheduleOutcome: RECURRING_OUTCOME_TEXT.draft.en,
+  },
+  id: {
+    recipientName: "Budi Santoso",
+    workflowNumber: "PR-2026-0012",
+    workflowTitle: "Kursi kantor untuk tim Finance",
+    workflowType: "PR",
+    stageName: "Finance Review",
+    amount: formatEmailAmount(12500000, "IDR", "id"),
+    requesterName: "Budi Santoso",
+    actorName: "Sari Wijaya",
+    comments: "Disetujui sesuai anggaran kuartal ini.",
+    link: "https://example.com/workflows/sample",
+    pendingCount: "2",
+    update: "Tahap \"Finance Review\" disetujui",
+    details: "Mohon lampirkan penawaran dari vendor.",
+    accessUntil: formatEmailDate(new Date("2026-06-30T00:00:00Z"), "id"),
+    slaHours: "48",
+    escalationAction: ESCALATION_ACTION_TEXT.notify.id,
+    scheduleName: "Perlengkapan kantor bulanan",
+    scheduleOutcome: RECURRING_OUTCOME_TEXT.draft.id,
+  },
+};
+
+// A rendered block (such as the reminder's digest) with its HTML and text forms
+export interface TemplateBlock {
+  html: string;
+  text: string;
+}
+
+export interface DigestBlockSection {
+  workflowNumber: string | null;
+  workflowTitle: string | null;
+  workflowUrl: string | null;
+  entries: { headline: DigestHeadline; details?: string | null }[];
+}
+
+export const SAMPLE_DIGEST_SECTIONS: Record<EmailLanguage, DigestBlockSection[]> = {
+  en: [
+    {
+      workflowNumber: "PR-2026-0012",
+      workflowTitle: "Office chairs for the Finance team",
+      workflowUrl: "https://example.com/workflows/sample",
+      entries: [{ headline: { key: "approval_required", params: { stageName: "Finance Review" } } }],
+    },
+    {
+      workflowNumber: "MAF-2026-0040",
+      workflowTitle: "Booth for the trade show",
+      workflowUrl: "https://example.com/workflows/sample-2",
+      entries: [{ headline: { key: "stage_approved", params: { stageName: "GA Review" } } }],
+    },
+  ],
+  id: [
+    {
+      workflowNumber: "PR-2026-0012",
+      workflowTitle: "Kursi kantor untuk tim Finance",
+      workflowUrl: "https://example.com/workflows/sample",
+      entries: [{ headline: { key: "approval_required", params: { stageName: "Finance Review" } } }],
+    },
+    {
+      workflowNumber: "MAF-2026-0040",
+      workflowTitle: "Booth pameran dagang",
+      workflowUrl: "https://example.com/workflows/sample-2",
+      entries: [{ headline: { key: "stage_approved", params: { stageName: "GA Review" } } }],
+    },
+  ],
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Replace {{placeholders}} with their values; placeholders without a value
+ * become empty
+ */
+export function fillPlaceholders(
+  text: string,
+  values: Record<string, string | undefined>,
+  format: (value: string, name: string) => string = value => value
+): string {
+  return text.replace(PLACEHOLDER, (_, name: string) => {
+    const value = values[name];
+    return value === undefined ? "" : format(value, name);
+  });
+}
+
+/**
+ * Placeholders in a template that its email doesn't provide
+ */
+export function findUnknownPlaceholders(key: EmailTemplateKey, text: string): string[] {
+  const allowed: string[] = EMAIL_TEMPLATE_INFO[key].variables;
+  const unknown = new Set<string>();
+  for (const match of Array.from(text.matchAll(PLACEHOLDER))) {
+    if (!allowed.includes(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * The template to use: the admin's version in the language, else the default
+ * in the language
+ */
+export function resolveEmailTemplate(
+  key: EmailTemplateKey,
+  language: EmailLanguage,
+  stored: { templateKey: string; language: string; subject: string; body: string }[]
+): EmailTemplateContent & { isCustom: boolean } {
+  const custom = stored.find(t => t.templateKey === key && t.language === language);
+  if (custom) return { subject: custom.subject, body: custom.body, isCustom: true };
+  return { ...DEFAULT_EMAIL_TEMPLATES[key][language], isCustom: false };
+}
+
+export function formatEmailAmount(
+  amount: number | string | null | undefined,
+  currency: string | null | undefined,
+  language: EmailLanguage
+): string {
+  if (amount === null || amount === undefined || amount === "") {
+    return language === "id" ? "tanpa nominal" : "no amount";
+  }
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  const locale = language === "id" ? "id-ID" : "en-US";
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency || "IDR",
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    // Unknown currency code
+    return `${currency || ""} ${value.toLocaleString(locale)}`.trim();
+  }
+}
+
+export function formatEmailDate(date: Date, language: EmailLanguage): string {
+  return date.toLocaleDateString(language === "id" ? "id-ID" : "en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+/**
+ * A digest headline in the language
+ */
+export function renderDigestHeadline(headline: DigestHeadline, language: EmailLanguage): string {
+  return fillPlaceholders(DIGEST_HEADLINES[headline.key][language], headline.params || {});
+}
+
+/**
+ * The reminder's list of workflows, one box per workflow
+ */
+export function renderDigestBlock(sections: DigestBlockSection[], language: EmailLanguage): TemplateBlock {
+  const heading = (section: DigestBlockSection) =>
+    section.workflowTitle ? `${section.workflowNumber ? `${section.workflowNumber} · ` : ""}${section.workflowTitle}` : "";
+
+  const html = sections.map(section => `
+    <div style="background: #f9fafb; padding: 16px 20px; border-radius: 8px; margin: 16px 0;">
+      ${heading(section) ? `<p style="margin: 0 0 8px 0; font-weight: 600;">${escapeHtml(heading(section))}</p>` : ""}
+      <ul style="margin: 0; padding-left: 20px;">
+        ${section.entries.map(entry => `<li>${escapeHtml(renderDigestHeadline(entry.headline, language))}${entry.details ? `<br><span style="color: #6b7280; white-space: pre-wrap;">${escapeHtml(entry.details)}</span>` : ""}</li>`).join("")}
+      </ul>
+      ${section.workflowUrl ? `<p style="margin: 8px 0 0 0;"><a href="${escapeHtml(section.workflowUrl)}" style="color: #667eea;">${LAYOUT_TEXT[language].viewButton}</a></p>` : ""}
+    </div>`).join("");
+
+  const text = sections.map(section => [
+    heading(section),
+    ...section.entries.map(entry => `- ${renderDigestHeadline(entry.headline, language)}${entry.details ? `\n  ${entry.details}` : ""}`),
+    section.workflowUrl ? `${LAYOUT_TEXT[language].viewButton}: ${section.workflowUrl}` : "",
+  ].filter(Boolean).join("\n")).join("\n\n");
+
+  return { html, text };
+}
+
+/**
+ * Whether a paragraph has placeholders and none of them has a value
+ */
+function hasOnlyEmptyPlaceholders(paragraph: string, values: Record<string, string | undefined>): boolean {
+  const names = Array.from(paragraph.matchAll(PLACEHOLDER)).map(match => match[1]);
+  return names.length > 0 && names.every(name => !values[name]);
+}
+
+/**
+ * Render a template into a complete email
+ */
+export function renderEmail(
+  key: EmailTemplateKey,
+  template: EmailTemplateContent,
+  values: TemplateValues,
+  language: EmailLanguage,
+  blocks: Partial<Record<TemplateVariable, TemplateBlock>> = {}
+): { subject: string; htmlBody: string; textBody: string } {
+  const layout = LAYOUT_TEXT[language];
+  const textValues: Record<string, string | undefined> = { ...values };
+  for (const [name, block] of Object.entries(blocks)) textValues[name] = block?.text;
+
+  const subject = fillPlaceholders(template.subject, values).replace(/\s+/g, " ").trim();
+  const paragraphs = template.body
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p && !hasOnlyEmptyPlaceholders(p, textValues));
+
+  const htmlParagraphs = paragraphs.map(paragraph => {
+    // A paragraph holding only a block placeholder becomes the block's HTML
+    const blockName = paragraph.match(/^\{\{\s*(\w+)\s*\}\}$/)?.[1] as TemplateVariable | undefined;
+    const block = blockName ? blocks[blockName] : undefined;
+    if (block) return `<div style="margin: 16px 0;">${block.html}</div>`;
+
+    const html = fillPlaceholders(escapeHtml(paragraph), textValues, (value, name) =>
+      name === "link"
+        ? `<a href="${escapeHtml(value)}" style="color: #667eea;">${escapeHtml(value)}</a>`
+        : escapeHtml(value)
+    );
+    return `<p>${html.replace(/\n/g, "<br>")}</p>`;
+  });
+
+  const buttonLabel = key === "approval_reminder" ? layout.viewReminder : layout.viewButton;
+  const year = new Date().getFullYear();
+
+  const htmlBody = `
+<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 22px;">${escapeHtml(subject)}</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none;">
+    ${htmlParagraphs.join("\n    ")}
+    ${values.link ? `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${escapeHtml(values.link)}" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600;">${buttonLabel}</a>
+    </div>` : ""}
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #6b7280; font-size: 14px;">
+    <p>© ${year} Compawnion. ${layout.rights}</p>
+  </div>
+</body>
+</html>
+  `;
+
+  const textBody = [
+    paragraphs.map(paragraph => fillPlaceholders(paragraph, textValues)).join("\n\n"),
+    values.link ? `${buttonLabel}: ${values.link}` : "",
+    `---\n© ${year} Compawnion. ${layout.rights}`,
+  ].filter(Boolean).join("\n\n");
+
+  return { subject, htmlBody, textBody };
+}
@@ -0,0 +1,116 @@
+/**
+ * @mentions in workflow comments.
+ *
+ * The comment box inserts mentions as `@[Full Name](userId)` so they survive
+ * renames and duplicate names; they are shown as "@Full Name". A mentioned
+ * user who cannot see the workflow gets temporary read access to it.
+ */
+
+export const MENTION_ACCESS_DAYS = 14;
+
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\((\d+)\)/g;
+
+// "@" at the start of the text or after whitespace, followed by the query typed so far
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@[\]()]{0,30})$/;
+
+export type CommentSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; userId: number; name: string };
+
+export interface MentionCandidate {
+  id: number;
+  fullName: string | null;
+  email: string;
+}
+
+/**
+ * The markup for mentioning a user
+ */
+export function formatMention(user: { id: number; name: string }): string {
+  return `@[${user.name.replace(/[\[\]\n]/g, "")}](${user.id})`;
+}
+
+/**
+ * Ids of the users mentioned in a comment, without duplicates
+ */
+export function extractMentionIds(text: string): number[] {
+  const ids = Array.from(text.matchAll(MENTION_PATTERN), match => parseInt(match[2], 10));
+  return ids.filter((id, i) => ids.indexOf(id) === i);
+}
+
+/**
+ * Split a comment into plain text and mentions for display
+ */
+export function splitMentions(text: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    const at = match.index ?? 0;
+    if (at > last) segments.push({ type: "text", text: text.slice(last, at) });
+    segments.push({ type: "mention", userId: parseInt(match[2], 10), name: match[1] });
+    last = at + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: "text", text: text.slice(last) });
+
+  return segments;
+}
+
+/**
+ * A comment as plain text, with mentions written as "@Full Name" (for emails and search)
+ */
+export function mentionsToPlainText(text: string): string {
+  return text.replace(MENTION_PATTERN, (_, name: string) => `@${name}`);
+}
+
+/**
+ * The mention being typed just before the caret, if any, and where its "@" starts
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+/**
+ * Replace the mention being typed with the markup for `user`, returning the new text and caret
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  user: { id: number; name: string }
+): { text: string; caret: number } {
+  const mention = `${formatMention(user)} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
+
+/**
+ * Users whose name or email matches what was typed after "@", prefix matches first
+ */
+export function findMentionCandidates<U extends MentionCandidate>(users: U[], query: string, limit = 8): U[] {
+  const q = query.toLowerCase();
+  const scored = users
+    .map(user => {
+      const name = (user.fullName || "").toLowerCase();
+      const email = user.email.toLowerCase();
+      const score = name.startsWith(q) || email.startsWith(q) ? 0 : name.includes(q) || email.includes(q) ? 1 : -1;
+      return { user, score };
+    })
+    .filter(entry => entry.score >= 0);
+
+  return scored
+    .sort((a, b) => a.score - b.score || (a.user.fullName || a.user.email).localeCompare(b.user.fullName || b.user.email))
+    .slice(0, limit)
+    .map(entry => entry.user);
+}
+
+/**
+ * Until when a mention gives read access to someone who otherwise has none
+ */
+export function getMentionAccessExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + MENTION_ACCESS_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,178 @@
+/**
+ * Per-user email preferences.
+ *
+ * Each kind of email can be sent immediately, held for a daily or weekly
+ * digest, or switched off. Immediate emails that fall in the user's quiet
+ * hours are held until the quiet hours end, and digests are never sent during
+ * them. Users without a saved preference fall back to their email recipient
+ * entry's `notificationTypes` when it lists any, and otherwise get everything
+ * immediately.
+ */
+
+import { DEFAULT_TIMEZONE, getNextRun, getZonedParts } from "./recurringSchedule";
+
+export const NOTIFICATION_EVENT_TYPES = [
+  "approval_request", // Stages waiting for the user's approval (the daily reminder)
+  "mention",
+  "workflow_update", // Updates on watched workflows
+  "sla_escalation",
+  "recurring_workflow",
+  "own_workflow", // Progress on workflows the user requested
+] as const;
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, { label: string; description: string }> = {
+  approval_request: { label: "Approval requests", description: "Workflows waiting for your approval" },
+  mention: { label: "Mentions", description: "Someone @mentions you in a comment" },
+  workflow_update: { label: "Watched workflows", description: "Progress on workflows you watch" },
+  sla_escalation: { label: "SLA escalations", description: "Stages escalated to you after missing their deadline" },
+  recurring_workflow: { label: "Recurring workflows", description: "A recurring schedule raised a workflow for you" },
+  own_workflow: { label: "My workflows", description: "Your workflows are submitted, approved, rejected or completed" },
+};
+
+export const DELIVERY_MODES = ["immediate", "daily_digest", "weekly_digest", "off"] as const;
+export type DeliveryMode = (typeof DELIVERY_MODES)[number];
+
+// Digests go out at 8 AM local time, like the daily reminders; weekly ones on Monday
+export const DIGEST_HOUR = 8;
+export const WEEKLY_DIGEST_WEEKDAY = 1;
+
+export interface DeliverySettings {
+  mode: DeliveryMode;
+  // Whole hours in the user's time zone; no quiet hours when either is null or they are equal
+  quietHoursStart?: number | null;
+  quietHoursEnd?: number | null;
+  timezone?: string | null;
+}
+
+export type DeliveryPlan =
+  | { action: "send" }
+  | { action: "queue"; deliverAt: Date }
+  | { action: "skip" };
+
+/**
+ * The mode a user has chosen for an event type
+ */
+export function resolveDeliveryMode(
+  eventType: NotificationEventType,
+  preferences: { eventType: string; mode: DeliveryMode }[],
+  recipientTypes?: string[] | null
+): DeliveryMode {
+  const preference = preferences.find(p => p.eventType === eventType);
+  if (preference) return preference.mode;
+  if (recipientTypes && recipientTypes.length > 0) {
+    return recipientTypes.includes(eventType) ? "immediate" : "off";
+  }
+  return "immediate";
+}
+
+function hasQuietHours(settings: DeliverySettings): boolean {
+  return (
+    settings.quietHoursStart != null &&
+    settings.quietHoursEnd != null &&
+    settings.quietHoursStart !== settings.quietHoursEnd
+  );
+}
+
+/**
+ * Whether an instant falls in the user's quiet hours (which may run past midnight)
+ */
+export function isInQuietHours(settings: DeliverySettings, at: Date): boolean {
+  if (!hasQuietHours(settings)) return false;
+
+  const { hour } = getZonedParts(at, settings.timezone || DEFAULT_TIMEZONE);
+  const start = settings.quietHoursStart!;
+  const end = settings.quietHoursEnd!;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Move an instant out of the user's quiet hours, to the moment they end
+ */
+function afterQuietHours(settings: DeliverySettings, at: Date): Date {
+  if (!isInQuietHours(settings, at)) return at;
+  const timezone = settings.timezone || DEFAULT_TIMEZONE;
+  return getNextRun(`0 ${settings.quietHoursEnd} * * *`, at, timezone) || at;
+}
+
+/**
+ * Whether to send an email now, hold it until a later time, or drop it
+ */
+export function planDelivery(settings: DeliverySettings, now: Date = new Date()): DeliveryPlan {
+  const timezone = settings.timezone || DEFAULT_TIMEZONE;
+
+  switch (settings.mode) {
+    case "off":
+      return { action: "skip" };
+    case "immediate":
+      return isInQuietHours(settings, now)
+        ? { action: "queue", deliverAt: afterQuietHours(settings, now) }
+        : { action: "send" };
+    case "daily_digest":
+    case "weekly_digest": {
+      const weekday = settings.mode === "weekly_digest" ? String(WEEKLY_DIGEST_WEEKDAY) : "*";
+      const digestAt = getNextRun(`0 ${DIGEST_HOUR} * * ${weekday}`, now, timezone) || now;
+      return { action: "queue", deliverAt: afterQuietHours(settings, digestAt) };
+    }
+  }
+}
+
+export interface DigestEntry {
+  eventType: string;
+  workflowId?: string | null;
+  workflowNumber?: string | null;
+  workflowTitle?: string | null;
+  headlineKey: string;
+  headlineParams?: Record<string, string> | null;
+  details?: string | null;
+  createdAt: Date | string;
+}
+
+export interface DigestSection<E extends DigestEntry> {
+  workflowId: string | null;
+  workflowNumber: string | null;
+  workflowTitle: string | null;
+  entries: E[];
+}
+
+/**
+ * Group digest entries by workflow, approval requests first and otherwise oldest
+ * first. A workflow that was reminded about repeatedly appears once.
+ */
+export function buildDigestSections<E extends DigestEntry>(entries: E[]): DigestSection<E>[] {
+  const byDate = (a: DigestEntry, b: DigestEntry) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  // Keep only the latest reminder per workflow and stage
+  const latest = new Map<string, E>();
+  const others: E[] = [];
+  for (const entry of [...entries].sort(byDate)) {
+    if (entry.eventType === "approval_request") {
+      latest.set(`${entry.workflowId}|${entry.headlineKey}|${JSON.stringify(entry.headlineParams || {})}`, entry);
+    } else {
+      others.push(entry);
+    }
+  }
+
+  const sections = new Map<string, DigestSection<E>>();
+  for (const entry of [...Array.from(latest.values()), ...others]) {
+    const key = entry.workflowId || "";
+    let section = sections.get(key);
+    if (!section) {
+      section = {
+        workflowId: entry.workflowId || null,
+        workflowNumber: entry.workflowNumber || null,
+        workflowTitle: entry.workflowTitle || null,
+        entries: [],
+      };
+      sections.set(key, section);
+    }
+    section.entries.push(entry);
+  }
+
+  const hasRequest = (section: DigestSection<E>) => section.entries.some(e => e.eventType === "approval_request");
+  return Array.from(sections.values()).sort((a, b) => {
+    if (hasRequest(a) !== hasRequest(b)) return hasRequest(a) ? -1 : 1;
+    return byDate(a.entries[0], b.entries[0]);
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * In-app notifications.
+ *
+ * A notification is written for each user affected by an event: a stage
+ * waiting for their approval, a decision on their request, a comment on a
+ * workflow they take part in, an @mention or a missed SLA. The person who
+ * caused the event is never notified about it.
+ */
+
+export const NOTIFICATION_TYPES = [
+  "stage_assigned",
+  "stage_approved",
+  "stage_rejected",
+  "comment",
+  "mention",
+  "sla_breach",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  stage_assigned: "Awaiting your approval",
+  stage_approved: "Stage approved",
+  stage_rejected: "Stage rejected",
+  comment: "New comment",
+  mention: "Mentioned you",
+  sla_breach: "SLA breached",
+};
+
+// Notifications shown in the dropdown
+export const NOTIFICATION_LIST_LIMIT = 20;
+
+/**
+ * Unique recipients for an event, leaving out `excludeUserIds` (typically the
+ * person who caused it)
+ */
+export function getNotificationRecipients(
+  userIds: (number | null | undefined)[],
+  excludeUserIds: number[] = []
+): number[] {
+  const recipients = new Set<number>();
+  for (const userId of userIds) {
+    if (userId && !excludeUserIds.includes(userId)) recipients.add(userId);
+  }
+  return Array.from(recipients);
+}
+
+/**
+ * Who hears about a new comment: the requester and, for a reply, the author of
+ * the comment replied to. Mentioned users get a mention notification instead.
+ */
+export function getCommentNotificationRecipients(comment: {
+  authorId: number;
+  requesterId: number;
+  parentAuthorId?: number | null;
+  mentionedUserIds?: number[];
+}): number[] {
+  return getNotificationRecipients(
+    [comment.requesterId, comment.parentAuthorId],
+    [comment.authorId, ...(comment.mentionedUserIds || [])]
+  );
+}
+
+/**
+ * Badge text for the unread count, or null when there is nothing unread
+ */
+export function formatUnreadCount(count: number): string | null {
+  if (count <= 0) return null;
+  return count > 9 ? "9+" : String(count);
+}
@@ -0,0 +1,206 @@
+/**
+ * Cron-like schedules for recurring workflow definitions.
+ *
+ * Expressions use the usual five fields (minute hour day-of-month month day-of-week),
+ * each a "*", a number, a range ("1-5"), a list ("1,15") or a step ("*\/15", "0-30/10").
+ * Day-of-week runs from 0 (Sunday) to 6; 7 is accepted as Sunday too. As in cron,
+ * when both day fields are restricted a date matching either of them is due.
+ */
+
+export const DEFAULT_TIMEZONE = "Asia/Jakarta";
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+  year: number;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseField(value: string, field: (typeof FIELDS)[number]): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : Number(to);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      result.add(n);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a five-field cron expression; throws with a readable message when invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error("A schedule needs five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "";
+
+  return {
+    minute: Number(get("minute")),
+    hour: Number(get("hour")),
+    day: Number(get("day")),
+    month: Number(get("month")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    year: Number(get("year")),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeek = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first minute strictly after `after` at which the schedule is due, or null
+ * if there is none within the search window
+ */
+export function getNextRun(
+  expression: string,
+  after: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  maxDays = 366
+): Date | null {
+  const schedule = parseCron(expression);
+  const limit = after.getTime() + maxDays * 24 * 60 * 60 * 1000;
+
+  // Start at the next whole minute
+  let candidate = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  while (candidate <= limit) {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+
+    // Skip ahead to the next day/hour/minute boundary when a coarser field doesn't match
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      candidate += ((23 - parts.hour) * 60 + (60 - parts.minute)) * 60000;
+    } else if (!schedule.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * 60000;
+    } else if (!schedule.minutes.has(parts.minute)) {
+      candidate += 60000;
+    } else {
+      return new Date(candidate);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a scheduled run has come due since the schedule was last run or changed
+ */
+export function isRunDue(
+  expression: string,
+  timeZone: string,
+  since: Date,
+  now: Date = new Date()
+): boolean {
+  const next = getNextRun(expression, since, timeZone);
+  return !!next && next <= now;
+}
+
+/**
+ * Fill in date placeholders in a recurring workflow title, e.g.
+ * "Consumables PR {month} {year}" or "Budget request {year} Q{quarter}"
+ */
+export function renderRecurringTitle(title: string, runAt: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const parts = getZonedParts(runAt, timeZone);
+  const monthName = new Intl.DateTimeFormat("en-US", { timeZone, month: "long" }).format(runAt);
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return title
+    .replace(/\{date\}/g, `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`)
+    .replace(/\{month\}/g, monthName)
+    .replace(/\{year\}/g, String(parts.year))
+    .replace(/\{quarter\}/g, String(Math.ceil(parts.month / 3)));
+}
@@ -0,0 +1,101 @@
+/**
+ * Saved workflow list views: named filters, sort and visible columns that a
+ * user keeps for themselves or shares with a department.
+ */
+
+import {
+  DEFAULT_WORKFLOW_FILTERS,
+  SORT_DIRECTIONS,
+  WORKFLOW_SORT_FIELDS,
+  type SortDirection,
+  type WorkflowListFilters,
+  type WorkflowSortField,
+} from "./workflowListFilters";
+
+export const SAVED_VIEW_VISIBILITIES = ["private", "department"] as const;
+export type SavedViewVisibility = (typeof SAVED_VIEW_VISIBILITIES)[number];
+
+// Optional details shown for each workflow in the list
+export const WORKFLOW_LIST_COLUMNS = ["department", "requester", "amount", "createdAt", "updatedAt"] as const;
+export type WorkflowListColumn = (typeof WORKFLOW_LIST_COLUMNS)[number];
+
+export const DEFAULT_VISIBLE_COLUMNS: WorkflowListColumn[] = ["department", "amount", "createdAt"];
+
+export const WORKFLOW_LIST_COLUMN_LABELS: Record<WorkflowListColumn, string> = {
+  department: "Department",
+  requester: "Requester",
+  amount: "Amount",
+  createdAt: "Created",
+  updatedAt: "Last Updated",
+};
+
+// The filters a view stores; sort is kept alongside, paging never is
+export type SavedViewFilters = Omit<WorkflowListFilters, "page" | "sortBy" | "sortDirection">;
+
+export interface SavedViewAccess {
+  ownerId: number;
+  visibility: SavedViewVisibility;
+  department: string | null;
+}
+
+export interface SavedViewUser {
+  id: number;
+  role: string;
+  department?: string | null;
+}
+
+/**
+ * Whether a user may open a view: their own, or one shared with their department
+ */
+export function canUseSavedView(view: SavedViewAccess, user: SavedViewUser): boolean {
+  if (view.ownerId === user.id || user.role === "admin") return true;
+  return view.visibility === "department" && !!view.department && view.department === user.department;
+}
+
+/**
+ * Whether a user may change or delete a view
+ */
+export function canManageSavedView(view: SavedViewAccess, user: SavedViewUser): boolean {
+  return view.ownerId === user.id || user.role === "admin";
+}
+
+/**
+ * Whether a user may share a view with the given department; only admins
+ * can publish to departments other than their own
+ */
+export function canShareWithDepartment(department: string, user: SavedViewUser): boolean {
+  return user.role === "admin" || department === user.department;
+}
+
+/**
+ * The list filters and sort a stored view selects, with defaults for
+ * anything missing or no longer valid
+ */
+export function getSavedViewFilters(view: {
+  filters: Record<string, string>;
+  sortBy: string;
+  sortDirection: string;
+}): Omit<WorkflowListFilters, "page"> {
+  const { page, ...defaults } = DEFAULT_WORKFLOW_FILTERS;
+  const filters = { ...defaults };
+  for (const key of Object.keys(filters) as (keyof SavedViewFilters)[]) {
+    if (typeof view.filters[key] === "string") filters[key] = view.filters[key];
+  }
+
+  return {
+    ...filters,
+    sortBy: WORKFLOW_SORT_FIELDS.includes(view.sortBy as WorkflowSortField)
+      ? (view.sortBy as WorkflowSortField)
+      : defaults.sortBy,
+    sortDirection: SORT_DIRECTIONS.includes(view.sortDirection as SortDirection)
+      ? (view.sortDirection as SortDirection)
+      : defaults.sortDirection,
+  };
+}
+
+/**
+ * The visible columns a stored view lists, ignoring unknown ones
+ */
+export function getSavedViewColumns(visibleColumns: string[]): WorkflowListColumn[] {
+  return WORKFLOW_LIST_COLUMNS.filter(column => visibleColumns.includes(column));
+}
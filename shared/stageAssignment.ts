@@ -0,0 +1,54 @@
+/**
+ * How the named assignee of a stage is chosen when a workflow is created.
+ *
+ * - "role": nobody is assigned; everyone with the stage's role can act (the original behaviour)
+ * - "fixed": the user set on the template stage
+ * - "requester": the requester picks one of the users holding the role
+ * - "round_robin": rotates through the users holding the role
+ * - "least_loaded": the user holding the role with the fewest open assigned stages
+ *
+ * Stages that need more than one approval are never assigned to a single user.
+ */
+
+export const ASSIGNMENT_MODES = ["role", "fixed", "requester", "round_robin", "least_loaded"] as const;
+export type AssignmentMode = (typeof ASSIGNMENT_MODES)[number];
+
+export interface AssignableStage {
+  assignmentMode?: AssignmentMode | null;
+  minApprovals?: number | null;
+}
+
+/**
+ * Whether a stage gets a named assignee at all
+ */
+export function usesNamedAssignee(stage: AssignableStage): boolean {
+  return !!stage.assignmentMode && stage.assignmentMode !== "role" && (stage.minApprovals || 1) <= 1;
+}
+
+/**
+ * The next candidate after the previously assigned user, in id order
+ */
+export function pickRoundRobin(candidateIds: number[], lastAssigneeId: number | null): number | null {
+  if (candidateIds.length === 0) return null;
+  const sorted = [...candidateIds].sort((a, b) => a - b);
+  if (lastAssigneeId === null) return sorted[0];
+  return sorted.find(id => id > lastAssigneeId) ?? sorted[0];
+}
+
+/**
+ * The candidate with the fewest open assigned stages (lowest id on ties)
+ */
+export function pickLeastLoaded(candidateIds: number[], openCounts: Map<number, number>): number | null {
+  let picked: number | null = null;
+  let pickedCount = Infinity;
+
+  for (const id of [...candidateIds].sort((a, b) => a - b)) {
+    const count = openCounts.get(id) || 0;
+    if (count < pickedCount) {
+      picked = id;
+      pickedCount = count;
+    }
+  }
+
+  return picked;
+}
@@ -0,0 +1,101 @@
+/**
+ * Quorum rules for stages that need more than one approver.
+ *
+ * A stage completes once `minApprovals` distinct approvers have approved it.
+ * What a rejection does depends on the stage's `rejectionPolicy`:
+ * - "any": a single rejection rejects the stage (the original behaviour)
+ * - "quorum_unreachable": the stage is only rejected once there are not
+ *   enough eligible approvers left to reach the quorum
+ */
+
+export const REJECTION_POLICIES = ["any", "quorum_unreachable"] as const;
+export type RejectionPolicy = (typeof REJECTION_POLICIES)[number];
+
+export interface QuorumStage {
+  requiredRole?: string | null;
+  requiresOneOf?: string[] | null;
+  minApprovals?: number | null;
+  rejectionPolicy?: RejectionPolicy | null;
+  startedAt?: Date | string | null;
+}
+
+export interface QuorumVote {
+  approverId: number;
+  onBehalfOfId?: number | null;
+  action: string;
+  createdAt: Date | string;
+}
+
+export interface QuorumResult {
+  required: number;
+  approvedCount: number;
+  rejectedCount: number;
+  outcome: "approved" | "rejected" | "pending";
+}
+
+/**
+ * Roles allowed to act on a stage (empty means any role)
+ */
+export function getStageApproverRoles(stage: QuorumStage): string[] {
+  if (stage.requiresOneOf && stage.requiresOneOf.length > 0) {
+    return stage.requiresOneOf;
+  }
+  return stage.requiredRole ? [stage.requiredRole] : [];
+}
+
+/**
+ * The user a vote counts for: the delegator when cast by a delegate
+ */
+export function getVoterId(vote: QuorumVote): number {
+  return vote.onBehalfOfId ?? vote.approverId;
+}
+
+/**
+ * Approve/reject votes cast since the stage was last started,
+ * keeping only the latest vote of each approver
+ */
+export function getCurrentVotes<T extends QuorumVote>(stage: QuorumStage, approvals: T[]): T[] {
+  const startedAt = stage.startedAt ? new Date(stage.startedAt).getTime() : 0;
+  const latestByApprover = new Map<number, T>();
+
+  for (const approval of approvals) {
+    if (approval.action !== "approved" && approval.action !== "rejected") continue;
+    const castAt = new Date(approval.createdAt).getTime();
+    if (castAt < startedAt) continue;
+
+    const voterId = getVoterId(approval);
+    const existing = latestByApprover.get(voterId);
+    if (!existing || new Date(existing.createdAt).getTime() <= castAt) {
+      latestByApprover.set(voterId, approval);
+    }
+  }
+
+  return Array.from(latestByApprover.values());
+}
+
+/**
+ * Decide whether the current votes complete, reject or keep the stage open.
+ * `eligibleApproverCount` is the number of users who may still vote on the stage.
+ */
+export function evaluateQuorum(
+  stage: QuorumStage,
+  votes: QuorumVote[],
+  eligibleApproverCount: number
+): QuorumResult {
+  const required = Math.max(1, stage.minApprovals || 1);
+  const approvedCount = votes.filter(v => v.action === "approved").length;
+  const rejectedCount = votes.filter(v => v.action === "rejected").length;
+
+  let outcome: QuorumResult["outcome"] = "pending";
+  if (approvedCount >= required) {
+    outcome = "approved";
+  } else if (rejectedCount > 0) {
+    const policy = stage.rejectionPolicy || "any";
+    const stillPossible = Math.max(eligibleApproverCount, approvedCount + rejectedCount) - rejectedCount;
+    if (policy === "any" || stillPossible < required) {
+      outcome = "rejected";
+    }
+  }
+
+  return { required, approvedCount, rejectedCount, outcome };
+}
@@ -0,0 +1,96 @@
+/**
+ * Stage routing helpers shared by the server and the client.
+ *
+ * Stages are ordered by `stageOrder`. Consecutive stages that share the same
+ * `parallelGroup` form a single step: every stage in the step starts together
+ * and the workflow only moves on once all of them are finished (join).
+ * Stages without a group are a step of their own.
+ */
+
+export interface RoutableStage {
+  id: string;
+  stageOrder: number;
+  status: string;
+  parallelGroup?: string | null;
+}
+
+const FINISHED_STATUSES = ["completed", "skipped"];
+
+export function isStageFinished(stage: RoutableStage): boolean {
+  return FINISHED_STATUSES.includes(stage.status);
+}
+
+/**
+ * Group ordered stages into execution steps
+ */
+export function groupStagesIntoSteps<T extends RoutableStage>(stages: T[]): T[][] {
+  const sorted = [...stages].sort((a, b) => a.stageOrder - b.stageOrder);
+  const steps: T[][] = [];
+
+  for (const stage of sorted) {
+    const currentStep = steps[steps.length - 1];
+    const previous = currentStep?.[currentStep.length - 1];
+
+    if (previous && stage.parallelGroup && previous.parallelGroup === stage.parallelGroup) {
+      currentStep.push(stage);
+    } else {
+      steps.push([stage]);
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Get the first step that still has unfinished stages
+ */
+export function getFirstOpenStep<T extends RoutableStage>(stages: T[]): T[] | null {
+  const steps = groupStagesIntoSteps(stages);
+  return steps.find(step => !step.every(isStageFinished)) || null;
+}
+
+/**
+ * Work out what happens after a stage has been completed.
+ * `stages` must already reflect the completed status of `completedStageId`.
+ */
+export function resolveNextStages<T extends RoutableStage>(
+  stages: T[],
+  completedStageId: string
+): { stagesToStart: T[]; workflowCompleted: boolean } {
+  const steps = groupStagesIntoSteps(stages);
+  const stepIndex = steps.findIndex(step => step.some(s => s.id === completedStageId));
+
+  if (stepIndex === -1) {
+    return { stagesToStart: [], workflowCompleted: false };
+  }
+
+  // Wait for the remaining branches of a parallel group
+  if (!steps[stepIndex].every(isStageFinished)) {
+    return { stagesToStart: [], workflowCompleted: false };
+  }
+
+  const nextStep = steps.slice(stepIndex + 1).find(step => !step.every(isStageFinished));
+  if (!nextStep) {
+    return { stagesToStart: [], workflowCompleted: true };
+  }
+
+  return {
+    stagesToStart: nextStep.filter(s => s.status === "pending"),
+    workflowCompleted: false,
+  };
+}
+
+/**
+ * Stages to reopen when a workflow is sent back to `fromStageId`:
+ * the whole step containing it (so parallel branches re-approve) and every later step.
+ */
+export function getStagesToReopen<T extends RoutableStage>(stages: T[], fromStageId: string): T[] {
+  const steps = groupStagesIntoSteps(stages);
+  const stepIndex = steps.findIndex(step => step.some(s => s.id === fromStageId));
+
+  if (stepIndex === -1) {
+    return [];
+  }
+
+  return steps.slice(stepIndex).flat();
+}
@@ -0,0 +1,77 @@
+/**
+ * Stage SLA rules shared by the server and the client.
+ *
+ * A stage with `slaHours` is breached once it has been in progress for longer
+ * than that. The scheduler then escalates it once (`escalatedAt`), which can
+ * also give the escalation target approval rights on the stage.
+ */
+
+import { getStageApproverRoles, type QuorumStage } from "./stageQuorum";
+
+export const ESCALATION_ACTIONS = ["notify", "add_approver", "reassign"] as const;
+export type EscalationAction = (typeof ESCALATION_ACTIONS)[number];
+
+export interface SlaStage extends QuorumStage {
+  status: string;
+  slaHours?: number | null;
+  escalationRole?: string | null;
+  escalationUserId?: number | null;
+  escalationAction?: EscalationAction | null;
+  escalatedAt?: Date | string | null;
+  assigneeId?: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When the stage is due, or null if it has no SLA or has not started
+ */
+export function getSlaDeadline(stage: SlaStage): Date | null {
+  if (!stage.slaHours || !stage.startedAt) return null;
+  return new Date(new Date(stage.startedAt).getTime() + stage.slaHours * HOUR_MS);
+}
+
+/**
+ * Whether an open stage is past its SLA deadline
+ */
+export function isSlaBreached(stage: SlaStage, now: Date = new Date()): boolean {
+  if (stage.status !== "in_progress") return false;
+  const deadline = getSlaDeadline(stage);
+  return !!deadline && now.getTime() > deadline.getTime();
+}
+
+/**
+ * Whether the scheduler still has to escalate this stage
+ */
+export function needsEscalation(stage: SlaStage, now: Date = new Date()): boolean {
+  return !stage.escalatedAt && isSlaBreached(stage, now) && !!(stage.escalationRole || stage.escalationUserId);
+}
+
+/**
+ * Who may act on a stage: its named assignee if it has one, otherwise its roles,
+ * taking a past escalation into account. Empty `roles` and `userIds` means anyone may act.
+ */
+export function getEffectiveApprovers(stage: SlaStage): { roles: string[]; userIds: number[] } {
+  const roles = stage.assigneeId ? [] : getStageApproverRoles(stage);
+  const userIds = stage.assigneeId ? [stage.assigneeId] : [];
+
+  if (!stage.escalatedAt || !stage.escalationAction || stage.escalationAction === "notify") {
+    return { roles, userIds };
+  }
+
+  const escalationRoles = stage.escalationRole ? [stage.escalationRole] : [];
+  const escalationUserIds = stage.escalationUserId ? [stage.escalationUserId] : [];
+
+  if (stage.escalationAction === "reassign") {
+    return { roles: escalationRoles, userIds: escalationUserIds };
+  }
+
+  // add_approver: the escalation target joins the original approvers
+  if (roles.length === 0 && userIds.length === 0) {
+    return { roles, userIds };
+  }
+  return {
+    roles: Array.from(new Set([...roles, ...escalationRoles])),
+    userIds: Array.from(new Set([...userIds, ...escalationUserIds])),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Field-level diffs for post-submission amendments, and the rules deciding
+ * which already-approved stages have to approve again.
+ *
+ * Each completed stage has a `reapprovalRule`:
+ * - "threshold_crossed": only when the amount rises past the stage's `approvalThreshold`
+ * - "amount_increase": whenever the amount goes up
+ * - "any_change": whenever anything is amended
+ * - "never": approvals given by the stage always stand
+ */
+
+import { getStagesToReopen, type RoutableStage } from "./stageRouting";
+
+export const REAPPROVAL_RULES = ["threshold_crossed", "amount_increase", "any_change", "never"] as const;
+export type ReapprovalRule = (typeof REAPPROVAL_RULES)[number];
+
+// Workflow columns the requester may amend; form fields are diffed as "form.<fieldId>"
+export const AMENDABLE_FIELDS = ["title", "description", "estimatedAmount", "currency"] as const;
+export type AmendableField = (typeof AMENDABLE_FIELDS)[number];
+
+export const FORM_FIELD_PREFIX = "form.";
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface AmendableStage extends RoutableStage {
+  reapprovalRule?: ReapprovalRule | null;
+  approvalThreshold?: string | number | null;
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Changes between two sets of values, for the keys present in `after`
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ""
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [key, newValue] of Object.entries(after)) {
+    if (newValue === undefined) continue;
+    const oldValue = before[key];
+    if (normalize(oldValue) !== normalize(newValue)) {
+      changes.push({ field: `${prefix}${key}`, oldValue: oldValue ?? null, newValue });
+    }
+  }
+  return changes;
+}
+
+function toAmount(value: unknown): number {
+  const amount = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return isNaN(amount) ? 0 : amount;
+}
+
+/**
+ * Whether an amendment invalidates the approval a stage has already given
+ */
+export function requiresReapproval(stage: AmendableStage, changes: FieldChange[]): boolean {
+  if (stage.status !== "completed" || changes.length === 0) return false;
+
+  const amountChange = changes.find(c => c.field === "estimatedAmount");
+  const oldAmount = toAmount(amountChange?.oldValue);
+  const newAmount = toAmount(amountChange?.newValue);
+
+  switch (stage.reapprovalRule || "threshold_crossed") {
+    case "never":
+      return false;
+    case "any_change":
+      return true;
+    case "amount_increase":
+      return !!amountChange && newAmount > oldAmount;
+    case "threshold_crossed": {
+      if (!amountChange || stage.approvalThreshold === null || stage.approvalThreshold === undefined) return false;
+      const threshold = toAmount(stage.approvalThreshold);
+      return oldAmount <= threshold && newAmount > threshold;
+    }
+  }
+}
+
+/**
+ * Stages to reopen after an amendment: everything from the earliest stage
+ * whose approval no longer stands, as when returning to that stage
+ */
+export function getStagesToReapprove<T extends AmendableStage>(stages: T[], changes: FieldChange[]): T[] {
+  const first = [...stages]
+    .sort((a, b) => a.stageOrder - b.stageOrder)
+    .find(stage => requiresReapproval(stage, changes));
+  return first ? getStagesToReopen(stages, first.id) : [];
+}
@@ -0,0 +1,71 @@
+/**
+ * Duplicating a workflow into a new draft. The request details carry over;
+ * stages are rebuilt from the template, and status, approvals, comments and
+ * links stay with the original.
+ */
+
+export interface DuplicableWorkflow {
+  workflowType: string;
+  workflowNumber: string;
+  title: string;
+  description?: string | null;
+  department: string;
+  estimatedAmount?: string | null;
+  currency?: string | null;
+  requiresGa?: boolean | null;
+  requiresPpic?: boolean | null;
+}
+
+export interface DuplicableFile {
+  fileName: string;
+  fileType: string;
+  fileCategory?: string | null;
+  s3Bucket: string;
+  s3Key: string;
+  s3Url?: string | null;
+  fileSize?: number | null;
+  mimeType?: string | null;
+}
+
+/**
+ * The request details the new draft starts from
+ */
+export function getDuplicateDetails(source: DuplicableWorkflow) {
+  return {
+    title: source.title,
+    description: source.description || undefined,
+    department: source.department,
+    estimatedAmount: source.estimatedAmount ? parseFloat(source.estimatedAmount) : undefined,
+    currency: source.currency || undefined,
+    requiresGa: source.requiresGa || false,
+    requiresPpic: source.requiresPpic || false,
+  };
+}
+
+/**
+ * A copied attachment: it points at the same stored object, is no longer tied
+ * to a stage, and counts as uploaded by whoever duplicated the workflow
+ */
+export function getDuplicateFile(file: DuplicableFile, uploadedBy: number) {
+  return {
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileCategory: file.fileCategory || undefined,
+    s3Bucket: file.s3Bucket,
+    s3Key: file.s3Key,
+    s3Url: file.s3Url || "",
+    fileSize: file.fileSize || undefined,
+    mimeType: file.mimeType || undefined,
+    uploadedBy,
+  };
+}
+
+/**
+ * Audit description for a duplicated workflow
+ */
+export function describeDuplication(source: DuplicableWorkflow, copiedFiles: number): string {
+  const attachments = copiedFiles > 0
+    ? ` (${copiedFiles} ${copiedFiles === 1 ? "attachment" : "attachments"} copied)`
+    : "";
+  return `${source.workflowType} workflow duplicated from ${source.workflowNumber}: ${source.title}${attachments}`;
+}
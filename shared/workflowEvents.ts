@@ -0,0 +1,68 @@
+/**
+ * Live workflow events pushed to open pages over a tRPC subscription (SSE).
+ *
+ * Events only say what changed; pages refetch the affected queries rather
+ * than patching their caches from the event.
+ */
+
+export const WORKFLOW_EVENT_TYPES = [
+  "workflow_status", // The workflow's overall status changed
+  "stage_status", // A stage started, completed, was rejected or reopened
+  "approval", // A vote was recorded that didn't close the stage
+  "comment", // A comment was added, edited or deleted
+  "file", // A file was uploaded or deleted
+  "workflow_updated", // Details or stages were edited
+] as const;
+export type WorkflowEventType = (typeof WORKFLOW_EVENT_TYPES)[number];
+
+export interface WorkflowEvent {
+  type: WorkflowEventType;
+  workflowId: string;
+  stageId?: string;
+  stageName?: string;
+  status?: string; // New status for status events, the action for approvals
+  actorId?: number | null;
+  actorName?: string | null;
+  at: Date;
+}
+
+// The parts of the page each event type makes stale
+export type WorkflowEventScope = "workflow" | "stages" | "comments" | "files" | "lists";
+
+const EVENT_SCOPES: Record<WorkflowEventType, WorkflowEventScope[]> = {
+  workflow_status: ["workflow", "stages", "lists"],
+  stage_status: ["stages", "workflow", "lists"],
+  approval: ["stages"],
+  comment: ["comments"],
+  file: ["files"],
+  workflow_updated: ["workflow", "stages", "lists"],
+};
+
+export function getEventScopes(event: Pick<WorkflowEvent, "type">): WorkflowEventScope[] {
+  return EVENT_SCOPES[event.type];
+}
+
+/**
+ * One-line description of something another user did, for a toast, or null
+ * when the change isn't worth interrupting the viewer for
+ */
+export function describeWorkflowEvent(event: WorkflowEvent): string | null {
+  const by = event.actorName ? ` by ${event.actorName}` : "";
+
+  switch (event.type) {
+    case "workflow_status":
+      return `Workflow is now ${(event.status || "updated").replace(/_/g, " ")}${by}`;
+    case "stage_status":
+      if (event.status === "completed") return `"${event.stageName}" was approved${by}`;
+      if (event.status === "rejected") return `"${event.stageName}" was rejected${by}`;
+      return null;
+    case "approval":
+      return `${event.actorName || "Someone"} ${event.status || "responded to"} "${event.stageName}"`;
+    case "comment":
+      return null;
+    case "file":
+      return null;
+    case "workflow_updated":
+      return `Workflow was updated${by}`;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Parent/child links between workflows, e.g. a PR raised as a follow-up to an
+ * approved MAF, then a CATTO for capital items.
+ */
+
+// The usual next step after each workflow type, suggested when creating a follow-up
+export const FOLLOW_UP_TYPES: Record<string, string[]> = {
+  MAF: ["PR"],
+  PR: ["CATTO"],
+  CATTO: [],
+};
+
+// A follow-up can't hang off a workflow that will never complete
+export const UNLINKABLE_STATUSES = ["rejected", "cancelled", "discontinued", "archived"];
+
+export interface LinkedWorkflow {
+  id: string;
+  parentWorkflowId?: string | null;
+}
+
+/**
+ * Why a child workflow cannot be submitted yet, or null if it can
+ */
+export function getSubmissionBlocker(
+  child: { parentWorkflowId?: string | null; blockedUntilParentCompleted?: boolean | null },
+  parent: { workflowNumber: string; overallStatus: string } | null | undefined
+): string | null {
+  if (!child.parentWorkflowId || !child.blockedUntilParentCompleted) return null;
+  if (!parent) return "The parent workflow no longer exists";
+  if (parent.overallStatus !== "completed") {
+    return `Waiting for parent workflow ${parent.workflowNumber} to be completed`;
+  }
+  return null;
+}
+
+/**
+ * Workflows of a chain in tree order (parents before their children), with their depth below the root
+ */
+export function orderWorkflowChain<T extends LinkedWorkflow>(
+  workflows: T[],
+  rootId: string
+): Array<T & { depth: number }> {
+  const ordered: Array<T & { depth: number }> = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string, depth: number) => {
+    const workflow = workflows.find(w => w.id === id);
+    if (!workflow || visited.has(id)) return;
+    visited.add(id);
+    ordered.push({ ...workflow, depth });
+    for (const child of workflows.filter(w => w.parentWorkflowId === id)) {
+      visit(child.id, depth + 1);
+    }
+  };
+
+  visit(rootId, 0);
+  return ordered;
+}
@@ -0,0 +1,122 @@
+/**
+ * Filters, sorting and paging for the workflow list, shared by the paginated
+ * `workflows.list` procedure and the Dashboard (which mirrors them in the URL).
+ */
+
+export const WORKFLOW_SORT_FIELDS = ["createdAt", "updatedAt", "title", "workflowNumber", "estimatedAmount"] as const;
+export type WorkflowSortField = (typeof WORKFLOW_SORT_FIELDS)[number];
+
+export const SORT_DIRECTIONS = ["asc", "desc"] as const;
+export type SortDirection = (typeof SORT_DIRECTIONS)[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface WorkflowListFilters {
+  search: string;
+  status: string; // "all" for no filter
+  type: string;
+  department: string;
+  dateFrom: string; // yyyy-MM-dd, "" for no bound
+  dateTo: string;
+  minAmount: string; // "" for no bound
+  maxAmount: string;
+  sortBy: WorkflowSortField;
+  sortDirection: SortDirection;
+  page: number;
+}
+
+export const DEFAULT_WORKFLOW_FILTERS: WorkflowListFilters = {
+  search: "",
+  status: "all",
+  type: "all",
+  department: "all",
+  dateFrom: "",
+  dateTo: "",
+  minAmount: "",
+  maxAmount: "",
+  sortBy: "createdAt",
+  sortDirection: "desc",
+  page: 1,
+};
+
+/**
+ * Read filters from a query string, falling back to `base` for anything missing or invalid
+ */
+export function filtersFromSearchParams(
+  search: string,
+  base: WorkflowListFilters = DEFAULT_WORKFLOW_FILTERS
+): WorkflowListFilters {
+  const params = new URLSearchParams(search);
+  const sortBy = params.get("sort");
+  const sortDirection = params.get("dir");
+  const page = parseInt(params.get("page") || "", 10);
+
+  return {
+    search: params.get("q") ?? base.search,
+    status: params.get("status") ?? base.status,
+    type: params.get("type") ?? base.type,
+    department: params.get("department") ?? base.department,
+    dateFrom: params.get("from") ?? base.dateFrom,
+    dateTo: params.get("to") ?? base.dateTo,
+    minAmount: params.get("min") ?? base.minAmount,
+    maxAmount: params.get("max") ?? base.maxAmount,
+    sortBy: WORKFLOW_SORT_FIELDS.includes(sortBy as WorkflowSortField) ? (sortBy as WorkflowSortField) : base.sortBy,
+    sortDirection: SORT_DIRECTIONS.includes(sortDirection as SortDirection)
+      ? (sortDirection as SortDirection)
+      : base.sortDirection,
+    page: page > 0 ? page : base.page,
+  };
+}
+
+/**
+ * Query string for a set of filters, leaving out everything at its default
+ */
+export function filtersToSearchParams(filters: WorkflowListFilters): string {
+  const params = new URLSearchParams();
+  const d = DEFAULT_WORKFLOW_FILTERS;
+
+  if (filters.search !== d.search) params.set("q", filters.search);
+  if (filters.status !== d.status) params.set("status", filters.status);
+  if (filters.type !== d.type) params.set("type", filters.type);
+  if (filters.department !== d.department) params.set("department", filters.department);
+  if (filters.dateFrom !== d.dateFrom) params.set("from", filters.dateFrom);
+  if (filters.dateTo !== d.dateTo) params.set("to", filters.dateTo);
+  if (filters.minAmount !== d.minAmount) params.set("min", filters.minAmount);
+  if (filters.maxAmount !== d.maxAmount) params.set("max", filters.maxAmount);
+  if (filters.sortBy !== d.sortBy) params.set("sort", filters.sortBy);
+  if (filters.sortDirection !== d.sortDirection) params.set("dir", filters.sortDirection);
+  if (filters.page !== d.page) params.set("page", String(filters.page));
+
+  return params.toString();
+}
+
+/**
+ * The `workflows.list` query parameters for a set of filters, without paging
+ */
+export function filtersToListQuery(filters: Omit<WorkflowListFilters, "page">) {
+  const amount = (value: string) => {
+    const n = parseFloat(value);
+    return Number.isFinite(n) ? n : undefined;
+  };
+
+  return {
+    search: filters.search.trim() || undefined,
+    status: filters.status !== "all" ? filters.status : undefined,
+    workflowType: filters.type !== "all" ? filters.type : undefined,
+    department: filters.department !== "all" ? filters.department : undefined,
+    createdFrom: filters.dateFrom ? new Date(filters.dateFrom + "T00:00:00") : undefined,
+    createdTo: filters.dateTo ? new Date(filters.dateTo + "T23:59:59") : undefined,
+    minAmount: amount(filters.minAmount),
+    maxAmount: amount(filters.maxAmount),
+    sortBy: filters.sortBy,
+    sortDirection: filters.sortDirection,
+  };
+}
+
+/**
+ * Escape the LIKE wildcards in user input so it is matched literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
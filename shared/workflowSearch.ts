@@ -0,0 +1,107 @@
+/**
+ * Query parsing and snippet highlighting for the global workflow search.
+ *
+ * The searchable text of a workflow (its own fields, comments, form data and
+ * attachment file names) is stored as search documents; a document matches
+ * when it contains every term of the query, case-insensitively. Matching uses
+ * the documents' full-text index.
+ */
+
+export const SEARCH_SOURCE_TYPES = ["workflow", "comment", "form", "file"] as const;
+export type SearchSourceType = (typeof SEARCH_SOURCE_TYPES)[number];
+
+export const MIN_SEARCH_TERM_LENGTH = 2;
+export const MAX_SEARCH_TERMS = 8;
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Split a query into lower-case terms; "quoted phrases" stay together
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).replace(/\s+/g, " ").trim().toLowerCase();
+    if (term.length >= MIN_SEARCH_TERM_LENGTH && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+
+  return terms.slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * A boolean-mode MATCH ... AGAINST query requiring every term, each as a phrase
+ * so operator characters in it are taken literally
+ */
+export function buildFullTextQuery(terms: string[]): string {
+  return terms
+    .map(term => term.replace(/"/g, " ").replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map(term => `+"${term}"`)
+    .join(" ");
+}
+
+/**
+ * The text values of submitted form data, in field order
+ */
+export function flattenFormData(value: unknown): string {
+  const parts: string[] = [];
+  const visit = (v: unknown) => {
+    if (v === null || v === undefined) return;
+    if (typeof v === "string") {
+      if (v.trim()) parts.push(v.trim());
+    } else if (typeof v === "number") {
+      parts.push(String(v));
+    } else if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (typeof v === "object") {
+      Object.values(v as Record<string, unknown>).forEach(visit);
+    }
+  };
+  visit(value);
+  return parts.join(" · ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A short excerpt around the first matching term, split into segments so
+ * every occurrence of a term can be highlighted
+ */
+export function buildSnippet(text: string, terms: string[], radius = 60): SnippetSegment[] {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (terms.length === 0) {
+    return [{ text: normalized.slice(0, radius * 2), highlight: false }];
+  }
+
+  const lower = normalized.toLowerCase();
+  const first = Math.min(
+    ...terms.map(term => {
+      const at = lower.indexOf(term);
+      return at === -1 ? Infinity : at;
+    })
+  );
+  const anchor = first === Infinity ? 0 : first;
+
+  const start = Math.max(0, anchor - radius);
+  const end = Math.min(normalized.length, anchor + radius * 2);
+  const excerpt = (start > 0 ? "…" : "") + normalized.slice(start, end) + (end < normalized.length ? "…" : "");
+
+  // Longest terms first so a phrase wins over a word inside it
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(${alternatives.join("|")})`, "gi");
+
+  return excerpt
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, highlight: terms.includes(part.toLowerCase()) }));
+}
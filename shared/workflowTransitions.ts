@@ -0,0 +1,110 @@
+/**
+ * Legal status transitions for workflows and stages, and who may trigger them.
+ *
+ * - "requester": the user who created the workflow
+ * - "approver": a user allowed to act on the stage in question
+ * - "admin": users with the admin role
+ * - "system": automatic moves made by the approval engine or the scheduler
+ *
+ * The server enforces these rules in `workflowStateMachine.ts`; the client can
+ * use them to decide which actions to offer.
+ */
+
+export const WORKFLOW_STATUSES = [
+  "draft",
+  "in_progress",
+  "completed",
+  "rejected",
+  "revision_requested",
+  "cancelled",
+  "discontinued",
+  "archived",
+] as const;
+export type WorkflowStatus = (typeof WORKFLOW_STATUSES)[number];
+
+export const STAGE_STATUSES = ["pending", "in_progress", "completed", "rejected", "skipped"] as const;
+export type StageStatus = (typeof STAGE_STATUSES)[number];
+
+export type TransitionActor = "requester" | "approver" | "admin" | "system";
+
+type TransitionTable<S extends string> = Record<S, Partial<Record<S, TransitionActor[]>>>;
+
+export const WORKFLOW_TRANSITIONS: TransitionTable<WorkflowStatus> = {
+  draft: {
+    in_progress: ["requester", "admin"],
+    cancelled: ["requester", "admin"],
+    discontinued: ["requester", "admin"],
+  },
+  in_progress: {
+    completed: ["system", "admin"],
+    rejected: ["system", "admin"],
+    revision_requested: ["approver", "admin"],
+    cancelled: ["requester", "admin"],
+    discontinued: ["requester", "admin"],
+  },
+  revision_requested: {
+    in_progress: ["requester", "admin"],
+    cancelled: ["requester", "admin"],
+    discontinued: ["requester", "admin"],
+  },
+  rejected: {
+    discontinued: ["requester", "admin"],
+    archived: ["admin"],
+  },
+  cancelled: {
+    discontinued: ["requester", "admin"],
+    archived: ["admin"],
+  },
+  completed: {
+    archived: ["admin"],
+  },
+  discontinued: {
+    archived: ["admin"],
+  },
+  archived: {},
+};
+
+export const STAGE_TRANSITIONS: TransitionTable<StageStatus> = {
+  pending: {
+    in_progress: ["system"],
+    skipped: ["system", "admin"],
+  },
+  in_progress: {
+    completed: ["approver", "system"],
+    rejected: ["approver", "system"],
+    pending: ["system"], // reopened for revision
+  },
+  completed: {
+    pending: ["system"], // reopened for revision
+  },
+  rejected: {},
+  skipped: {
+    pending: ["system"],
+  },
+};
+
+export type TransitionCheck = "allowed" | "illegal" | "forbidden";
+
+/**
+ * Check a transition against a table: "illegal" if it never makes sense,
+ * "forbidden" if it exists but none of the actor's capacities may trigger it
+ */
+export function checkTransition<S extends string>(
+  table: TransitionTable<S>,
+  from: S,
+  to: S,
+  actors: TransitionActor[]
+): TransitionCheck {
+  const allowedBy = table[from]?.[to];
+  if (!allowedBy) return "illegal";
+  return allowedBy.some(actor => actors.includes(actor)) ? "allowed" : "forbidden";
+}
+
+/**
+ * Statuses a workflow can move to from `from` for the given capacities
+ */
+export function getAvailableWorkflowTransitions(from: WorkflowStatus, actors: TransitionActor[]): WorkflowStatus[] {
+  return (Object.keys(WORKFLOW_TRANSITIONS[from] || {}) as WorkflowStatus[]).filter(
+    to => checkTransition(WORKFLOW_TRANSITIONS, from, to, actors) === "allowed"
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Workflow watchers: users who follow a single workflow, every workflow of a
+ * type, or every workflow of a department, and are told about its progress.
+ *
+ * Someone watching one workflow was added by name (by themselves, the
+ * requester or an admin) and may see it for that reason alone. Type and
+ * department subscriptions are broad, so their watchers only hear about
+ * workflows they can already see.
+ */
+
+export const WATCH_SCOPES = ["workflow", "workflow_type", "department"] as const;
+export type WatchScope = (typeof WATCH_SCOPES)[number];
+
+export interface WatchSubscription {
+  userId: number;
+  scope: WatchScope;
+  workflowId?: string | null;
+  workflowType?: string | null;
+  department?: string | null;
+}
+
+export interface WatchedWorkflow {
+  id: string;
+  workflowType: string;
+  department: string;
+}
+
+/**
+ * Whether a subscription covers a workflow
+ */
+export function matchesSubscription(subscription: WatchSubscription, workflow: WatchedWorkflow): boolean {
+  switch (subscription.scope) {
+    case "workflow":
+      return subscription.workflowId === workflow.id;
+    case "workflow_type":
+      return subscription.workflowType === workflow.workflowType;
+    case "department":
+      return subscription.department === workflow.department;
+  }
+}
+
+/**
+ * The users to notify about a workflow, leaving out `excludeUserIds` (typically
+ * the person who caused the event). `direct` watch the workflow itself; `broad`
+ * only match by type or department and still need an access check.
+ */
+export function getWatcherIds(
+  subscriptions: WatchSubscription[],
+  workflow: WatchedWorkflow,
+  excludeUserIds: number[] = []
+): { direct: number[]; broad: number[] } {
+  const direct = new Set<number>();
+  const broad = new Set<number>();
+
+  for (const subscription of subscriptions) {
+    if (excludeUserIds.includes(subscription.userId)) continue;
+    if (!matchesSubscription(subscription, workflow)) continue;
+    (subscription.scope === "workflow" ? direct : broad).add(subscription.userId);
+  }
+
+  return {
+    direct: Array.from(direct),
+    broad: Array.from(broad).filter(id => !direct.has(id)),
+  };
+}
+
+/**
+ * Short label for a subscription, e.g. "All PR workflows"
+ */
+export function describeSubscription(subscription: WatchSubscription): string {
+  switch (subscription.scope) {
+    case "workflow":
+      return "This workflow";
+    case "workflow_type":
+      return `All ${subscription.workflowType} workflows`;
+    case "department":
+      return `All ${subscription.department} workflows`;
+  }
+}